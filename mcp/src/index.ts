@@ -6,8 +6,10 @@
  * Auto-starts Chrome when needed. Uses chrome-ws-lib for direct CDP access.
  */
 
-import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { McpServer, ResourceTemplate } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import { SubscribeRequestSchema, UnsubscribeRequestSchema } from "@modelcontextprotocol/sdk/types.js";
+import { readFileSync } from "fs";
 import { z } from "zod";
 import { join, dirname } from "path";
 import { fileURLToPath } from "url";
@@ -22,6 +24,12 @@ const chromeLib = require(join(__dirname, "../../skills/browsing/chrome-ws-lib.j
 // Track if Chrome has been started
 let chromeStarted = false;
 
+// Popups reported by the last action response, for options.switchToPopup
+let lastReportedPopups: any[] = [];
+
+// Screenshot of the page after the last action, for inline image blocks
+let lastCaptureImage: string | null = null;
+
 /**
  * Detect if a display is available for headed browser mode.
  * Returns true if we can show a browser window.
@@ -59,6 +67,22 @@ if (forceHeadless) {
   headlessMode = !hasDisplay();
 }
 
+// --inline-images (or CHROME_INLINE_IMAGES=1): return the screenshot of the page after
+// an action as an image block next to the text; options.inlineImage overrides per call.
+// --inline-image-max-size (default 512KB) caps the encoded size; larger PNGs are downscaled.
+const inlineImagesDefault = process.argv.includes('--inline-images')
+  || /^(1|true|yes)$/i.test(process.env.CHROME_INLINE_IMAGES || '');
+const inlineImageMaxSize = process.argv.filter(arg => arg.startsWith('--inline-image-max-size=')).pop()?.split('=')[1]
+  || process.env.CHROME_INLINE_IMAGE_MAX_SIZE;
+const inlineImageLimits = inlineImageMaxSize ? { maxBytes: chromeLib.parseSize(inlineImageMaxSize) } : {};
+
+// Session files are published as resources under this URI prefix
+const SESSION_RESOURCE_PREFIX = "chrome-session://captures/";
+
+// Resource URIs clients subscribed to, and the session files they were last told about
+const resourceSubscriptions = new Set<string>();
+let knownSessionFiles = new Map<string, number>();
+
 // Action enum for use_browser tool
 // Note: click and type now use CDP events by default (React-compatible)
 enum BrowserAction {
@@ -66,23 +90,77 @@ enum BrowserAction {
   CLICK = "click",              // Uses CDP mouse events (works with React)
   TYPE = "type",                // Uses CDP insertText (works with React)
   EXTRACT = "extract",
+  // Repeating items or tables to JSON, optionally across pages
+  EXTRACT_STRUCTURED = "extract_structured",
   SCREENSHOT = "screenshot",
+  PDF = "pdf",                  // Page.printToPDF (headless only)
+  // Screenshot diff against a named baseline image in the project
+  VISUAL_COMPARE = "visual_compare",
+  // Accessibility and page-quality findings (alt text, labels, contrast, links, ...)
+  AUDIT = "audit",
+  // Performance.getMetrics, navigation timing, Web Vitals; Chrome traces with JS/CSS coverage
+  PERF = "perf",
+  TRACE_START = "trace_start",
+  TRACE_STOP = "trace_stop",
   EVAL = "eval",
   SELECT = "select",
   ATTR = "attr",
   AWAIT_ELEMENT = "await_element",
   AWAIT_TEXT = "await_text",
+  AWAIT_GONE = "await_gone",
+  AWAIT_URL = "await_url",
+  AWAIT_NETWORK_IDLE = "await_network_idle",
+  // File inputs / native file choosers, and files the page downloads
+  UPLOAD = "upload",
+  AWAIT_DOWNLOAD = "await_download",
   NEW_TAB = "new_tab",
   CLOSE_TAB = "close_tab",
   LIST_TABS = "list_tabs",
+  // Isolated browser contexts (own cookies, storage and cache)
+  NEW_CONTEXT = "new_context",
+  CLOSE_CONTEXT = "close_context",
   SHOW_BROWSER = "show_browser",
   HIDE_BROWSER = "hide_browser",
   BROWSER_MODE = "browser_mode",
+  EMULATE = "emulate",
+  // alert/confirm/prompt/beforeunload answers (dialogs are handled automatically)
+  DIALOG_POLICY = "dialog_policy",
   SET_PROFILE = "set_profile",
   GET_PROFILE = "get_profile",
   HELP = "help",
   // Special keys (Tab, Enter, Escape, Arrow keys, etc.)
   KEYBOARD_PRESS = "keyboard_press",
+  // Pointer interactions beyond a left click (Input.dispatchMouseEvent / dispatchDragEvent)
+  HOVER = "hover",
+  DOUBLE_CLICK = "double_click",
+  RIGHT_CLICK = "right_click",
+  DRAG = "drag",
+  SCROLL = "scroll",
+  MOUSE_WHEEL = "mouse_wheel",
+  CONSOLE_LOG = "console_log",
+  // Network recording (CDP Network domain)
+  NETWORK_START = "network_start",
+  NETWORK_LOG = "network_log",
+  NETWORK_EXPORT = "network_export",
+  // Request interception and mocking (CDP Fetch domain)
+  ROUTE_ADD = "route_add",
+  ROUTE_LIST = "route_list",
+  ROUTE_CLEAR = "route_clear",
+  // Cookies, localStorage/sessionStorage and storage state files
+  COOKIES = "cookies",
+  COOKIE_SET = "cookie_set",
+  COOKIE_DELETE = "cookie_delete",
+  STORAGE_GET = "storage_get",
+  STORAGE_SET = "storage_set",
+  STORAGE_CLEAR = "storage_clear",
+  STORAGE_EXPORT = "storage_export",
+  STORAGE_IMPORT = "storage_import",
+  // Accessibility tree with element refs (ref=e17) usable as selectors
+  SNAPSHOT = "snapshot",
+  // Re-run a recorded session.jsonl and report the first step that turns out differently
+  REPLAY = "replay",
+  // Several steps and expect_* assertions in one call, captured once at the end
+  BATCH = "batch",
 }
 
 // Zod schema for use_browser tool parameters
@@ -93,13 +171,16 @@ const UseBrowserParams = {
     .int()
     .min(0)
     .default(0)
-    .describe("Which tab. Indices shift when tabs close."),
+    .describe("Which tab. Indices shift when tabs close; prefer tab_id in multi-tab workflows."),
+  tab_id: z.string()
+    .optional()
+    .describe("Stable tab: target id (from new_tab/list_tabs, or a unique prefix of 4+ characters) or a name given to new_tab. Overrides tab_index."),
   selector: z.string()
     .optional()
-    .describe("CSS or XPath selector. XPath must start with / or //. Optional for type (types into current focus)."),
+    .describe("CSS or XPath selector, or ref=e17 from snapshot. XPath must start with / or //. Use >>> to scope into iframes and shadow roots (iframe#pay >>> input[name=card], frame=checkout >>> #card, my-app >>> button). Optional for type (types into current focus)."),
   payload: z.string()
     .optional()
-    .describe("Action-specific data: navigate=URL | type=text (\\t=Tab, \\n=Enter) | extract=format (text|html|markdown) | screenshot=filename | eval=JavaScript | select=option value | attr=attribute name | await_text=text to wait for | keyboard_press=key name (Tab, Enter, Space, Escape, Arrow*, F1-F12)"),
+    .describe("Action-specific data: navigate=URL | type=text (\\t=Tab, \\n=Enter, {{secret:NAME}} from env/secrets file) | extract=format (text|html|markdown) | extract_structured=optional .json filename (relative to the session dir, the default location) | screenshot=filename (.png, .jpg, .webp) | pdf=optional filename (relative to the session dir; default {prefix}.pdf there) | visual_compare=baseline name (e.g. checkout/summary) | audit=optional .json filename (relative to the session dir, the default location) | perf=optional .json filename (relative to the session dir) | trace_stop=optional trace .json filename (relative to the session dir, the default location) | eval=JavaScript ({{secret:NAME}} allowed) | select=option value | attr=attribute name | await_text=text to wait for | await_url=URL pattern (substring, glob or /regex/) | upload=local file path (options.files for several) | await_download=optional URL/filename pattern | keyboard_press=key name (Tab, Enter, Space, Escape, Arrow*, F1-F12) | drag=drop target selector (or options.x/y offset) | scroll=optional selector to scroll into view (loads more on infinite feeds) | console_log=capture prefix to read since (e.g. 003-click), or 'clear' / 'clear:<prefix>' | network_log=URL pattern | network_export=optional .har filename (relative to the session dir) | emulate=device preset (iphone-15, pixel-7, ipad-mini, desktop, ...) or 'reset' | dialog_policy=accept|dismiss|default (empty = show current) | new_tab=optional URL | new_context=optional context name | close_context=context id or name | route_add=URL pattern | route_clear=optional rule id (e.g. r2) | cookie_delete=cookie name (empty = all for page) | storage_get/storage_clear=optional key | storage_set=key | storage_export/storage_import=state file path (export: relative to the session dir) | replay=session.jsonl path or session dir | batch: steps go in options.steps"),
   timeout: z.number()
     .int()
     .min(0)
@@ -114,7 +195,11 @@ const UseBrowserParams = {
     shift: z.boolean().optional(),
   }).optional().describe("Keyboard modifiers for keyboard_press"),
   // Element index when selector matches multiple elements
-  index: z.number().int().min(0).optional().describe("Element index for select action when selector matches multiple elements")
+  index: z.number().int().min(0).optional().describe("Element index for select action when selector matches multiple elements"),
+  // Structured settings for actions that need more than a payload string
+  options: z.record(z.string(), z.any())
+    .optional()
+    .describe("Action-specific options. navigate: {timing: add a one-line TTFB/FCP/LCP/load summary} | trace_start: {categories: [trace categories], screenshots: filmstrip, coverage: false skips JS/CSS coverage} | emulate: {device, width, height, deviceScaleFactor, mobile, touch, userAgent, colorScheme, reducedMotion, locale, timezone, geolocation: {latitude, longitude}, network (offline|slow-3g|fast-3g|4g|{latency, downloadKbps, uploadKbps}), reset}; null clears a setting | navigate/click/type/select/eval/keyboard_press/hover/double_click/right_click/drag/scroll/mouse_wheel: {settle: {timeout, networkIdleMs, domQuietMs, maxInflight} | ms | false, switchToPopup: bring a popup the action opened to the front} | extract markdown: {main: false keeps navigation, headers and footers} | extract_structured: {fields: {name: selector | {selector, type (text|attr|html|number), attr, all}}, tables: true (every table to rows keyed by header), next: selector, pages (max, default 10), settle} | dialog_policy: {alert, confirm, prompt, beforeunload (accept|dismiss), promptText} | screenshot: {fullPage, format (png|jpeg|webp), quality, mask: [selectors], maskColor} | pdf: {format (letter|a4|...), width, height, landscape, printBackground, margin (e.g. '1cm' or {top, right, bottom, left}), headerTemplate, footerTemplate, scale, pageRanges} | visual_compare: {update: replace the baseline, threshold (per-pixel colour distance 0-1, default 0.1), maxDiffPercent (default 0), ignore: [selectors], mask: [selectors], fullPage, baselineDir} | new_tab: {name (use as tab_id), context (id or name from new_context)} | await_network_idle: {idleMs, maxInflight} | route_add: {method, block, status, headers, body (string or JSON), file, delay, requestHeaders (null removes)} | cookies: {urls} | cookie_set: {name, value, url, domain, path, expires, httpOnly, secure, sameSite} | cookie_delete: {url, domain, path} | storage_get/storage_set/storage_clear: {type (local|session), origin, value} | storage_export: {origins} | network_start: {bodies, maxBodySize} | network_log/network_export: {url, status (404|4xx|failed|errors), type (Document|XHR|Fetch|Script|...)} | audit: {rules: [image-alt, label, button-name, color-contrast, duplicate-id, heading-order, html-lang, target-size, mixed-content, broken-link] (default all but broken-link, which requests links with the page cookies and skips logout/delete-like ones), maxLinks (same-origin links checked, default 50), minTargetSize (px, default 24)}; selector scopes it | drag: {x, y (offset from the dragged element instead of a drop selector), steps (intermediate moves, default 10)} | scroll: {x, y (pixels; default one screen down), to (top|bottom|left|right)}; selector = scrollable element (default page) | mouse_wheel: {deltaX, deltaY, x, y (viewport point when no selector)} | any action: {inlineImage: return the screenshot/after-screenshot as an image block (default from --inline-images)} | replay: {from, to (step numbers), continue (keep going after a difference)} | batch: {steps: [{action, selector, payload, options, timeout, tab_id}, ...] (any action, plus expect_text (payload text or /regex/), expect_url (payload pattern), expect_element_count (payload count or options.min/max), expect_attr (payload attribute, options.value)), settle}")
 };
 
 type UseBrowserInput = z.infer<ReturnType<typeof z.object<typeof UseBrowserParams>>>;
@@ -142,31 +227,138 @@ async function ensureChromeRunning(): Promise<void> {
   }
 }
 
+/**
+ * Format console messages captured during an action (first 3, with source location)
+ */
+function formatConsoleSummary(consoleLog: any[] | undefined): string[] {
+  // Dialogs get their own lines (formatDialogs)
+  consoleLog = consoleLog?.filter((msg: any) => msg.source !== 'dialog');
+  if (!consoleLog || consoleLog.length === 0) {
+    return [];
+  }
+
+  const lines = [`Console: ${consoleLog.length} messages`];
+  consoleLog.slice(0, 3).forEach((msg: any) => {
+    const location = msg.url ? ` (${msg.url.split('/').pop() || msg.url}:${msg.lineNumber})` : '';
+    lines.push(`  ${msg.level}: ${msg.text}${location}`);
+  });
+  if (consoleLog.length > 3) {
+    lines.push(`  ... +${consoleLog.length - 3} more`);
+  }
+  return lines;
+}
+
+/**
+ * Format failed and 4xx/5xx requests seen during an action (first 5)
+ */
+function formatNetworkProblems(networkProblems: any[] | undefined): string[] {
+  if (!networkProblems || networkProblems.length === 0) {
+    return [];
+  }
+
+  const lines = [`Network: ${networkProblems.length} failed/error requests`];
+  networkProblems.slice(0, 5).forEach((entry: any) => {
+    lines.push(`  ${chromeLib.formatNetworkEntry(entry)}`);
+  });
+  if (networkProblems.length > 5) {
+    lines.push(`  ... +${networkProblems.length - 5} more (use network_log with status "errors")`);
+  }
+  return lines;
+}
+
+/**
+ * Format downloads started during an action
+ */
+function formatDownloads(downloads: any[] | undefined): string[] {
+  if (!downloads || downloads.length === 0) {
+    return [];
+  }
+  return [
+    `Downloads: ${downloads.length}`,
+    ...downloads.map((download: any) => `  ${chromeLib.formatDownload(download)}`)
+  ];
+}
+
+/**
+ * Format JavaScript dialogs answered during an action (logged with the console messages)
+ */
+function formatDialogs(consoleLog: any[] | undefined): string[] {
+  const dialogs = (consoleLog || []).filter((msg: any) => msg.source === 'dialog');
+  if (dialogs.length === 0) {
+    return [];
+  }
+  return [
+    `Dialogs: ${dialogs.length}`,
+    ...dialogs.map((msg: any) => `  ${msg.text}`)
+  ];
+}
+
+/**
+ * Format tabs opened by the page during an action (window.open, target=_blank)
+ */
+function formatPopups(popups: any[] | undefined): string[] {
+  lastReportedPopups = popups || [];
+  return lastReportedPopups.map((popup: any) => `Opened popup as tab ${popup.tabIndex} (id ${popup.targetId}): ${popup.url}`);
+}
+
+/**
+ * Bring the most recent reported popup to the front
+ */
+async function switchToReportedPopup(): Promise<string> {
+  const popup = lastReportedPopups[lastReportedPopups.length - 1];
+  if (!popup) {
+    return 'No popup opened; staying on the current tab';
+  }
+  const activated = await chromeLib.activateTab(popup.tabIndex);
+  return `Switched to popup tab ${activated.tabIndex}: use tab_id "${activated.targetId}" for further actions`;
+}
+
+/**
+ * Format requests handled by route rules during an action (first 5)
+ */
+function formatMockedRequests(mocked: any[] | undefined): string[] {
+  if (!mocked || mocked.length === 0) {
+    return [];
+  }
+
+  const lines = [`Routes: ${mocked.length} requests handled by route rules`];
+  mocked.slice(0, 5).forEach((entry: any) => {
+    lines.push(`  ${chromeLib.formatMockedRequest(entry)}`);
+  });
+  if (mocked.length > 5) {
+    lines.push(`  ... +${mocked.length - 5} more`);
+  }
+  return lines;
+}
+
 /**
  * Format action response with capture information
  */
 function formatActionResponse(actionResult: any, actionDescription: string): string {
   const prefix = actionResult.capturePrefix || '???';
+  lastCaptureImage = actionResult.files?.screenshot || null;
 
   const response = [
     `${actionDescription}`,
     `Current URL: ${actionResult.url || 'unknown'}`,
     `Size: ${actionResult.pageSize?.width}×${actionResult.pageSize?.height}`,
+    ...(actionResult.emulation ? [`Emulation: ${actionResult.emulation}`] : []),
     `Session dir: ${actionResult.sessionDir}`,
     `Files: ${prefix}.html, ${prefix}.md, ${prefix}.png, ${prefix}-console.txt`
   ];
 
-  // Add console messages if any
-  if (actionResult.consoleLog && actionResult.consoleLog.length > 0) {
-    response.push(`Console: ${actionResult.consoleLog.length} messages`);
-    actionResult.consoleLog.slice(0, 3).forEach((msg: any) => {
-      response.push(`  ${msg.level}: ${msg.text}`);
-    });
-    if (actionResult.consoleLog.length > 3) {
-      response.push(`  ... +${actionResult.consoleLog.length - 3} more`);
-    }
+  if (actionResult.settled) {
+    response.push(chromeLib.formatSettleResult(actionResult.settled));
   }
 
+  // Add console messages and failed requests if any
+  response.push(...formatPopups(actionResult.popups));
+  response.push(...formatDialogs(actionResult.consoleLog));
+  response.push(...formatConsoleSummary(actionResult.consoleLog));
+  response.push(...formatNetworkProblems(actionResult.networkProblems));
+  response.push(...formatMockedRequests(actionResult.mocked));
+  response.push(...formatDownloads(actionResult.downloads));
+
   // Compact DOM summary
   if (actionResult.domSummary) {
     const lines = actionResult.domSummary.split('\n').slice(0, 8);
@@ -191,62 +383,175 @@ function formatCaptureResponse(
     diffSummary: string;
     domSummary: string;
     pageSize: { width: number; height: number };
+    consoleLog?: any[];
+    networkProblems?: any[];
+    mocked?: any[];
+    downloads?: any[];
+    popups?: any[];
+    emulation?: string | null;
+    settled?: any;
+    visualChange?: any;
   }
 ): string {
+  lastCaptureImage = capture.files.afterScreenshot || null;
   const fileList = Object.entries(capture.files)
     .map(([key, path]) => `  ${key}: ${path}`)
     .join('\n');
 
+  const consoleLines = [
+    ...formatPopups(capture.popups),
+    ...formatDialogs(capture.consoleLog),
+    ...formatConsoleSummary(capture.consoleLog),
+    ...formatNetworkProblems(capture.networkProblems),
+    ...formatMockedRequests(capture.mocked),
+    ...formatDownloads(capture.downloads)
+  ];
+
   return `${action}: ${details}
 
 📁 Capture saved to: ${capture.sessionDir}
 ${fileList}
 
-📊 Page: ${capture.pageSize.width}×${capture.pageSize.height}
+📊 Page: ${capture.pageSize.width}×${capture.pageSize.height}${capture.settled ? ' — ' + chromeLib.formatSettleResult(capture.settled) : ''}${capture.emulation ? '\n📱 Emulation: ' + capture.emulation : ''}
 ${capture.domSummary}
 
 📝 DOM Changes:
-${capture.diffSummary}`;
+${capture.diffSummary}${capture.visualChange ? '\n' + chromeLib.formatVisualChange(capture.visualChange) : ''}${consoleLines.length > 0 ? '\n\n' + consoleLines.join('\n') : ''}`;
+}
+
+/**
+ * Run batch steps in order without per-step captures, stopping at the first
+ * failure, then capture the page once (final state or the state at the failure)
+ */
+async function runBatch(params: UseBrowserInput): Promise<string> {
+  const rawSteps = params.options?.steps;
+  if (!Array.isArray(rawSteps) || rawSteps.length === 0) {
+    throw new Error("batch requires options.steps with a list of steps");
+  }
+
+  // Validate every step up front so a typo in step 5 doesn't leave the flow half done
+  const steps: any[] = rawSteps.map((raw: any, i: number) => {
+    const inherited = {
+      tab_id: params.tab_id,
+      tab_index: params.tab_index,
+      ...raw,
+      options: params.options?.settle !== undefined ? { settle: params.options.settle, ...raw?.options } : raw?.options
+    };
+    try {
+      if (chromeLib.EXPECT_ACTIONS.includes(raw?.action)) {
+        chromeLib.validateExpectation(inherited);
+        return inherited;
+      }
+      const step = z.object(UseBrowserParams).parse(inherited) as UseBrowserInput;
+      if (step.action === BrowserAction.BATCH || step.action === BrowserAction.REPLAY) {
+        throw new Error(`${step.action} cannot run inside a batch`);
+      }
+      // Top-level schema defaults the timeout; only keep one the step set itself
+      return { ...step, timeout: raw.timeout };
+    } catch (error) {
+      const message = error instanceof z.ZodError
+        ? error.issues.map(issue => `${issue.path.join('.') || 'step'}: ${issue.message}`).join('; ')
+        : error instanceof Error ? error.message : String(error);
+      throw new Error(`batch step ${i + 1} is invalid: ${message}`);
+    }
+  });
+
+  const batchStart = Date.now();
+  const lines: string[] = [];
+  let failedAt: number | null = null;
+  let captureTab = params.tab_id ?? params.tab_index;
+
+  for (const [i, step] of steps.entries()) {
+    const tab = step.tab_id ?? step.tab_index;
+    const stepStart = Date.now();
+    captureTab = tab;
+    try {
+      let detail: any;
+      if (chromeLib.EXPECT_ACTIONS.includes(step.action)) {
+        detail = await chromeLib.runExpectation(tab, step);
+      } else if (chromeLib.canRunWithoutCapture(step.action)) {
+        detail = await chromeLib.runStepWithoutCapture(tab, step);
+      } else {
+        detail = await executeBrowserAction({ ...step, timeout: step.timeout ?? 5000 });
+      }
+      const text = typeof detail === 'string' ? detail.split('\n')[0] : '';
+      const shown = text.length > 80 ? text.slice(0, 80) + '…' : text;
+      lines.push(`  ✓ ${i + 1} ${chromeLib.describeStep(step)} (${Date.now() - stepStart}ms)${shown ? ` → ${shown}` : ''}`);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      lines.push(`  ✗ ${i + 1} ${chromeLib.describeStep(step)} (${Date.now() - stepStart}ms): ${errorMessage}`);
+      failedAt = i;
+      break;
+    }
+  }
+  if (failedAt !== null) {
+    steps.slice(failedAt + 1).forEach((step, i) => {
+      lines.push(`  - ${failedAt! + i + 2} ${chromeLib.describeStep(step)} (not run)`);
+    });
+  }
+
+  const passed = failedAt === null ? steps.length : failedAt;
+  const header = failedAt === null
+    ? `Batch passed: ${passed}/${steps.length} steps in ${Date.now() - batchStart}ms`
+    : `Batch failed at step ${failedAt + 1}: ${passed}/${steps.length} steps passed in ${Date.now() - batchStart}ms`;
+
+  // One capture for the whole batch
+  let captureLines: string[];
+  try {
+    const artifacts = await chromeLib.capturePageArtifacts(captureTab, failedAt === null ? 'batch' : 'batch-failed');
+    const url = await chromeLib.evaluate(captureTab, 'location.href').catch(() => null);
+    captureLines = [formatActionResponse({ ...artifacts, url }, failedAt === null ? 'Final state:' : 'State at failure:')];
+  } catch (error) {
+    captureLines = [`⚠️ Capture failed: ${error instanceof Error ? error.message : String(error)}`];
+  }
+
+  return [header, ...lines, '', ...captureLines].join('\n');
 }
 
 /**
  * Execute browser action using chrome-ws library
  */
 async function executeBrowserAction(params: UseBrowserInput): Promise<string> {
-  const tabIndex = params.tab_index;
+  // Target ids and names stay put when other tabs close; indices don't
+  const tabIndex = params.tab_id ?? params.tab_index;
+  const settle = params.options?.settle;
 
   switch (params.action) {
     case BrowserAction.NAVIGATE:
       if (!params.payload || typeof params.payload !== 'string') {
         throw new Error("navigate requires payload with URL");
       }
-      const navResult = await chromeLib.navigate(tabIndex, params.payload, true); // Enable auto-capture
+      const navResult = await chromeLib.navigate(tabIndex, params.payload, true, settle); // Enable auto-capture
 
       // Handle enhanced response
       if (typeof navResult === 'object' && navResult.url) {
         const prefix = navResult.capturePrefix || '???';
+        lastCaptureImage = navResult.files?.screenshot || null;
         const response = [
           `Navigated to ${navResult.url}`,
           `Current URL: ${navResult.url}`,
           `Size: ${navResult.pageSize?.width}×${navResult.pageSize?.height}`,
+          ...(params.options?.timing ? [await chromeLib.getNavigationTimingSummary(tabIndex).catch((e: Error) => `Timing: unavailable (${e.message})`)] : []),
+          ...(navResult.emulation ? [`Emulation: ${navResult.emulation}`] : []),
           `Session dir: ${navResult.sessionDir}`,
           `Files: ${prefix}.html, ${prefix}.md, ${prefix}.png, ${prefix}-console.txt`
         ];
 
+        if (navResult.settled) {
+          response.push(chromeLib.formatSettleResult(navResult.settled));
+        }
+
         if (navResult.error) {
           response.push(`⚠️ ${navResult.error}`);
         }
 
-        // Add console messages if any
-        if (navResult.consoleLog && navResult.consoleLog.length > 0) {
-          response.push(`Console: ${navResult.consoleLog.length} messages`);
-          navResult.consoleLog.slice(0, 3).forEach((msg: any) => {
-            response.push(`  ${msg.level}: ${msg.text}`);
-          });
-          if (navResult.consoleLog.length > 3) {
-            response.push(`  ... +${navResult.consoleLog.length - 3} more`);
-          }
-        }
+        // Add console messages and failed requests if any
+        response.push(...formatPopups(navResult.popups));
+        response.push(...formatDialogs(navResult.consoleLog));
+        response.push(...formatConsoleSummary(navResult.consoleLog));
+        response.push(...formatNetworkProblems(navResult.networkProblems));
+        response.push(...formatMockedRequests(navResult.mocked));
+        response.push(...formatDownloads(navResult.downloads));
 
         // Compact DOM summary
         if (navResult.domSummary) {
@@ -266,7 +571,7 @@ async function executeBrowserAction(params: UseBrowserInput): Promise<string> {
       if (!params.selector) {
         throw new Error("click requires selector");
       }
-      const clickResult = await chromeLib.clickWithCapture(tabIndex, params.selector);
+      const clickResult = await chromeLib.clickWithCapture(tabIndex, params.selector, settle);
       return formatActionResponse(clickResult, `Clicked: ${params.selector}`);
 
     case BrowserAction.TYPE:
@@ -277,7 +582,8 @@ async function executeBrowserAction(params: UseBrowserInput): Promise<string> {
       const typeResult = await chromeLib.captureActionWithDiff(
         tabIndex,
         'type',
-        () => chromeLib.fill(tabIndex, params.selector || null, params.payload)
+        () => chromeLib.fill(tabIndex, params.selector || null, chromeLib.resolveSecretPlaceholders(params.payload)),
+        settle
       );
       return formatCaptureResponse(
         'Typed',
@@ -291,14 +597,17 @@ async function executeBrowserAction(params: UseBrowserInput): Promise<string> {
         throw new Error("extract payload must be a string format");
       }
 
-      if (params.selector) {
+      if (format === 'markdown') {
+        // Main content of the page, or just the selected element
+        return await chromeLib.generateMarkdown(tabIndex, params.selector || null, params.options || {});
+      } else if (params.selector) {
         // Extract specific element
         if (format === 'text') {
           return await chromeLib.extractText(tabIndex, params.selector);
         } else if (format === 'html') {
           return await chromeLib.getHtml(tabIndex, params.selector);
         } else {
-          throw new Error("selector-based extraction only supports 'text' or 'html' format");
+          throw new Error("extract format must be 'text', 'html', or 'markdown'");
         }
       } else {
         // Extract whole page
@@ -306,34 +615,79 @@ async function executeBrowserAction(params: UseBrowserInput): Promise<string> {
           return await chromeLib.evaluate(tabIndex, 'document.body.innerText');
         } else if (format === 'html') {
           return await chromeLib.getHtml(tabIndex);
-        } else if (format === 'markdown') {
-          // Generate markdown-like output
-          return await chromeLib.evaluate(tabIndex, `
-            Array.from(document.querySelectorAll('h1, h2, h3, h4, h5, h6, p, a, li, pre, code'))
-              .map(el => {
-                const tag = el.tagName.toLowerCase();
-                const text = el.textContent.trim();
-                if (tag.startsWith('h')) return '#'.repeat(parseInt(tag[1])) + ' ' + text;
-                if (tag === 'a') return '[' + text + '](' + el.href + ')';
-                if (tag === 'li') return '- ' + text;
-                if (tag === 'pre' || tag === 'code') return '\\\`\\\`\\\`\\n' + text + '\\n\\\`\\\`\\\`';
-                return text;
-              })
-              .filter(x => x)
-              .join('\\n\\n')
-          `.replace(/\s+/g, ' ').trim());
         } else {
           throw new Error("extract format must be 'text', 'html', or 'markdown'");
         }
       }
 
+    case BrowserAction.EXTRACT_STRUCTURED:
+      const structured = await chromeLib.extractStructured(tabIndex, {
+        ...(params.options || {}),
+        selector: params.selector,
+        filename: params.payload || null
+      });
+      const pageCount = `${structured.pages} page${structured.pages === 1 ? '' : 's'}`;
+      if (structured.mode === 'tables') {
+        return [
+          `Extracted ${structured.tables.length} tables (${structured.count} rows) from ${pageCount}`,
+          `Saved to: ${structured.path}`,
+          ...structured.tables.map((table: any, i: number) => [
+            '',
+            `Table ${i + 1}${table.caption ? ': ' + table.caption : ''}${table.id ? ' (#' + table.id + ')' : ''} — ${table.rows.length} rows, columns: ${table.headers.join(', ') || '(no header)'}`,
+            ...table.rows.slice(0, 5).map((row: any) => `  ${JSON.stringify(row)}`),
+            ...(table.rows.length > 5 ? [`  ... +${table.rows.length - 5} more`] : [])
+          ].join('\n'))
+        ].join('\n');
+      }
+      return [
+        `Extracted ${structured.count} items from ${pageCount}`,
+        `Saved to: ${structured.path}`,
+        ...structured.items.slice(0, 10).map((item: any) => JSON.stringify(item)),
+        ...(structured.items.length > 10 ? [`... +${structured.items.length - 10} more in ${structured.path}`] : [])
+      ].join('\n');
+
+    case BrowserAction.AUDIT:
+      const audit = await chromeLib.auditPage(tabIndex, {
+        ...(params.options || {}),
+        selector: params.selector,
+        filename: params.payload || null
+      });
+      return chromeLib.formatAuditResult(audit);
+
+    case BrowserAction.PERF:
+      const perfReport = await chromeLib.getPerformanceReport(tabIndex, { filename: params.payload || null });
+      return chromeLib.formatPerformanceReport(perfReport);
+
+    case BrowserAction.TRACE_START:
+      const traceStarted = await chromeLib.startTrace(tabIndex, params.options || {});
+      return `Tracing started (${traceStarted.categories.length} categories${traceStarted.coverage ? ', JS/CSS coverage' : ''}). Interact with the page, then call trace_stop.`;
+
+    case BrowserAction.TRACE_STOP:
+      const traceResult = await chromeLib.stopTrace(tabIndex, { filename: params.payload || null });
+      return chromeLib.formatTraceResult(traceResult);
+
     case BrowserAction.SCREENSHOT:
       if (!params.payload || typeof params.payload !== 'string') {
         throw new Error("screenshot requires payload with filename");
       }
-      const filepath = await chromeLib.screenshot(tabIndex, params.payload, params.selector || undefined);
+      const filepath = await chromeLib.screenshot(tabIndex, params.payload, params.selector || null, params.options || {});
+      lastCaptureImage = filepath;
       return `Screenshot saved to ${filepath}`;
 
+    case BrowserAction.PDF:
+      const savedPdf = await chromeLib.pdf(tabIndex, params.payload || null, params.options || {});
+      return `PDF saved to ${savedPdf.path} (${Math.round(savedPdf.size / 1024)} KB)`;
+
+    case BrowserAction.VISUAL_COMPARE:
+      if (!params.payload || typeof params.payload !== 'string') {
+        throw new Error("visual_compare requires payload with a baseline name");
+      }
+      const comparison = await chromeLib.visualCompare(tabIndex, params.payload, {
+        ...(params.options || {}),
+        selector: params.selector || null
+      });
+      return chromeLib.formatVisualComparison(comparison);
+
     case BrowserAction.SELECT:
       if (!params.selector) {
         throw new Error("select requires selector");
@@ -341,14 +695,14 @@ async function executeBrowserAction(params: UseBrowserInput): Promise<string> {
       if (!params.payload || typeof params.payload !== 'string') {
         throw new Error("select requires payload with option value");
       }
-      const selectResult = await chromeLib.selectOptionWithCapture(tabIndex, params.selector, params.payload);
+      const selectResult = await chromeLib.selectOptionWithCapture(tabIndex, params.selector, params.payload, settle);
       return formatActionResponse(selectResult, `Selected "${params.payload}" in: ${params.selector}`);
 
     case BrowserAction.EVAL:
       if (!params.payload || typeof params.payload !== 'string') {
         throw new Error("eval requires payload with JavaScript code");
       }
-      const evalResult = await chromeLib.evaluateWithCapture(tabIndex, params.payload);
+      const evalResult = await chromeLib.evaluateWithCapture(tabIndex, chromeLib.resolveSecretPlaceholders(params.payload), settle);
       return formatActionResponse(evalResult, `Evaluated: ${params.payload}\nResult: ${evalResult.result}`);
 
     case BrowserAction.ATTR:
@@ -375,24 +729,82 @@ async function executeBrowserAction(params: UseBrowserInput): Promise<string> {
       await chromeLib.waitForText(tabIndex, params.payload, params.timeout);
       return `Text found: ${params.payload}`;
 
+    case BrowserAction.AWAIT_GONE:
+      if (!params.selector) {
+        throw new Error("await_gone requires selector");
+      }
+      await chromeLib.waitForElementGone(tabIndex, params.selector, params.timeout);
+      return `Element gone: ${params.selector}`;
+
+    case BrowserAction.AWAIT_URL:
+      if (!params.payload || typeof params.payload !== 'string') {
+        throw new Error("await_url requires payload with URL pattern (substring, glob or /regex/)");
+      }
+      const matchedUrl = await chromeLib.waitForUrl(tabIndex, params.payload, params.timeout);
+      return `URL matched: ${matchedUrl}`;
+
+    case BrowserAction.AWAIT_NETWORK_IDLE:
+      const idle = await chromeLib.waitForNetworkIdle(tabIndex, {
+        ...params.options,
+        timeout: params.timeout
+      });
+      if (!idle.idle) {
+        throw new Error(`Timeout waiting for network idle: ${idle.inflight} request${idle.inflight === 1 ? '' : 's'} still in flight after ${idle.waited}ms`);
+      }
+      return `Network idle after ${idle.waited}ms`;
+
+    case BrowserAction.UPLOAD:
+      if (!params.selector) {
+        throw new Error("upload requires selector (file input, or a button that opens a file chooser)");
+      }
+      const uploadFiles: string[] = params.options?.files || (params.payload ? [params.payload] : []);
+      if (uploadFiles.length === 0) {
+        throw new Error("upload requires payload with a file path, or options.files");
+      }
+      let uploaded: any;
+      const uploadResult = await chromeLib.captureActionWithDiff(
+        tabIndex,
+        'upload',
+        async () => { uploaded = await chromeLib.upload(tabIndex, params.selector, uploadFiles); },
+        settle
+      );
+      return formatCaptureResponse(
+        'Uploaded',
+        `${uploaded.files.join(', ')} via ${uploaded.via} (${params.selector})`,
+        uploadResult.capture
+      );
+
+    case BrowserAction.AWAIT_DOWNLOAD:
+      const download = await chromeLib.awaitDownload(params.payload || null, params.timeout);
+      return `Downloaded: ${chromeLib.formatDownload(download)}\nSource: ${download.url}`;
+
     case BrowserAction.NEW_TAB:
-      const newTab = await chromeLib.newTab();
-      return `New tab created: ${newTab.id}`;
+      const newTab = await chromeLib.newTab(params.payload || 'about:blank', params.options?.name ?? null, params.options?.context ?? null);
+      return `New tab created: ${newTab.id}${newTab.name ? ` (name: ${newTab.name})` : ''}${params.options?.context ? ` in context ${params.options.context}` : ''}\nUse tab_id "${newTab.name || newTab.id}" to target it`;
 
     case BrowserAction.CLOSE_TAB:
       await chromeLib.closeTab(tabIndex);
       return `Closed tab ${tabIndex}`;
 
     case BrowserAction.LIST_TABS:
-      const tabs = await chromeLib.getTabs();
-      return JSON.stringify(tabs.map((tab: any, idx: number) => ({
-        index: idx,
-        id: tab.id,
-        title: tab.title,
-        url: tab.url,
-        type: tab.type
+      const contexts = await chromeLib.getTabsByContext();
+      return JSON.stringify(contexts.map((context: any) => ({
+        context: context.default ? 'default' : (context.name || context.id),
+        contextId: context.id,
+        tabs: context.tabs
       })), null, 2);
 
+    case BrowserAction.NEW_CONTEXT:
+      const context = await chromeLib.newContext(params.payload || null);
+      return `New context created: ${context.id}${context.name ? ` (name: ${context.name})` : ''}\nOpen tabs in it with {"action": "new_tab", "options": {"context": "${context.name || context.id}"}}`;
+
+    case BrowserAction.CLOSE_CONTEXT:
+      if (!params.payload) {
+        throw new Error("close_context requires payload with context id or name");
+      }
+      const closedContext = await chromeLib.closeContext(params.payload);
+      return `Closed context ${closedContext.name || closedContext.id} and ${closedContext.closedTabs} tab${closedContext.closedTabs === 1 ? '' : 's'}`;
+
     case BrowserAction.SHOW_BROWSER:
       const showResult = await chromeLib.showBrowser();
       return showResult;
@@ -405,6 +817,29 @@ async function executeBrowserAction(params: UseBrowserInput): Promise<string> {
       const mode = await chromeLib.getBrowserMode();
       return JSON.stringify(mode, null, 2);
 
+    case BrowserAction.EMULATE:
+      const emulateUpdate: Record<string, any> = { ...params.options };
+      if (params.payload === 'reset') {
+        emulateUpdate.reset = true;
+      } else if (params.payload) {
+        emulateUpdate.device = params.payload;
+      }
+      if (Object.keys(emulateUpdate).length === 0) {
+        throw new Error("emulate requires payload with device preset (or 'reset') and/or options");
+      }
+      const emulation = await chromeLib.emulate(tabIndex, emulateUpdate);
+      return `Emulation on tab ${tabIndex}: ${chromeLib.formatEmulation(emulation) || 'none (defaults restored)'}`;
+
+    case BrowserAction.DIALOG_POLICY:
+      const dialogUpdate: Record<string, any> = { ...params.options };
+      if (params.payload) {
+        chromeLib.setDialogPolicy(params.payload);
+      }
+      const dialogPolicy = Object.keys(dialogUpdate).length > 0
+        ? chromeLib.setDialogPolicy(dialogUpdate)
+        : chromeLib.getDialogPolicy();
+      return `Dialog policy: ${chromeLib.formatDialogPolicy(dialogPolicy)}`;
+
     case BrowserAction.SET_PROFILE:
       if (!params.payload || typeof params.payload !== 'string') {
         throw new Error("set_profile requires payload with profile name");
@@ -428,7 +863,8 @@ async function executeBrowserAction(params: UseBrowserInput): Promise<string> {
       const keyResult = await chromeLib.captureActionWithDiff(
         tabIndex,
         'keypress',
-        () => chromeLib.keyboardPress(tabIndex, params.payload, params.modifiers || {})
+        () => chromeLib.keyboardPress(tabIndex, params.payload, params.modifiers || {}),
+        settle
       );
       const modStr = Object.entries(params.modifiers || {})
         .filter(([_, v]) => v)
@@ -440,6 +876,218 @@ async function executeBrowserAction(params: UseBrowserInput): Promise<string> {
         keyResult.capture
       );
 
+    case BrowserAction.HOVER:
+      if (!params.selector) {
+        throw new Error("hover requires selector");
+      }
+      const hoverResult = await chromeLib.captureActionWithDiff(
+        tabIndex,
+        'hover',
+        () => chromeLib.hover(tabIndex, params.selector),
+        settle
+      );
+      return formatCaptureResponse('Hovered', params.selector, hoverResult.capture);
+
+    case BrowserAction.DOUBLE_CLICK:
+      if (!params.selector) {
+        throw new Error("double_click requires selector");
+      }
+      const doubleClickResult = await chromeLib.captureActionWithDiff(
+        tabIndex,
+        'dblclick',
+        () => chromeLib.doubleClick(tabIndex, params.selector),
+        settle
+      );
+      return formatCaptureResponse('Double-clicked', params.selector, doubleClickResult.capture);
+
+    case BrowserAction.RIGHT_CLICK:
+      if (!params.selector) {
+        throw new Error("right_click requires selector");
+      }
+      const rightClickResult = await chromeLib.captureActionWithDiff(
+        tabIndex,
+        'rightclick',
+        () => chromeLib.rightClick(tabIndex, params.selector),
+        settle
+      );
+      return formatCaptureResponse('Right-clicked', params.selector, rightClickResult.capture);
+
+    case BrowserAction.DRAG:
+      if (!params.selector) {
+        throw new Error("drag requires selector of the element to drag");
+      }
+      const dragDestination = params.payload || params.options;
+      if (!params.payload && params.options?.x === undefined && params.options?.y === undefined) {
+        throw new Error("drag requires payload with a drop target selector, or options.x/options.y offset");
+      }
+      let dragged: any;
+      const dragResult = await chromeLib.captureActionWithDiff(
+        tabIndex,
+        'drag',
+        async () => { dragged = await chromeLib.drag(tabIndex, params.selector, dragDestination, params.options || {}); },
+        settle
+      );
+      return formatCaptureResponse(
+        'Dragged',
+        `${params.selector} to ${params.payload || `offset ${params.options?.x || 0},${params.options?.y || 0}`} (${dragged.mode === 'html5' ? 'HTML5 drag-and-drop' : 'pointer events'})`,
+        dragResult.capture
+      );
+
+    case BrowserAction.SCROLL:
+      let scrolled: any;
+      const scrollResult = await chromeLib.captureActionWithDiff(
+        tabIndex,
+        'scroll',
+        async () => {
+          scrolled = await chromeLib.scroll(tabIndex, {
+            ...params.options,
+            selector: params.selector || null,
+            until: params.payload || null,
+            timeout: params.timeout
+          });
+        },
+        settle
+      );
+      return formatCaptureResponse(
+        'Scrolled',
+        `${params.selector || 'page'}${params.payload ? ` until ${params.payload} is visible` : ''} (now at ${Math.round(scrolled.x)},${Math.round(scrolled.y)})`,
+        scrollResult.capture
+      );
+
+    case BrowserAction.MOUSE_WHEEL:
+      const wheelResult = await chromeLib.captureActionWithDiff(
+        tabIndex,
+        'wheel',
+        () => chromeLib.mouseWheel(tabIndex, { ...params.options, selector: params.selector || null }),
+        settle
+      );
+      return formatCaptureResponse(
+        'Mouse wheel',
+        `${params.options?.deltaX || 0},${params.options?.deltaY || 0} over ${params.selector || 'viewport'}`,
+        wheelResult.capture
+      );
+
+    case BrowserAction.CONSOLE_LOG:
+      // payload: "" (all), "<prefix>" (since capture), "clear" or "clear:<prefix>"
+      const consoleArg = params.payload || '';
+      if (consoleArg === 'clear' || consoleArg.startsWith('clear:')) {
+        const clearSince = consoleArg.slice('clear:'.length) || null;
+        const clearedCount = await chromeLib.clearConsoleMessagesSinceCapture(tabIndex, clearSince);
+        return `Cleared ${clearedCount} console message${clearedCount === 1 ? '' : 's'}${clearSince ? ` since ${clearSince}` : ''}`;
+      }
+      const consoleMessages = await chromeLib.getConsoleMessagesSinceCapture(tabIndex, consoleArg || null);
+      return chromeLib.formatConsoleLog(consoleMessages);
+
+    case BrowserAction.NETWORK_START:
+      const recording = await chromeLib.startNetworkRecording(tabIndex, params.options || {});
+      return `Recording network traffic on tab ${tabIndex} (response bodies: ${recording.bodies ? 'on' : 'off'})`;
+
+    case BrowserAction.NETWORK_LOG:
+      const networkEntries = await chromeLib.getNetworkLog(tabIndex, {
+        url: params.payload,
+        ...params.options
+      });
+      return chromeLib.formatNetworkLog(networkEntries);
+
+    case BrowserAction.NETWORK_EXPORT:
+      const har = await chromeLib.exportHar(tabIndex, params.payload || null, params.options || {});
+      return `HAR 1.2 saved to ${har.path} (${har.entries} entries)`;
+
+    case BrowserAction.ROUTE_ADD:
+      if (!params.payload || typeof params.payload !== 'string') {
+        throw new Error("route_add requires payload with URL pattern (substring, glob or /regex/)");
+      }
+      const route = await chromeLib.addRoute(tabIndex, { ...params.options, url: params.payload });
+      return `Route ${route.id} added on tab ${tabIndex}: ${chromeLib.formatRoutes([route])}`;
+
+    case BrowserAction.ROUTE_LIST:
+      const routes = await chromeLib.listRoutes(tabIndex);
+      return chromeLib.formatRoutes(routes);
+
+    case BrowserAction.ROUTE_CLEAR:
+      const removedRoutes = await chromeLib.clearRoutes(tabIndex, params.payload || null);
+      return `Removed ${removedRoutes} route rule${removedRoutes === 1 ? '' : 's'} from tab ${tabIndex}`;
+
+    case BrowserAction.COOKIES:
+      const cookies = await chromeLib.getCookies(tabIndex, params.options?.urls || null);
+      return chromeLib.formatCookies(cookies);
+
+    case BrowserAction.COOKIE_SET:
+      if (!params.options?.name) {
+        throw new Error("cookie_set requires options.name (and options.value)");
+      }
+      const cookie = await chromeLib.setCookie(tabIndex, params.options);
+      return `Cookie set: ${cookie.name} (${cookie.domain || cookie.url})`;
+
+    case BrowserAction.COOKIE_DELETE:
+      const deletedCookies = await chromeLib.deleteCookies(tabIndex, params.payload || null, params.options || {});
+      return `Deleted ${deletedCookies} cookie${deletedCookies === 1 ? '' : 's'}`;
+
+    case BrowserAction.STORAGE_GET:
+      const storageItems = await chromeLib.getStorage(tabIndex, params.options?.type || 'local', params.options?.origin || null);
+      if (params.payload) {
+        if (!(params.payload in storageItems)) {
+          throw new Error(`Storage key not found: ${params.payload}`);
+        }
+        return storageItems[params.payload];
+      }
+      return JSON.stringify(storageItems, null, 2);
+
+    case BrowserAction.STORAGE_SET:
+      if (!params.payload || params.options?.value === undefined) {
+        throw new Error("storage_set requires payload with key and options.value");
+      }
+      const setOrigin = await chromeLib.setStorageItem(
+        tabIndex,
+        params.payload,
+        params.options.value,
+        params.options.type || 'local',
+        params.options.origin || null
+      );
+      return `Set ${params.options.type || 'local'}Storage["${params.payload}"] for ${setOrigin}`;
+
+    case BrowserAction.STORAGE_CLEAR:
+      const storageType = params.options?.type || 'local';
+      const clearedOrigin = await chromeLib.clearStorage(tabIndex, params.payload || null, storageType, params.options?.origin || null);
+      return params.payload
+        ? `Removed ${storageType}Storage["${params.payload}"] for ${clearedOrigin}`
+        : `Cleared ${storageType}Storage for ${clearedOrigin}`;
+
+    case BrowserAction.STORAGE_EXPORT:
+      const exported = await chromeLib.exportStorageState(tabIndex, params.payload || null, params.options || {});
+      return `Storage state saved to ${exported.path} (${exported.cookies} cookies, ${exported.origins} origins with storage)` +
+        (exported.skipped.length > 0 ? `\nNot open in any tab, storage not read: ${exported.skipped.join(', ')}` : '');
+
+    case BrowserAction.STORAGE_IMPORT:
+      if (!params.payload) {
+        throw new Error("storage_import requires payload with storage state file path");
+      }
+      const imported = await chromeLib.importStorageState(tabIndex, params.payload);
+      return `Imported ${imported.cookies} cookies and ${imported.items} storage items (${imported.origins} origins). Navigate or reload to use them.` +
+        (imported.pending.length > 0 ? `\nPending: storage for ${imported.pending.join(', ')} (sessionStorage, or localStorage that could not be written) is written when this tab loads that origin.` : '');
+
+    case BrowserAction.SNAPSHOT:
+      const snapshot = await chromeLib.snapshotWithCapture(tabIndex);
+      const snapshotLines = snapshot.tree.split('\n');
+      const maxSnapshotLines = 400;
+      return [
+        `Accessibility snapshot: ${snapshot.refCount} refs (${snapshot.newRefs} new). Use selector "ref=eN" to act on an element.`,
+        `Saved to: ${snapshot.file}`,
+        '',
+        ...snapshotLines.slice(0, maxSnapshotLines),
+        ...(snapshotLines.length > maxSnapshotLines ? [`... +${snapshotLines.length - maxSnapshotLines} more lines in ${snapshot.file}`] : [])
+      ].join('\n');
+
+    case BrowserAction.BATCH:
+      return await runBatch(params);
+
+    case BrowserAction.REPLAY:
+      if (!params.payload || typeof params.payload !== 'string') {
+        throw new Error("replay requires payload with a session.jsonl path or session dir");
+      }
+      const replay = await chromeLib.replaySession(params.payload, params.options || {});
+      return chromeLib.formatReplayResult(replay);
+
     case BrowserAction.HELP:
       return `# Chrome Browser Control
 
@@ -447,11 +1095,28 @@ Auto-starting Chrome with automatic page captures for every DOM action.
 
 ## Actions Overview
 navigate, click, type, keyboard_press, select, eval → Capture page state with before/after DOM diff
-extract, attr, screenshot → Get content/visuals
-await_element, await_text → Wait for page changes
+hover, double_click, right_click, drag, scroll, mouse_wheel → Pointer interactions, same before/after capture
+extract, attr, screenshot, pdf → Get content/visuals
+extract_structured → Repeating items or tables to JSON (follows "next" links)
+visual_compare → Screenshot diff against a named baseline
+audit → Accessibility and page-quality findings, ranked, saved as JSON
+perf, trace_start, trace_stop → Metrics, Web Vitals, long tasks, resources; Chrome traces with JS/CSS coverage
+upload, await_download → File inputs and downloads
+snapshot → Accessibility tree with element refs (ref=e17) to use as selectors
+await_element, await_text, await_gone, await_url, await_network_idle → Wait for page changes
+console_log → Read/clear console messages and JS exceptions
+network_start, network_log, network_export → Record network traffic, filter it, save HAR
+route_add, route_list, route_clear → Block, mock, delay or rewrite requests
+cookies, cookie_set, cookie_delete, storage_get, storage_set, storage_clear → Inspect and seed login state
+storage_export, storage_import → Save/restore cookies + storage as a JSON file
 list_tabs, new_tab, close_tab → Tab management
+new_context, close_context → Isolated cookies/storage for parallel tasks
 show_browser, hide_browser, browser_mode → Toggle headless/headed mode
+emulate → Device, viewport, color scheme, locale, timezone, geolocation, network throttling
+dialog_policy → How alert/confirm/prompt/beforeunload dialogs are answered
 set_profile, get_profile → Manage Chrome profiles
+replay → Re-run a recorded session and report the first step whose outcome differs
+batch → Many steps + expect_* assertions in one call, one capture at the end
 
 ## Navigation & Interaction (Auto-Capture with DOM Diff)
 navigate: {"action": "navigate", "payload": "URL"} → Before/after HTML + diff
@@ -461,6 +1126,15 @@ keyboard_press: {"action": "keyboard_press", "payload": "Tab"} → Special keys
 select: {"action": "select", "selector": "select", "payload": "option_value"}
 eval: {"action": "eval", "payload": "JavaScript_code"}
 
+## Pointer Interactions (before/after capture like keyboard_press)
+hover: {"action": "hover", "selector": "nav .menu"} → Opens hover menus, tooltips (:hover styles apply)
+double_click: {"action": "double_click", "selector": ".cell"} / right_click: {"action": "right_click", "selector": ".file"} → Page context menus
+drag: {"action": "drag", "selector": "li.card:nth-child(1)", "payload": "#done"} → Onto another element; HTML5 drag-and-drop or pointer-based libraries
+drag: {"action": "drag", "selector": ".slider-thumb", "options": {"x": 120, "y": 0, "steps": 20}} → By an offset (sliders, canvas)
+scroll: {"action": "scroll", "options": {"y": 800}} → Page by pixels ("to": "bottom" / "top"; no options = one screen down)
+scroll: {"action": "scroll", "selector": ".feed", "payload": "#item-200", "timeout": 15000} → Scroll the .feed container until #item-200 exists and is visible
+mouse_wheel: {"action": "mouse_wheel", "selector": "#map", "options": {"deltaY": -300}} → Wheel events (zoom, carousels, custom scrollers)
+
 ## keyboard_press Examples
 {"action": "keyboard_press", "payload": "Tab"} → Move to next field
 {"action": "keyboard_press", "payload": "Space"} → Toggle checkbox
@@ -469,27 +1143,155 @@ eval: {"action": "eval", "payload": "JavaScript_code"}
 
 ## Content & Export (Manual) - CHECK AUTO-CAPTURED FILES FIRST
 extract: {"action": "extract", "payload": "markdown|text|html", "selector": "required"} → ONLY for specific elements/changed content
+extract: {"action": "extract", "payload": "markdown", "selector": "#results"} → Tables, nested lists, code blocks and form values (labels + current values) as markdown
 attr: {"action": "attr", "selector": "element", "payload": "attribute_name"} → Get single attribute
-screenshot: {"action": "screenshot", "payload": "filename", "selector": "optional"} → Custom screenshot
+extract_structured: {"action": "extract_structured", "selector": ".product", "options": {"fields": {"name": "h2", "price": {"selector": ".price", "type": "number"}, "url": {"selector": "a", "attr": "href"}}, "next": "a[rel=next]", "pages": 5}} → JSON array in session dir
+extract_structured: {"action": "extract_structured", "options": {"tables": true}} → Every table as rows keyed by header (selector scopes it)
+screenshot: {"action": "screenshot", "payload": "filename", "selector": "optional"} → Custom screenshot (element is scrolled into view)
+screenshot: {"action": "screenshot", "payload": "page.jpg", "options": {"fullPage": true, "quality": 80, "mask": [".timestamp", "img.avatar"]}}
+pdf: {"action": "pdf", "options": {"format": "a4", "margin": "1cm", "printBackground": true}} → Saved to session dir (headless only)
+pdf: {"action": "pdf", "payload": "report.pdf", "options": {"footerTemplate": "<div style='font-size:8px'><span class='pageNumber'></span>/<span class='totalPages'></span></div>"}}
+
+## Visual Comparison
+visual_compare: {"action": "visual_compare", "payload": "home"} → First run saves the baseline; later runs report % of pixels changed + a diff PNG (changes in red)
+visual_compare: {"action": "visual_compare", "payload": "header", "selector": "header", "options": {"ignore": [".clock"], "threshold": 0.2, "maxDiffPercent": 0.5}}
+visual_compare: {"action": "visual_compare", "payload": "home", "options": {"update": true}} → Accept the current look as the new baseline
+Baselines live in ./visual-baselines (CHROME_BASELINE_DIR or options.baselineDir to change). type, keyboard_press, upload and pointer action captures also say whether the action visibly changed the page.
+
+## Audit
+audit: {"action": "audit"} → Images without alt, unlabelled controls, unnamed buttons, low contrast, duplicate ids, heading jumps, missing lang, small tap targets, mixed content
+audit: {"action": "audit", "options": {"rules": ["broken-link"]}} → Requests same-origin links with the page cookies (opt-in; logout/delete-like links are skipped)
+audit: {"action": "audit", "selector": "form#checkout", "options": {"rules": ["label", "color-contrast", "target-size"]}} → Only inside the form (lang and mixed content are page-wide and skipped)
+Findings are ranked critical → serious → moderate with a selector each; the full list is saved as NNN-audit-findings.json in the session dir.
+
+## Performance
+perf: {"action": "perf"} → Performance.getMetrics, navigation timing, LCP/CLS/INP/FCP with good/needs-improvement/poor ratings, long tasks (blocking time), requests and bytes by resource type; saved as NNN-perf-metrics.json
+navigate: {"action": "navigate", "payload": "https://example.com", "options": {"timing": true}} → Adds "Timing: TTFB 120ms, FCP 340ms, LCP 900ms, DOMContentLoaded 610ms, load 1.20s, 42 requests / 1.3MB" after Size:
+trace_start: {"action": "trace_start"} → Records a Chrome trace plus JS/CSS coverage ("options": {"screenshots": true} adds a filmstrip)
+trace_stop: {"action": "trace_stop"} → NNN-trace.json (DevTools Performance panel / ui.perfetto.dev) and NNN-trace-coverage.json; lists the files with the most unused bytes
+LCP/CLS/INP observers are installed on new documents from the first navigate or perf on a tab; INP needs real interactions (click, type, keyboard_press) after the page loads.
+
+## Files
+upload: {"action": "upload", "selector": "input[type=file]", "payload": "/path/to/file.csv"}
+upload: {"action": "upload", "selector": "button.import", "options": {"files": ["/tmp/a.png", "/tmp/b.png"]}} → Answers the native file chooser the button opens
+await_download: {"action": "await_download", "payload": "*.csv", "timeout": 30000} → Waits for the next download to finish; returns its path
+Downloads go to {session dir}/downloads and are listed in the response of the action that started them.
+
+## Accessibility Snapshot (best way to find selectors)
+snapshot: {"action": "snapshot"} → Roles, names and states; interactive elements get refs like [ref=e17]
+Then: {"action": "click", "selector": "ref=e17"} / {"action": "type", "selector": "ref=e4", "payload": "hi"}
+Refs work with every selector-taking action and stay valid until the tab navigates to a new page.
 
 ## Waiting & Timing
 await_element: {"action": "await_element", "selector": "CSS_or_XPath", "timeout": 5000}
 await_text: {"action": "await_text", "payload": "text_to_wait_for", "timeout": 5000}
+await_gone: {"action": "await_gone", "selector": ".spinner", "timeout": 5000} → Element removed or hidden
+await_url: {"action": "await_url", "payload": "**/dashboard*", "timeout": 5000} → Substring, glob or /regex/; catches pushState
+await_network_idle: {"action": "await_network_idle", "timeout": 10000, "options": {"idleMs": 500, "maxInflight": 0}}
+
+Auto-capture actions wait for the page to settle (network idle + DOM quiet, max 5s) instead of sleeping.
+Tune per call: "options": {"settle": {"timeout": 10000, "networkIdleMs": 500, "domQuietMs": 300, "maxInflight": 1}}
+"settle": 2000 → only change the upper bound; "settle": false → capture immediately
+
+## Console
+console_log: {"action": "console_log"} → All console messages, exceptions and browser log entries (with stack traces)
+console_log: {"action": "console_log", "payload": "003-click"} → Only messages since capture 003-click started
+console_log: {"action": "console_log", "payload": "clear"} → Clear messages ("clear:003-click" clears since that capture)
+
+## Network
+Requests are always tracked; failed and 4xx/5xx requests show up in every auto-capture response.
+network_start: {"action": "network_start", "options": {"bodies": true}} → Restart recording (clears log), optionally with response bodies
+network_log: {"action": "network_log", "payload": "*/api/**", "options": {"status": "errors", "type": "XHR"}} → Filtered request list
+network_export: {"action": "network_export"} → HAR 1.2 file in session dir (payload: optional filename; options: same filters)
+URL patterns: substring, glob ("**/api/*.json") or regex ("/users\/\d+/")
+
+## Request Routing (mocking)
+route_add: {"action": "route_add", "payload": "**/api/user", "options": {"status": 200, "body": {"name": "Ada"}}} → Canned JSON response
+route_add: {"action": "route_add", "payload": "*.png", "options": {"block": true}} → Fail matching requests
+route_add: {"action": "route_add", "payload": "/api/", "options": {"file": "./fixtures/users.json", "method": "GET"}} → Serve a local file
+route_add: {"action": "route_add", "payload": "/api/", "options": {"delay": 2000, "requestHeaders": {"Authorization": "Bearer test", "Cookie": null}}} → Slow down, rewrite headers
+route_list: {"action": "route_list"} → Rules in match order with hit counts
+route_clear: {"action": "route_clear", "payload": "r2"} → Remove one rule (no payload = all)
+First matching rule wins. Rules stay active across navigations in the tab; every capture lists the requests they handled.
+
+## Cookies & Storage
+cookies: {"action": "cookies"} → Cookies visible to the current page (options.urls for other sites)
+cookie_set: {"action": "cookie_set", "options": {"name": "session", "value": "abc", "domain": ".example.com", "httpOnly": true}}
+cookie_delete: {"action": "cookie_delete", "payload": "session"} → No payload deletes every cookie for the page
+storage_get: {"action": "storage_get", "payload": "token", "options": {"type": "session"}} → One key, or all items without payload
+storage_set: {"action": "storage_set", "payload": "theme", "options": {"value": "dark", "origin": "https://example.com"}}
+storage_clear: {"action": "storage_clear"} → Clears localStorage for the current origin (payload = single key)
+storage_export: {"action": "storage_export", "payload": "/tmp/login.json"} → Cookies + storage of all open origins
+storage_import: {"action": "storage_import", "payload": "/tmp/login.json"} → Then navigate; skips the login flow
+Storage defaults to localStorage of the current page's origin.
 
 ## Tab Management
-list_tabs: {"action": "list_tabs"} → Shows all tabs with indices
-new_tab: {"action": "new_tab"}
-close_tab: {"action": "close_tab", "tab_index": 1}
+list_tabs: {"action": "list_tabs"} → Shows all tabs with indices, ids and names
+new_tab: {"action": "new_tab", "payload": "https://example.com", "options": {"name": "checkout"}} → URL and name optional
+close_tab: {"action": "close_tab", "tab_id": "checkout"}
+tab_id (target id, unique id prefix or name) stays valid when other tabs close; tab_index does not.
+
+## Browser Contexts (incognito-like isolation)
+new_context: {"action": "new_context", "payload": "user-b"} → Own cookies, storage and cache
+new_tab: {"action": "new_tab", "payload": "https://example.com", "options": {"name": "b", "context": "user-b"}}
+close_context: {"action": "close_context", "payload": "user-b"} → Closes its tabs too
+list_tabs groups tabs by context.
 
 ## Browser Mode Control
 show_browser: {"action": "show_browser"} → Make browser window visible (restarts Chrome, loses POST state)
 hide_browser: {"action": "hide_browser"} → Switch to headless mode (restarts Chrome, loses POST state)
-browser_mode: {"action": "browser_mode"} → Check current mode (headless/headed) and profile
+browser_mode: {"action": "browser_mode"} → Check current mode (headless/headed), profile and per-tab emulation
 
 ⚠️  WARNING: Toggling browser visibility restarts Chrome and reloads pages via GET requests.
     This will LOSE form data, POST results, and any client-side state.
     Default: headless mode (faster, less intrusive)
 
+## Emulation (sticks per tab across navigations)
+emulate: {"action": "emulate", "payload": "iphone-15"} → Viewport, DPR, mobile, touch and UA from a preset
+emulate: {"action": "emulate", "options": {"width": 1024, "height": 768, "colorScheme": "dark", "reducedMotion": "reduce"}}
+emulate: {"action": "emulate", "options": {"locale": "de-DE", "timezone": "Europe/Berlin", "geolocation": {"latitude": 52.52, "longitude": 13.4}}}
+emulate: {"action": "emulate", "options": {"network": "slow-3g"}} → offline | slow-3g | fast-3g | 4g | {latency, downloadKbps, uploadKbps}
+emulate: {"action": "emulate", "payload": "reset"} → Back to defaults ("options": {"network": null} clears one setting)
+Presets: iphone-15, iphone-se, pixel-7, galaxy-s9, ipad-mini, ipad-pro-11, laptop, desktop, desktop-hidpi
+Active settings appear in every capture response and in browser_mode.
+
+## Dialogs & Popups
+Dialogs are answered as they open (default: accept alert/beforeunload, dismiss confirm/prompt) and listed under "Dialogs:" in the response.
+dialog_policy: {"action": "dialog_policy", "payload": "accept"} → accept | dismiss | default for every dialog type
+dialog_policy: {"action": "dialog_policy", "options": {"confirm": "accept", "promptText": "42"}} → Per type; promptText answers prompts
+Tabs opened by an action (window.open, target=_blank) are reported as "Opened popup as tab N".
+click: {"action": "click", "selector": "a[target=_blank]", "options": {"switchToPopup": true}} → Bring the popup to the front
+
+## Batch (multi-step flows in one call)
+batch: {"action": "batch", "options": {"steps": [
+  {"action": "navigate", "payload": "https://app.example.com/login"},
+  {"action": "type", "selector": "#email", "payload": "ada@example.com"},
+  {"action": "type", "selector": "#password", "payload": "hunter2\\n"},
+  {"action": "expect_url", "payload": "**/dashboard"},
+  {"action": "expect_text", "selector": "h1", "payload": "Welcome"},
+  {"action": "expect_element_count", "selector": ".invoice", "options": {"min": 1}},
+  {"action": "expect_attr", "selector": "#avatar", "payload": "alt", "options": {"value": "Ada"}}
+]}}
+Steps run in order with no per-step captures (interactions still wait for the page to settle); the first failing step stops the batch.
+Assertions retry for up to 2s (step "timeout" to change); expect_text and expect_attr values accept /regex/.
+The response lists each step's status and timing, then one capture of the final page (or the page at the failure).
+
+## Session Files as Resources
+The session dir is published as MCP resources (chrome-session://captures/001-navigate.png, .../session.jsonl) for clients that can't read local files.
+"options": {"inlineImage": true} on navigate/click/screenshot/... → The screenshot comes back as an image block (server default: --inline-images)
+
+## Secrets
+type: {"action": "type", "selector": "#password", "payload": "{{secret:STAGING_PASSWORD}}\\n"} → Value from the STAGING_PASSWORD env var, else the secrets file
+eval: {"action": "eval", "payload": "login('{{secret:API_USER}}', '{{secret:API_TOKEN}}')"}
+Secrets file: --secrets-file=path (CHROME_SECRETS_FILE, default ~/.config/superpowers/secrets.json), a JSON object or NAME=value lines.
+Resolved values come back as {{secret:NAME}} in responses, captures, diffs, console/network logs, HAR files and session.jsonl; password field values are masked as ********. Declared secrets are masked at any length; password values read off the page under 6 characters are masked only in password fields.
+
+## Session Log & Replay
+Every use_browser call is appended to {session dir}/session.jsonl: params, timing, outcome (ok/error, URL after), a short result summary and the files it wrote.
+replay: {"action": "replay", "payload": "~/.cache/superpowers/browser/2026-01-31/session-1738300000000/session.jsonl"} → Re-runs the recorded steps without captures; stops at the first step whose error, URL or extracted value differs
+replay: {"action": "replay", "payload": "/path/to/session-dir", "options": {"from": 3, "to": 12, "continue": true}} → A slice of the flow, reporting every difference
+Session dirs are deleted on exit unless the server runs with --keep-sessions (CHROME_KEEP_SESSIONS=1); kept sessions are pruned by age and total size at startup.
+
 ## Profile Management
 set_profile: {"action": "set_profile", "payload": "profile-name"} → Set Chrome profile (must kill Chrome first)
 get_profile: {"action": "get_profile"} → Get current profile name and directory
@@ -501,9 +1303,10 @@ Profile data persists across sessions (cookies, localStorage, extensions, etc.)
 ## Auto-Capture System
 DOM actions automatically save content to disk - NO EXTRACT NEEDED:
 - {prefix}.html (full rendered DOM) → Use instead of extract with "html"
-- {prefix}.md (structured content) → Use instead of extract with "markdown"
+- {prefix}.md (main content as markdown: tables, lists, code, form values; nav/footers/cookie banners dropped) → Use instead of extract with "markdown"
 - {prefix}.png (visual state) → Use instead of screenshot action
-- {prefix}-console.txt (browser messages)
+- {prefix}-console.txt (console messages, JS exceptions and browser log entries since the previous capture)
+- {prefix}-diff.txt / {prefix}-diff.json (type, keyboard_press: added/removed nodes, text, attribute, form value and visibility changes, plus a markdown diff)
 All files go in a single session directory with prefixes: 001-navigate, 002-click, etc.
 
 The files are immediately available after navigate/click/type/select/eval actions.
@@ -511,6 +1314,12 @@ The files are immediately available after navigate/click/type/select/eval action
 ## Selectors
 CSS: "button.submit", "#email", ".form input[name=password]"
 XPath: "//button[@type='submit']", "//input[@name='email']"
+Snapshot ref: "ref=e17" (from the snapshot action)
+Scoped with >>>: each hop enters an iframe's document or an element's open shadow root
+  "iframe#pay >>> input[name=card]" → element inside a same-origin iframe (cross-origin iframes are out of process and not reachable)
+  "frame=checkout >>> #card" → frame by name or URL pattern ("frame=**/widget/*")
+  "my-app >>> settings-panel >>> button.save" → through nested shadow roots
+  Works with click, type, select, extract, attr, await_element, await_gone and screenshot
 
 ## Essential Patterns
 Login flow (auto-captured - CHECK page.md FIRST):
@@ -525,14 +1334,17 @@ Extract specific content ONLY when auto-capture insufficient:
 {"action": "extract", "payload": "text", "selector": ".price"} → ONLY if price not in page.md
 
 Multi-tab workflow:
+{"action": "new_tab", "options": {"name": "docs"}}
+{"action": "navigate", "tab_id": "docs", "payload": "https://example.com"} → Auto-captured
 {"action": "list_tabs"}
-{"action": "new_tab"}
-{"action": "navigate", "tab_index": 1, "payload": "https://example.com"} → Auto-captured
 
 ## Troubleshooting
-Element not found → Use await_element first, check auto-captured page.html for correct selectors
+Element not found → Use await_element first, or run snapshot and use a ref instead of guessing selectors
+Stale ref → The page navigated since the snapshot; run snapshot again
+Element in iframe/web component not found → Scope the selector with >>> (see Selectors)
 Timeout errors → Increase timeout parameter or wait for specific elements
-Tab errors → Use list_tabs to get current indices
+"Settle timed out" → Page keeps polling or animating; set options.settle.maxInflight or a lower settle timeout
+Tab errors → Use list_tabs to get current indices, or address tabs by tab_id
 
 Chrome auto-starts. All DOM actions provide rich context via automatic captures.`;
 
@@ -547,6 +1359,91 @@ const server = new McpServer({
   version: "1.0.0"
 });
 
+/**
+ * Image block for the last captured screenshot, downscaled to the inline limits,
+ * or a note saying why it was left out
+ */
+function inlineCaptureImage(): { block?: { type: "image"; data: string; mimeType: string }; note?: string } | null {
+  if (!lastCaptureImage) {
+    return null;
+  }
+  try {
+    const image = chromeLib.prepareInlineImage(lastCaptureImage, inlineImageLimits);
+    if (image.skipped) {
+      return { note: `Image not inlined: ${image.skipped}` };
+    }
+    return {
+      block: { type: "image", data: image.data, mimeType: image.mimeType },
+      note: image.scaled ? `Image inlined at ${image.width}×${image.height} (downscaled from ${image.original.width}×${image.original.height})` : undefined
+    };
+  } catch (error) {
+    return { note: `Image not inlined: ${error instanceof Error ? error.message : String(error)}` };
+  }
+}
+
+/**
+ * Tell clients about new session files (list_changed) and about changes to
+ * files they subscribed to (e.g. session.jsonl grows with every call)
+ */
+async function notifySessionFileChanges(): Promise<void> {
+  const current = new Map<string, number>(
+    chromeLib.listSessionFiles().map((file: any) => [file.name, file.mtimeMs])
+  );
+  const listChanged = current.size !== knownSessionFiles.size
+    || [...current.keys()].some(name => !knownSessionFiles.has(name));
+
+  for (const uri of resourceSubscriptions) {
+    const name = decodeURIComponent(uri.slice(SESSION_RESOURCE_PREFIX.length));
+    if (current.has(name) && current.get(name) !== knownSessionFiles.get(name)) {
+      await server.server.sendResourceUpdated({ uri });
+    }
+  }
+  knownSessionFiles = current;
+  if (listChanged) {
+    server.sendResourceListChanged();
+  }
+}
+
+// Session dir as resources: captures, exports and session.jsonl
+server.resource(
+  "session-files",
+  new ResourceTemplate(`${SESSION_RESOURCE_PREFIX}{file}`, {
+    list: async () => ({
+      resources: chromeLib.listSessionFiles().map((file: any) => ({
+        uri: `${SESSION_RESOURCE_PREFIX}${encodeURIComponent(file.name)}`,
+        name: file.name,
+        mimeType: file.mimeType,
+        description: `${file.size} bytes`
+      }))
+    })
+  }),
+  {
+    description: "Files in the current browser session directory: page captures (.html, .md, .png), diffs, console logs, exports and the session.jsonl action log"
+  },
+  async (uri, variables) => {
+    const name = decodeURIComponent(String(variables.file));
+    const path = chromeLib.resolveSessionFile(name);
+    const mimeType = chromeLib.getSessionFileMimeType(name);
+    return {
+      contents: [chromeLib.isTextMimeType(mimeType)
+        ? { uri: uri.href, mimeType, text: readFileSync(path, 'utf8') }
+        : { uri: uri.href, mimeType, blob: readFileSync(path).toString('base64') }]
+    };
+  }
+);
+
+server.server.registerCapabilities({ resources: { subscribe: true } });
+
+server.server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+  resourceSubscriptions.add(request.params.uri);
+  return {};
+});
+
+server.server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+  resourceSubscriptions.delete(request.params.uri);
+  return {};
+});
+
 // Register the use_browser tool
 server.tool(
   "use_browser",
@@ -569,6 +1466,9 @@ Workflows: navigate→check_page.md_first | extract→only_if_auto_capture_insuf
     openWorldHint: true
   },
   async (args) => {
+    // Every call goes to session.jsonl, including failed ones
+    const step = chromeLib.beginSessionStep();
+    let stepTab: number | string | null = null;
     try {
       // Parse and validate input with Zod
       const params = z.object(UseBrowserParams).parse(args) as UseBrowserInput;
@@ -578,24 +1478,45 @@ Workflows: navigate→check_page.md_first | extract→only_if_auto_capture_insuf
         BrowserAction.SET_PROFILE,    // Must have Chrome stopped
         BrowserAction.GET_PROFILE,    // Just returns config
         BrowserAction.BROWSER_MODE,   // Just returns state
+        BrowserAction.DIALOG_POLICY,  // Session setting, applied as dialogs open
         BrowserAction.HELP            // Just returns help text
       ];
 
       if (!actionsNotRequiringChrome.includes(params.action)) {
+        stepTab = params.tab_id ?? params.tab_index;
         await ensureChromeRunning();
       }
 
       // Execute browser action
-      const result = await executeBrowserAction(params);
+      lastReportedPopups = [];
+      lastCaptureImage = null;
+      let result = await executeBrowserAction(params);
+      if (params.options?.switchToPopup) {
+        result += `\n${await switchToReportedPopup()}`;
+      }
+
+      const image = (params.options?.inlineImage ?? inlineImagesDefault) ? inlineCaptureImage() : null;
+      if (image?.note) {
+        result += `\n${image.note}`;
+      }
+      // Resolved {{secret:NAME}} values and typed passwords never go back to the client
+      result = chromeLib.maskSecrets(result);
+      await chromeLib.recordSessionStep(step, params, { response: result }, stepTab).catch(() => {});
+      await notifySessionFileChanges().catch(() => {});
 
       return {
-        content: [{
-          type: "text" as const,
-          text: result
-        }]
+        content: [
+          {
+            type: "text" as const,
+            text: result
+          },
+          ...(image?.block ? [image.block] : [])
+        ]
       };
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : String(error);
+      const errorMessage = chromeLib.maskSecrets(error instanceof Error ? error.message : String(error));
+      await chromeLib.recordSessionStep(step, args, { error: errorMessage }, stepTab).catch(() => {});
+      await notifySessionFileChanges().catch(() => {});
       return {
         content: [{
           type: "text" as const,
@@ -608,9 +1529,21 @@ Workflows: navigate→check_page.md_first | extract→only_if_auto_capture_insuf
 
 // Main function
 async function main() {
+  // Keep/prune settings first: initializeSession() prunes old session dirs
+  // (--keep-sessions, --session-max-age, --session-max-size or CHROME_* env vars)
+  chromeLib.setSessionRetention(chromeLib.loadSessionRetention(process.argv.slice(2)));
+
   // Initialize session and register cleanup
   chromeLib.initializeSession();
 
+  // Chrome launch settings: config file < env vars < CLI flags (--chrome-path, --debug-port=<port|auto>,
+  // --chrome-arg, --remove-chrome-arg, --extension, --proxy, --window-size, --config)
+  await chromeLib.setLaunchConfig(chromeLib.loadLaunchConfig(process.argv.slice(2)));
+
+  // {{secret:NAME}} placeholders: env vars first, then --secrets-file (or CHROME_SECRETS_FILE,
+  // default ~/.config/superpowers/secrets.json)
+  chromeLib.setSecretsFile(process.argv.filter(arg => arg.startsWith('--secrets-file=')).pop()?.slice('--secrets-file='.length) || null);
+
   // Create stdio transport
   const transport = new StdioServerTransport();
 
@@ -620,7 +1553,7 @@ async function main() {
   const modeReason = forceHeadless ? 'forced via --headless' :
                      forceHeaded ? 'forced via --headed' :
                      headlessMode ? 'auto-detected no display' : 'display available';
-  console.error(`Chrome MCP server running via stdio (${headlessMode ? 'headless' : 'headed'} mode, ${modeReason})`);
+  console.error(`Chrome MCP server running via stdio (${headlessMode ? 'headless' : 'headed'} mode, ${modeReason}, debugging port ${chromeLib.getDebugPort()})`);
 }
 
 // Run the server
@@ -19,7 +19,8 @@ const crypto = require('crypto');
 const {
   CHROME_DEBUG_HOST,
   CHROME_DEBUG_PORT,
-  rewriteWsUrl
+  rewriteWsUrl,
+  WS_OVERRIDE_ENABLED
 } = require('./host-override');
 
 // Minimal WebSocket client implementation (dependency-free)
@@ -189,7 +190,8 @@ async function getPooledConnection(wsUrl) {
   conn = {
     ws,
     pendingRequests: new Map(), // id -> { resolve, reject, timeout }
-    messageIdCounter: 1
+    messageIdCounter: 1,
+    eventHandler: (event) => dispatchTabEvent(wsUrl, event)
   };
 
   ws.on('message', (msg) => {
@@ -217,7 +219,12 @@ async function getPooledConnection(wsUrl) {
   });
 
   ws.on('close', () => {
-    connectionPool.delete(wsUrl);
+    // Closed by Chrome. Closes via closePooledConnection() have left the pool
+    // already, and a newer connection to the tab keeps its state.
+    if (connectionPool.get(wsUrl) === conn) {
+      connectionPool.delete(wsUrl);
+      dispatchTabDisconnect(wsUrl);
+    }
     // Reject all pending requests
     for (const [id, pending] of conn.pendingRequests) {
       clearTimeout(pending.timeout);
@@ -233,6 +240,9 @@ async function getPooledConnection(wsUrl) {
   await ws.connect();
   connectionPool.set(wsUrl, conn);
 
+  // Enable event domains so per-tab listeners (console, etc.) start recording
+  await enableTabDomains(wsUrl);
+
   return conn;
 }
 
@@ -262,6 +272,7 @@ function closePooledConnection(wsUrl) {
   if (conn) {
     conn.ws.close();
     connectionPool.delete(wsUrl);
+    dispatchTabDisconnect(wsUrl);
   }
 }
 
@@ -271,16 +282,160 @@ function closePooledConnection(wsUrl) {
 function closeAllConnections() {
   for (const [wsUrl, conn] of connectionPool) {
     conn.ws.close();
+    dispatchTabDisconnect(wsUrl);
   }
   connectionPool.clear();
 }
 
+// =============================================================================
+// TAB EVENTS (persistent per-tab listeners on the pooled connection)
+// =============================================================================
+
+// Domains enabled on every pooled connection so their events reach the listeners
+const TAB_EVENT_DOMAINS = ['Page', 'Runtime', 'Log', 'Network'];
+
+// Listeners called for every CDP event: (wsUrl, event) => void
+const tabEventHandlers = [];
+
+// One-shot waiters for a specific event: { wsUrl, method, resolve, timeout }
+const tabEventWaiters = new Set();
+
+// Setup run on every new pooled connection, after the event domains are enabled:
+// async (wsUrl) => void. Used to re-apply per-tab state that lives on the session.
+const tabSetupHandlers = [];
+
+// Cleanup run when a tab's target goes away: (wsUrl) => void.
+// Each section drops the per-tab state it keeps under the wsUrl.
+const tabCleanupHandlers = [];
+
+// Run when a tab's pooled connection closes: (wsUrl) => void. Events are missed
+// until the next connection, so state built from them is dropped here.
+const tabDisconnectHandlers = [];
+
+// Tabs that have had a pooled connection, by target id (targetId -> wsUrl)
+const trackedTabs = new Map();
+
+function addTabEventHandler(handler) {
+  tabEventHandlers.push(handler);
+}
+
+function addTabSetupHandler(handler) {
+  tabSetupHandlers.push(handler);
+}
+
+function addTabCleanupHandler(handler) {
+  tabCleanupHandlers.push(handler);
+}
+
+function addTabDisconnectHandler(handler) {
+  tabDisconnectHandlers.push(handler);
+}
+
+// Target id is the last path segment of ws://host/devtools/page/<id>
+function targetIdFromWsUrl(wsUrl) {
+  return wsUrl.slice(wsUrl.lastIndexOf('/') + 1);
+}
+
+/**
+ * Drop everything kept for a closed tab: its pooled connection, pending
+ * event waiters and the per-tab state of every section.
+ */
+function forgetTab(targetId) {
+  const wsUrl = trackedTabs.get(targetId);
+  if (!wsUrl) return;
+  trackedTabs.delete(targetId);
+  closePooledConnection(wsUrl);
+
+  for (const waiter of tabEventWaiters) {
+    if (waiter.wsUrl === wsUrl) {
+      clearTimeout(waiter.timeout);
+      tabEventWaiters.delete(waiter);
+      waiter.resolve(null);
+    }
+  }
+
+  for (const cleanup of tabCleanupHandlers) {
+    try {
+      cleanup(wsUrl);
+    } catch (e) {
+      console.error(`Tab cleanup failed: ${e.message}`);
+    }
+  }
+}
+
+function dispatchTabDisconnect(wsUrl) {
+  for (const handler of tabDisconnectHandlers) {
+    try {
+      handler(wsUrl);
+    } catch (e) {
+      console.error(`Tab disconnect handler failed: ${e.message}`);
+    }
+  }
+}
+
+function dispatchTabEvent(wsUrl, event) {
+  for (const handler of tabEventHandlers) {
+    try {
+      handler(wsUrl, event);
+    } catch (e) {
+      console.error(`Error handling ${event.method}:`, e);
+    }
+  }
+
+  for (const waiter of tabEventWaiters) {
+    if (waiter.wsUrl === wsUrl && waiter.method === event.method) {
+      clearTimeout(waiter.timeout);
+      tabEventWaiters.delete(waiter);
+      waiter.resolve(event.params);
+    }
+  }
+}
+
+async function enableTabDomains(wsUrl) {
+  trackedTabs.set(targetIdFromWsUrl(wsUrl), wsUrl);
+
+  for (const domain of TAB_EVENT_DOMAINS) {
+    try {
+      await sendCdpCommandPooled(wsUrl, `${domain}.enable`);
+    } catch (e) {
+      // Some targets don't support every domain; keep going with the rest
+      console.error(`Failed to enable ${domain} domain: ${e.message}`);
+    }
+  }
+
+  for (const setup of tabSetupHandlers) {
+    try {
+      await setup(wsUrl);
+    } catch (e) {
+      console.error(`Tab setup failed: ${e.message}`);
+    }
+  }
+}
+
+/**
+ * Wait for a CDP event on a tab's pooled connection.
+ * Resolves with the event params, or null if the timeout elapses first.
+ * Register the waiter BEFORE triggering the command that causes the event.
+ */
+function waitForTabEvent(wsUrl, method, timeout = 30000) {
+  return new Promise((resolve) => {
+    const waiter = { wsUrl, method, resolve };
+    waiter.timeout = setTimeout(() => {
+      tabEventWaiters.delete(waiter);
+      resolve(null);
+    }, timeout);
+    // The tab's connection keeps the process alive while there is something to wait for
+    waiter.timeout.unref();
+    tabEventWaiters.add(waiter);
+  });
+}
+
 // Helper to make HTTP requests to Chrome
 async function chromeHttp(path, method = 'GET') {
   return new Promise((resolve, reject) => {
     const options = {
       hostname: CHROME_DEBUG_HOST,
-      port: CHROME_DEBUG_PORT,
+      port: chromeDebugPort,
       path,
       method: method
     };
@@ -314,19 +469,56 @@ const consoleMessages = new Map();
 let sessionDir = null;
 let captureCounter = 0;
 
+// Path picked for the session dir before it exists (see getSessionDirPath)
+let plannedSessionDir = null;
+
 // Chrome process management
 let chromeProcess = null;
 let chromeHeadless = true; // Default to headless mode
 let chromeUserDataDir = null;
 let chromeProfileName = 'superpowers-chrome'; // Default profile name
+let chromeDebugPort = CHROME_DEBUG_PORT; // setDebugPort() can move it, e.g. to a free port
 
-// Helper to resolve tab index or ws URL to actual ws URL
+// Tab names given on newTab() (name -> targetId). Names live as long as this process.
+const tabNames = new Map();
+
+// Shortest target id prefix accepted in place of the full id
+const MIN_TAB_ID_PREFIX = 4;
+
+// Helper to resolve tab index, target id (or a unique prefix of one), tab name
+// or ws URL to actual ws URL
 async function resolveWsUrl(wsUrlOrIndex) {
   // If it's already a WebSocket URL, rewrite and return it
   if (typeof wsUrlOrIndex === 'string' && wsUrlOrIndex.startsWith('ws://')) {
     return rewriteWsUrl(wsUrlOrIndex);
   }
 
+  // Target ids and names don't shift when other tabs close
+  if (typeof wsUrlOrIndex === 'string' && !/^\d+$/.test(wsUrlOrIndex)) {
+    const tabs = await getTabs();
+    if (tabNames.has(wsUrlOrIndex)) {
+      const named = tabs.find(t => t.id === tabNames.get(wsUrlOrIndex));
+      if (!named) throw new Error(`Tab "${wsUrlOrIndex}" is closed`);
+      return named.webSocketDebuggerUrl;
+    }
+
+    const exact = tabs.find(t => t.id === wsUrlOrIndex);
+    if (exact) return exact.webSocketDebuggerUrl;
+
+    // Ids are long hex strings; accept a unique prefix, like a short commit hash
+    const prefix = wsUrlOrIndex.toUpperCase();
+    const matches = wsUrlOrIndex.length >= MIN_TAB_ID_PREFIX
+      ? tabs.filter(t => t.id.toUpperCase().startsWith(prefix))
+      : [];
+    if (matches.length > 1) {
+      throw new Error(`Tab id prefix "${wsUrlOrIndex}" matches ${matches.length} tabs (${matches.map(t => t.id).join(', ')}); use more characters`);
+    }
+    if (matches.length === 0) {
+      throw new Error(`No tab with id or name "${wsUrlOrIndex}" (see list_tabs)`);
+    }
+    return matches[0].webSocketDebuggerUrl;
+  }
+
   // If it's a number (tab index), resolve it
   const index = typeof wsUrlOrIndex === 'number' ? wsUrlOrIndex : parseInt(wsUrlOrIndex);
   if (!isNaN(index)) {
@@ -351,32 +543,72 @@ async function resolveWsUrl(wsUrlOrIndex) {
 // Message ID counter for legacy single-use connections
 let messageIdCounter = 1;
 
-// Helper to generate element selection code (supports CSS and XPath)
-function getElementSelector(selector) {
-  if (selector.startsWith('/') || selector.startsWith('//')) {
-    // XPath selector
-    return `document.evaluate(${JSON.stringify(selector)}, document, null, XPathResult.FIRST_ORDERED_NODE_TYPE, null).singleNodeValue`;
-  } else {
-    // CSS selector
-    return `document.querySelector(${JSON.stringify(selector)})`;
-  }
+// Element refs from snapshot look like "ref=e17"
+function parseElementRef(selector) {
+  const match = typeof selector === 'string' && selector.trim().match(/^ref=(e\d+)$/);
+  return match ? match[1] : null;
 }
 
-// Helper to get all matching elements (for JRV-129 warnings)
-function getElementSelectorAll(selector) {
-  if (selector.startsWith('/') || selector.startsWith('//')) {
-    // XPath - get all matches
+// Scoped selectors: "host >>> inner" pierces shadow roots and iframes,
+// "frame=checkout >>> #card" scopes to a frame by name or URL pattern
+const SELECTOR_SCOPE_SEPARATOR = /\s*>>>\s*/;
+
+function splitSelectorScopes(selector) {
+  return selector.trim().split(SELECTOR_SCOPE_SEPARATOR).filter(Boolean);
+}
+
+// Code that finds one selector segment inside `root` (a document or shadow root)
+function selectorSegmentQuery(segment, root, all = false) {
+  const ref = parseElementRef(segment);
+  if (ref) {
+    // Registered in the page by prepareSelector()
+    const el = `(window.__superpowersRefs?.get(${JSON.stringify(ref)}) ?? null)`;
+    return all ? `[${el}].filter(Boolean)` : el;
+  } else if (segment.startsWith('/') || segment.startsWith('//')) {
+    // XPath selector
+    if (!all) {
+      return `document.evaluate(${JSON.stringify(segment)}, ${root}, null, XPathResult.FIRST_ORDERED_NODE_TYPE, null).singleNodeValue`;
+    }
     return `(() => {
       const result = [];
-      const iterator = document.evaluate(${JSON.stringify(selector)}, document, null, XPathResult.ORDERED_NODE_ITERATOR_TYPE, null);
+      const iterator = document.evaluate(${JSON.stringify(segment)}, ${root}, null, XPathResult.ORDERED_NODE_ITERATOR_TYPE, null);
       let node;
       while (node = iterator.iterateNext()) result.push(node);
       return result;
     })()`;
   } else {
     // CSS selector
-    return `Array.from(document.querySelectorAll(${JSON.stringify(selector)}))`;
+    return all
+      ? `Array.from(${root}.querySelectorAll(${JSON.stringify(segment)}))`
+      : `${root}.querySelector(${JSON.stringify(segment)})`;
+  }
+}
+
+// Code that walks "host >>> host >>> target" through open shadow roots.
+// Frame hops are resolved beforehand by prepareSelector().
+function scopedSelectorQuery(selector, all) {
+  const segments = splitSelectorScopes(selector);
+  if (segments.length === 1) {
+    return selectorSegmentQuery(segments[0], 'document', all);
   }
+
+  const hops = segments.slice(0, -1).map(segment => `
+    root = (${selectorSegmentQuery(segment, 'root')})?.shadowRoot;
+    if (!root) return ${all ? '[]' : 'null'};`).join('');
+  return `(() => {
+    let root = document;${hops}
+    return ${selectorSegmentQuery(segments[segments.length - 1], 'root', all)};
+  })()`;
+}
+
+// Helper to generate element selection code (supports CSS, XPath, snapshot refs and shadow scopes)
+function getElementSelector(selector) {
+  return scopedSelectorQuery(selector, false);
+}
+
+// Helper to get all matching elements (for JRV-129 warnings)
+function getElementSelectorAll(selector) {
+  return scopedSelectorQuery(selector, true);
 }
 
 /**
@@ -496,123 +728,98 @@ async function getTabs() {
     .filter(tab => tab.type === 'page')
     .map(tab => ({
       ...tab,
+      name: getTabName(tab.id),
       webSocketDebuggerUrl: rewriteWsUrl(tab.webSocketDebuggerUrl)
     }));
 }
 
-async function newTab(url = 'about:blank') {
-  const encoded = encodeURIComponent(url);
-  const tab = await chromeHttp(`/json/new?${encoded}`, 'PUT');
+function getTabName(targetId) {
+  for (const [name, id] of tabNames) {
+    if (id === targetId) return name;
+  }
+  return null;
+}
+
+/**
+ * Open a tab, optionally with a name usable instead of its index or target id,
+ * and optionally inside a browser context from newContext() (id or name).
+ */
+async function newTab(url = 'about:blank', name = null, context = null) {
+  if (name !== null && name !== undefined) {
+    if (!name || /^\d+$/.test(name) || name.startsWith('ws://')) {
+      throw new Error(`Invalid tab name "${name}": use a non-numeric name`);
+    }
+    const existing = tabNames.get(name);
+    if (existing && (await getTabs()).some(t => t.id === existing)) {
+      throw new Error(`Tab name "${name}" is already in use`);
+    }
+  }
+
+  let tab;
+  if (context) {
+    tab = await newTabInContext(url, context);
+  } else {
+    const encoded = encodeURIComponent(url);
+    tab = await chromeHttp(`/json/new?${encoded}`, 'PUT');
+  }
   if (tab && typeof tab === 'object') {
     tab.webSocketDebuggerUrl = rewriteWsUrl(tab.webSocketDebuggerUrl);
+    ownTargets.add(tab.id);
+    if (name) {
+      tabNames.set(name, tab.id);
+      tab.name = name;
+    }
   }
   return tab;
 }
 
 async function closeTab(tabIndexOrWsUrl) {
   const wsUrl = await resolveWsUrl(tabIndexOrWsUrl);
-  const tabs = await chromeHttp('/json');
+  const tabs = await getTabs();
   const tab = tabs.find(t => t.webSocketDebuggerUrl === wsUrl);
   if (tab) {
     await chromeHttp(`/json/close/${tab.id}`, 'GET');
+    forgetTargetState(tab.id);
   }
 }
 
-async function navigate(tabIndexOrWsUrl, url, autoCapture = false) {
+async function navigate(tabIndexOrWsUrl, url, autoCapture = false, settle = {}) {
   const wsUrl = await resolveWsUrl(tabIndexOrWsUrl);
 
-  // Clear previous console messages if auto-capture is on
-  const startTime = new Date();
-  if (autoCapture) {
-    await clearConsoleMessages(tabIndexOrWsUrl);
+  try {
+    await ensurePerfObservers(wsUrl);
+  } catch (e) {
+    // perf installs them on the loaded page instead, missing only early interactions
   }
 
+  // Register the load waiter before navigating so the event can't be missed
+  const loaded = waitForTabEvent(wsUrl, 'Page.loadEventFired', 30000);
   const result = await sendCdpCommand(wsUrl, 'Page.navigate', { url });
-
-  // Wait for page load with console logging enabled if needed
-  await new Promise((resolve) => {
-    const ws = new WebSocketClient(wsUrl);
-    let pageLoaded = false;
-
-    ws.on('message', (msg) => {
-      const data = JSON.parse(msg);
-
-      if (data.method === 'Page.loadEventFired' && !pageLoaded) {
-        pageLoaded = true;
-        // Keep connection alive a bit longer for console messages if auto-capture is on
-        if (autoCapture) {
-          setTimeout(() => {
-            ws.close();
-            resolve();
-          }, 1000); // Wait 1 second for console messages
-        } else {
-          ws.close();
-          resolve();
-        }
-      }
-
-      // Capture console messages during navigation if auto-capture is on
-      if (autoCapture && data.method === 'Runtime.consoleAPICalled') {
-        const entry = data.params;
-        const timestamp = new Date().toISOString();
-        const level = entry.type || 'log';
-        const args = entry.args || [];
-
-        // Extract text from arguments
-        const text = args.map(arg => {
-          if (arg.type === 'string') return arg.value;
-          if (arg.type === 'number') return String(arg.value);
-          if (arg.type === 'boolean') return String(arg.value);
-          if (arg.type === 'object') return arg.description || '[Object]';
-          return String(arg.value || arg.description || arg.type);
-        }).join(' ');
-
-        const messages = consoleMessages.get(wsUrl) || [];
-        messages.push({
-          timestamp,
-          level,
-          text
-        });
-        consoleMessages.set(wsUrl, messages);
-      }
-    });
-
-    ws.connect().then(() => {
-      // Enable both Page and Runtime domains
-      sendCdpCommand(wsUrl, 'Page.enable');
-      if (autoCapture) {
-        sendCdpCommand(wsUrl, 'Runtime.enable');
-      }
-    });
-
-    // Timeout after 30s
-    setTimeout(() => {
-      if (!pageLoaded) {
-        ws.close();
-        resolve();
-      }
-    }, 30000);
-  });
+  await loaded;
 
   // Auto-capture if requested
   if (autoCapture) {
+    // Let post-load XHR rendering and late console messages finish
+    const settled = await waitForSettle(wsUrl, settle);
+
     try {
       const artifacts = await capturePageArtifacts(tabIndexOrWsUrl, 'navigate');
 
-      // TODO: Fix console logging - currently returns empty array
-      // The console logging needs a persistent WebSocket connection which
-      // conflicts with the current single-use connection pattern
-      const consoleLog = []; // Placeholder for now
-
       return {
         frameId: result.frameId,
         url,
+        settled,
         pageSize: artifacts.pageSize,
         capturePrefix: artifacts.capturePrefix,
         sessionDir: artifacts.sessionDir,
         files: artifacts.files,
         domSummary: artifacts.domSummary,
-        consoleLog
+        consoleLog: artifacts.consoleLog,
+        networkProblems: artifacts.networkProblems,
+        mocked: artifacts.mocked,
+        emulation: artifacts.emulation,
+        downloads: artifacts.downloads,
+        popups: artifacts.popups
       };
     } catch (error) {
       // If auto-capture fails, still return success but with error note
@@ -637,12 +844,13 @@ async function navigate(tabIndexOrWsUrl, url, autoCapture = false) {
  */
 async function click(tabIndexOrWsUrl, selector) {
   const wsUrl = await resolveWsUrl(tabIndexOrWsUrl);
+  const target = await prepareSelector(wsUrl, selector);
 
   try {
     // Get element's bounding box and scroll into view
     const js = `
       (() => {
-        const el = ${getElementSelector(selector)};
+        const el = ${getElementSelector(target.selector)};
         if (!el) return { found: false };
         el.scrollIntoView({ block: 'center', inline: 'center' });
         const rect = el.getBoundingClientRect();
@@ -656,14 +864,17 @@ async function click(tabIndexOrWsUrl, selector) {
 
     const result = await sendCdpCommand(wsUrl, 'Runtime.evaluate', {
       expression: js,
-      returnByValue: true
+      returnByValue: true,
+      contextId: target.contextId
     });
 
     if (!result.result.value || !result.result.value.found) {
       throw new Error(`Element not found: ${selector}`);
     }
 
-    const { x, y } = result.result.value;
+    // Element coordinates are relative to its frame; mouse events use the top-level viewport
+    const x = result.result.value.x + target.offset.x;
+    const y = result.result.value.y + target.offset.y;
 
     // Send real mouse events (works with React synthetic events)
     await sendCdpCommand(wsUrl, 'Input.dispatchMouseEvent', {
@@ -685,8 +896,8 @@ async function click(tabIndexOrWsUrl, selector) {
     return { clicked: true, x, y };
   } catch (e) {
     // Fallback to el.click() for edge cases (e.g., hidden elements)
-    const js = `${getElementSelector(selector)}?.click()`;
-    await sendCdpCommand(wsUrl, 'Runtime.evaluate', { expression: js });
+    const js = `${getElementSelector(target.selector)}?.click()`;
+    await sendCdpCommand(wsUrl, 'Runtime.evaluate', { expression: js, contextId: target.contextId });
     return { clicked: true, fallback: true };
   }
 }
@@ -694,6 +905,295 @@ async function click(tabIndexOrWsUrl, selector) {
 // Legacy alias for backwards compatibility
 const cdpClick = click;
 
+// =============================================================================
+// POINTER ACTIONS (hover, double/right-click, drag, scroll, mouse wheel)
+// =============================================================================
+
+// Intermediate mouseMoved events between two points, so hover handlers,
+// HTML5 drag-and-drop and pointer-based drag libraries all see motion
+const DEFAULT_POINTER_STEPS = 5;
+const DEFAULT_DRAG_STEPS = 10;
+
+// Last pointer position per tab (wsUrl -> { x, y }); the next move starts there
+const pointerPositions = new Map();
+addTabCleanupHandler((wsUrl) => pointerPositions.delete(wsUrl));
+
+// How long drag() waits after its last move for Chrome to report an HTML5 drag
+// it started during the moves; the event can trail the moves' replies
+const DRAG_INTERCEPT_GRACE_MS = 300;
+
+// HTML5 drags Chrome handed over during the current drag() (wsUrl -> Input.dragIntercepted params)
+const interceptedDrags = new Map();
+addTabEventHandler((wsUrl, event) => {
+  if (event.method === 'Input.dragIntercepted') interceptedDrags.set(wsUrl, event.params || {});
+});
+addTabCleanupHandler((wsUrl) => interceptedDrags.delete(wsUrl));
+
+/**
+ * Centre of an element in top-level viewport coordinates
+ * @param {string|null} scroll - scrollIntoView block mode ('center', 'nearest'), or null to leave the page alone
+ */
+async function locateElementCenter(wsUrl, selector, scroll = 'center') {
+  const target = await prepareSelector(wsUrl, selector);
+  const result = await sendCdpCommand(wsUrl, 'Runtime.evaluate', {
+    expression: `
+      (() => {
+        const el = ${getElementSelector(target.selector)};
+        if (!el) return { found: false };
+        ${scroll ? `el.scrollIntoView({ block: ${JSON.stringify(scroll)}, inline: ${JSON.stringify(scroll)} });` : ''}
+        const rect = el.getBoundingClientRect();
+        return { found: true, x: rect.left + rect.width / 2, y: rect.top + rect.height / 2, width: rect.width, height: rect.height };
+      })()
+    `,
+    returnByValue: true,
+    contextId: target.contextId
+  });
+
+  const box = result.result?.value;
+  if (!box || !box.found) {
+    throw new Error(`Element not found: ${selector}`);
+  }
+  if (box.width === 0 && box.height === 0) {
+    throw new Error(`Element has no size (hidden?): ${selector}`);
+  }
+  // Element coordinates are relative to its frame; mouse events use the top-level viewport
+  return { x: box.x + target.offset.x, y: box.y + target.offset.y };
+}
+
+// Move the pointer in evenly spaced steps from where it last was
+async function movePointer(wsUrl, x, y, steps = 1, extra = {}) {
+  const from = pointerPositions.get(wsUrl) || { x, y };
+  for (let i = 1; i <= steps; i++) {
+    await sendCdpCommand(wsUrl, 'Input.dispatchMouseEvent', {
+      type: 'mouseMoved',
+      x: from.x + (x - from.x) * (i / steps),
+      y: from.y + (y - from.y) * (i / steps),
+      ...extra
+    });
+  }
+  pointerPositions.set(wsUrl, { x, y });
+}
+
+async function pressPointer(wsUrl, x, y, button, clickCount) {
+  const buttons = { left: 1, right: 2, middle: 4 }[button];
+  await sendCdpCommand(wsUrl, 'Input.dispatchMouseEvent', { type: 'mousePressed', x, y, button, buttons, clickCount });
+  await sendCdpCommand(wsUrl, 'Input.dispatchMouseEvent', { type: 'mouseReleased', x, y, button, buttons: 0, clickCount });
+}
+
+/**
+ * Move the pointer onto an element (mouseover/mouseenter/pointermove, CSS :hover)
+ */
+async function hover(tabIndexOrWsUrl, selector) {
+  const wsUrl = await resolveWsUrl(tabIndexOrWsUrl);
+  const { x, y } = await locateElementCenter(wsUrl, selector);
+  await movePointer(wsUrl, x, y, DEFAULT_POINTER_STEPS);
+  return { hovered: selector, x, y };
+}
+
+/**
+ * Double-click an element: two press/release pairs, the second with clickCount 2 (fires dblclick)
+ */
+async function doubleClick(tabIndexOrWsUrl, selector) {
+  const wsUrl = await resolveWsUrl(tabIndexOrWsUrl);
+  const { x, y } = await locateElementCenter(wsUrl, selector);
+  await movePointer(wsUrl, x, y, DEFAULT_POINTER_STEPS);
+  await pressPointer(wsUrl, x, y, 'left', 1);
+  await pressPointer(wsUrl, x, y, 'left', 2);
+  return { doubleClicked: selector, x, y };
+}
+
+/**
+ * Right-click an element (fires contextmenu; the page's own menu, not Chrome's)
+ */
+async function rightClick(tabIndexOrWsUrl, selector) {
+  const wsUrl = await resolveWsUrl(tabIndexOrWsUrl);
+  const { x, y } = await locateElementCenter(wsUrl, selector);
+  await movePointer(wsUrl, x, y, DEFAULT_POINTER_STEPS);
+  await pressPointer(wsUrl, x, y, 'right', 1);
+  return { rightClicked: selector, x, y };
+}
+
+/**
+ * Drag an element onto another element, or by an offset from its centre.
+ * Presses, moves in steps and releases, so pointer-based libraries (sortable
+ * lists, sliders, canvas editors) follow along. When the page starts an HTML5
+ * drag, Chrome hands it over (Input.setInterceptDrags) and it is dropped with
+ * Input.dispatchDragEvent instead.
+ * @param {string} source - Selector of the element to drag
+ * @param {string|Object} destination - Selector to drop on, or { x, y } offset in pixels
+ * @param {Object} options - { steps }
+ */
+async function drag(tabIndexOrWsUrl, source, destination, options = {}) {
+  const wsUrl = await resolveWsUrl(tabIndexOrWsUrl);
+  const steps = Math.max(1, options.steps ?? DEFAULT_DRAG_STEPS);
+
+  let from = await locateElementCenter(wsUrl, source);
+  let to;
+  if (typeof destination === 'string') {
+    // Bring the drop target into view without losing the source, then measure both again
+    await locateElementCenter(wsUrl, destination, 'nearest');
+    from = await locateElementCenter(wsUrl, source, null);
+    to = await locateElementCenter(wsUrl, destination, null);
+  } else if (destination && (destination.x !== undefined || destination.y !== undefined)) {
+    to = { x: from.x + (destination.x || 0), y: from.y + (destination.y || 0) };
+  } else {
+    throw new Error('drag requires a destination selector or an { x, y } offset');
+  }
+
+  await sendCdpCommand(wsUrl, 'Input.setInterceptDrags', { enabled: true });
+  interceptedDrags.delete(wsUrl);
+  try {
+    await movePointer(wsUrl, from.x, from.y, DEFAULT_POINTER_STEPS);
+    await sendCdpCommand(wsUrl, 'Input.dispatchMouseEvent', { type: 'mousePressed', x: from.x, y: from.y, button: 'left', buttons: 1, clickCount: 1 });
+    await movePointer(wsUrl, to.x, to.y, steps, { button: 'left', buttons: 1 });
+
+    // Intercepted during the moves, or shortly after the last one; otherwise a pointer drag
+    const html5Drag = interceptedDrags.get(wsUrl)
+      || await waitForTabEvent(wsUrl, 'Input.dragIntercepted', DRAG_INTERCEPT_GRACE_MS);
+
+    if (html5Drag) {
+      for (const type of ['dragEnter', 'dragOver', 'drop']) {
+        await sendCdpCommand(wsUrl, 'Input.dispatchDragEvent', { type, x: to.x, y: to.y, data: html5Drag.data });
+      }
+    }
+    await sendCdpCommand(wsUrl, 'Input.dispatchMouseEvent', { type: 'mouseReleased', x: to.x, y: to.y, button: 'left', buttons: 0, clickCount: 1 });
+
+    return { dragged: source, to: destination, from, at: to, mode: html5Drag ? 'html5' : 'pointer' };
+  } finally {
+    interceptedDrags.delete(wsUrl);
+    await sendCdpCommand(wsUrl, 'Input.setInterceptDrags', { enabled: false }).catch(() => {});
+  }
+}
+
+// Expression for the element that scrolls: the selected container, or the page
+function scrollContainerExpression(target) {
+  return target ? getElementSelector(target.selector) : '(document.scrollingElement || document.documentElement)';
+}
+
+/**
+ * Scroll the page or a scrollable element by pixels, to an edge, or until an
+ * element is visible. Infinite feeds load more while it scrolls toward `until`.
+ * @param {Object} options - { selector (container, default page), x, y (pixels),
+ *   to ('top'|'bottom'|'left'|'right'), until (selector to bring into view), timeout }
+ * @returns {Object} { x, y } scroll position afterwards, plus `found` for `until`
+ */
+async function scroll(tabIndexOrWsUrl, options = {}) {
+  const wsUrl = await resolveWsUrl(tabIndexOrWsUrl);
+  const container = options.selector ? await prepareSelector(wsUrl, options.selector) : null;
+  const containerExpr = scrollContainerExpression(container);
+
+  const scrollBy = async (js) => {
+    const result = await sendCdpCommand(wsUrl, 'Runtime.evaluate', {
+      expression: `
+        (() => {
+          const el = ${containerExpr};
+          if (!el) return { found: false };
+          ${js}
+          return { found: true, x: el.scrollLeft, y: el.scrollTop, maxY: el.scrollHeight - el.clientHeight };
+        })()
+      `,
+      returnByValue: true,
+      contextId: container?.contextId
+    });
+    const position = result.result?.value;
+    if (!position || !position.found) {
+      throw new Error(`Element not found: ${options.selector}`);
+    }
+    return position;
+  };
+
+  if (options.until) {
+    const timeout = options.timeout ?? 10000;
+    const start = Date.now();
+    while (true) {
+      let target = null;
+      try {
+        target = await prepareSelector(wsUrl, options.until);
+      } catch (e) {
+        if (!/not found|no document yet/.test(e.message)) throw e;
+      }
+      if (target) {
+        const shown = await sendCdpCommand(wsUrl, 'Runtime.evaluate', {
+          expression: `
+            (() => {
+              const el = ${getElementSelector(target.selector)};
+              if (!el) return false;
+              el.scrollIntoView({ block: 'center', inline: 'nearest' });
+              return true;
+            })()
+          `,
+          returnByValue: true,
+          contextId: target.contextId
+        });
+        if (shown.result?.value) {
+          const position = await scrollBy('');
+          return { x: position.x, y: position.y, found: true };
+        }
+      }
+
+      // Not there yet: scroll most of a screen further and give lazy loaders a moment
+      const position = await scrollBy('el.scrollBy({ top: Math.max(el.clientHeight, window.innerHeight) * 0.8, behavior: "instant" });');
+      if (Date.now() - start >= timeout) {
+        throw new Error(`Timeout scrolling to ${options.until}: not found after ${Date.now() - start}ms (scrolled to ${Math.round(position.y)}px)`);
+      }
+      await sleep(position.y >= position.maxY - 1 ? 300 : 100);
+    }
+  }
+
+  let js;
+  if (options.to) {
+    const edges = {
+      top: 'el.scrollTo({ top: 0, behavior: "instant" });',
+      bottom: 'el.scrollTo({ top: el.scrollHeight, behavior: "instant" });',
+      left: 'el.scrollTo({ left: 0, behavior: "instant" });',
+      right: 'el.scrollTo({ left: el.scrollWidth, behavior: "instant" });'
+    };
+    if (!edges[options.to]) {
+      throw new Error(`Invalid scroll target: ${options.to} (use top, bottom, left or right)`);
+    }
+    js = edges[options.to];
+  } else {
+    const x = Number(options.x || 0);
+    const y = options.x === undefined && options.y === undefined ? null : Number(options.y || 0);
+    // Default: one screen down
+    js = `el.scrollBy({ left: ${x}, top: ${y === null ? 'Math.min(el.clientHeight, window.innerHeight)' : y}, behavior: "instant" });`;
+  }
+  const position = await scrollBy(js);
+  return { x: position.x, y: position.y };
+}
+
+/**
+ * Dispatch a mouse wheel event over an element (or a viewport point, or the
+ * viewport centre). Reaches wheel listeners (maps, canvas zoom, carousels)
+ * and scrolls whatever is under the pointer.
+ * @param {Object} options - { selector, x, y (viewport point), deltaX, deltaY }
+ */
+async function mouseWheel(tabIndexOrWsUrl, options = {}) {
+  const wsUrl = await resolveWsUrl(tabIndexOrWsUrl);
+  const deltaX = Number(options.deltaX || 0);
+  const deltaY = Number(options.deltaY || 0);
+  if (deltaX === 0 && deltaY === 0) {
+    throw new Error('mouse_wheel requires deltaX or deltaY');
+  }
+
+  let point;
+  if (options.selector) {
+    point = await locateElementCenter(wsUrl, options.selector);
+  } else if (options.x !== undefined && options.y !== undefined) {
+    point = { x: Number(options.x), y: Number(options.y) };
+  } else {
+    const viewport = await sendCdpCommand(wsUrl, 'Runtime.evaluate', {
+      expression: '({ x: window.innerWidth / 2, y: window.innerHeight / 2 })',
+      returnByValue: true
+    });
+    point = viewport.result.value;
+  }
+
+  await movePointer(wsUrl, point.x, point.y, DEFAULT_POINTER_STEPS);
+  await sendCdpCommand(wsUrl, 'Input.dispatchMouseEvent', { type: 'mouseWheel', x: point.x, y: point.y, deltaX, deltaY });
+  return { x: point.x, y: point.y, deltaX, deltaY };
+}
+
 // =============================================================================
 // TYPE FUNCTION - Smart text input with Tab/Enter handling
 // =============================================================================
@@ -714,10 +1214,11 @@ async function fill(tabIndexOrWsUrl, selector, value) {
   const wsUrl = await resolveWsUrl(tabIndexOrWsUrl);
 
   // If selector provided, focus it (using JS focus, not click, to avoid capture side effects)
+  const target = await prepareSelector(wsUrl, selector);
   if (selector) {
     const focusJs = `
       (() => {
-        const el = ${getElementSelector(selector)};
+        const el = ${getElementSelector(target.selector)};
         if (!el) return { success: false, error: 'Element not found' };
         el.focus();
         return { success: true, focused: document.activeElement === el };
@@ -725,7 +1226,8 @@ async function fill(tabIndexOrWsUrl, selector, value) {
     `;
     const focusResult = await sendCdpCommand(wsUrl, 'Runtime.evaluate', {
       expression: focusJs,
-      returnByValue: true
+      returnByValue: true,
+      contextId: target.contextId
     });
     if (!focusResult.result?.value?.success) {
       throw new Error(focusResult.result?.value?.error || 'Failed to focus element');
@@ -741,7 +1243,8 @@ async function fill(tabIndexOrWsUrl, selector, value) {
   // Check if current focus is a textarea (for \n handling)
   const focusInfo = await sendCdpCommand(wsUrl, 'Runtime.evaluate', {
     expression: `({ isTextarea: document.activeElement?.tagName === 'TEXTAREA' })`,
-    returnByValue: true
+    returnByValue: true,
+    contextId: target.contextId
   });
   const isTextarea = focusInfo.result?.value?.isTextarea || false;
 
@@ -773,7 +1276,8 @@ async function fill(tabIndexOrWsUrl, selector, value) {
       // Re-check if current focus is a textarea (focus may have changed after Tab)
       const currentFocus = await sendCdpCommand(wsUrl, 'Runtime.evaluate', {
         expression: `({ isTextarea: document.activeElement?.tagName === 'TEXTAREA' })`,
-        returnByValue: true
+        returnByValue: true,
+        contextId: target.contextId
       });
       const currentlyInTextarea = currentFocus.result?.value?.isTextarea || false;
 
@@ -870,12 +1374,14 @@ async function keyboardType(tabIndexOrWsUrl, text) {
  */
 async function selectOption(tabIndexOrWsUrl, selector, value, index = 0) {
   const wsUrl = await resolveWsUrl(tabIndexOrWsUrl);
+  const target = await prepareSelector(wsUrl, selector);
 
   // Check how many elements match and warn if multiple
-  const countJs = `${getElementSelectorAll(selector)}.length`;
+  const countJs = `${getElementSelectorAll(target.selector)}.length`;
   const countResult = await sendCdpCommand(wsUrl, 'Runtime.evaluate', {
     expression: countJs,
-    returnByValue: true
+    returnByValue: true,
+    contextId: target.contextId
   });
   const matchCount = countResult.result.value || 0;
 
@@ -887,7 +1393,7 @@ async function selectOption(tabIndexOrWsUrl, selector, value, index = 0) {
 
   const js = `
     (() => {
-      const elements = ${getElementSelectorAll(selector)};
+      const elements = ${getElementSelectorAll(target.selector)};
       const el = elements[${index}];
       if (!el) return { success: false, error: 'Element not found at index ${index}' };
       if (el.tagName !== 'SELECT') return { success: false, error: 'Element is not a SELECT' };
@@ -900,7 +1406,8 @@ async function selectOption(tabIndexOrWsUrl, selector, value, index = 0) {
 
   const result = await sendCdpCommand(wsUrl, 'Runtime.evaluate', {
     expression: js,
-    returnByValue: true
+    returnByValue: true,
+    contextId: target.contextId
   });
 
   const resultValue = result.result.value;
@@ -1050,43 +1557,63 @@ async function hrefNavigate(tabIndexOrWsUrl, url) {
 
 async function extractText(tabIndexOrWsUrl, selector) {
   const wsUrl = await resolveWsUrl(tabIndexOrWsUrl);
-  const js = `${getElementSelector(selector)}?.textContent`;
+  const target = await prepareSelector(wsUrl, selector);
+  const js = `${getElementSelector(target.selector)}?.textContent`;
   const result = await sendCdpCommand(wsUrl, 'Runtime.evaluate', {
     expression: js,
-    returnByValue: true
+    returnByValue: true,
+    contextId: target.contextId
   });
   return result.result.value;
 }
 
 async function getHtml(tabIndexOrWsUrl, selector = null) {
   const wsUrl = await resolveWsUrl(tabIndexOrWsUrl);
+  const target = await prepareSelector(wsUrl, selector);
   const js = selector
-    ? `${getElementSelector(selector)}?.innerHTML`
+    ? `${getElementSelector(target.selector)}?.innerHTML`
     : 'document.documentElement.outerHTML';
   const result = await sendCdpCommand(wsUrl, 'Runtime.evaluate', {
     expression: js,
-    returnByValue: true
+    returnByValue: true,
+    contextId: target.contextId
   });
-  return result.result.value;
+  return maskPasswordInputs(result.result.value);
 }
 
 async function getAttribute(tabIndexOrWsUrl, selector, attrName) {
   const wsUrl = await resolveWsUrl(tabIndexOrWsUrl);
-  const js = `${getElementSelector(selector)}?.getAttribute(${JSON.stringify(attrName)})`;
+  const target = await prepareSelector(wsUrl, selector);
+  const js = `${getElementSelector(target.selector)}?.getAttribute(${JSON.stringify(attrName)})`;
   const result = await sendCdpCommand(wsUrl, 'Runtime.evaluate', {
     expression: js,
-    returnByValue: true
+    returnByValue: true,
+    contextId: target.contextId
   });
   return result.result.value;
 }
 
 async function waitForElement(tabIndexOrWsUrl, selector, timeout = 5000) {
   const wsUrl = await resolveWsUrl(tabIndexOrWsUrl);
+  const start = Date.now();
+
+  // Frames in a scoped selector may not exist yet; keep resolving until they do
+  let target;
+  while (!target) {
+    try {
+      target = await prepareSelector(wsUrl, selector);
+    } catch (e) {
+      if (!/not found|no document yet/.test(e.message) || Date.now() - start >= timeout) throw e;
+      await new Promise(resolve => setTimeout(resolve, 100));
+    }
+  }
+
+  const remaining = Math.max(timeout - (Date.now() - start), 0);
   const js = `
     new Promise((resolve, reject) => {
-      const timeout = setTimeout(() => reject(new Error('Timeout')), ${timeout});
+      const timeout = setTimeout(() => reject(new Error('Timeout')), ${remaining});
       const check = () => {
-        if (${getElementSelector(selector)}) {
+        if (${getElementSelector(target.selector)}) {
           clearTimeout(timeout);
           resolve(true);
         } else {
@@ -1098,7 +1625,8 @@ async function waitForElement(tabIndexOrWsUrl, selector, timeout = 5000) {
   `;
   await sendCdpCommand(wsUrl, 'Runtime.evaluate', {
     expression: js,
-    awaitPromise: true
+    awaitPromise: true,
+    contextId: target.contextId
   });
 }
 
@@ -1124,369 +1652,5826 @@ async function waitForText(tabIndexOrWsUrl, text, timeout = 5000) {
   });
 }
 
-async function screenshot(tabIndexOrWsUrl, filename, selector = null) {
+// =============================================================================
+// SCREENSHOTS AND PDF (Page.captureScreenshot, Page.printToPDF)
+// =============================================================================
+
+const SCREENSHOT_FORMATS = { '.png': 'png', '.jpg': 'jpeg', '.jpeg': 'jpeg', '.webp': 'webp' };
+
+// Colour painted over masked elements (unlikely to occur in real pages)
+const DEFAULT_MASK_COLOR = '#ff00ff';
+
+// Current scroll offset of the top-level document, to turn viewport rects into page rects
+async function getPageScroll(wsUrl) {
+  const result = await sendCdpCommand(wsUrl, 'Runtime.evaluate', {
+    expression: '({ x: window.scrollX, y: window.scrollY })',
+    returnByValue: true
+  });
+  return result.result.value || { x: 0, y: 0 };
+}
+
+/**
+ * Page rects ({x, y, width, height} in CSS px) of every element matching a selector.
+ * Selectors may use >>> to reach into frames and shadow roots.
+ */
+async function getElementPageRects(wsUrl, selector) {
+  const target = await prepareSelector(wsUrl, selector);
+  const result = await sendCdpCommand(wsUrl, 'Runtime.evaluate', {
+    expression: `${getElementSelectorAll(target.selector)}.map(el => {
+      const rect = el.getBoundingClientRect();
+      return { x: rect.left, y: rect.top, width: rect.width, height: rect.height };
+    }).filter(rect => rect.width > 0 && rect.height > 0)`,
+    returnByValue: true,
+    contextId: target.contextId
+  });
+  const scroll = await getPageScroll(wsUrl);
+  return (result.result.value || []).map(rect => ({
+    x: rect.x + target.offset.x + scroll.x,
+    y: rect.y + target.offset.y + scroll.y,
+    width: rect.width,
+    height: rect.height
+  }));
+}
+
+// Paint solid boxes over page rects; returns the number of boxes
+async function addScreenshotMasks(wsUrl, rects, color) {
+  await sendCdpCommand(wsUrl, 'Runtime.evaluate', {
+    expression: `(() => {
+      const layer = document.createElement('div');
+      layer.id = '__superpowers_masks';
+      layer.style.cssText = 'position:absolute;left:0;top:0;width:0;height:0;z-index:2147483647;pointer-events:none';
+      for (const rect of ${JSON.stringify(rects)}) {
+        const box = document.createElement('div');
+        box.style.cssText = 'position:absolute;left:' + rect.x + 'px;top:' + rect.y + 'px;width:' + rect.width + 'px;height:' + rect.height + 'px;background:' + ${JSON.stringify(color)};
+        layer.appendChild(box);
+      }
+      document.documentElement.appendChild(layer);
+    })()`
+  });
+  return rects.length;
+}
+
+async function removeScreenshotMasks(wsUrl) {
+  await sendCdpCommand(wsUrl, 'Runtime.evaluate', {
+    expression: `document.getElementById('__superpowers_masks')?.remove()`
+  });
+}
+
+/**
+ * Capture a screenshot.
+ * @param {string|null} selector - Element to capture; it is scrolled into view first
+ * @param {Object} options - { fullPage, format (png|jpeg|webp, default from the file extension),
+ *   quality (0-100, jpeg/webp), mask: [selectors] painted over, maskColor }
+ * @returns {string} absolute path of the saved image
+ */
+async function screenshot(tabIndexOrWsUrl, filename, selector = null, options = {}) {
+  const fs = require('fs');
+  const path = require('path');
   const wsUrl = await resolveWsUrl(tabIndexOrWsUrl);
 
-  let clip = undefined;
+  const format = options.format || SCREENSHOT_FORMATS[path.extname(filename).toLowerCase()] || 'png';
+  if (!['png', 'jpeg', 'webp'].includes(format)) {
+    throw new Error(`Unsupported screenshot format: ${format} (use png, jpeg or webp)`);
+  }
+  const params = { format };
+  if (options.quality !== undefined) {
+    if (format === 'png') {
+      throw new Error('quality applies to jpeg and webp screenshots only');
+    }
+    params.quality = Math.max(0, Math.min(100, Math.round(options.quality)));
+  }
+
+  if (selector && options.fullPage) {
+    throw new Error('Use either a selector or fullPage, not both');
+  }
+
   if (selector) {
-    // Get element bounds
-    const js = `
-      (() => {
-        const el = ${getElementSelector(selector)};
-        if (!el) return null;
-        const rect = el.getBoundingClientRect();
-        return {
-          x: rect.left,
-          y: rect.top,
-          width: rect.width,
-          height: rect.height,
-          scale: 1
-        };
-      })()
-    `;
-    const result = await sendCdpCommand(wsUrl, 'Runtime.evaluate', {
-      expression: js,
-      returnByValue: true
+    // Off-screen elements have a rect outside the viewport; bring them in first
+    const target = await prepareSelector(wsUrl, selector);
+    const scrolled = await sendCdpCommand(wsUrl, 'Runtime.evaluate', {
+      expression: `(() => {
+        const el = ${getElementSelector(target.selector)};
+        if (!el) return false;
+        el.scrollIntoView({ block: 'center', inline: 'center', behavior: 'instant' });
+        return true;
+      })()`,
+      returnByValue: true,
+      contextId: target.contextId
     });
-    clip = result.result.value;
+    if (!scrolled.result.value) {
+      throw new Error(`Element not found: ${selector}`);
+    }
+    const [rect] = await getElementPageRects(wsUrl, selector);
+    if (!rect) {
+      throw new Error(`Element has no visible box: ${selector}`);
+    }
+    params.clip = { ...rect, scale: 1 };
+    params.captureBeyondViewport = true;
+  } else if (options.fullPage) {
+    const metrics = await sendCdpCommand(wsUrl, 'Page.getLayoutMetrics');
+    const size = metrics.cssContentSize || metrics.contentSize;
+    params.clip = { x: 0, y: 0, width: Math.ceil(size.width), height: Math.ceil(size.height), scale: 1 };
+    params.captureBeyondViewport = true;
   }
 
-  const result = await sendCdpCommand(wsUrl, 'Page.captureScreenshot', {
-    format: 'png',
-    ...(clip ? { clip } : {})
-  });
+  const masks = options.mask ? [].concat(options.mask) : [];
+  if (masks.length > 0) {
+    const rects = [];
+    for (const maskSelector of masks) {
+      rects.push(...await getElementPageRects(wsUrl, maskSelector));
+    }
+    await addScreenshotMasks(wsUrl, rects, options.maskColor || DEFAULT_MASK_COLOR);
+  }
+
+  let result;
+  try {
+    result = await sendCdpCommand(wsUrl, 'Page.captureScreenshot', params);
+  } finally {
+    if (masks.length > 0) {
+      await removeScreenshotMasks(wsUrl).catch(() => {});
+    }
+  }
 
-  const fs = require('fs');
-  const path = require('path');
   const buffer = Buffer.from(result.data, 'base64');
   fs.writeFileSync(filename, buffer);
   // Return absolute path so caller knows exactly where file is
   return path.resolve(filename);
 }
 
-async function startChrome(headless = null, profileName = null) {
-  const { spawn } = require('child_process');
-  const { existsSync, mkdirSync } = require('fs');
-  const os = require('os');
+// Paper sizes in inches (width x height, portrait)
+const PDF_PAPER_FORMATS = {
+  letter: [8.5, 11],
+  legal: [8.5, 14],
+  tabloid: [11, 17],
+  ledger: [17, 11],
+  a0: [33.1, 46.8],
+  a1: [23.4, 33.1],
+  a2: [16.54, 23.4],
+  a3: [11.7, 16.54],
+  a4: [8.27, 11.7],
+  a5: [5.83, 8.27],
+  a6: [4.13, 5.83]
+};
 
-  // Use provided headless parameter, or fall back to current mode
-  if (headless !== null) {
-    chromeHeadless = headless;
-  }
+const PDF_UNITS_PER_INCH = { in: 1, cm: 2.54, mm: 25.4, px: 96 };
 
-  // Use provided profile name, or fall back to current profile
-  if (profileName !== null) {
-    chromeProfileName = profileName;
+// A length for printToPDF in inches: numbers are inches, strings may use in, cm, mm or px
+function parsePdfLength(value) {
+  if (typeof value === 'number') return value;
+  const match = String(value).trim().match(/^(\d*\.?\d+)\s*(in|cm|mm|px)?$/i);
+  if (!match) {
+    throw new Error(`Invalid PDF length: ${value} (use a number of inches or e.g. "1cm", "10mm", "0.5in", "48px")`);
   }
+  return parseFloat(match[1]) / PDF_UNITS_PER_INCH[(match[2] || 'in').toLowerCase()];
+}
 
-  // Platform-specific Chrome paths
-  const chromePaths = {
-    darwin: [
-      '/Applications/Google Chrome.app/Contents/MacOS/Google Chrome',
-      '/Applications/Chromium.app/Contents/MacOS/Chromium'
-    ],
-    linux: [
-      '/usr/bin/google-chrome',
-      '/usr/bin/chromium-browser',
-      '/usr/bin/chromium'
-    ],
-    win32: [
-      'C:\\Program Files\\Google\\Chrome\\Application\\chrome.exe',
-      'C:\\Program Files (x86)\\Google\\Chrome\\Application\\chrome.exe'
-    ]
+/**
+ * Build Page.printToPDF params from friendly options:
+ * { format (letter|legal|a4|...), width, height, landscape, printBackground,
+ *   margin (length or {top, right, bottom, left}), headerTemplate, footerTemplate,
+ *   displayHeaderFooter, scale, pageRanges, preferCSSPageSize }
+ */
+function buildPdfParams(options = {}) {
+  const params = {
+    landscape: !!options.landscape,
+    printBackground: !!options.printBackground
   };
 
-  const platform = os.platform();
-  const paths = chromePaths[platform] || [];
-
-  let chromePath = null;
-  for (const path of paths) {
-    if (existsSync(path)) {
-      chromePath = path;
-      break;
+  if (options.width || options.height) {
+    if (!options.width || !options.height) {
+      throw new Error('PDF width and height must be set together');
+    }
+    params.paperWidth = parsePdfLength(options.width);
+    params.paperHeight = parsePdfLength(options.height);
+  } else if (options.format) {
+    const paper = PDF_PAPER_FORMATS[String(options.format).toLowerCase()];
+    if (!paper) {
+      throw new Error(`Unknown paper format: ${options.format} (use ${Object.keys(PDF_PAPER_FORMATS).join(', ')})`);
     }
+    [params.paperWidth, params.paperHeight] = paper;
   }
 
-  if (!chromePath) {
-    throw new Error(`Chrome not found. Searched: ${paths.join(', ')}`);
+  if (options.margin !== undefined) {
+    const margin = typeof options.margin === 'object'
+      ? options.margin
+      : { top: options.margin, right: options.margin, bottom: options.margin, left: options.margin };
+    for (const side of ['top', 'right', 'bottom', 'left']) {
+      if (margin[side] !== undefined) {
+        params[`margin${side[0].toUpperCase()}${side.slice(1)}`] = parsePdfLength(margin[side]);
+      }
+    }
   }
 
-  // Set up profile directory (persistent across sessions)
-  if (!chromeUserDataDir) {
-    chromeUserDataDir = getChromeProfileDir(chromeProfileName);
-    // Ensure profile directory exists
-    mkdirSync(chromeUserDataDir, { recursive: true });
+  if (options.headerTemplate !== undefined || options.footerTemplate !== undefined || options.displayHeaderFooter) {
+    params.displayHeaderFooter = true;
+    // Chrome prints its default header/footer for a missing template; an empty span hides it
+    params.headerTemplate = options.headerTemplate ?? '<span></span>';
+    params.footerTemplate = options.footerTemplate ?? '<span></span>';
   }
+  if (options.scale !== undefined) params.scale = options.scale;
+  if (options.pageRanges) params.pageRanges = String(options.pageRanges);
+  if (options.preferCSSPageSize) params.preferCSSPageSize = true;
 
-  const args = [
-    `--remote-debugging-port=9222`,
-    `--user-data-dir=${chromeUserDataDir}`,
-    '--no-first-run',
-    '--no-default-browser-check',
-    '--disable-background-networking',
-    '--disable-background-timer-throttling',
-    '--disable-backgrounding-occluded-windows',
-    '--disable-breakpad',
-    '--disable-client-side-phishing-detection',
-    '--disable-component-update',
-    '--disable-default-apps',
-    '--disable-dev-shm-usage',
-    '--disable-extensions',
-    '--disable-features=TranslateUI',
-    '--disable-hang-monitor',
-    '--disable-ipc-flooding-protection',
-    '--disable-popup-blocking',
-    '--disable-prompt-on-repost',
-    '--disable-sync',
-    '--force-color-profile=srgb',
-    '--metrics-recording-only',
-    '--no-sandbox',
-    '--safebrowsing-disable-auto-update',
-    '--disable-blink-features=AutomationControlled'
-  ];
+  return params;
+}
 
-  // Add headless flag if in headless mode
-  if (chromeHeadless) {
-    args.push('--headless=new');
+/**
+ * Save the page as PDF. Without a filename it goes into the session dir as {prefix}.pdf;
+ * a relative filename is relative to the session dir. Only headless Chrome implements
+ * printing to PDF.
+ */
+async function pdf(tabIndexOrWsUrl, filename = null, options = {}) {
+  const fs = require('fs');
+  const path = require('path');
+  const wsUrl = await resolveWsUrl(tabIndexOrWsUrl);
+
+  let result;
+  try {
+    result = await sendCdpCommand(wsUrl, 'Page.printToPDF', buildPdfParams(options), 60000);
+  } catch (e) {
+    if (/not implemented/i.test(e.message)) {
+      throw new Error('PDF export needs headless Chrome (use hide_browser first)');
+    }
+    throw e;
   }
 
-  const proc = spawn(chromePath, args, {
-    detached: true,
-    stdio: 'ignore'
-  });
+  const pdfPath = filename
+    ? resolveSessionPath(filename)
+    : path.join(initializeSession(), `${createCapturePrefix('pdf')}.pdf`);
+  const buffer = Buffer.from(result.data, 'base64');
+  fs.writeFileSync(pdfPath, buffer);
+  return { path: pdfPath, size: buffer.length };
+}
 
-  proc.unref();
-  chromeProcess = proc;
+// =============================================================================
+// VISUAL COMPARISON (dependency-free PNG codec, pixel diff, baselines)
+// =============================================================================
 
-  // Wait for Chrome to be ready
-  await new Promise(resolve => setTimeout(resolve, 2000));
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
 
-  const mode = chromeHeadless ? 'headless' : 'headed';
-  console.error(`Chrome started in ${mode} mode (PID: ${proc.pid}, profile: ${chromeProfileName})`);
-}
+// Channels per pixel for each PNG colour type (grey, RGB, palette, grey+alpha, RGBA)
+const PNG_CHANNELS = { 0: 1, 2: 3, 3: 1, 4: 2, 6: 4 };
 
-async function killChrome() {
-  if (!chromeProcess) {
-    return;
-  }
+// YIQ colour distance between pure black and pure white; thresholds are a fraction of it
+const MAX_COLOR_DELTA = 35215;
 
-  try {
-    // Try graceful shutdown first via CDP
-    try {
-      await chromeHttp('/json/close', 'GET');
-      await new Promise(resolve => setTimeout(resolve, 500));
-    } catch (e) {
-      // Ignore errors, Chrome might already be dead
-    }
+const DEFAULT_VISUAL_THRESHOLD = 0.1;
 
-    // Force kill if still running
-    if (chromeProcess && chromeProcess.pid) {
-      try {
-        process.kill(chromeProcess.pid, 'SIGTERM');
-        await new Promise(resolve => setTimeout(resolve, 500));
-      } catch (e) {
-        // Process might already be dead
-      }
+let crcTable = null;
+
+function crc32(buffer) {
+  if (!crcTable) {
+    crcTable = new Int32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      crcTable[n] = c;
     }
-  } catch (e) {
-    console.error(`Error killing Chrome: ${e.message}`);
   }
+  let crc = -1;
+  for (let i = 0; i < buffer.length; i++) crc = crcTable[(crc ^ buffer[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ -1) >>> 0;
+}
 
-  chromeProcess = null;
+function paeth(left, up, upLeft) {
+  const p = left + up - upLeft;
+  const pa = Math.abs(p - left);
+  const pb = Math.abs(p - up);
+  const pc = Math.abs(p - upLeft);
+  if (pa <= pb && pa <= pc) return left;
+  return pb <= pc ? up : upLeft;
 }
 
-async function showBrowser() {
-  if (!chromeHeadless) {
-    return 'Browser is already visible';
+/**
+ * Decode an 8-bit, non-interlaced PNG (what Page.captureScreenshot produces)
+ * @returns {{width: number, height: number, data: Buffer}} RGBA pixels, row by row
+ */
+function decodePng(buffer) {
+  const zlib = require('zlib');
+  if (buffer.length < 8 || !buffer.subarray(0, 8).equals(PNG_SIGNATURE)) {
+    throw new Error('Not a PNG image');
   }
 
-  console.error('Switching to headed mode (browser window will be visible)...');
-  console.error('WARNING: This will restart Chrome and lose any POST-based page state');
-
-  // Get current tabs before killing Chrome
-  let currentTabs = [];
-  try {
-    const tabs = await getTabs();
-    currentTabs = tabs.map(t => t.url).filter(url => url && url !== 'about:blank');
-  } catch (e) {
-    // Ignore errors if Chrome isn't running
+  let header = null;
+  let palette = null;
+  let transparency = null;
+  const idat = [];
+  for (let offset = 8; offset + 8 <= buffer.length;) {
+    const length = buffer.readUInt32BE(offset);
+    const type = buffer.toString('latin1', offset + 4, offset + 8);
+    const data = buffer.subarray(offset + 8, offset + 8 + length);
+    offset += 12 + length;
+    if (type === 'IHDR') {
+      header = { width: data.readUInt32BE(0), height: data.readUInt32BE(4), bitDepth: data[8], colorType: data[9], interlace: data[12] };
+    } else if (type === 'PLTE') {
+      palette = data;
+    } else if (type === 'tRNS') {
+      transparency = data;
+    } else if (type === 'IDAT') {
+      idat.push(data);
+    } else if (type === 'IEND') {
+      break;
+    }
+  }
+  if (!header) {
+    throw new Error('Invalid PNG: missing IHDR');
+  }
+  const channels = PNG_CHANNELS[header.colorType];
+  if (header.bitDepth !== 8 || header.interlace !== 0 || !channels || (header.colorType === 3 && !palette)) {
+    throw new Error('Unsupported PNG: only 8-bit, non-interlaced images can be compared');
   }
 
-  // Kill current Chrome instance
-  await killChrome();
-
-  // Start Chrome in headed mode
-  await startChrome(false);
+  const { width, height } = header;
+  const stride = width * channels;
+  const raw = zlib.inflateSync(Buffer.concat(idat));
+  if (raw.length < (stride + 1) * height) {
+    throw new Error('Invalid PNG: truncated image data');
+  }
 
-  // Reopen tabs (Note: This will re-request pages via GET, losing POST state)
-  if (currentTabs.length > 0) {
-    console.error(`Reopening ${currentTabs.length} tab(s)...`);
-    for (const url of currentTabs) {
-      try {
-        await newTab(url);
-      } catch (e) {
-        console.error(`Failed to reopen ${url}: ${e.message}`);
-      }
+  // Undo the per-row filters
+  const pixels = Buffer.alloc(stride * height);
+  for (let y = 0; y < height; y++) {
+    const filter = raw[y * (stride + 1)];
+    const line = y * (stride + 1) + 1;
+    const row = y * stride;
+    const prev = row - stride;
+    for (let i = 0; i < stride; i++) {
+      const left = i >= channels ? pixels[row + i - channels] : 0;
+      const up = y > 0 ? pixels[prev + i] : 0;
+      const upLeft = y > 0 && i >= channels ? pixels[prev + i - channels] : 0;
+      let value = raw[line + i];
+      if (filter === 1) value += left;
+      else if (filter === 2) value += up;
+      else if (filter === 3) value += (left + up) >> 1;
+      else if (filter === 4) value += paeth(left, up, upLeft);
+      else if (filter !== 0) throw new Error(`Invalid PNG: unknown filter type ${filter}`);
+      pixels[row + i] = value & 0xff;
     }
   }
 
-  return 'Browser window is now visible. Note: Pages were reloaded via GET requests.';
-}
-
-async function hideBrowser() {
-  if (chromeHeadless) {
-    return 'Browser is already in headless mode';
+  // Expand to RGBA
+  const data = Buffer.alloc(width * height * 4);
+  for (let p = 0, s = 0; p < data.length; p += 4, s += channels) {
+    if (header.colorType === 6) {
+      pixels.copy(data, p, s, s + 4);
+    } else if (header.colorType === 2) {
+      data[p] = pixels[s]; data[p + 1] = pixels[s + 1]; data[p + 2] = pixels[s + 2]; data[p + 3] = 255;
+    } else if (header.colorType === 3) {
+      const index = pixels[s];
+      data[p] = palette[index * 3]; data[p + 1] = palette[index * 3 + 1]; data[p + 2] = palette[index * 3 + 2];
+      data[p + 3] = transparency && index < transparency.length ? transparency[index] : 255;
+    } else {
+      data[p] = data[p + 1] = data[p + 2] = pixels[s];
+      data[p + 3] = header.colorType === 4 ? pixels[s + 1] : 255;
+    }
   }
+  return { width, height, data };
+}
 
-  console.error('Switching to headless mode (hiding browser window)...');
-  console.error('WARNING: This will restart Chrome and lose any POST-based page state');
+function pngChunk(type, data) {
+  const chunk = Buffer.alloc(12 + data.length);
+  chunk.writeUInt32BE(data.length, 0);
+  chunk.write(type, 4, 'latin1');
+  data.copy(chunk, 8);
+  chunk.writeUInt32BE(crc32(chunk.subarray(4, 8 + data.length)), 8 + data.length);
+  return chunk;
+}
 
-  // Get current tabs before killing Chrome
-  let currentTabs = [];
-  try {
-    const tabs = await getTabs();
-    currentTabs = tabs.map(t => t.url).filter(url => url && url !== 'about:blank');
-  } catch (e) {
-    // Ignore errors if Chrome isn't running
+/**
+ * Encode RGBA pixels ({width, height, data}) as a PNG
+ */
+function encodePng(image) {
+  const zlib = require('zlib');
+  const { width, height, data } = image;
+  const stride = width * 4;
+  const raw = Buffer.alloc((stride + 1) * height);
+  for (let y = 0; y < height; y++) {
+    raw[y * (stride + 1)] = 0;
+    data.copy(raw, y * (stride + 1) + 1, y * stride, (y + 1) * stride);
   }
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(width, 0);
+  header.writeUInt32BE(height, 4);
+  header[8] = 8; // bit depth
+  header[9] = 6; // RGBA
+  return Buffer.concat([
+    PNG_SIGNATURE,
+    pngChunk('IHDR', header),
+    pngChunk('IDAT', zlib.deflateSync(raw)),
+    pngChunk('IEND', Buffer.alloc(0))
+  ]);
+}
 
-  // Kill current Chrome instance
-  await killChrome();
+// Pixel colour blended over white, as [r, g, b]
+function blendedPixel(image, x, y) {
+  const i = (y * image.width + x) * 4;
+  const alpha = image.data[i + 3] / 255;
+  return [0, 1, 2].map(c => 255 + (image.data[i + c] - 255) * alpha);
+}
 
-  // Start Chrome in headless mode
-  await startChrome(true);
+// Perceptual (YIQ) colour distance, 0 to MAX_COLOR_DELTA
+function colorDelta(a, b) {
+  const dr = a[0] - b[0];
+  const dg = a[1] - b[1];
+  const db = a[2] - b[2];
+  const y = dr * 0.29889531 + dg * 0.58662247 + db * 0.11448223;
+  const i = dr * 0.59597799 - dg * 0.2741761 - db * 0.32180189;
+  const q = dr * 0.21147017 - dg * 0.52261711 + db * 0.31114694;
+  return 0.5053 * y * y + 0.299 * i * i + 0.1957 * q * q;
+}
 
-  // Reopen tabs (Note: This will re-request pages via GET, losing POST state)
-  if (currentTabs.length > 0) {
-    console.error(`Reopening ${currentTabs.length} tab(s)...`);
-    for (const url of currentTabs) {
-      try {
-        await newTab(url);
-      } catch (e) {
-        console.error(`Failed to reopen ${url}: ${e.message}`);
+/**
+ * Compare two decoded images pixel by pixel.
+ * @param {Object} options - { threshold (0-1 colour distance a pixel may move, default 0.1),
+ *   ignore: [{x, y, width, height}] regions in image pixels that are never compared }
+ * @returns {{width, height, mismatchedPixels, comparedPixels, mismatchPercent, sizeMismatch, diff}}
+ *   diff is an RGBA image: changed pixels red, ignored regions grey, the rest a faded copy
+ */
+function compareImages(expected, actual, options = {}) {
+  const threshold = options.threshold ?? DEFAULT_VISUAL_THRESHOLD;
+  if (!(threshold >= 0 && threshold <= 1)) {
+    throw new Error('threshold must be between 0 and 1');
+  }
+  const maxDelta = MAX_COLOR_DELTA * threshold * threshold;
+  const ignore = options.ignore || [];
+
+  // Images of different sizes are compared over the larger canvas; pixels only one has count as changed
+  const width = Math.max(expected.width, actual.width);
+  const height = Math.max(expected.height, actual.height);
+  const diff = { width, height, data: Buffer.alloc(width * height * 4) };
+  let mismatchedPixels = 0;
+  let comparedPixels = 0;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const o = (y * width + x) * 4;
+      diff.data[o + 3] = 255;
+      if (ignore.some(r => x >= r.x && x < r.x + r.width && y >= r.y && y < r.y + r.height)) {
+        diff.data[o] = diff.data[o + 1] = diff.data[o + 2] = 160;
+        continue;
+      }
+      comparedPixels++;
+      const inExpected = x < expected.width && y < expected.height;
+      const inActual = x < actual.width && y < actual.height;
+      const a = inExpected ? blendedPixel(expected, x, y) : null;
+      const b = inActual ? blendedPixel(actual, x, y) : null;
+      if (!a || !b || colorDelta(a, b) > maxDelta) {
+        mismatchedPixels++;
+        diff.data[o] = 255;
+        diff.data[o + 1] = diff.data[o + 2] = 0;
+      } else {
+        // Faded greyscale of the page so the red stands out
+        const grey = 255 - (255 - (b[0] * 0.299 + b[1] * 0.587 + b[2] * 0.114)) * 0.15;
+        diff.data[o] = diff.data[o + 1] = diff.data[o + 2] = Math.round(grey);
       }
     }
   }
 
-  return 'Browser is now in headless mode. Note: Pages were reloaded via GET requests.';
+  return {
+    width,
+    height,
+    mismatchedPixels,
+    comparedPixels,
+    mismatchPercent: comparedPixels > 0 ? (mismatchedPixels / comparedPixels) * 100 : 0,
+    sizeMismatch: expected.width !== actual.width || expected.height !== actual.height,
+    diff
+  };
 }
 
-async function getBrowserMode() {
+/**
+ * Compare two PNG files; writes the highlighted diff to diffPath when anything changed
+ * @returns {{mismatchedPixels, comparedPixels, mismatchPercent, sizeMismatch, expectedSize, actualSize, diff}}
+ *   diff is the written path or null
+ */
+function comparePngFiles(expectedPath, actualPath, diffPath, options = {}) {
+  const fs = require('fs');
+  const expected = decodePng(fs.readFileSync(expectedPath));
+  const actual = decodePng(fs.readFileSync(actualPath));
+  const result = compareImages(expected, actual, options);
+  if (diffPath && result.mismatchedPixels > 0) {
+    fs.writeFileSync(diffPath, encodePng(result.diff));
+  }
   return {
-    headless: chromeHeadless,
-    mode: chromeHeadless ? 'headless' : 'headed',
-    running: chromeProcess !== null,
-    profile: chromeProfileName,
-    profileDir: chromeUserDataDir
+    mismatchedPixels: result.mismatchedPixels,
+    comparedPixels: result.comparedPixels,
+    mismatchPercent: result.mismatchPercent,
+    sizeMismatch: result.sizeMismatch,
+    expectedSize: { width: expected.width, height: expected.height },
+    actualSize: { width: actual.width, height: actual.height },
+    diff: diffPath && result.mismatchedPixels > 0 ? diffPath : null
   };
 }
 
-function getProfileName() {
-  return chromeProfileName;
+/**
+ * Directory holding named baselines: the baselineDir option, CHROME_BASELINE_DIR,
+ * or visual-baselines/ under the working directory (meant to be committed with the project)
+ */
+function getBaselineDir(baselineDir = null) {
+  const path = require('path');
+  return path.resolve(baselineDir || process.env.CHROME_BASELINE_DIR || 'visual-baselines');
 }
 
-function setProfileName(profileName) {
-  if (chromeProcess) {
-    throw new Error('Cannot change profile while Chrome is running. Kill Chrome first.');
+function getBaselinePath(name, baselineDir = null) {
+  const path = require('path');
+  if (typeof name !== 'string' || !/^[\w.-]+(\/[\w.-]+)*$/.test(name) || name.split('/').some(part => /^\.+$/.test(part))) {
+    throw new Error(`Invalid baseline name: ${name} (use letters, digits, . _ - and / for subfolders)`);
   }
-  chromeProfileName = profileName;
-  chromeUserDataDir = null; // Reset so next startChrome() uses new profile
-  return `Profile set to: ${profileName}`;
+  return path.join(getBaselineDir(baselineDir), `${name.replace(/\.png$/i, '')}.png`);
 }
 
-// Console logging utilities
-async function enableConsoleLogging(tabIndexOrWsUrl) {
-  const wsUrl = await resolveWsUrl(tabIndexOrWsUrl);
-
-  // Initialize console messages array for this tab
-  if (!consoleMessages.has(wsUrl)) {
-    consoleMessages.set(wsUrl, []);
+// Origin (page CSS px) and pixel ratio of the area a screenshot captures, for mapping page rects onto it
+async function getScreenshotOrigin(wsUrl, selector, fullPage) {
+  const result = await sendCdpCommand(wsUrl, 'Runtime.evaluate', {
+    expression: '({ x: window.scrollX, y: window.scrollY, dpr: window.devicePixelRatio || 1 })',
+    returnByValue: true
+  });
+  const view = result.result.value || { x: 0, y: 0, dpr: 1 };
+  if (selector) {
+    const [rect] = await getElementPageRects(wsUrl, selector);
+    return { x: rect ? rect.x : 0, y: rect ? rect.y : 0, dpr: view.dpr };
   }
+  return fullPage ? { x: 0, y: 0, dpr: view.dpr } : view;
+}
 
-  // Start persistent WebSocket connection for console logging
-  const ws = new WebSocketClient(wsUrl);
-
-  return new Promise((resolve, reject) => {
-    let enabledRuntime = false;
-
-    ws.on('message', (msg) => {
-      const data = JSON.parse(msg);
+/**
+ * Screenshot the page (or an element) and compare it with a named baseline.
+ * A missing baseline is created from the screenshot; update replaces an existing one.
+ * @param {string} name - Baseline name, stored as {baselineDir}/{name}.png
+ * @param {Object} options - { selector, fullPage, mask, ignore: [selectors excluded from the comparison],
+ *   threshold (per-pixel colour distance 0-1, default 0.1), maxDiffPercent (allowed mismatch, default 0),
+ *   update, baselineDir }
+ * @returns {Object} { name, status: created|updated|passed|failed, mismatchPercent, files: {baseline, actual, diff} }
+ */
+async function visualCompare(tabIndexOrWsUrl, name, options = {}) {
+  const fs = require('fs');
+  const path = require('path');
+  const wsUrl = await resolveWsUrl(tabIndexOrWsUrl);
+
+  const baselinePath = getBaselinePath(name, options.baselineDir);
+  const prefix = createCapturePrefix('visual');
+  const dir = initializeSession();
+  const actualPath = path.join(dir, `${prefix}-actual.png`);
+  const selector = options.selector || null;
+  await screenshot(wsUrl, actualPath, selector, { fullPage: options.fullPage, mask: options.mask, format: 'png' });
+
+  if (options.update || !fs.existsSync(baselinePath)) {
+    const status = fs.existsSync(baselinePath) ? 'updated' : 'created';
+    fs.mkdirSync(path.dirname(baselinePath), { recursive: true });
+    fs.copyFileSync(actualPath, baselinePath);
+    return { name, status, files: { baseline: baselinePath, actual: actualPath } };
+  }
+
+  // Ignore regions are located on the current page and mapped into screenshot pixels
+  const ignore = [];
+  const ignoreSelectors = options.ignore ? [].concat(options.ignore) : [];
+  if (ignoreSelectors.length > 0) {
+    const origin = await getScreenshotOrigin(wsUrl, selector, options.fullPage);
+    for (const ignoreSelector of ignoreSelectors) {
+      for (const rect of await getElementPageRects(wsUrl, ignoreSelector)) {
+        ignore.push({
+          x: Math.floor((rect.x - origin.x) * origin.dpr),
+          y: Math.floor((rect.y - origin.y) * origin.dpr),
+          width: Math.ceil(rect.width * origin.dpr),
+          height: Math.ceil(rect.height * origin.dpr)
+        });
+      }
+    }
+  }
+
+  const maxDiffPercent = options.maxDiffPercent ?? 0;
+  const threshold = options.threshold ?? DEFAULT_VISUAL_THRESHOLD;
+  const comparison = comparePngFiles(baselinePath, actualPath, path.join(dir, `${prefix}-diff.png`), { threshold, ignore });
+  return {
+    name,
+    status: !comparison.sizeMismatch && comparison.mismatchPercent <= maxDiffPercent ? 'passed' : 'failed',
+    threshold,
+    maxDiffPercent,
+    ignoredRegions: ignore.length,
+    ...comparison,
+    files: { baseline: baselinePath, actual: actualPath, diff: comparison.diff }
+  };
+}
+
+function formatPercent(percent) {
+  if (percent === 0) return '0%';
+  return percent < 0.01 ? '<0.01%' : `${percent.toFixed(2)}%`;
+}
+
+function formatVisualComparison(result) {
+  if (result.status === 'created' || result.status === 'updated') {
+    return `Baseline "${result.name}" ${result.status}: ${result.files.baseline}`;
+  }
+  const lines = [
+    `Visual comparison "${result.name}": ${result.status.toUpperCase()} — ${formatPercent(result.mismatchPercent)} of pixels differ (${result.mismatchedPixels}/${result.comparedPixels}, allowed ${result.maxDiffPercent}%, threshold ${result.threshold})`
+  ];
+  if (result.sizeMismatch) {
+    lines.push(`Size changed: baseline ${result.expectedSize.width}×${result.expectedSize.height}, now ${result.actualSize.width}×${result.actualSize.height}`);
+  }
+  if (result.ignoredRegions > 0) {
+    lines.push(`Ignored regions: ${result.ignoredRegions}`);
+  }
+  lines.push(`Baseline: ${result.files.baseline}`, `Actual: ${result.files.actual}`);
+  if (result.files.diff) {
+    lines.push(`Diff: ${result.files.diff}`);
+  }
+  return lines.join('\n');
+}
+
+// Before/after comparison for captureActionWithDiff; a broken image never fails the action
+function compareActionScreenshots(beforePath, afterPath, diffPath) {
+  const fs = require('fs');
+  try {
+    // Identical encodings need no decoding (the common case for actions with no visible effect)
+    if (fs.readFileSync(beforePath).equals(fs.readFileSync(afterPath))) {
+      return { changed: false, mismatchPercent: 0, mismatchedPixels: 0, sizeMismatch: false, diff: null };
+    }
+    const comparison = comparePngFiles(beforePath, afterPath, diffPath);
+    return {
+      changed: comparison.mismatchedPixels > 0,
+      mismatchPercent: comparison.mismatchPercent,
+      mismatchedPixels: comparison.mismatchedPixels,
+      sizeMismatch: comparison.sizeMismatch,
+      diff: comparison.diff
+    };
+  } catch (e) {
+    return { error: e.message };
+  }
+}
+
+function formatVisualChange(visual) {
+  if (!visual) return '';
+  if (visual.error) return `Visual: comparison failed (${visual.error})`;
+  if (!visual.changed) return 'Visual: no visible change';
+  return `Visual: ${formatPercent(visual.mismatchPercent)} of pixels changed${visual.sizeMismatch ? ' (screenshot size changed)' : ''}`;
+}
+
+// =============================================================================
+// SESSION FILES AND INLINE IMAGES (MCP resources, image content blocks)
+// =============================================================================
+
+const SESSION_FILE_MIME_TYPES = {
+  '.html': 'text/html',
+  '.md': 'text/markdown',
+  '.txt': 'text/plain',
+  '.json': 'application/json',
+  '.jsonl': 'application/jsonl',
+  '.har': 'application/json',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.webp': 'image/webp',
+  '.pdf': 'application/pdf'
+};
+
+const DEFAULT_INLINE_IMAGE_LIMITS = {
+  maxBytes: 512 * 1024,  // Encoded PNG size; larger screenshots are downscaled
+  maxDimension: 1280     // Longest edge in pixels
+};
+
+function getSessionFileMimeType(file) {
+  const path = require('path');
+  return SESSION_FILE_MIME_TYPES[path.extname(file).toLowerCase()] || 'application/octet-stream';
+}
+
+function isTextMimeType(mimeType) {
+  return mimeType.startsWith('text/') || mimeType === 'application/json' || mimeType === 'application/jsonl';
+}
+
+/**
+ * Files at the top of the session dir (captures, exports, session.jsonl), by name
+ * @returns {Array} [{ name, path, size, mtimeMs, mimeType }]
+ */
+function listSessionFiles() {
+  const fs = require('fs');
+  const path = require('path');
+  if (!sessionDir || !fs.existsSync(sessionDir)) return [];
+  return fs.readdirSync(sessionDir, { withFileTypes: true })
+    .filter(entry => entry.isFile() && entry.name !== SESSION_OWNER_FILE)
+    .map(entry => {
+      const file = path.join(sessionDir, entry.name);
+      const stat = fs.statSync(file);
+      return { name: entry.name, path: file, size: stat.size, mtimeMs: stat.mtimeMs, mimeType: getSessionFileMimeType(entry.name) };
+    })
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+// Path of a session file by name; names with directory parts are rejected
+function resolveSessionFile(name) {
+  const fs = require('fs');
+  const path = require('path');
+  if (!name || name !== path.basename(name) || name === '.' || name === '..') {
+    throw new Error(`Invalid session file name: ${name}`);
+  }
+  const file = sessionDir ? path.join(sessionDir, name) : null;
+  if (!file || !fs.existsSync(file) || !fs.statSync(file).isFile()) {
+    throw new Error(`Session file not found: ${name}`);
+  }
+  return file;
+}
+
+// Box-filter downscale of a decoded RGBA image
+function downscaleImage(image, factor) {
+  const width = Math.max(1, Math.round(image.width / factor));
+  const height = Math.max(1, Math.round(image.height / factor));
+  const data = Buffer.alloc(width * height * 4);
+  const scaleX = image.width / width;
+  const scaleY = image.height / height;
+
+  for (let y = 0; y < height; y++) {
+    const y0 = Math.floor(y * scaleY);
+    const y1 = Math.max(y0 + 1, Math.floor((y + 1) * scaleY));
+    for (let x = 0; x < width; x++) {
+      const x0 = Math.floor(x * scaleX);
+      const x1 = Math.max(x0 + 1, Math.floor((x + 1) * scaleX));
+      const sum = [0, 0, 0, 0];
+      for (let sy = y0; sy < y1; sy++) {
+        for (let sx = x0; sx < x1; sx++) {
+          const i = (sy * image.width + sx) * 4;
+          sum[0] += image.data[i];
+          sum[1] += image.data[i + 1];
+          sum[2] += image.data[i + 2];
+          sum[3] += image.data[i + 3];
+        }
+      }
+      const count = (y1 - y0) * (x1 - x0);
+      const o = (y * width + x) * 4;
+      for (let c = 0; c < 4; c++) data[o + c] = Math.round(sum[c] / count);
+    }
+  }
+  return { width, height, data };
+}
+
+/**
+ * Read an image for an inline content block, downscaling PNGs that exceed the
+ * limits. JPEG/WebP over the byte limit are left out (no decoder here).
+ * @param {string} file - Image path
+ * @param {Object} limits - { maxBytes, maxDimension }
+ * @returns {Object} { data (base64), mimeType, width, height, scaled } or { skipped: reason }
+ */
+function prepareInlineImage(file, limits = {}) {
+  const fs = require('fs');
+  const { maxBytes, maxDimension } = { ...DEFAULT_INLINE_IMAGE_LIMITS, ...limits };
+  const mimeType = getSessionFileMimeType(file);
+  const buffer = fs.readFileSync(file);
+
+  if (mimeType !== 'image/png') {
+    if (buffer.length > maxBytes) {
+      return { skipped: `${Math.round(buffer.length / 1024)} KB ${mimeType} is over the ${Math.round(maxBytes / 1024)} KB inline limit` };
+    }
+    return { data: buffer.toString('base64'), mimeType, scaled: false };
+  }
+
+  let image = decodePng(buffer);
+  const original = { width: image.width, height: image.height };
+  let encoded = buffer;
+  let factor = Math.max(1, image.width / maxDimension, image.height / maxDimension);
+
+  // Shrink to the dimension limit, then keep halving until the bytes fit
+  for (let attempt = 0; factor > 1 || encoded.length > maxBytes; attempt++) {
+    if (attempt >= 6) {
+      return { skipped: `screenshot still over ${Math.round(maxBytes / 1024)} KB after downscaling` };
+    }
+    if (factor <= 1) factor = 2;
+    image = downscaleImage(image, factor);
+    encoded = encodePng(image);
+    factor = 1;
+  }
+
+  return {
+    data: encoded.toString('base64'),
+    mimeType,
+    width: image.width,
+    height: image.height,
+    scaled: image.width !== original.width,
+    original
+  };
+}
+
+// =============================================================================
+// CHROME LAUNCH CONFIGURATION (executable discovery, flags, config file)
+// =============================================================================
+
+// Flags every launch gets unless removed with removeArgs (matched by flag name)
+const DEFAULT_CHROME_FLAGS = [
+  '--no-first-run',
+  '--no-default-browser-check',
+  '--disable-background-networking',
+  '--disable-background-timer-throttling',
+  '--disable-backgrounding-occluded-windows',
+  '--disable-breakpad',
+  '--disable-client-side-phishing-detection',
+  '--disable-component-update',
+  '--disable-default-apps',
+  '--disable-dev-shm-usage',
+  '--disable-extensions',
+  '--disable-features=TranslateUI',
+  '--disable-hang-monitor',
+  '--disable-ipc-flooding-protection',
+  '--disable-popup-blocking',
+  '--disable-prompt-on-repost',
+  '--disable-sync',
+  '--force-color-profile=srgb',
+  '--metrics-recording-only',
+  '--no-sandbox',
+  '--safebrowsing-disable-auto-update',
+  '--disable-blink-features=AutomationControlled'
+];
+
+// Installed browsers, per platform, in order of preference
+const CHROME_INSTALL_PATHS = {
+  darwin: [
+    '/Applications/Google Chrome.app/Contents/MacOS/Google Chrome',
+    '/Applications/Chromium.app/Contents/MacOS/Chromium'
+  ],
+  linux: [
+    '/usr/bin/google-chrome',
+    '/usr/bin/google-chrome-stable',
+    '/usr/bin/chromium-browser',
+    '/usr/bin/chromium',
+    '/snap/bin/chromium'
+  ],
+  win32: [
+    'C:\\Program Files\\Google\\Chrome\\Application\\chrome.exe',
+    'C:\\Program Files (x86)\\Google\\Chrome\\Application\\chrome.exe',
+    'C:\\Program Files (x86)\\Microsoft\\Edge\\Application\\msedge.exe',
+    'C:\\Program Files\\Microsoft\\Edge\\Application\\msedge.exe'
+  ]
+};
+
+// Executable names looked up on PATH (chrome-headless-shell only for headless launches)
+const CHROME_PATH_NAMES = ['google-chrome', 'google-chrome-stable', 'chromium', 'chromium-browser'];
+const HEADLESS_SHELL_NAMES = ['chrome-headless-shell', 'headless_shell'];
+
+// Executables inside a Playwright browser dir (chromium-1140, chromium_headless_shell-1140)
+const PLAYWRIGHT_EXECUTABLES = {
+  chromium: {
+    darwin: ['chrome-mac/Chromium.app/Contents/MacOS/Chromium', 'chrome-mac-arm64/Chromium.app/Contents/MacOS/Chromium'],
+    linux: ['chrome-linux/chrome', 'chrome-linux64/chrome'],
+    win32: ['chrome-win/chrome.exe', 'chrome-win64/chrome.exe']
+  },
+  chromium_headless_shell: {
+    darwin: ['chrome-mac/headless_shell', 'chrome-headless-shell-mac-arm64/chrome-headless-shell', 'chrome-headless-shell-mac-x64/chrome-headless-shell'],
+    linux: ['chrome-linux/headless_shell', 'chrome-headless-shell-linux64/chrome-headless-shell'],
+    win32: ['chrome-win/headless_shell.exe', 'chrome-headless-shell-win64/chrome-headless-shell.exe']
+  }
+};
+
+// Launch settings from the config file, env vars and CLI flags (see loadLaunchConfig)
+let launchConfig = {};
+
+// Executable used by the last startChrome()
+let chromeExecutablePath = null;
+
+function getXdgConfigHome() {
+  const os = require('os');
+  const path = require('path');
+  if (process.env.XDG_CONFIG_HOME) {
+    return process.env.XDG_CONFIG_HOME;
+  }
+  if (os.platform() === 'win32') {
+    return process.env.APPDATA || path.join(os.homedir(), 'AppData', 'Roaming');
+  }
+  return path.join(os.homedir(), '.config');
+}
+
+function getDefaultLaunchConfigPath() {
+  const path = require('path');
+  return path.join(getXdgConfigHome(), 'superpowers', 'chrome.json');
+}
+
+// "1280x800", "1280,800" or { width, height }
+function parseWindowSize(value) {
+  if (value && typeof value === 'object') {
+    value = `${value.width}x${value.height}`;
+  }
+  const match = String(value).match(/^\s*(\d+)\s*[x,]\s*(\d+)\s*$/i);
+  if (!match) {
+    throw new Error(`Invalid window size: ${value} (use WIDTHxHEIGHT)`);
+  }
+  return { width: parseInt(match[1], 10), height: parseInt(match[2], 10) };
+}
+
+// Lists may come as arrays (config file) or delimited strings (env vars)
+function toList(value, separator) {
+  if (value === undefined || value === null || value === '') return [];
+  if (Array.isArray(value)) return value.map(String);
+  return String(value).split(separator).map(item => item.trim()).filter(Boolean);
+}
+
+/**
+ * Merge one source of launch settings into a config. Scalars override,
+ * lists (args, removeArgs, extensions) accumulate.
+ */
+function mergeLaunchConfig(config, source) {
+  const merged = { ...config };
+  for (const key of ['executablePath', 'port', 'proxy', 'proxyBypass']) {
+    if (source[key] !== undefined && source[key] !== null && source[key] !== '') {
+      merged[key] = source[key];
+    }
+  }
+  if (source.windowSize) {
+    merged.windowSize = parseWindowSize(source.windowSize);
+  }
+  for (const key of ['args', 'removeArgs', 'extensions']) {
+    if (source[key] !== undefined) {
+      merged[key] = [...(merged[key] || []), ...toList(source[key], /\s+/)];
+    }
+  }
+  return merged;
+}
+
+/**
+ * Build the launch config from, in increasing precedence:
+ * 1. A JSON config file: --config=<file>, CHROME_CONFIG, or ~/.config/superpowers/chrome.json if present
+ *    { executablePath, port, args, removeArgs, extensions, proxy, proxyBypass, windowSize }
+ * 2. Env vars: CHROME_PATH, CHROME_PORT, CHROME_ARGS, CHROME_REMOVE_ARGS, CHROME_EXTENSIONS
+ *    (path-delimiter separated), CHROME_PROXY, CHROME_PROXY_BYPASS, CHROME_WINDOW_SIZE
+ * 3. CLI flags: --chrome-path=, --debug-port=<port|auto>, --chrome-arg= and --remove-chrome-arg=
+ *    (repeatable), --extension= (repeatable), --proxy=, --proxy-bypass=, --window-size=WxH
+ */
+function loadLaunchConfig(argv = process.argv.slice(2), env = process.env) {
+  const fs = require('fs');
+  const path = require('path');
+
+  const flag = (name) => argv.filter(arg => arg.startsWith(`--${name}=`)).map(arg => arg.slice(name.length + 3));
+  const last = (name) => flag(name).pop();
+
+  let config = { args: [], removeArgs: [], extensions: [], sources: [] };
+
+  const explicitFile = last('config') || env.CHROME_CONFIG;
+  const configFile = explicitFile || getDefaultLaunchConfigPath();
+  if (explicitFile || fs.existsSync(configFile)) {
+    let fileConfig;
+    try {
+      fileConfig = JSON.parse(fs.readFileSync(configFile, 'utf8'));
+    } catch (e) {
+      throw new Error(`Cannot read Chrome config ${configFile}: ${e.message}`);
+    }
+    if (fileConfig.extensions) {
+      // Relative extension paths are relative to the config file
+      fileConfig.extensions = toList(fileConfig.extensions, path.delimiter)
+        .map(dir => path.resolve(path.dirname(configFile), dir));
+    }
+    config = mergeLaunchConfig(config, fileConfig);
+    config.sources.push(configFile);
+  }
+
+  config = mergeLaunchConfig(config, {
+    executablePath: env.CHROME_PATH,
+    port: env.CHROME_PORT,
+    args: env.CHROME_ARGS,
+    removeArgs: env.CHROME_REMOVE_ARGS,
+    extensions: toList(env.CHROME_EXTENSIONS, path.delimiter),
+    proxy: env.CHROME_PROXY,
+    proxyBypass: env.CHROME_PROXY_BYPASS,
+    windowSize: env.CHROME_WINDOW_SIZE
+  });
+
+  config = mergeLaunchConfig(config, {
+    executablePath: last('chrome-path'),
+    port: last('debug-port'),
+    args: flag('chrome-arg'),
+    removeArgs: flag('remove-chrome-arg'),
+    extensions: flag('extension').map(dir => path.resolve(dir)),
+    proxy: last('proxy'),
+    proxyBypass: last('proxy-bypass'),
+    windowSize: last('window-size')
+  });
+
+  return config;
+}
+
+/**
+ * Use a launch config for the next startChrome(). A port also moves the debugging port.
+ */
+async function setLaunchConfig(config) {
+  if (config.port !== undefined) {
+    await setDebugPort(config.port);
+  }
+  launchConfig = { ...config };
+  return getLaunchConfig();
+}
+
+function getLaunchConfig() {
+  return { ...launchConfig, port: chromeDebugPort };
+}
+
+// Newest first: chromium-1140 before chromium-1097
+function listVersionedDirs(root, prefix) {
+  const fs = require('fs');
+  try {
+    return fs.readdirSync(root)
+      .filter(name => name.startsWith(`${prefix}-`))
+      .sort((a, b) => (parseInt(b.slice(prefix.length + 1), 10) || 0) - (parseInt(a.slice(prefix.length + 1), 10) || 0));
+  } catch (e) {
+    return [];
+  }
+}
+
+/**
+ * Find the Chrome executable to launch. Returns { path, searched }, path null if none exists.
+ * Order: executablePath / CHROME_PATH, installed Chrome/Chromium, PATH, then Playwright's
+ * browser cache. chrome-headless-shell is only considered for headless launches.
+ */
+function findChromeExecutable(config = launchConfig, options = {}) {
+  const fs = require('fs');
+  const path = require('path');
+  const os = require('os');
+  const platform = options.platform || os.platform();
+  const env = options.env || process.env;
+  const headless = options.headless !== undefined ? options.headless : chromeHeadless;
+
+  if (config.executablePath) {
+    // An explicit path is never second-guessed
+    return { path: fs.existsSync(config.executablePath) ? config.executablePath : null, searched: [config.executablePath] };
+  }
+
+  const candidates = [...(CHROME_INSTALL_PATHS[platform] || [])];
+
+  const exe = platform === 'win32' ? '.exe' : '';
+  const pathDirs = (env.PATH || '').split(path.delimiter).filter(Boolean);
+  const names = [...CHROME_PATH_NAMES, ...(headless ? HEADLESS_SHELL_NAMES : [])];
+  for (const name of names) {
+    for (const dir of pathDirs) {
+      candidates.push(path.join(dir, name + exe));
+    }
+  }
+
+  const playwrightRoot = env.PLAYWRIGHT_BROWSERS_PATH && env.PLAYWRIGHT_BROWSERS_PATH !== '0'
+    ? env.PLAYWRIGHT_BROWSERS_PATH
+    : path.join(getXdgCacheHome(), 'ms-playwright');
+  for (const kind of headless ? ['chromium', 'chromium_headless_shell'] : ['chromium']) {
+    for (const dir of listVersionedDirs(playwrightRoot, kind)) {
+      for (const relative of PLAYWRIGHT_EXECUTABLES[kind][platform] || []) {
+        candidates.push(path.join(playwrightRoot, dir, relative));
+      }
+    }
+  }
+
+  const found = candidates.find(candidate => fs.existsSync(candidate)) || null;
+  const searched = [
+    ...(CHROME_INSTALL_PATHS[platform] || []),
+    `${names.join(', ')} on PATH`,
+    path.join(playwrightRoot, headless ? 'chromium{,_headless_shell}-*' : 'chromium-*')
+  ];
+  return { path: found, searched };
+}
+
+function isHeadlessShell(executablePath) {
+  return /headless[-_]shell/.test(executablePath || '');
+}
+
+/**
+ * Command-line flags for a launch: defaults minus removeArgs, then port, profile,
+ * headless mode, extensions, proxy, window size and extra args.
+ */
+function buildChromeArgs(config, { port, userDataDir, headless, executablePath = null }) {
+  const flagName = (flag) => flag.split('=')[0];
+  const removed = new Set((config.removeArgs || []).map(flagName));
+  const extensions = config.extensions || [];
+
+  // Extensions need --disable-extensions gone
+  if (extensions.length > 0) {
+    removed.add('--disable-extensions');
+  }
+
+  const args = [
+    `--remote-debugging-port=${port}`,
+    `--user-data-dir=${userDataDir}`,
+    ...DEFAULT_CHROME_FLAGS.filter(flag => !removed.has(flagName(flag)))
+  ];
+
+  // chrome-headless-shell is headless by design and has no use for --headless=new
+  if (headless && !isHeadlessShell(executablePath)) {
+    args.push('--headless=new');
+  }
+  if (extensions.length > 0) {
+    args.push(`--disable-extensions-except=${extensions.join(',')}`, `--load-extension=${extensions.join(',')}`);
+  }
+  if (config.proxy) {
+    args.push(`--proxy-server=${config.proxy}`);
+    if (config.proxyBypass) {
+      args.push(`--proxy-bypass-list=${config.proxyBypass}`);
+    }
+  }
+  if (config.windowSize) {
+    args.push(`--window-size=${config.windowSize.width},${config.windowSize.height}`);
+  }
+
+  // Extra args replace a default with the same flag name
+  const extra = (config.args || []).filter(flag => !removed.has(flagName(flag)));
+  const extraNames = new Set(extra.map(flagName));
+  return [...args.filter(flag => !extraNames.has(flagName(flag))), ...extra];
+}
+
+// Last lines of Chrome's stderr log, for launch errors
+function readLogTail(logPath, lines = 20) {
+  const fs = require('fs');
+  try {
+    return fs.readFileSync(logPath, 'utf8').trim().split('\n').slice(-lines).join('\n');
+  } catch (e) {
+    return '';
+  }
+}
+
+async function startChrome(headless = null, profileName = null) {
+  const { spawn } = require('child_process');
+  const fs = require('fs');
+  const path = require('path');
+
+  // Use provided headless parameter, or fall back to current mode
+  if (headless !== null) {
+    chromeHeadless = headless;
+  }
+
+  // Use provided profile name, or fall back to current profile
+  if (profileName !== null) {
+    chromeProfileName = profileName;
+  }
+
+  const executable = findChromeExecutable(launchConfig, { headless: chromeHeadless });
+  if (!executable.path) {
+    throw new Error(`Chrome not found. Searched: ${executable.searched.join(', ')}. Set CHROME_PATH or --chrome-path to choose one.`);
+  }
+  const chromePath = executable.path;
+
+  // Set up profile directory (persistent across sessions)
+  if (!chromeUserDataDir) {
+    chromeUserDataDir = getChromeProfileDir(chromeProfileName);
+    // A profile locked by another Chrome would hand our launch over to that browser;
+    // side-by-side servers on their own ports get a per-port profile instead
+    if (chromeDebugPort !== CHROME_DEBUG_PORT && isProfileLocked(chromeUserDataDir)) {
+      chromeUserDataDir = getChromeProfileDir(`${chromeProfileName}-${chromeDebugPort}`);
+      console.error(`Profile ${chromeProfileName} is in use by another Chrome; using ${chromeUserDataDir}`);
+    }
+    // Ensure profile directory exists
+    fs.mkdirSync(chromeUserDataDir, { recursive: true });
+  }
+
+  const args = buildChromeArgs(launchConfig, {
+    port: chromeDebugPort,
+    userDataDir: chromeUserDataDir,
+    headless: chromeHeadless,
+    executablePath: chromePath
+  });
+
+  // Chrome's stderr goes to a file: a pipe would keep this process alive
+  const logPath = path.join(chromeUserDataDir, 'chrome-stderr.log');
+  const logFd = fs.openSync(logPath, 'w');
+  const proc = spawn(chromePath, args, {
+    detached: true,
+    stdio: ['ignore', 'ignore', logFd]
+  });
+  fs.closeSync(logFd);
+
+  let exited = null;
+  proc.on('exit', (code, signal) => {
+    exited = { code, signal };
+  });
+  proc.on('error', (err) => {
+    exited = { error: err.message };
+  });
+
+  proc.unref();
+  chromeProcess = proc;
+  chromeExecutablePath = chromePath;
+
+  // Wait for the DevTools endpoint to answer instead of guessing a startup time
+  try {
+    await waitForChromeReady(15000, () => exited);
+  } catch (e) {
+    chromeProcess = null;
+    if (!exited) {
+      try { process.kill(proc.pid, 'SIGTERM'); } catch (killError) { /* already gone */ }
+    }
+    const stderr = readLogTail(logPath);
+    throw new Error(`${e.message}\nExecutable: ${chromePath}${stderr ? `\nChrome stderr:\n${stderr}` : ''}`);
+  }
+
+  const mode = chromeHeadless ? 'headless' : 'headed';
+  console.error(`Chrome started in ${mode} mode (PID: ${proc.pid}, profile: ${chromeProfileName}, port: ${chromeDebugPort}, executable: ${chromePath})`);
+}
+
+// Chrome keeps a SingletonLock symlink (lockfile on Windows) in a profile while it runs
+function isProfileLocked(userDataDir) {
+  const fs = require('fs');
+  const path = require('path');
+  return ['SingletonLock', 'lockfile'].some(name => {
+    try {
+      fs.lstatSync(path.join(userDataDir, name));
+      return true;
+    } catch (e) {
+      return false;
+    }
+  });
+}
+
+// Ask the OS for an unused TCP port
+function findFreePort() {
+  const net = require('net');
+  return new Promise((resolve, reject) => {
+    const server = net.createServer();
+    server.unref();
+    server.on('error', reject);
+    server.listen(0, CHROME_DEBUG_HOST, () => {
+      const { port } = server.address();
+      server.close(() => resolve(port));
+    });
+  });
+}
+
+/**
+ * Set the remote debugging port used to launch and talk to Chrome.
+ * 'auto' picks a free port, so several servers can run side by side.
+ */
+async function setDebugPort(port) {
+  if (chromeProcess) {
+    throw new Error('Cannot change the debugging port while Chrome is running. Kill Chrome first.');
+  }
+  if (WS_OVERRIDE_ENABLED) {
+    throw new Error('CHROME_WS_HOST/CHROME_WS_PORT already fix the DevTools endpoint');
+  }
+  if (port === 'auto') {
+    chromeDebugPort = await findFreePort();
+  } else {
+    const parsed = parseInt(port, 10);
+    if (Number.isNaN(parsed) || parsed <= 0 || parsed > 65535) {
+      throw new Error(`Invalid debugging port: ${port}`);
+    }
+    chromeDebugPort = parsed;
+  }
+  return chromeDebugPort;
+}
+
+function getDebugPort() {
+  return chromeDebugPort;
+}
+
+/**
+ * Poll /json/version until Chrome's DevTools endpoint answers.
+ * hasExited() lets a launcher stop waiting as soon as its Chrome process dies.
+ */
+async function waitForChromeReady(timeout = 15000, hasExited = null) {
+  const start = Date.now();
+  while (Date.now() - start < timeout) {
+    const exited = hasExited && hasExited();
+    if (exited) {
+      const reason = exited.error || (exited.signal ? `signal ${exited.signal}` : `exit code ${exited.code}`);
+      throw new Error(`Chrome exited before DevTools was ready (${reason})`);
+    }
+    try {
+      const version = await chromeHttp('/json/version');
+      if (version && version.Browser) {
+        return version;
+      }
+    } catch (e) {
+      // Not listening yet
+    }
+    await new Promise(resolve => setTimeout(resolve, 100));
+  }
+  throw new Error(`Chrome DevTools did not respond on ${CHROME_DEBUG_HOST}:${chromeDebugPort} within ${timeout}ms`);
+}
+
+async function killChrome() {
+  if (!chromeProcess) {
+    return;
+  }
+
+  try {
+    // Try graceful shutdown first via CDP
+    try {
+      await chromeHttp('/json/close', 'GET');
+      await new Promise(resolve => setTimeout(resolve, 500));
+    } catch (e) {
+      // Ignore errors, Chrome might already be dead
+    }
+
+    // Force kill if still running
+    if (chromeProcess && chromeProcess.pid) {
+      try {
+        process.kill(chromeProcess.pid, 'SIGTERM');
+        await new Promise(resolve => setTimeout(resolve, 500));
+      } catch (e) {
+        // Process might already be dead
+      }
+    }
+  } catch (e) {
+    console.error(`Error killing Chrome: ${e.message}`);
+  }
+
+  chromeProcess = null;
+  // Contexts die with the browser
+  browserContexts.clear();
+}
+
+async function showBrowser() {
+  if (!chromeHeadless) {
+    return 'Browser is already visible';
+  }
+
+  console.error('Switching to headed mode (browser window will be visible)...');
+  console.error('WARNING: This will restart Chrome and lose any POST-based page state');
+
+  // Get current tabs before killing Chrome
+  let currentTabs = [];
+  try {
+    const tabs = await getTabs();
+    currentTabs = tabs.map(t => t.url).filter(url => url && url !== 'about:blank');
+  } catch (e) {
+    // Ignore errors if Chrome isn't running
+  }
+
+  // Kill current Chrome instance
+  await killChrome();
+
+  // Start Chrome in headed mode
+  await startChrome(false);
+
+  // Reopen tabs (Note: This will re-request pages via GET, losing POST state)
+  if (currentTabs.length > 0) {
+    console.error(`Reopening ${currentTabs.length} tab(s)...`);
+    for (const url of currentTabs) {
+      try {
+        await newTab(url);
+      } catch (e) {
+        console.error(`Failed to reopen ${url}: ${e.message}`);
+      }
+    }
+  }
+
+  return 'Browser window is now visible. Note: Pages were reloaded via GET requests.';
+}
+
+async function hideBrowser() {
+  if (chromeHeadless) {
+    return 'Browser is already in headless mode';
+  }
+
+  console.error('Switching to headless mode (hiding browser window)...');
+  console.error('WARNING: This will restart Chrome and lose any POST-based page state');
+
+  // Get current tabs before killing Chrome
+  let currentTabs = [];
+  try {
+    const tabs = await getTabs();
+    currentTabs = tabs.map(t => t.url).filter(url => url && url !== 'about:blank');
+  } catch (e) {
+    // Ignore errors if Chrome isn't running
+  }
+
+  // Kill current Chrome instance
+  await killChrome();
+
+  // Start Chrome in headless mode
+  await startChrome(true);
+
+  // Reopen tabs (Note: This will re-request pages via GET, losing POST state)
+  if (currentTabs.length > 0) {
+    console.error(`Reopening ${currentTabs.length} tab(s)...`);
+    for (const url of currentTabs) {
+      try {
+        await newTab(url);
+      } catch (e) {
+        console.error(`Failed to reopen ${url}: ${e.message}`);
+      }
+    }
+  }
+
+  return 'Browser is now in headless mode. Note: Pages were reloaded via GET requests.';
+}
+
+async function getBrowserMode() {
+  // Emulation is tracked per tab; report it by current tab index
+  const emulation = [];
+  if (tabEmulation.size > 0) {
+    const tabs = await getTabs().catch(() => []);
+    tabs.forEach((tab, index) => {
+      const settings = tabEmulation.get(tab.webSocketDebuggerUrl);
+      if (settings) {
+        emulation.push({ tab: index, url: tab.url, summary: formatEmulation(settings), settings });
+      }
+    });
+  }
+
+  return {
+    headless: chromeHeadless,
+    mode: chromeHeadless ? 'headless' : 'headed',
+    running: chromeProcess !== null,
+    profile: chromeProfileName,
+    profileDir: chromeUserDataDir,
+    port: chromeDebugPort,
+    executable: chromeExecutablePath,
+    emulation
+  };
+}
+
+function getProfileName() {
+  return chromeProfileName;
+}
+
+function setProfileName(profileName) {
+  if (chromeProcess) {
+    throw new Error('Cannot change profile while Chrome is running. Kill Chrome first.');
+  }
+  chromeProfileName = profileName;
+  chromeUserDataDir = null; // Reset so next startChrome() uses new profile
+  return `Profile set to: ${profileName}`;
+}
+
+// =============================================================================
+// CONSOLE CAPTURE (console API, JS exceptions and browser log entries)
+// =============================================================================
+
+const MAX_CONSOLE_MESSAGES = 1000; // Per tab; oldest messages are dropped first
+
+// Monotonic sequence shared by all tabs, used to slice messages per capture
+let consoleSeq = 0;
+
+// Last console sequence reported by a capture, per tab (wsUrl -> seq)
+const lastCaptureConsoleSeq = new Map();
+
+// Console range reported by each capture (prefix -> { wsUrl, fromSeq })
+const captureConsoleRanges = new Map();
+
+// Render a CDP remote object argument as console-style text
+function formatRemoteObject(arg) {
+  if (arg.type === 'string') return arg.value;
+  if (arg.type === 'number') return String(arg.value);
+  if (arg.type === 'boolean') return String(arg.value);
+  if (arg.type === 'undefined') return 'undefined';
+  if (arg.type === 'object') return arg.description || (arg.subtype === 'null' ? 'null' : '[Object]');
+  return String(arg.value || arg.description || arg.type);
+}
+
+// Render a Runtime.StackTrace as "at fn (url:line:col)" lines (CDP positions are 0-based)
+function formatStackTrace(stackTrace) {
+  if (!stackTrace || !stackTrace.callFrames) return [];
+  return stackTrace.callFrames.map(frame =>
+    `at ${frame.functionName || '<anonymous>'} (${frame.url || '<inline>'}:${frame.lineNumber + 1}:${frame.columnNumber + 1})`
+  );
+}
+
+function recordConsoleMessage(wsUrl, entry) {
+  const messages = consoleMessages.get(wsUrl) || [];
+  const topFrame = entry.stackTrace?.callFrames?.[0];
+
+  messages.push({
+    seq: ++consoleSeq,
+    timestamp: new Date().toISOString(),
+    level: entry.level,
+    source: entry.source,
+    text: entry.text,
+    url: entry.url || topFrame?.url || null,
+    lineNumber: entry.lineNumber !== undefined ? entry.lineNumber + 1 : (topFrame ? topFrame.lineNumber + 1 : null),
+    columnNumber: entry.columnNumber !== undefined ? entry.columnNumber + 1 : (topFrame ? topFrame.columnNumber + 1 : null),
+    stack: formatStackTrace(entry.stackTrace)
+  });
+
+  if (messages.length > MAX_CONSOLE_MESSAGES) {
+    messages.splice(0, messages.length - MAX_CONSOLE_MESSAGES);
+  }
+  consoleMessages.set(wsUrl, messages);
+}
+
+addTabEventHandler((wsUrl, event) => {
+  const params = event.params || {};
+
+  if (event.method === 'Runtime.consoleAPICalled') {
+    recordConsoleMessage(wsUrl, {
+      level: params.type || 'log',
+      source: 'console',
+      text: (params.args || []).map(formatRemoteObject).join(' '),
+      stackTrace: params.stackTrace
+    });
+  } else if (event.method === 'Runtime.exceptionThrown') {
+    const details = params.exceptionDetails || {};
+    recordConsoleMessage(wsUrl, {
+      level: 'error',
+      source: 'exception',
+      text: details.exception?.description || details.text || 'Uncaught exception',
+      url: details.url,
+      lineNumber: details.lineNumber,
+      columnNumber: details.columnNumber,
+      stackTrace: details.stackTrace
+    });
+  } else if (event.method === 'Log.entryAdded') {
+    const entry = params.entry || {};
+    recordConsoleMessage(wsUrl, {
+      level: entry.level || 'info',
+      source: entry.source || 'other',
+      text: entry.text || '',
+      url: entry.url,
+      lineNumber: entry.lineNumber,
+      stackTrace: entry.stackTrace
+    });
+  }
+});
+
+addTabCleanupHandler((wsUrl) => {
+  consoleMessages.delete(wsUrl);
+  lastCaptureConsoleSeq.delete(wsUrl);
+  for (const [prefix, range] of captureConsoleRanges) {
+    if (range.wsUrl === wsUrl) captureConsoleRanges.delete(prefix);
+  }
+});
+
+/**
+ * Enable console capture for a tab.
+ * Listeners live on the pooled connection, so this just makes sure it's open.
+ */
+async function enableConsoleLogging(tabIndexOrWsUrl) {
+  const wsUrl = await resolveWsUrl(tabIndexOrWsUrl);
+
+  if (!consoleMessages.has(wsUrl)) {
+    consoleMessages.set(wsUrl, []);
+  }
+  await getPooledConnection(wsUrl);
+}
+
+async function getConsoleMessages(tabIndexOrWsUrl, sinceTime = null) {
+  const wsUrl = await resolveWsUrl(tabIndexOrWsUrl);
+  const messages = consoleMessages.get(wsUrl) || [];
+
+  if (!sinceTime) {
+    return messages;
+  }
+
+  // Filter messages since the specified time
+  return messages.filter(msg => new Date(msg.timestamp) > sinceTime);
+}
+
+async function clearConsoleMessages(tabIndexOrWsUrl) {
+  const wsUrl = await resolveWsUrl(tabIndexOrWsUrl);
+  consoleMessages.set(wsUrl, []);
+}
+
+/**
+ * Get console messages recorded since a capture started (e.g. "003-click").
+ * Includes that capture's own messages. Without a prefix, returns everything.
+ */
+async function getConsoleMessagesSinceCapture(tabIndexOrWsUrl, capturePrefix = null) {
+  const wsUrl = await resolveWsUrl(tabIndexOrWsUrl);
+  const messages = consoleMessages.get(wsUrl) || [];
+
+  if (!capturePrefix) {
+    return messages;
+  }
+
+  const range = captureConsoleRanges.get(capturePrefix);
+  if (!range) {
+    throw new Error(`Unknown capture prefix: ${capturePrefix}`);
+  }
+  if (range.wsUrl !== wsUrl) {
+    throw new Error(`Capture ${capturePrefix} was taken on a different tab`);
+  }
+  return messages.filter(msg => msg.seq > range.fromSeq);
+}
+
+/**
+ * Clear console messages since a capture started, or all messages if no prefix.
+ * Returns the number of messages removed.
+ */
+async function clearConsoleMessagesSinceCapture(tabIndexOrWsUrl, capturePrefix = null) {
+  const wsUrl = await resolveWsUrl(tabIndexOrWsUrl);
+  const messages = consoleMessages.get(wsUrl) || [];
+  const removed = await getConsoleMessagesSinceCapture(wsUrl, capturePrefix);
+  const removedSeqs = new Set(removed.map(msg => msg.seq));
+  consoleMessages.set(wsUrl, messages.filter(msg => !removedSeqs.has(msg.seq)));
+  return removed.length;
+}
+
+/**
+ * Take the console messages logged since this tab's previous capture
+ * and remember the range under the new capture prefix.
+ */
+function takeConsoleForCapture(wsUrl, prefix) {
+  const fromSeq = lastCaptureConsoleSeq.get(wsUrl) || 0;
+  const messages = (consoleMessages.get(wsUrl) || []).filter(msg => msg.seq > fromSeq);
+
+  captureConsoleRanges.set(prefix, { wsUrl, fromSeq });
+  lastCaptureConsoleSeq.set(wsUrl, consoleSeq);
+  return messages;
+}
+
+/**
+ * Format console messages for the {prefix}-console.txt capture file
+ */
+function formatConsoleLog(messages) {
+  const lines = [`# Console Log (${messages.length} message${messages.length === 1 ? '' : 's'})`];
+
+  for (const msg of messages) {
+    const location = msg.url ? ` (${msg.url}${msg.lineNumber ? `:${msg.lineNumber}:${msg.columnNumber}` : ''})` : '';
+    lines.push(`[${msg.timestamp}] ${msg.level.toUpperCase()} [${msg.source}] ${msg.text}${location}`);
+    for (const frame of msg.stack || []) {
+      lines.push(`    ${frame}`);
+    }
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+// =============================================================================
+// NETWORK RECORDING (CDP Network domain, HAR export)
+// =============================================================================
+
+const MAX_NETWORK_ENTRIES = 2000;        // Per tab; oldest entries are dropped first
+const DEFAULT_MAX_BODY_SIZE = 1024 * 1024; // Response bodies larger than this are skipped
+
+// Monotonic sequence assigned when a request completes, used to slice per capture
+let networkSeq = 0;
+
+// Per-tab recorders (wsUrl -> recorder). A passive recorder exists for every tab
+// so captures can report failures; network_start replaces it with a fresh one.
+const networkRecorders = new Map();
+
+// Last network sequence reported by a capture, per tab (wsUrl -> seq)
+const lastCaptureNetworkSeq = new Map();
+
+function createNetworkRecorder(options = {}) {
+  return {
+    startedAt: new Date().toISOString(),
+    captureBodies: !!options.bodies,
+    maxBodySize: options.maxBodySize || DEFAULT_MAX_BODY_SIZE,
+    entries: [],
+    byRequestId: new Map()
+  };
+}
+
+function getNetworkRecorder(wsUrl) {
+  let recorder = networkRecorders.get(wsUrl);
+  if (!recorder) {
+    recorder = createNetworkRecorder();
+    networkRecorders.set(wsUrl, recorder);
+  }
+  return recorder;
+}
+
+function applyNetworkResponse(entry, response) {
+  entry.status = response.status;
+  entry.statusText = response.statusText || '';
+  entry.responseHeaders = response.headers || {};
+  entry.mimeType = response.mimeType || '';
+  entry.protocol = response.protocol || '';
+  entry.remoteIPAddress = response.remoteIPAddress || null;
+  entry.fromCache = !!(response.fromDiskCache || response.fromServiceWorker);
+  entry.timing = response.timing || null;
+  if (response.encodedDataLength >= 0) {
+    entry.encodedDataLength = response.encodedDataLength;
+  }
+}
+
+function completeNetworkEntry(entry, timestamp) {
+  entry.endTimestamp = timestamp;
+  entry.finished = true;
+  entry.seq = ++networkSeq;
+}
+
+addTabEventHandler((wsUrl, event) => {
+  if (!event.method.startsWith('Network.')) return;
+
+  const recorder = getNetworkRecorder(wsUrl);
+  const params = event.params || {};
+  const entry = recorder.byRequestId.get(params.requestId);
+
+  if (event.method === 'Network.requestWillBeSent') {
+    // Redirects reuse the requestId: close out the previous hop first
+    if (entry && params.redirectResponse) {
+      applyNetworkResponse(entry, params.redirectResponse);
+      entry.redirectURL = params.request.url;
+      completeNetworkEntry(entry, params.timestamp);
+    }
+
+    const request = params.request || {};
+    const newEntry = {
+      requestId: params.requestId,
+      url: request.url,
+      method: request.method,
+      resourceType: params.type || 'Other',
+      requestHeaders: request.headers || {},
+      postData: request.postData || null,
+      startedDateTime: new Date((params.wallTime || Date.now() / 1000) * 1000).toISOString(),
+      timestamp: params.timestamp,
+      status: null,
+      statusText: '',
+      responseHeaders: {},
+      mimeType: '',
+      encodedDataLength: 0,
+      finished: false,
+      failed: false,
+      errorText: null,
+      redirectURL: '',
+      seq: null
+    };
+
+    recorder.entries.push(newEntry);
+    recorder.byRequestId.set(params.requestId, newEntry);
+
+    if (recorder.entries.length > MAX_NETWORK_ENTRIES) {
+      for (const dropped of recorder.entries.splice(0, recorder.entries.length - MAX_NETWORK_ENTRIES)) {
+        if (recorder.byRequestId.get(dropped.requestId) === dropped) {
+          recorder.byRequestId.delete(dropped.requestId);
+        }
+      }
+    }
+  } else if (!entry) {
+    return;
+  } else if (event.method === 'Network.responseReceived') {
+    entry.resourceType = params.type || entry.resourceType;
+    applyNetworkResponse(entry, params.response || {});
+  } else if (event.method === 'Network.loadingFinished') {
+    entry.encodedDataLength = params.encodedDataLength;
+    completeNetworkEntry(entry, params.timestamp);
+
+    if (recorder.captureBodies && entry.encodedDataLength <= recorder.maxBodySize) {
+      sendCdpCommandPooled(wsUrl, 'Network.getResponseBody', { requestId: params.requestId })
+        .then((body) => {
+          entry.body = body.body;
+          entry.bodyBase64 = body.base64Encoded;
+        })
+        .catch(() => {
+          // Bodies are unavailable for redirects and some cached or evicted resources
+        });
+    }
+  } else if (event.method === 'Network.loadingFailed') {
+    entry.failed = true;
+    entry.errorText = params.errorText || (params.blockedReason ? `blocked:${params.blockedReason}` : 'failed');
+    entry.canceled = !!params.canceled;
+    completeNetworkEntry(entry, params.timestamp);
+  }
+});
+
+addTabCleanupHandler((wsUrl) => {
+  networkRecorders.delete(wsUrl);
+  lastCaptureNetworkSeq.delete(wsUrl);
+});
+
+/**
+ * Compile a URL pattern to a RegExp, or null for a plain substring:
+ *   "/regex/flags" → regular expression
+ *   contains * or ? → glob over the full URL (** any chars, * any chars except /)
+ *   otherwise      → substring match
+ */
+function compileUrlPattern(pattern) {
+  const regexMatch = pattern.match(/^\/(.+)\/([dgimsuy]*)$/);
+  if (regexMatch) {
+    try {
+      return new RegExp(regexMatch[1], regexMatch[2]);
+    } catch (e) {
+      throw new Error(`Invalid URL pattern ${pattern}: ${e.message.replace(/^Invalid regular expression: /, '')}`);
+    }
+  }
+
+  if (/[*?]/.test(pattern)) {
+    const source = pattern
+      .replace(/[.+^${}()|[\]\\]/g, '\\$&')
+      .replace(/\*\*/g, '\u0000')
+      .replace(/\*/g, '[^/]*')
+      .replace(/\?/g, '.')
+      .replace(/\u0000/g, '.*');
+    return new RegExp(`^${source}$`);
+  }
+
+  return null;
+}
+
+// Throw a clear error for a bad /regex/ before it is used to wait or route
+function validateUrlPattern(pattern) {
+  if (pattern) compileUrlPattern(pattern);
+}
+
+/**
+ * Test whether a URL matches a pattern (substring, glob or /regex/, see compileUrlPattern)
+ */
+function matchesUrlPattern(url, pattern) {
+  if (!pattern) return true;
+  const regex = compileUrlPattern(pattern);
+  return regex ? regex.test(url) : url.includes(pattern);
+}
+
+/**
+ * Test whether a network entry matches a status filter:
+ *   404 / "404" → exact status, "4xx" → status class,
+ *   "failed" → network-level failures, "errors" → failures plus 4xx/5xx
+ */
+function matchesStatusFilter(entry, status) {
+  if (status === undefined || status === null || status === '') return true;
+
+  const filter = String(status).toLowerCase();
+  if (filter === 'failed') return entry.failed;
+  if (filter === 'errors') return entry.failed || entry.status >= 400;
+  if (/^\dxx$/.test(filter)) return entry.status !== null && Math.floor(entry.status / 100) === parseInt(filter[0]);
+  return entry.status === parseInt(filter);
+}
+
+/**
+ * Filter network entries by { url, status, type }
+ */
+function filterNetworkEntries(entries, filter = {}) {
+  return entries.filter(entry =>
+    matchesUrlPattern(entry.url, filter.url) &&
+    matchesStatusFilter(entry, filter.status) &&
+    (!filter.type || entry.resourceType.toLowerCase() === String(filter.type).toLowerCase())
+  );
+}
+
+/**
+ * Start (or restart) recording network traffic for a tab.
+ * Clears previously recorded entries for the tab.
+ * @param {Object} options - { bodies: boolean, maxBodySize: number }
+ */
+async function startNetworkRecording(tabIndexOrWsUrl, options = {}) {
+  const wsUrl = await resolveWsUrl(tabIndexOrWsUrl);
+  await getPooledConnection(wsUrl);
+
+  const recorder = createNetworkRecorder(options);
+  networkRecorders.set(wsUrl, recorder);
+
+  return {
+    startedAt: recorder.startedAt,
+    bodies: recorder.captureBodies,
+    maxBodySize: recorder.maxBodySize
+  };
+}
+
+async function getNetworkLog(tabIndexOrWsUrl, filter = {}) {
+  const wsUrl = await resolveWsUrl(tabIndexOrWsUrl);
+  return filterNetworkEntries(getNetworkRecorder(wsUrl).entries, filter);
+}
+
+function formatBytes(bytes) {
+  if (!bytes) return '0B';
+  if (bytes < 1024) return `${bytes}B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)}KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)}MB`;
+}
+
+/**
+ * Format a single network entry as one line: "404 GET Script https://... 1.2KB 35ms"
+ */
+function formatNetworkEntry(entry) {
+  const status = entry.failed
+    ? `FAILED ${entry.errorText}`
+    : entry.status !== null ? String(entry.status) : 'PENDING';
+  const duration = entry.endTimestamp ? ` ${Math.round((entry.endTimestamp - entry.timestamp) * 1000)}ms` : '';
+  return `${status} ${entry.method} ${entry.resourceType} ${entry.url} ${formatBytes(entry.encodedDataLength)}${duration}`;
+}
+
+function formatNetworkLog(entries) {
+  const lines = [`# Network Log (${entries.length} request${entries.length === 1 ? '' : 's'})`];
+  for (const entry of entries) {
+    lines.push(formatNetworkEntry(entry));
+  }
+  return lines.join('\n') + '\n';
+}
+
+function toHarHeaders(headers) {
+  return Object.entries(headers || {}).flatMap(([name, value]) =>
+    // CDP joins repeated headers with newlines
+    String(value).split('\n').map(v => ({ name, value: v }))
+  );
+}
+
+function toHarHttpVersion(protocol) {
+  if (!protocol) return '';
+  if (protocol === 'h2') return 'HTTP/2';
+  if (protocol === 'h3' || protocol.startsWith('h3-')) return 'HTTP/3';
+  return protocol.toUpperCase();
+}
+
+function toHarTimings(entry, totalMs) {
+  const t = entry.timing;
+  if (!t) {
+    return { blocked: -1, dns: -1, connect: -1, ssl: -1, send: 0, wait: totalMs, receive: 0 };
+  }
+
+  const span = (start, end) => (start >= 0 && end >= 0 ? Math.max(0, end - start) : -1);
+  const firstActivity = [t.dnsStart, t.connectStart, t.sendStart].find(v => v >= 0) || 0;
+  const headersEnd = t.receiveHeadersEnd >= 0 ? t.receiveHeadersEnd : t.sendEnd;
+  // ResourceTiming offsets are relative to requestTime, which may lag the request timestamp
+  const requestStartMs = (t.requestTime - entry.timestamp) * 1000;
+
+  const timings = {
+    blocked: Math.max(0, requestStartMs + firstActivity),
+    dns: span(t.dnsStart, t.dnsEnd),
+    connect: span(t.connectStart, t.connectEnd),
+    ssl: span(t.sslStart, t.sslEnd),
+    send: Math.max(0, t.sendEnd - t.sendStart),
+    wait: Math.max(0, headersEnd - t.sendEnd),
+    receive: Math.max(0, totalMs - requestStartMs - headersEnd)
+  };
+
+  // CDP timestamps are float seconds; keep microsecond precision without float noise
+  for (const key of Object.keys(timings)) {
+    timings[key] = Math.round(timings[key] * 1000) / 1000;
+  }
+  return timings;
+}
+
+// Phases summed into an entry's time; ssl is already part of connect
+const HAR_TIME_PHASES = ['blocked', 'dns', 'connect', 'send', 'wait', 'receive'];
+
+/**
+ * Build a HAR 1.2 document from recorded network entries
+ */
+function buildHar(entries, creatorVersion = '1.0.0') {
+  return {
+    log: {
+      version: '1.2',
+      creator: { name: 'superpowers-chrome', version: creatorVersion },
+      entries: entries.map(entry => {
+        const totalMs = entry.endTimestamp ? Math.round((entry.endTimestamp - entry.timestamp) * 1e6) / 1000 : 0;
+        const timings = toHarTimings(entry, totalMs);
+        const httpVersion = toHarHttpVersion(entry.protocol);
+
+        let queryString = [];
+        try {
+          queryString = Array.from(new URL(entry.url).searchParams, ([name, value]) => ({ name, value }));
+        } catch (e) {
+          // data: and other opaque URLs have no query string
+        }
+
+        const content = {
+          size: entry.body !== undefined
+            ? (entry.bodyBase64 ? Buffer.from(entry.body, 'base64').length : Buffer.byteLength(entry.body))
+            : entry.encodedDataLength || 0,
+          mimeType: entry.mimeType || 'x-unknown'
+        };
+        if (entry.body !== undefined) {
+          content.text = entry.body;
+          if (entry.bodyBase64) content.encoding = 'base64';
+        }
+
+        const harEntry = {
+          startedDateTime: entry.startedDateTime,
+          time: Math.round(HAR_TIME_PHASES.map(phase => timings[phase]).filter(v => v > 0).reduce((a, b) => a + b, 0) * 1000) / 1000,
+          request: {
+            method: entry.method,
+            url: entry.url,
+            httpVersion,
+            cookies: [],
+            headers: toHarHeaders(entry.requestHeaders),
+            queryString,
+            headersSize: -1,
+            bodySize: entry.postData ? Buffer.byteLength(entry.postData) : 0
+          },
+          response: {
+            status: entry.status || 0,
+            statusText: entry.statusText || '',
+            httpVersion,
+            cookies: [],
+            headers: toHarHeaders(entry.responseHeaders),
+            content,
+            redirectURL: entry.redirectURL || '',
+            headersSize: -1,
+            bodySize: entry.finished ? entry.encodedDataLength || 0 : -1
+          },
+          cache: {},
+          timings,
+          _resourceType: entry.resourceType.toLowerCase()
+        };
+
+        if (entry.postData) {
+          const contentType = Object.entries(entry.requestHeaders || {})
+            .find(([name]) => name.toLowerCase() === 'content-type');
+          harEntry.request.postData = {
+            mimeType: contentType ? contentType[1] : '',
+            text: entry.postData
+          };
+        }
+        if (entry.remoteIPAddress) {
+          harEntry.serverIPAddress = entry.remoteIPAddress;
+        }
+        if (entry.failed) {
+          harEntry._error = entry.errorText;
+        }
+
+        return harEntry;
+      })
+    }
+  };
+}
+
+/**
+ * Export recorded network traffic as a HAR 1.2 file
+ * @param {string|null} filename - Output path; defaults to {prefix}.har in the session dir
+ * @param {Object} filter - Optional { url, status, type } filter
+ */
+async function exportHar(tabIndexOrWsUrl, filename = null, filter = {}) {
+  const fs = require('fs');
+  const path = require('path');
+
+  const entries = await getNetworkLog(tabIndexOrWsUrl, filter);
+  const harPath = filename
+    ? resolveSessionPath(filename)
+    : path.join(initializeSession(), `${createCapturePrefix('network')}.har`);
+
+  await rememberPasswordValues(tabIndexOrWsUrl);
+  writeMaskedFile(harPath, JSON.stringify(buildHar(entries), null, 2));
+  return { path: harPath, entries: entries.length };
+}
+
+/**
+ * Take failed and 4xx/5xx requests completed since this tab's previous capture
+ */
+function takeNetworkProblemsForCapture(wsUrl) {
+  const fromSeq = lastCaptureNetworkSeq.get(wsUrl) || 0;
+  lastCaptureNetworkSeq.set(wsUrl, networkSeq);
+
+  return getNetworkRecorder(wsUrl).entries.filter(entry =>
+    entry.seq > fromSeq && (entry.failed || entry.status >= 400)
+  );
+}
+
+// =============================================================================
+// SETTLE AND WAIT STRATEGIES (network idle, DOM quiescence, URL, element gone)
+// =============================================================================
+
+// Defaults for waitForSettle(); every field can be overridden per call
+const DEFAULT_SETTLE = {
+  timeout: 5000,        // Upper bound for the whole settle wait (ms)
+  networkIdleMs: 500,   // Network must stay idle this long
+  domQuietMs: 300,      // DOM must go this long without mutations
+  maxInflight: 0        // Requests allowed to stay in flight (long-polls, analytics)
+};
+
+// Resource types that stay open by design and never count as in flight
+const LONG_LIVED_RESOURCE_TYPES = new Set(['EventSource', 'WebSocket']);
+
+// Requests in flight longer than this no longer hold up idle: long-polls, and
+// requests whose loadingFinished was never seen
+const STALE_REQUEST_MS = 30000;
+
+// In-flight requests per tab (wsUrl -> Map(requestId -> { type, loaderId, startedAt }))
+const inflightRequests = new Map();
+
+// Last time a request started or finished, per tab (wsUrl -> ms since epoch)
+const lastNetworkActivity = new Map();
+
+addTabEventHandler((wsUrl, event) => {
+  const params = event.params || {};
+  let inflight = inflightRequests.get(wsUrl);
+
+  if (event.method === 'Network.requestWillBeSent') {
+    if (LONG_LIVED_RESOURCE_TYPES.has(params.type)) return;
+    if (!inflight) {
+      inflight = new Map();
+      inflightRequests.set(wsUrl, inflight);
+    }
+    inflight.set(params.requestId, { type: params.type, loaderId: params.loaderId, startedAt: Date.now() });
+    lastNetworkActivity.set(wsUrl, Date.now());
+  } else if (event.method === 'Network.loadingFinished' || event.method === 'Network.loadingFailed') {
+    if (inflight && inflight.delete(params.requestId)) {
+      lastNetworkActivity.set(wsUrl, Date.now());
+    }
+  } else if (event.method === 'Page.frameNavigated' && params.frame && !params.frame.parentId && inflight) {
+    // The old document's requests are cancelled without loadingFailed events
+    for (const [requestId, request] of inflight) {
+      if (request.loaderId !== params.frame.loaderId) inflight.delete(requestId);
+    }
+  }
+});
+
+addTabDisconnectHandler((wsUrl) => {
+  inflightRequests.delete(wsUrl);
+});
+
+addTabCleanupHandler((wsUrl) => {
+  inflightRequests.delete(wsUrl);
+  lastNetworkActivity.delete(wsUrl);
+});
+
+// Requests in flight on a tab, dropping those older than staleMs
+function countInflightRequests(wsUrl, staleMs = STALE_REQUEST_MS, now = Date.now()) {
+  const inflight = inflightRequests.get(wsUrl);
+  if (!inflight) return 0;
+  for (const [requestId, request] of inflight) {
+    if (now - request.startedAt > staleMs) inflight.delete(requestId);
+  }
+  return inflight.size;
+}
+
+const sleep = (ms) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Normalize a settle argument: a number is an upper bound in ms,
+ * false disables settling, an object overrides DEFAULT_SETTLE fields.
+ */
+function normalizeSettleOptions(settle) {
+  if (settle === false) return null;
+  if (typeof settle === 'number') return { ...DEFAULT_SETTLE, timeout: settle };
+  return { ...DEFAULT_SETTLE, ...(settle || {}) };
+}
+
+/**
+ * Wait until no more than maxInflight requests have been in flight for idleMs.
+ * Always waits at least idleMs so requests fired right after an action are seen.
+ * Requests older than staleMs (default STALE_REQUEST_MS) are not counted.
+ */
+async function waitForNetworkIdle(tabIndexOrWsUrl, options = {}) {
+  const wsUrl = await resolveWsUrl(tabIndexOrWsUrl);
+  await getPooledConnection(wsUrl);
+
+  const { idleMs = DEFAULT_SETTLE.networkIdleMs, timeout = DEFAULT_SETTLE.timeout, maxInflight = 0, staleMs = STALE_REQUEST_MS } = options;
+  const start = Date.now();
+
+  while (true) {
+    const inflight = countInflightRequests(wsUrl, staleMs);
+    const quietSince = Math.max(lastNetworkActivity.get(wsUrl) || 0, start);
+    const now = Date.now();
+
+    if (inflight <= maxInflight && now - quietSince >= idleMs) {
+      return { idle: true, waited: now - start, inflight };
+    }
+    if (now - start >= timeout) {
+      return { idle: false, waited: now - start, inflight };
+    }
+    await sleep(50);
+  }
+}
+
+/**
+ * Wait until the DOM goes quietMs without mutations (MutationObserver in the page).
+ * Retries if a navigation destroys the execution context mid-wait.
+ */
+async function waitForDomQuiet(tabIndexOrWsUrl, options = {}) {
+  const wsUrl = await resolveWsUrl(tabIndexOrWsUrl);
+  const { quietMs = DEFAULT_SETTLE.domQuietMs, timeout = DEFAULT_SETTLE.timeout } = options;
+  const start = Date.now();
+
+  while (Date.now() - start < timeout) {
+    const remaining = timeout - (Date.now() - start);
+    const js = `
+      new Promise((resolve) => {
+        const started = Date.now();
+        let quietTimer = null;
+        const finish = (quiet) => {
+          observer.disconnect();
+          clearTimeout(quietTimer);
+          clearTimeout(limitTimer);
+          resolve({ quiet, waited: Date.now() - started });
+        };
+        const observer = new MutationObserver(() => {
+          clearTimeout(quietTimer);
+          quietTimer = setTimeout(() => finish(true), ${quietMs});
+        });
+        observer.observe(document, { subtree: true, childList: true, attributes: true, characterData: true });
+        quietTimer = setTimeout(() => finish(true), ${quietMs});
+        const limitTimer = setTimeout(() => finish(false), ${remaining});
+      })
+    `;
+
+    try {
+      const result = await sendCdpCommand(wsUrl, 'Runtime.evaluate', {
+        expression: js,
+        awaitPromise: true,
+        returnByValue: true
+      }, remaining + 5000);
+      if (result.result?.value) {
+        return { quiet: result.result.value.quiet, waited: Date.now() - start };
+      }
+    } catch (e) {
+      // Context destroyed by navigation; try again in the new document
+    }
+    await sleep(100);
+  }
+
+  return { quiet: false, waited: Date.now() - start };
+}
+
+/**
+ * Wait for the page to settle after an action: network idle AND DOM quiet,
+ * bounded by settle.timeout. Replaces fixed sleeps.
+ * @param {number|boolean|Object} settle - See normalizeSettleOptions()
+ */
+async function waitForSettle(tabIndexOrWsUrl, settle = {}) {
+  const options = normalizeSettleOptions(settle);
+  if (!options) {
+    return { waited: 0, networkIdle: null, domQuiet: null, skipped: true };
+  }
+
+  const start = Date.now();
+  const [network, dom] = await Promise.all([
+    waitForNetworkIdle(tabIndexOrWsUrl, {
+      idleMs: options.networkIdleMs,
+      timeout: options.timeout,
+      maxInflight: options.maxInflight
+    }),
+    waitForDomQuiet(tabIndexOrWsUrl, {
+      quietMs: options.domQuietMs,
+      timeout: options.timeout
+    })
+  ]);
+
+  return {
+    waited: Date.now() - start,
+    networkIdle: network.idle,
+    inflight: network.inflight,
+    domQuiet: dom.quiet
+  };
+}
+
+/**
+ * One-line description of a settle result for tool responses
+ */
+function formatSettleResult(settled) {
+  if (!settled || settled.skipped) return 'Settle: skipped';
+  const problems = [];
+  if (!settled.networkIdle) problems.push(`${settled.inflight} request${settled.inflight === 1 ? '' : 's'} still in flight`);
+  if (!settled.domQuiet) problems.push('DOM still changing');
+  return problems.length === 0
+    ? `Settled in ${settled.waited}ms (network idle, DOM quiet)`
+    : `Settle timed out after ${settled.waited}ms (${problems.join(', ')})`;
+}
+
+/**
+ * Wait until the tab's URL matches a pattern (substring, glob or /regex/).
+ * Polls location.href, so pushState navigations are caught too.
+ */
+async function waitForUrl(tabIndexOrWsUrl, pattern, timeout = 5000) {
+  validateUrlPattern(pattern);
+  const wsUrl = await resolveWsUrl(tabIndexOrWsUrl);
+  const start = Date.now();
+  let lastUrl = null;
+
+  while (true) {
+    try {
+      const result = await sendCdpCommand(wsUrl, 'Runtime.evaluate', {
+        expression: 'location.href',
+        returnByValue: true
+      }, 2000);
+      lastUrl = result.result.value;
+      if (lastUrl && matchesUrlPattern(lastUrl, pattern)) {
+        return lastUrl;
+      }
+    } catch (e) {
+      // Mid-navigation; the next poll will see the new document
+    }
+
+    if (Date.now() - start >= timeout) {
+      throw new Error(`Timeout waiting for URL matching ${pattern} (current: ${lastUrl})`);
+    }
+    await sleep(100);
+  }
+}
+
+/**
+ * Wait until an element is detached from the document or hidden
+ */
+async function waitForElementGone(tabIndexOrWsUrl, selector, timeout = 5000) {
+  const wsUrl = await resolveWsUrl(tabIndexOrWsUrl);
+  // Removed refs and missing frames mean the element is already gone
+  let target;
+  try {
+    target = await prepareSelector(wsUrl, selector);
+  } catch (e) {
+    if (!/no longer exists|not found/.test(e.message)) throw e;
+    return;
+  }
+
+  const js = `
+    new Promise((resolve, reject) => {
+      const timeout = setTimeout(() => reject(new Error('Timeout')), ${timeout});
+      const check = () => {
+        const el = ${getElementSelector(target.selector)};
+        const gone = !el || !el.isConnected || (el.checkVisibility
+          ? !el.checkVisibility({ checkOpacity: true, checkVisibilityCSS: true })
+          : el.getClientRects().length === 0);
+        if (gone) {
+          clearTimeout(timeout);
+          resolve(true);
+        } else {
+          setTimeout(check, 100);
+        }
+      };
+      check();
+    })
+  `;
+  const result = await sendCdpCommand(wsUrl, 'Runtime.evaluate', {
+    expression: js,
+    awaitPromise: true,
+    contextId: target.contextId
+  }, timeout + 5000);
+  if (result.exceptionDetails) {
+    throw new Error(`Timeout waiting for element to disappear: ${selector}`);
+  }
+}
+
+// =============================================================================
+// REQUEST ROUTING (CDP Fetch domain: block, mock, delay, rewrite headers)
+// =============================================================================
+
+// Content types for mock response files, by extension
+const MOCK_CONTENT_TYPES = {
+  '.json': 'application/json',
+  '.html': 'text/html; charset=utf-8',
+  '.htm': 'text/html; charset=utf-8',
+  '.js': 'application/javascript',
+  '.css': 'text/css',
+  '.txt': 'text/plain; charset=utf-8',
+  '.svg': 'image/svg+xml',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp'
+};
+
+const MAX_MOCKED_ENTRIES = 500; // Per tab; oldest entries are dropped first
+
+// Route rules per tab (wsUrl -> rule[]). First matching rule wins.
+const routeRules = new Map();
+let routeRuleCounter = 0;
+
+// Requests handled by a rule, per tab (wsUrl -> [{ seq, ruleId, action, method, url, status }])
+const mockedRequests = new Map();
+let mockedSeq = 0;
+
+// Last mocked sequence reported by a capture, per tab (wsUrl -> seq)
+const lastCaptureMockedSeq = new Map();
+
+/**
+ * Validate a route rule and work out what it does:
+ *   block: true                     → fail the request (BlockedByClient)
+ *   status / body / file            → fulfill with a canned response
+ *   otherwise                       → continue (after delay, with requestHeaders applied)
+ */
+function normalizeRouteRule(rule) {
+  if (!rule || !rule.url) {
+    throw new Error('Route rule requires url (substring, glob or /regex/)');
+  }
+  validateUrlPattern(rule.url);
+  if (rule.body !== undefined && rule.file) {
+    throw new Error('Route rule takes body or file, not both');
+  }
+  if (rule.block && (rule.status || rule.body !== undefined || rule.file)) {
+    throw new Error('Route rule cannot both block and fulfill a request');
+  }
+
+  let action = 'continue';
+  if (rule.block) {
+    action = 'block';
+  } else if (rule.status || rule.body !== undefined || rule.file) {
+    action = 'fulfill';
+  }
+
+  const delay = Number(rule.delay) || 0;
+  if (action === 'continue' && !delay && !rule.requestHeaders) {
+    throw new Error('Route rule does nothing: set block, status/body/file, delay or requestHeaders');
+  }
+
+  return {
+    url: rule.url,
+    method: rule.method ? String(rule.method).toUpperCase() : null,
+    action,
+    status: action === 'fulfill' ? Number(rule.status) || 200 : null,
+    headers: rule.headers || {},
+    body: rule.body,
+    file: rule.file || null,
+    delay,
+    requestHeaders: rule.requestHeaders || null
+  };
+}
+
+/**
+ * Find the first rule matching a paused request
+ */
+function findRouteRule(rules, url, method) {
+  return rules.find(rule =>
+    (!rule.method || rule.method === method) && matchesUrlPattern(url, rule.url)
+  ) || null;
+}
+
+/**
+ * Build Fetch.fulfillRequest params for a fulfill rule.
+ * Object bodies are sent as JSON; files are read on every hit so fixtures can be edited live.
+ */
+function buildFulfillParams(rule) {
+  const fs = require('fs');
+  const path = require('path');
+
+  let body;
+  let contentType = null;
+  if (rule.file) {
+    body = fs.readFileSync(rule.file);
+    contentType = MOCK_CONTENT_TYPES[path.extname(rule.file).toLowerCase()] || 'application/octet-stream';
+  } else if (rule.body !== undefined && typeof rule.body !== 'string') {
+    body = Buffer.from(JSON.stringify(rule.body));
+    contentType = 'application/json';
+  } else {
+    body = Buffer.from(rule.body || '');
+    contentType = 'text/plain; charset=utf-8';
+  }
+
+  const headers = { ...rule.headers };
+  if (!Object.keys(headers).some(name => name.toLowerCase() === 'content-type')) {
+    headers['Content-Type'] = contentType;
+  }
+
+  return {
+    responseCode: rule.status,
+    responseHeaders: Object.entries(headers).map(([name, value]) => ({ name, value: String(value) })),
+    body: body.toString('base64')
+  };
+}
+
+/**
+ * Apply header overrides to request headers. A null value removes the header.
+ * Returns the Fetch.continueRequest header array.
+ */
+function mergeRequestHeaders(headers, overrides) {
+  const merged = new Map();
+  for (const [name, value] of Object.entries(headers || {})) {
+    merged.set(name.toLowerCase(), { name, value: String(value) });
+  }
+  for (const [name, value] of Object.entries(overrides || {})) {
+    if (value === null) {
+      merged.delete(name.toLowerCase());
+    } else {
+      merged.set(name.toLowerCase(), { name, value: String(value) });
+    }
+  }
+  return [...merged.values()];
+}
+
+function recordMockedRequest(wsUrl, rule, request, error = null) {
+  let entries = mockedRequests.get(wsUrl);
+  if (!entries) {
+    entries = [];
+    mockedRequests.set(wsUrl, entries);
+  }
+  entries.push({
+    seq: ++mockedSeq,
+    ruleId: rule.id,
+    action: rule.action,
+    method: request.method,
+    url: request.url,
+    status: rule.status,
+    delay: rule.delay,
+    error
+  });
+  if (entries.length > MAX_MOCKED_ENTRIES) {
+    entries.splice(0, entries.length - MAX_MOCKED_ENTRIES);
+  }
+}
+
+async function handlePausedRequest(wsUrl, params) {
+  const request = params.request || {};
+  const rule = findRouteRule(routeRules.get(wsUrl) || [], request.url, request.method);
+
+  try {
+    if (!rule) {
+      await sendCdpCommandPooled(wsUrl, 'Fetch.continueRequest', { requestId: params.requestId });
+      return;
+    }
+
+    rule.hits++;
+    if (rule.delay) {
+      await new Promise(resolve => setTimeout(resolve, rule.delay));
+    }
+
+    if (rule.action === 'block') {
+      await sendCdpCommandPooled(wsUrl, 'Fetch.failRequest', {
+        requestId: params.requestId,
+        errorReason: 'BlockedByClient'
+      });
+    } else if (rule.action === 'fulfill') {
+      let fulfillParams;
+      try {
+        fulfillParams = buildFulfillParams(rule);
+      } catch (e) {
+        // Unreadable mock file: answer with a 500 rather than hanging the request
+        recordMockedRequest(wsUrl, rule, request, e.message);
+        await sendCdpCommandPooled(wsUrl, 'Fetch.fulfillRequest', {
+          requestId: params.requestId,
+          responseCode: 500,
+          body: Buffer.from(`Mock file error: ${e.message}`).toString('base64')
+        });
+        return;
+      }
+      await sendCdpCommandPooled(wsUrl, 'Fetch.fulfillRequest', { requestId: params.requestId, ...fulfillParams });
+    } else {
+      const continueParams = { requestId: params.requestId };
+      if (rule.requestHeaders) {
+        continueParams.headers = mergeRequestHeaders(request.headers, rule.requestHeaders);
+      }
+      await sendCdpCommandPooled(wsUrl, 'Fetch.continueRequest', continueParams);
+    }
+
+    recordMockedRequest(wsUrl, rule, request);
+  } catch (e) {
+    // The request was cancelled (navigation, tab closed) while paused
+  }
+}
+
+addTabEventHandler((wsUrl, event) => {
+  if (event.method === 'Fetch.requestPaused') {
+    handlePausedRequest(wsUrl, event.params || {});
+  }
+});
+
+// Route rules outlive a dropped connection; re-arm interception on the new one
+addTabSetupHandler(async (wsUrl) => {
+  if (routeRules.get(wsUrl)?.length) {
+    await syncFetchInterception(wsUrl);
+  }
+});
+
+addTabCleanupHandler((wsUrl) => {
+  routeRules.delete(wsUrl);
+  mockedRequests.delete(wsUrl);
+  lastCaptureMockedSeq.delete(wsUrl);
+});
+
+/**
+ * Turn Fetch interception on or off for a tab to match its rules.
+ * Fetch stays enabled for the lifetime of the connection, so rules
+ * survive navigations within the tab.
+ */
+async function syncFetchInterception(wsUrl) {
+  const rules = routeRules.get(wsUrl) || [];
+  if (rules.length > 0) {
+    await sendCdpCommandPooled(wsUrl, 'Fetch.enable', {
+      patterns: [{ urlPattern: '*', requestStage: 'Request' }]
+    });
+  } else {
+    await sendCdpCommandPooled(wsUrl, 'Fetch.disable');
+  }
+}
+
+/**
+ * Add a route rule to a tab
+ * @param {Object} rule - { url, method, block, status, headers, body, file, delay, requestHeaders }
+ * @returns {Object} The stored rule, with its id
+ */
+async function addRoute(tabIndexOrWsUrl, rule) {
+  const wsUrl = await resolveWsUrl(tabIndexOrWsUrl);
+  const normalized = normalizeRouteRule(rule);
+
+  if (normalized.file) {
+    const fs = require('fs');
+    const path = require('path');
+    normalized.file = path.resolve(normalized.file);
+    if (!fs.existsSync(normalized.file)) {
+      throw new Error(`Mock response file not found: ${normalized.file}`);
+    }
+  }
+
+  const stored = { id: `r${++routeRuleCounter}`, ...normalized, hits: 0 };
+  if (!routeRules.has(wsUrl)) {
+    routeRules.set(wsUrl, []);
+  }
+  routeRules.get(wsUrl).push(stored);
+
+  await syncFetchInterception(wsUrl);
+  return stored;
+}
+
+/**
+ * List route rules for a tab, in match order
+ */
+async function listRoutes(tabIndexOrWsUrl) {
+  const wsUrl = await resolveWsUrl(tabIndexOrWsUrl);
+  return [...(routeRules.get(wsUrl) || [])];
+}
+
+/**
+ * Remove one route rule by id, or all rules for a tab
+ * @returns {number} Number of rules removed
+ */
+async function clearRoutes(tabIndexOrWsUrl, ruleId = null) {
+  const wsUrl = await resolveWsUrl(tabIndexOrWsUrl);
+  const rules = routeRules.get(wsUrl) || [];
+  const remaining = ruleId ? rules.filter(rule => rule.id !== ruleId) : [];
+
+  if (ruleId && remaining.length === rules.length) {
+    throw new Error(`Unknown route ${ruleId}. Use route_list to see rule ids.`);
+  }
+
+  routeRules.set(wsUrl, remaining);
+  await syncFetchInterception(wsUrl);
+  return rules.length - remaining.length;
+}
+
+function describeRouteRule(rule) {
+  const parts = [];
+  if (rule.action === 'block') parts.push('block');
+  if (rule.action === 'fulfill') parts.push(`fulfill ${rule.status} from ${rule.file || 'inline body'}`);
+  if (rule.requestHeaders) parts.push(`set headers ${Object.keys(rule.requestHeaders).join(', ')}`);
+  if (rule.delay) parts.push(`delay ${rule.delay}ms`);
+  return parts.join(', ');
+}
+
+/**
+ * Format route rules as one line each
+ */
+function formatRoutes(rules) {
+  if (rules.length === 0) {
+    return 'No route rules';
+  }
+  return rules.map(rule =>
+    `${rule.id}  ${rule.method || '*'} ${rule.url} → ${describeRouteRule(rule)} (${rule.hits} hit${rule.hits === 1 ? '' : 's'})`
+  ).join('\n');
+}
+
+/**
+ * Format a request handled by a route rule
+ */
+function formatMockedRequest(entry) {
+  let outcome = entry.action === 'fulfill' ? `mocked ${entry.status}` : entry.action === 'block' ? 'blocked' : 'modified';
+  if (entry.delay) outcome += ` +${entry.delay}ms`;
+  if (entry.error) outcome += ` (${entry.error})`;
+  return `${entry.method} ${entry.url} → ${outcome} [${entry.ruleId}]`;
+}
+
+/**
+ * Requests handled by route rules since the tab's previous capture
+ */
+function takeMockedForCapture(wsUrl) {
+  const fromSeq = lastCaptureMockedSeq.get(wsUrl) || 0;
+  lastCaptureMockedSeq.set(wsUrl, mockedSeq);
+  return (mockedRequests.get(wsUrl) || []).filter(entry => entry.seq > fromSeq);
+}
+
+// =============================================================================
+// COOKIES AND STORAGE STATE (Network cookies, DOMStorage, export/import)
+// =============================================================================
+
+// Cookie fields accepted by Network.setCookie(s)
+const COOKIE_PARAM_FIELDS = ['name', 'value', 'url', 'domain', 'path', 'secure', 'httpOnly', 'sameSite', 'expires', 'priority', 'sameParty', 'sourceScheme', 'sourcePort', 'partitionKey'];
+
+/**
+ * Convert a cookie (from getCookies or a storage state file) into a
+ * Network.setCookie param. Session cookies (expires -1) keep no expiry.
+ */
+function toCookieParam(cookie) {
+  const param = {};
+  for (const field of COOKIE_PARAM_FIELDS) {
+    if (cookie[field] !== undefined && cookie[field] !== null) {
+      param[field] = cookie[field];
+    }
+  }
+  if (cookie.session || param.expires === -1) {
+    delete param.expires;
+  }
+  return param;
+}
+
+async function getPageOrigin(wsUrl) {
+  const href = await evaluate(wsUrl, 'location.href');
+  const origin = new URL(href).origin;
+  if (origin === 'null') {
+    throw new Error(`Page ${href} has no origin; navigate to a site first or pass an origin`);
+  }
+  return { href, origin };
+}
+
+/**
+ * List cookies. Defaults to cookies visible to the current page;
+ * pass urls to read cookies for other sites.
+ */
+async function getCookies(tabIndexOrWsUrl, urls = null) {
+  const wsUrl = await resolveWsUrl(tabIndexOrWsUrl);
+  const params = urls && urls.length > 0 ? { urls } : {};
+  const result = await sendCdpCommandPooled(wsUrl, 'Network.getCookies', params);
+  return result.cookies || [];
+}
+
+/**
+ * Set a cookie. Without url or domain it is scoped to the current page.
+ */
+async function setCookie(tabIndexOrWsUrl, cookie) {
+  const wsUrl = await resolveWsUrl(tabIndexOrWsUrl);
+  if (!cookie || !cookie.name) {
+    throw new Error('Cookie requires a name');
+  }
+
+  const param = toCookieParam({ value: '', ...cookie });
+  if (!param.url && !param.domain) {
+    param.url = (await getPageOrigin(wsUrl)).href;
+  }
+
+  const result = await sendCdpCommandPooled(wsUrl, 'Network.setCookie', param);
+  if (result.success === false) {
+    throw new Error(`Chrome rejected cookie ${cookie.name} (check domain, secure and sameSite)`);
+  }
+  return param;
+}
+
+/**
+ * Delete cookies by name, or every cookie visible to the current page when name is omitted
+ * @returns {number} Number of cookies deleted
+ */
+async function deleteCookies(tabIndexOrWsUrl, name = null, scope = {}) {
+  const wsUrl = await resolveWsUrl(tabIndexOrWsUrl);
+
+  if (name) {
+    const params = { name, ...scope };
+    if (!params.url && !params.domain) {
+      params.url = (await getPageOrigin(wsUrl)).href;
+    }
+    const before = (await getCookies(wsUrl, params.url ? [params.url] : null)).length;
+    await sendCdpCommandPooled(wsUrl, 'Network.deleteCookies', params);
+    const after = (await getCookies(wsUrl, params.url ? [params.url] : null)).length;
+    return before - after;
+  }
+
+  const cookies = await getCookies(wsUrl, scope.url ? [scope.url] : null);
+  for (const cookie of cookies) {
+    await sendCdpCommandPooled(wsUrl, 'Network.deleteCookies', {
+      name: cookie.name,
+      domain: cookie.domain,
+      path: cookie.path
+    });
+  }
+  return cookies.length;
+}
+
+/**
+ * Format cookies as one line each
+ */
+function formatCookies(cookies) {
+  if (cookies.length === 0) {
+    return 'No cookies';
+  }
+  return cookies.map(cookie => {
+    const flags = [
+      cookie.httpOnly && 'HttpOnly',
+      cookie.secure && 'Secure',
+      cookie.sameSite && `SameSite=${cookie.sameSite}`,
+      cookie.session ? 'session' : `expires ${new Date(cookie.expires * 1000).toISOString()}`
+    ].filter(Boolean).join(', ');
+    const value = cookie.value.length > 60 ? cookie.value.slice(0, 60) + '...' : cookie.value;
+    return `${cookie.name}=${value}  (${cookie.domain}${cookie.path}; ${flags})`;
+  }).join('\n');
+}
+
+async function domStorageId(wsUrl, type, origin) {
+  if (type !== 'local' && type !== 'session') {
+    throw new Error(`Storage type must be "local" or "session", got "${type}"`);
+  }
+  await sendCdpCommandPooled(wsUrl, 'DOMStorage.enable');
+  return {
+    securityOrigin: origin ? new URL(origin).origin : (await getPageOrigin(wsUrl)).origin,
+    isLocalStorage: type === 'local'
+  };
+}
+
+/**
+ * Read localStorage or sessionStorage for an origin (default: current page origin)
+ * @returns {Object} key -> value
+ */
+async function getStorage(tabIndexOrWsUrl, type = 'local', origin = null) {
+  const wsUrl = await resolveWsUrl(tabIndexOrWsUrl);
+  const storageId = await domStorageId(wsUrl, type, origin);
+  const result = await sendCdpCommandPooled(wsUrl, 'DOMStorage.getDOMStorageItems', { storageId });
+  return Object.fromEntries(result.entries || []);
+}
+
+/**
+ * Write one localStorage or sessionStorage item
+ */
+async function setStorageItem(tabIndexOrWsUrl, key, value, type = 'local', origin = null) {
+  const wsUrl = await resolveWsUrl(tabIndexOrWsUrl);
+  const storageId = await domStorageId(wsUrl, type, origin);
+  await sendCdpCommandPooled(wsUrl, 'DOMStorage.setDOMStorageItem', {
+    storageId,
+    key,
+    value: typeof value === 'string' ? value : JSON.stringify(value)
+  });
+  return storageId.securityOrigin;
+}
+
+/**
+ * Remove one key, or clear the whole storage area when key is omitted
+ */
+async function clearStorage(tabIndexOrWsUrl, key = null, type = 'local', origin = null) {
+  const wsUrl = await resolveWsUrl(tabIndexOrWsUrl);
+  const storageId = await domStorageId(wsUrl, type, origin);
+  if (key) {
+    await sendCdpCommandPooled(wsUrl, 'DOMStorage.removeDOMStorageItem', { storageId, key });
+  } else {
+    await sendCdpCommandPooled(wsUrl, 'DOMStorage.clear', { storageId });
+  }
+  return storageId.securityOrigin;
+}
+
+// Web origins loaded in a tab's frames (DOMStorage only accepts those)
+async function getLoadedOrigins(wsUrl) {
+  const origins = new Set();
+  const visit = (node) => {
+    try {
+      const origin = new URL(node.frame.url).origin;
+      if (origin.startsWith('http')) origins.add(origin);
+    } catch (e) {
+      // about:blank, data: and chrome:// frames have no storage
+    }
+    for (const child of node.childFrames || []) visit(child);
+  };
+  const { frameTree } = await sendCdpCommandPooled(wsUrl, 'Page.getFrameTree');
+  visit(frameTree);
+  return origins;
+}
+
+/**
+ * Save cookies plus local/session storage to a JSON storage state file.
+ * Storage is read for the origins of the open tabs in the requested tab's
+ * browser context plus options.origins, each through a tab that has the origin
+ * loaded. Origins no such tab has loaded are reported as skipped. The format
+ * matches Playwright's storageState, with sessionStorage added per origin.
+ */
+async function exportStorageState(tabIndexOrWsUrl, filename = null, options = {}) {
+  const fs = require('fs');
+  const path = require('path');
+  const wsUrl = await resolveWsUrl(tabIndexOrWsUrl);
+
+  // Cookies and storage both come from this tab's context, never a mix of contexts
+  const tabs = await getTabs();
+  const contexts = await getTargetContexts();
+  const contextOf = (url) => contexts.get(tabs.find(tab => tab.webSocketDebuggerUrl === url)?.id);
+  const browserContextId = contextOf(wsUrl);
+
+  let cookies;
+  try {
+    cookies = (await sendCdpCommandPooled(wsUrl, 'Storage.getCookies', browserContextId ? { browserContextId } : {})).cookies;
+  } catch (e) {
+    cookies = (await sendCdpCommandPooled(wsUrl, 'Network.getAllCookies')).cookies;
+  }
+
+  // origin -> ws URL of a tab with a frame on it; the requested tab wins
+  const readers = new Map();
+  const tabUrls = [wsUrl, ...tabs.map(tab => tab.webSocketDebuggerUrl)
+    .filter(url => url !== wsUrl && contextOf(url) === browserContextId)];
+  for (const tabUrl of tabUrls) {
+    let origins;
+    try {
+      origins = await getLoadedOrigins(tabUrl);
+    } catch (e) {
+      continue;
+    }
+    for (const origin of origins) {
+      if (!readers.has(origin)) readers.set(origin, tabUrl);
+    }
+  }
+
+  const origins = new Set([...readers.keys(), ...(options.origins || []).map(origin => new URL(origin).origin)]);
+  const originStates = [];
+  const skipped = [];
+  for (const origin of origins) {
+    const reader = readers.get(origin);
+    if (!reader) {
+      skipped.push(origin);
+      continue;
+    }
+    const localStorage = await getStorage(reader, 'local', origin);
+    const sessionStorage = await getStorage(reader, 'session', origin);
+    if (Object.keys(localStorage).length === 0 && Object.keys(sessionStorage).length === 0) continue;
+    originStates.push({
+      origin,
+      localStorage: Object.entries(localStorage).map(([name, value]) => ({ name, value })),
+      sessionStorage: Object.entries(sessionStorage).map(([name, value]) => ({ name, value }))
+    });
+  }
+
+  const statePath = filename
+    ? resolveSessionPath(filename)
+    : path.join(initializeSession(), `${createCapturePrefix('storage')}-state.json`);
+  // Not masked: the file exists to restore these exact values
+  fs.writeFileSync(statePath, JSON.stringify({ cookies, origins: originStates }, null, 2));
+
+  return { path: statePath, cookies: cookies.length, origins: originStates.length, skipped };
+}
+
+// Page script that writes seeded storage items for the origin it runs on.
+// Items the page already has are left alone, so reloads don't undo app changes.
+function buildStorageSeedScript(seeds) {
+  return `(() => {
+    const seed = ${JSON.stringify(seeds)}[location.origin];
+    if (!seed) return;
+    try {
+      for (const [type, items] of [['localStorage', seed.local], ['sessionStorage', seed.session]]) {
+        const storage = window[type];
+        for (const [name, value] of items) {
+          if (storage.getItem(name) === null) storage.setItem(name, value);
+        }
+      }
+    } catch (e) {
+      // Storage disabled for this origin (sandboxed frame, blocked third-party storage)
+    }
+  })()`;
+}
+
+// Page served to the temporary tab that writes localStorage for an origin
+const STORAGE_WRITER_PAGE = '<!doctype html><title>storage</title>';
+
+/**
+ * Write localStorage for an origin the importing tab hasn't loaded: open a
+ * temporary tab in the same browser context, load the origin there from a
+ * route (nothing goes to the network) and write through DOMStorage.
+ */
+async function writeOriginStorage(browserContextId, origin, items) {
+  const params = { url: 'about:blank' };
+  if (browserContextId) params.browserContextId = browserContextId;
+  const { targetId } = await sendBrowserCommand('Target.createTarget', params);
+  ownTargets.add(targetId);
+  const tab = (await getTabs()).find(t => t.id === targetId);
+  if (!tab) {
+    throw new Error(`Tab ${targetId} was created but is not listed by Chrome`);
+  }
+
+  try {
+    await addRoute(tab.webSocketDebuggerUrl, { url: '*', status: 200, body: STORAGE_WRITER_PAGE, headers: { 'Content-Type': 'text/html' } });
+    await navigate(tab.webSocketDebuggerUrl, `${origin}/`);
+    for (const [name, value] of items) {
+      await setStorageItem(tab.webSocketDebuggerUrl, name, value, 'local', origin);
+    }
+  } finally {
+    await closeTab(tab.webSocketDebuggerUrl).catch(() => {});
+  }
+}
+
+/**
+ * Restore a storage state file into a tab: set its cookies and write its
+ * storage items. Origins the tab has loaded are written right away. For the
+ * rest, localStorage is written through a temporary tab on that origin, so
+ * importing into a fresh or about:blank tab works. sessionStorage belongs to
+ * this tab's session: for origins it hasn't loaded it is seeded by a script
+ * that runs when the tab loads the origin, which needs this connection to stay
+ * open (the MCP server; not a one-shot CLI run).
+ * @returns {Object} { cookies, origins, items, pending: [origins with storage written on first load] }
+ */
+async function importStorageState(tabIndexOrWsUrl, filename) {
+  const fs = require('fs');
+  const wsUrl = await resolveWsUrl(tabIndexOrWsUrl);
+
+  let state;
+  try {
+    state = JSON.parse(fs.readFileSync(filename, 'utf8'));
+  } catch (e) {
+    throw new Error(`Cannot read storage state ${filename}: ${e.message}`);
+  }
+  if (!Array.isArray(state.cookies) && !Array.isArray(state.origins)) {
+    throw new Error(`${filename} is not a storage state file (expected "cookies" and/or "origins")`);
+  }
+
+  const cookies = (state.cookies || []).map(toCookieParam);
+  if (cookies.length > 0) {
+    await sendCdpCommandPooled(wsUrl, 'Network.setCookies', { cookies });
+  }
+
+  const loaded = await getLoadedOrigins(wsUrl);
+  let browserContextId = null;
+  const seeds = {};
+  let items = 0;
+  for (const originState of state.origins || []) {
+    const origin = new URL(originState.origin).origin;
+    const entries = {
+      local: (originState.localStorage || []).map(({ name, value }) => [name, String(value)]),
+      session: (originState.sessionStorage || []).map(({ name, value }) => [name, String(value)])
+    };
+    items += entries.local.length + entries.session.length;
+    if (!loaded.has(origin)) {
+      if (entries.local.length > 0) {
+        if (browserContextId === null) browserContextId = await getTabContextId(wsUrl);
+        try {
+          await writeOriginStorage(browserContextId, origin, entries.local);
+          entries.local = [];
+        } catch (e) {
+          // Left to the seed script below
+        }
+      }
+      if (entries.local.length > 0 || entries.session.length > 0) {
+        seeds[origin] = entries;
+      }
+      continue;
+    }
+    for (const type of ['local', 'session']) {
+      for (const [name, value] of entries[type]) {
+        await setStorageItem(wsUrl, name, value, type, origin);
+      }
+    }
+  }
+
+  const pending = Object.keys(seeds);
+  if (pending.length > 0) {
+    await sendCdpCommandPooled(wsUrl, 'Page.addScriptToEvaluateOnNewDocument', { source: buildStorageSeedScript(seeds) });
+  }
+
+  return { cookies: cookies.length, origins: (state.origins || []).length, items, pending };
+}
+
+// =============================================================================
+// EMULATION (viewport, device presets, media features, locale, network)
+// =============================================================================
+
+// Device presets for emulate({ device }). Explicit fields override preset values.
+const DEVICE_PRESETS = {
+  'iphone-15': {
+    width: 393, height: 852, deviceScaleFactor: 3, mobile: true, touch: true,
+    userAgent: 'Mozilla/5.0 (iPhone; CPU iPhone OS 17_0 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.0 Mobile/15E148 Safari/604.1'
+  },
+  'iphone-se': {
+    width: 375, height: 667, deviceScaleFactor: 2, mobile: true, touch: true,
+    userAgent: 'Mozilla/5.0 (iPhone; CPU iPhone OS 17_0 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.0 Mobile/15E148 Safari/604.1'
+  },
+  'pixel-7': {
+    width: 412, height: 915, deviceScaleFactor: 2.625, mobile: true, touch: true,
+    userAgent: 'Mozilla/5.0 (Linux; Android 14; Pixel 7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Mobile Safari/537.36'
+  },
+  'galaxy-s9': {
+    width: 360, height: 740, deviceScaleFactor: 4, mobile: true, touch: true,
+    userAgent: 'Mozilla/5.0 (Linux; Android 10; SM-G960F) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Mobile Safari/537.36'
+  },
+  'ipad-mini': {
+    width: 768, height: 1024, deviceScaleFactor: 2, mobile: true, touch: true,
+    userAgent: 'Mozilla/5.0 (iPad; CPU OS 17_0 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.0 Mobile/15E148 Safari/604.1'
+  },
+  'ipad-pro-11': {
+    width: 834, height: 1194, deviceScaleFactor: 2, mobile: true, touch: true,
+    userAgent: 'Mozilla/5.0 (iPad; CPU OS 17_0 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.0 Mobile/15E148 Safari/604.1'
+  },
+  'laptop': { width: 1366, height: 768, deviceScaleFactor: 1, mobile: false, touch: false },
+  'desktop': { width: 1920, height: 1080, deviceScaleFactor: 1, mobile: false, touch: false },
+  'desktop-hidpi': { width: 1440, height: 900, deviceScaleFactor: 2, mobile: false, touch: false }
+};
+
+// Network throttling presets (throughput in bytes/s, latency in ms)
+const NETWORK_PRESETS = {
+  'offline': { offline: true, latency: 0, downloadThroughput: 0, uploadThroughput: 0 },
+  'slow-3g': { offline: false, latency: 400, downloadThroughput: 50 * 1024, uploadThroughput: 50 * 1024 },
+  'fast-3g': { offline: false, latency: 150, downloadThroughput: 1.6 * 1024 * 1024 / 8, uploadThroughput: 750 * 1024 / 8 },
+  '4g': { offline: false, latency: 20, downloadThroughput: 4 * 1024 * 1024 / 8, uploadThroughput: 3 * 1024 * 1024 / 8 }
+};
+
+// Which override group each setting belongs to (one CDP call per group)
+const EMULATION_GROUPS = {
+  width: 'viewport',
+  height: 'viewport',
+  deviceScaleFactor: 'viewport',
+  mobile: 'viewport',
+  touch: 'touch',
+  userAgent: 'userAgent',
+  locale: 'locale',
+  timezone: 'timezone',
+  colorScheme: 'media',
+  reducedMotion: 'media',
+  geolocation: 'geolocation',
+  network: 'network'
+};
+
+const EMULATION_ENUMS = {
+  colorScheme: ['light', 'dark', 'no-preference'],
+  reducedMotion: ['reduce', 'no-preference']
+};
+
+// Active emulation settings per tab (wsUrl -> settings)
+const tabEmulation = new Map();
+
+function findDevicePreset(name) {
+  const key = String(name).toLowerCase().trim().replace(/\s+/g, '-');
+  const preset = DEVICE_PRESETS[key];
+  if (!preset) {
+    throw new Error(`Unknown device "${name}". Presets: ${Object.keys(DEVICE_PRESETS).join(', ')}`);
+  }
+  return preset;
+}
+
+/**
+ * Merge an emulate() update into a tab's current settings.
+ * A device preset expands first; null removes a setting; reset starts from scratch.
+ * @returns {{ settings: Object, groups: Set<string> }} New settings and the override groups to re-apply
+ */
+function mergeEmulationSettings(current, update) {
+  const groups = new Set();
+  let settings = { ...current };
+
+  if (update.reset) {
+    for (const key of Object.keys(settings)) groups.add(EMULATION_GROUPS[key]);
+    settings = {};
+  }
+
+  const changes = update.device ? { ...findDevicePreset(update.device), ...update } : { ...update };
+  delete changes.device;
+  delete changes.reset;
+
+  for (const [key, value] of Object.entries(changes)) {
+    if (!EMULATION_GROUPS[key]) {
+      throw new Error(`Unknown emulation setting "${key}". Settings: device, ${Object.keys(EMULATION_GROUPS).join(', ')}, reset`);
+    }
+    if (value !== null && EMULATION_ENUMS[key] && !EMULATION_ENUMS[key].includes(value)) {
+      throw new Error(`${key} must be one of: ${EMULATION_ENUMS[key].join(', ')}`);
+    }
+    if (key === 'network' && value !== null && typeof value === 'string' && !NETWORK_PRESETS[value]) {
+      throw new Error(`Unknown network preset "${value}". Presets: ${Object.keys(NETWORK_PRESETS).join(', ')}`);
+    }
+    if (key === 'geolocation' && value !== null && (typeof value.latitude !== 'number' || typeof value.longitude !== 'number')) {
+      throw new Error('geolocation requires numeric latitude and longitude');
+    }
+
+    if (value === null) {
+      delete settings[key];
+    } else {
+      settings[key] = value;
+    }
+    groups.add(EMULATION_GROUPS[key]);
+  }
+
+  if ((settings.width === undefined) !== (settings.height === undefined)) {
+    throw new Error('Viewport emulation needs both width and height');
+  }
+  // The Accept-Language header is sent through the user agent override
+  if (groups.has('locale')) groups.add('userAgent');
+
+  return { settings, groups };
+}
+
+/**
+ * Resolve a network setting (preset name or { latency, downloadKbps, uploadKbps, offline })
+ * into Network.emulateNetworkConditions params
+ */
+function networkConditionsFor(network) {
+  if (!network) {
+    return { offline: false, latency: 0, downloadThroughput: -1, uploadThroughput: -1 };
+  }
+  if (typeof network === 'string') {
+    return NETWORK_PRESETS[network];
+  }
+  return {
+    offline: !!network.offline,
+    latency: network.latency || 0,
+    downloadThroughput: network.downloadKbps ? network.downloadKbps * 1024 / 8 : -1,
+    uploadThroughput: network.uploadKbps ? network.uploadKbps * 1024 / 8 : -1
+  };
+}
+
+/**
+ * Send the CDP overrides for the given groups. Unset settings clear their override.
+ */
+async function applyEmulation(wsUrl, settings, groups) {
+  for (const group of groups) {
+    switch (group) {
+      case 'viewport':
+        if (settings.width !== undefined) {
+          await sendCdpCommandPooled(wsUrl, 'Emulation.setDeviceMetricsOverride', {
+            width: settings.width,
+            height: settings.height,
+            deviceScaleFactor: settings.deviceScaleFactor || 1,
+            mobile: !!settings.mobile
+          });
+        } else {
+          await sendCdpCommandPooled(wsUrl, 'Emulation.clearDeviceMetricsOverride');
+        }
+        break;
+
+      case 'touch':
+        await sendCdpCommandPooled(wsUrl, 'Emulation.setTouchEmulationEnabled', {
+          enabled: !!settings.touch,
+          maxTouchPoints: settings.touch ? 5 : 1
+        });
+        break;
+
+      case 'userAgent':
+        // An empty user agent with no locale clears the override
+        if (settings.userAgent || settings.locale) {
+          const userAgent = settings.userAgent || (await sendCdpCommandPooled(wsUrl, 'Browser.getVersion')).userAgent;
+          await sendCdpCommandPooled(wsUrl, 'Emulation.setUserAgentOverride', {
+            userAgent,
+            ...(settings.locale ? { acceptLanguage: settings.locale } : {})
+          });
+        } else {
+          await sendCdpCommandPooled(wsUrl, 'Emulation.setUserAgentOverride', { userAgent: '' });
+        }
+        break;
+
+      case 'locale':
+        await sendCdpCommandPooled(wsUrl, 'Emulation.setLocaleOverride', settings.locale ? { locale: settings.locale } : {});
+        break;
+
+      case 'timezone':
+        await sendCdpCommandPooled(wsUrl, 'Emulation.setTimezoneOverride', { timezoneId: settings.timezone || '' });
+        break;
+
+      case 'media':
+        await sendCdpCommandPooled(wsUrl, 'Emulation.setEmulatedMedia', {
+          features: [
+            { name: 'prefers-color-scheme', value: settings.colorScheme || '' },
+            { name: 'prefers-reduced-motion', value: settings.reducedMotion || '' }
+          ]
+        });
+        break;
+
+      case 'geolocation':
+        if (settings.geolocation) {
+          // Grant the permission so navigator.geolocation doesn't prompt (not supported on every target)
+          await sendCdpCommandPooled(wsUrl, 'Browser.grantPermissions', { permissions: ['geolocation'] }).catch(() => {});
+          await sendCdpCommandPooled(wsUrl, 'Emulation.setGeolocationOverride', {
+            latitude: settings.geolocation.latitude,
+            longitude: settings.geolocation.longitude,
+            accuracy: settings.geolocation.accuracy || 10
+          });
+        } else {
+          await sendCdpCommandPooled(wsUrl, 'Emulation.clearGeolocationOverride');
+        }
+        break;
+
+      case 'network':
+        await sendCdpCommandPooled(wsUrl, 'Network.emulateNetworkConditions', networkConditionsFor(settings.network));
+        break;
+    }
+  }
+}
+
+// Emulation overrides end with the session that set them; re-apply on reconnect
+addTabSetupHandler(async (wsUrl) => {
+  const emulation = tabEmulation.get(wsUrl);
+  if (emulation) {
+    await applyEmulation(wsUrl, emulation, mergeEmulationSettings({}, emulation).groups);
+  }
+});
+
+addTabCleanupHandler((wsUrl) => {
+  tabEmulation.delete(wsUrl);
+});
+
+/**
+ * Emulate a device and environment for a tab. Settings merge with the tab's
+ * current emulation and stay in effect across navigations.
+ * @param {Object} update - { device, width, height, deviceScaleFactor, mobile, touch, userAgent,
+ *   colorScheme, reducedMotion, locale, timezone, geolocation: {latitude, longitude, accuracy},
+ *   network: 'offline'|'slow-3g'|'fast-3g'|'4g'|{latency, downloadKbps, uploadKbps}, reset }
+ * @returns {Object} The tab's emulation settings after the update
+ */
+async function emulate(tabIndexOrWsUrl, update = {}) {
+  const wsUrl = await resolveWsUrl(tabIndexOrWsUrl);
+  const { settings, groups } = mergeEmulationSettings(tabEmulation.get(wsUrl) || {}, update);
+
+  await applyEmulation(wsUrl, settings, groups);
+
+  if (Object.keys(settings).length > 0) {
+    tabEmulation.set(wsUrl, settings);
+  } else {
+    tabEmulation.delete(wsUrl);
+  }
+  return settings;
+}
+
+/**
+ * Active emulation settings for a tab (empty object if none)
+ */
+async function getEmulation(tabIndexOrWsUrl) {
+  const wsUrl = await resolveWsUrl(tabIndexOrWsUrl);
+  return { ...(tabEmulation.get(wsUrl) || {}) };
+}
+
+/**
+ * One-line summary of emulation settings, or null if the tab isn't emulating anything
+ */
+function formatEmulation(settings) {
+  if (!settings || Object.keys(settings).length === 0) {
+    return null;
+  }
+
+  const parts = [];
+  if (settings.width !== undefined) {
+    parts.push(`${settings.width}×${settings.height}@${settings.deviceScaleFactor || 1}x${settings.mobile ? ' mobile' : ''}`);
+  }
+  if (settings.touch) parts.push('touch');
+  if (settings.userAgent) parts.push(`UA "${settings.userAgent.length > 40 ? settings.userAgent.slice(0, 40) + '...' : settings.userAgent}"`);
+  if (settings.colorScheme) parts.push(`color-scheme ${settings.colorScheme}`);
+  if (settings.reducedMotion) parts.push(`reduced-motion ${settings.reducedMotion}`);
+  if (settings.locale) parts.push(`locale ${settings.locale}`);
+  if (settings.timezone) parts.push(`tz ${settings.timezone}`);
+  if (settings.geolocation) parts.push(`geo ${settings.geolocation.latitude},${settings.geolocation.longitude}`);
+  if (settings.network) {
+    const network = settings.network;
+    parts.push(typeof network === 'string'
+      ? `network ${network}`
+      : `network ${network.offline ? 'offline' : `${network.latency || 0}ms ${network.downloadKbps || '∞'}/${network.uploadKbps || '∞'}kbps`}`);
+  }
+  return parts.join(', ');
+}
+
+// =============================================================================
+// FILE UPLOADS AND DOWNLOADS (DOM.setFileInputFiles, file chooser, Browser downloads)
+// =============================================================================
+
+// Downloads seen in this session, by guid (downloads are browser-wide, not per tab)
+const downloads = new Map();
+let downloadSeq = 0;
+
+// Last download sequence reported by a capture
+let lastCaptureDownloadSeq = 0;
+
+// Where Chrome is told to save downloads; nothing is created until one starts
+function getDownloadDirPath() {
+  const path = require('path');
+  return path.join(getSessionDirPath(), 'downloads');
+}
+
+function getDownloadDir() {
+  const fs = require('fs');
+  const path = require('path');
+  const dir = path.join(initializeSession(), 'downloads');
+  fs.mkdirSync(dir, { recursive: true });
+  return dir;
+}
+
+// Pick a free name in the downloads dir: report.csv, report (1).csv, ...
+function uniqueDownloadPath(dir, filename) {
+  const fs = require('fs');
+  const path = require('path');
+  const safeName = path.basename(filename || 'download').replace(/[\\/:*?"<>|]/g, '_') || 'download';
+  const ext = path.extname(safeName);
+  const base = safeName.slice(0, safeName.length - ext.length);
+
+  let candidate = path.join(dir, safeName);
+  for (let i = 1; fs.existsSync(candidate); i++) {
+    candidate = path.join(dir, `${base} (${i})${ext}`);
+  }
+  return candidate;
+}
+
+// Every connection routes downloads into the session dir and reports progress.
+// Files are saved under their guid and renamed to the suggested name on completion.
+// The session and downloads dirs are only created when a download begins.
+addTabSetupHandler(async (wsUrl) => {
+  // Download behavior is per browser context; tabs from newContext() need their own
+  const { targetInfo } = await sendCdpCommandPooled(wsUrl, 'Target.getTargetInfo').catch(() => ({}));
+  await sendCdpCommandPooled(wsUrl, 'Browser.setDownloadBehavior', {
+    behavior: 'allowAndName',
+    browserContextId: targetInfo?.browserContextId,
+    downloadPath: getDownloadDirPath(),
+    eventsEnabled: true
+  });
+});
+
+addTabEventHandler((wsUrl, event) => {
+  const params = event.params || {};
+
+  if (event.method === 'Browser.downloadWillBegin') {
+    // Every connection with events enabled hears about every download; keep the first
+    if (downloads.has(params.guid)) return;
+    try {
+      getDownloadDir();
+    } catch (e) {
+      console.error(`Failed to create downloads directory: ${e.message}`);
+    }
+    downloads.set(params.guid, {
+      guid: params.guid,
+      seq: ++downloadSeq,
+      wsUrl,
+      url: params.url,
+      suggestedFilename: params.suggestedFilename,
+      path: null,
+      state: 'inProgress',
+      receivedBytes: 0,
+      totalBytes: 0,
+      startedAt: Date.now(),
+      finishedAt: null,
+      claimed: false
+    });
+  } else if (event.method === 'Browser.downloadProgress') {
+    const download = downloads.get(params.guid);
+    if (!download || download.state !== 'inProgress') return;
+
+    download.receivedBytes = params.receivedBytes;
+    download.totalBytes = params.totalBytes;
+    if (params.state === 'completed') {
+      const fs = require('fs');
+      const path = require('path');
+      const dir = getDownloadDir();
+      download.path = uniqueDownloadPath(dir, download.suggestedFilename);
+      try {
+        fs.renameSync(path.join(dir, download.guid), download.path);
+      } catch (e) {
+        download.path = path.join(dir, download.guid);
+      }
+      download.state = 'completed';
+      download.finishedAt = Date.now();
+    } else if (params.state === 'canceled') {
+      download.state = 'canceled';
+      download.finishedAt = Date.now();
+    }
+  }
+});
+
+/**
+ * Wait for a download to finish. Returns the oldest download not yet returned
+ * by a previous call, optionally filtered by URL or filename pattern.
+ * @returns {Object} { url, suggestedFilename, path, totalBytes, state }
+ */
+async function awaitDownload(pattern = null, timeout = 30000) {
+  validateUrlPattern(pattern);
+  const start = Date.now();
+
+  const matches = (download) => !pattern
+    || matchesUrlPattern(download.url, pattern)
+    || matchesUrlPattern(download.suggestedFilename, pattern);
+
+  while (true) {
+    const candidate = [...downloads.values()]
+      .filter(download => !download.claimed && matches(download))
+      .sort((a, b) => a.seq - b.seq)[0];
+
+    if (candidate && candidate.state !== 'inProgress') {
+      candidate.claimed = true;
+      if (candidate.state === 'canceled') {
+        throw new Error(`Download canceled: ${candidate.suggestedFilename} (${candidate.url})`);
+      }
+      return candidate;
+    }
+
+    if (Date.now() - start >= timeout) {
+      throw new Error(candidate
+        ? `Timeout waiting for download to finish: ${candidate.suggestedFilename} (${formatBytes(candidate.receivedBytes)} received)`
+        : `Timeout waiting for a download${pattern ? ` matching ${pattern}` : ''}`);
+    }
+    await new Promise(resolve => setTimeout(resolve, 100));
+  }
+}
+
+/**
+ * List downloads seen in this session, oldest first
+ */
+function getDownloads() {
+  return [...downloads.values()].sort((a, b) => a.seq - b.seq);
+}
+
+/**
+ * Format a download as one line
+ */
+function formatDownload(download) {
+  if (download.state === 'completed') {
+    return `${download.suggestedFilename} (${formatBytes(download.totalBytes)}) → ${download.path}`;
+  }
+  if (download.state === 'canceled') {
+    return `${download.suggestedFilename} canceled (${download.url})`;
+  }
+  const total = download.totalBytes ? ` of ${formatBytes(download.totalBytes)}` : '';
+  return `${download.suggestedFilename} downloading: ${formatBytes(download.receivedBytes)}${total} (use await_download)`;
+}
+
+/**
+ * Downloads started since the previous capture
+ */
+function takeDownloadsForCapture() {
+  const fromSeq = lastCaptureDownloadSeq;
+  lastCaptureDownloadSeq = downloadSeq;
+  return getDownloads().filter(download => download.seq > fromSeq);
+}
+
+/**
+ * Set local files on a file input. If the selector matches something else
+ * (a button or drop zone that opens a native picker), click it and answer
+ * the file chooser instead.
+ * @param {string[]} files - Local file paths
+ */
+async function upload(tabIndexOrWsUrl, selector, files) {
+  const fs = require('fs');
+  const path = require('path');
+  const wsUrl = await resolveWsUrl(tabIndexOrWsUrl);
+
+  if (!files || files.length === 0) {
+    throw new Error('upload requires at least one file');
+  }
+  const resolvedFiles = files.map(file => path.resolve(file));
+  for (const file of resolvedFiles) {
+    if (!fs.existsSync(file)) {
+      throw new Error(`File not found: ${file}`);
+    }
+  }
+
+  const target = await prepareSelector(wsUrl, selector);
+  const found = await sendCdpCommand(wsUrl, 'Runtime.evaluate', {
+    expression: getElementSelector(target.selector),
+    contextId: target.contextId
+  });
+  const objectId = found.result?.objectId;
+  if (!objectId || found.result.subtype === 'null') {
+    throw new Error(`Element not found: ${selector}`);
+  }
+
+  const info = await sendCdpCommand(wsUrl, 'Runtime.callFunctionOn', {
+    objectId,
+    functionDeclaration: `function() {
+      return { fileInput: this.tagName === 'INPUT' && this.type === 'file', multiple: !!this.multiple };
+    }`,
+    returnByValue: true
+  });
+  const { fileInput, multiple } = info.result.value;
+
+  if (fileInput) {
+    if (resolvedFiles.length > 1 && !multiple) {
+      throw new Error(`${selector} accepts a single file (no multiple attribute)`);
+    }
+    await sendCdpCommand(wsUrl, 'DOM.setFileInputFiles', { files: resolvedFiles, objectId });
+    return { files: resolvedFiles, via: 'input' };
+  }
+
+  // Not a file input: intercept the native picker it opens
+  await sendCdpCommandPooled(wsUrl, 'Page.setInterceptFileChooserDialog', { enabled: true });
+  try {
+    const chooserPromise = waitForTabEvent(wsUrl, 'Page.fileChooserOpened', 5000);
+    await click(wsUrl, selector);
+    const chooser = await chooserPromise;
+    if (!chooser) {
+      throw new Error(`${selector} is not a file input and clicking it did not open a file chooser`);
+    }
+    if (chooser.mode === 'selectSingle' && resolvedFiles.length > 1) {
+      throw new Error('The file chooser accepts a single file');
+    }
+    await sendCdpCommandPooled(wsUrl, 'DOM.setFileInputFiles', {
+      files: resolvedFiles,
+      backendNodeId: chooser.backendNodeId
+    });
+    return { files: resolvedFiles, via: 'file chooser' };
+  } finally {
+    await sendCdpCommandPooled(wsUrl, 'Page.setInterceptFileChooserDialog', { enabled: false }).catch(() => {});
+  }
+}
+
+// =============================================================================
+// DIALOGS AND POPUPS (Page.javascriptDialogOpening, Target.targetCreated/Destroyed)
+// =============================================================================
+
+const DIALOG_TYPES = ['alert', 'confirm', 'prompt', 'beforeunload'];
+
+// How each dialog type is answered. An unanswered dialog blocks every
+// Runtime.evaluate on the tab until the CDP command times out.
+const DEFAULT_DIALOG_POLICY = {
+  alert: 'accept',
+  confirm: 'dismiss',
+  prompt: 'dismiss',
+  beforeunload: 'accept',
+  promptText: null
+};
+
+let dialogPolicy = { ...DEFAULT_DIALOG_POLICY };
+
+/**
+ * Update the dialog policy for this session.
+ * update: 'accept' | 'dismiss' | 'default', or { alert, confirm, prompt, beforeunload, promptText }
+ * A promptText implies accepting prompts unless prompt is set explicitly.
+ */
+function setDialogPolicy(update) {
+  if (update === 'default' || update === 'reset') {
+    dialogPolicy = { ...DEFAULT_DIALOG_POLICY };
+    return getDialogPolicy();
+  }
+  if (update === 'accept' || update === 'dismiss') {
+    update = Object.fromEntries(DIALOG_TYPES.map(type => [type, update]));
+  }
+  if (!update || typeof update !== 'object') {
+    throw new Error(`Invalid dialog policy: ${update} (use accept, dismiss, default or an object)`);
+  }
+
+  const next = { ...dialogPolicy };
+  for (const [key, value] of Object.entries(update)) {
+    if (value === undefined) continue;
+    if (key === 'promptText') {
+      next.promptText = value === null ? null : String(value);
+      if (update.prompt === undefined && value !== null) next.prompt = 'accept';
+    } else if (DIALOG_TYPES.includes(key)) {
+      if (value !== 'accept' && value !== 'dismiss') {
+        throw new Error(`Invalid ${key} policy: ${value} (use accept or dismiss)`);
+      }
+      next[key] = value;
+    } else {
+      throw new Error(`Unknown dialog policy field: ${key}`);
+    }
+  }
+  dialogPolicy = next;
+  return getDialogPolicy();
+}
+
+function getDialogPolicy() {
+  return { ...dialogPolicy };
+}
+
+function formatDialogPolicy(policy = dialogPolicy) {
+  const parts = DIALOG_TYPES.map(type => `${type}=${policy[type]}`);
+  if (policy.promptText !== null) parts.push(`promptText=${JSON.stringify(policy.promptText)}`);
+  return parts.join(', ');
+}
+
+// Answer dialogs as soon as they open and log them with the tab's console messages,
+// so they show up in the next capture's console file and summary
+addTabEventHandler((wsUrl, event) => {
+  if (event.method !== 'Page.javascriptDialogOpening') return;
+  const params = event.params || {};
+  const type = DIALOG_TYPES.includes(params.type) ? params.type : 'alert';
+  const accept = dialogPolicy[type] === 'accept';
+  const answer = { accept };
+  if (type === 'prompt' && accept) {
+    answer.promptText = dialogPolicy.promptText ?? params.defaultPrompt ?? '';
+  }
+
+  const outcome = accept
+    ? (answer.promptText !== undefined ? `accepted with ${JSON.stringify(answer.promptText)}` : 'accepted')
+    : 'dismissed';
+  recordConsoleMessage(wsUrl, {
+    level: 'dialog',
+    source: 'dialog',
+    text: `${type}: ${JSON.stringify(params.message || '')} → ${outcome}`,
+    url: params.url
+  });
+
+  sendCdpCommandPooled(wsUrl, 'Page.handleJavaScriptDialog', answer).catch(e => {
+    console.error(`Failed to handle ${type} dialog: ${e.message}`);
+  });
+});
+
+// Page targets seen by any connection, by targetId
+const knownTargets = new Set();
+
+// Targets opened by newTab(); these are not popups
+const ownTargets = new Set();
+
+// Popups opened by pages: [{ seq, targetId, openerId, url }]
+const popups = [];
+let popupSeq = 0;
+
+// Last popup sequence reported by a capture
+let lastCapturePopupSeq = 0;
+
+// Connections currently receiving the initial targetCreated burst for existing targets
+const discoveringTargets = new Set();
+
+addTabSetupHandler(async (wsUrl) => {
+  discoveringTargets.add(wsUrl);
+  try {
+    await sendCdpCommandPooled(wsUrl, 'Target.setDiscoverTargets', { discover: true });
+  } finally {
+    discoveringTargets.delete(wsUrl);
+  }
+});
+
+addTabEventHandler((wsUrl, event) => {
+  if (event.method !== 'Target.targetCreated') return;
+  const info = event.params?.targetInfo || {};
+  if (info.type !== 'page' || knownTargets.has(info.targetId)) return;
+  knownTargets.add(info.targetId);
+
+  // Targets reported while discovery is being switched on already existed
+  if (discoveringTargets.has(wsUrl)) return;
+
+  popups.push({
+    seq: ++popupSeq,
+    targetId: info.targetId,
+    openerId: info.openerId || null,
+    url: info.url
+  });
+});
+
+// A closed tab takes its name, pooled connection and per-tab state with it.
+// Every connection with discovery on reports it; forgetting twice is a no-op.
+function forgetTargetState(targetId) {
+  for (const [name, id] of tabNames) {
+    if (id === targetId) tabNames.delete(name);
+  }
+  ownTargets.delete(targetId);
+  forgetTab(targetId);
+}
+
+addTabEventHandler((wsUrl, event) => {
+  if (event.method !== 'Target.targetDestroyed') return;
+  forgetTargetState(event.params?.targetId);
+});
+
+/**
+ * Take the popups opened since the previous capture, with their current tab index.
+ * Tabs opened through newTab() are skipped.
+ */
+async function takePopupsForCapture() {
+  const fresh = popups.filter(popup => popup.seq > lastCapturePopupSeq && !ownTargets.has(popup.targetId));
+  lastCapturePopupSeq = popupSeq;
+  if (fresh.length === 0) return [];
+
+  const tabs = await getTabs().catch(() => []);
+  return fresh
+    .map(popup => {
+      const tabIndex = tabs.findIndex(tab => tab.id === popup.targetId);
+      return {
+        targetId: popup.targetId,
+        tabIndex,
+        url: tabIndex >= 0 ? tabs[tabIndex].url : popup.url
+      };
+    })
+    .filter(popup => popup.tabIndex >= 0);
+}
+
+/**
+ * Bring a tab to the front (e.g. a popup an action just opened)
+ */
+async function activateTab(tabIndexOrWsUrl) {
+  const wsUrl = await resolveWsUrl(tabIndexOrWsUrl);
+  const tabs = await getTabs();
+  const tab = tabs.find(t => t.webSocketDebuggerUrl === wsUrl);
+  if (!tab) {
+    throw new Error(`Tab not found: ${tabIndexOrWsUrl}`);
+  }
+  await chromeHttp(`/json/activate/${tab.id}`, 'GET');
+  return { targetId: tab.id, tabIndex: tabs.indexOf(tab), url: tab.url };
+}
+
+// =============================================================================
+// BROWSER CONTEXTS (Target.createBrowserContext: isolated cookies, storage, cache)
+// =============================================================================
+
+// Contexts created in this session (contextId -> { id, name, createdAt }).
+// The default context has no entry; it is what new tabs get without a context.
+const browserContexts = new Map();
+
+// How long a SIGINT/SIGTERM waits for closeOwnContexts() before exiting
+const CONTEXT_CLEANUP_TIMEOUT_MS = 2000;
+
+/**
+ * Send a command to the browser target (/json/version) over a single-use
+ * connection. Browser-level commands like Target.createBrowserContext are
+ * not available on page sessions.
+ */
+async function sendBrowserCommand(method, params = {}, timeout = 30000) {
+  const version = await chromeHttp('/json/version');
+  if (!version || !version.webSocketDebuggerUrl) {
+    throw new Error('Chrome did not report a browser WebSocket URL');
+  }
+  return sendCdpCommandSingle(rewriteWsUrl(version.webSocketDebuggerUrl), method, params, timeout);
+}
+
+function findBrowserContext(idOrName) {
+  if (browserContexts.has(idOrName)) {
+    return browserContexts.get(idOrName);
+  }
+  for (const context of browserContexts.values()) {
+    if (context.name === idOrName) return context;
+  }
+  return null;
+}
+
+/**
+ * Create an isolated browser context (incognito-like: own cookies, storage and cache)
+ */
+async function newContext(name = null) {
+  if (name && findBrowserContext(name)) {
+    throw new Error(`Context name "${name}" is already in use`);
+  }
+  const { browserContextId } = await sendBrowserCommand('Target.createBrowserContext', {});
+  const context = { id: browserContextId, name: name || null, createdAt: new Date().toISOString() };
+  browserContexts.set(browserContextId, context);
+  return context;
+}
+
+/**
+ * Resolve a context id or name to its id. Contexts created by other clients
+ * can be used by id as long as the browser knows them.
+ */
+async function resolveContextId(idOrName) {
+  const known = findBrowserContext(idOrName);
+  if (known) return known.id;
+
+  const { browserContextIds = [] } = await sendBrowserCommand('Target.getBrowserContexts');
+  if (browserContextIds.includes(idOrName)) return idOrName;
+  throw new Error(`No browser context with id or name "${idOrName}" (see list_tabs)`);
+}
+
+/**
+ * Open a tab inside a browser context. Returns the same shape as /json/new.
+ */
+async function newTabInContext(url, contextIdOrName) {
+  const browserContextId = await resolveContextId(contextIdOrName);
+  const { targetId } = await sendBrowserCommand('Target.createTarget', { url, browserContextId });
+  const tab = (await getTabs()).find(t => t.id === targetId);
+  if (!tab) {
+    throw new Error(`Tab ${targetId} was created but is not listed by Chrome`);
+  }
+  return tab;
+}
+
+/**
+ * Close a context and every tab in it
+ */
+async function closeContext(idOrName) {
+  const browserContextId = await resolveContextId(idOrName);
+  const { targetInfos = [] } = await sendBrowserCommand('Target.getTargets');
+  const closing = targetInfos.filter(info => info.browserContextId === browserContextId && info.type === 'page');
+
+  await sendBrowserCommand('Target.disposeBrowserContext', { browserContextId });
+  for (const info of closing) {
+    forgetTargetState(info.targetId);
+  }
+  const context = browserContexts.get(browserContextId);
+  browserContexts.delete(browserContextId);
+  return { id: browserContextId, name: context?.name || null, closedTabs: closing.length };
+}
+
+/**
+ * Close the contexts this process created. Contexts of other clients sharing
+ * the browser are left alone. Returns the closed contexts.
+ */
+async function closeOwnContexts() {
+  const closed = [];
+  for (const id of [...browserContexts.keys()]) {
+    try {
+      closed.push(await closeContext(id));
+    } catch (error) {
+      // Already gone with the browser or closed by someone else
+      browserContexts.delete(id);
+    }
+  }
+  return closed;
+}
+
+// Browser context of every target (targetId -> browserContextId)
+async function getTargetContexts() {
+  const { targetInfos = [] } = await sendBrowserCommand('Target.getTargets');
+  return new Map(targetInfos.map(info => [info.targetId, info.browserContextId]));
+}
+
+// Browser context of a tab; undefined when Chrome doesn't report one
+async function getTabContextId(wsUrl) {
+  const tab = (await getTabs()).find(t => t.webSocketDebuggerUrl === wsUrl);
+  return tab ? (await getTargetContexts()).get(tab.id) : undefined;
+}
+
+/**
+ * List tabs grouped by browser context. Tab indices are the global ones used by tab_index.
+ * Returns [{ id, name, default, tabs: [{ index, id, name, title, url }] }], default context first.
+ */
+async function getTabsByContext() {
+  const tabs = await getTabs();
+  const contextOf = await getTargetContexts();
+  // Older Chrome doesn't report the default context id; then anything not from newContext() counts
+  const { defaultBrowserContextId } = await sendBrowserCommand('Target.getBrowserContexts').catch(() => ({}));
+
+  const groups = new Map();
+  tabs.forEach((tab, index) => {
+    const contextId = contextOf.get(tab.id) || null;
+    if (!groups.has(contextId)) {
+      const known = browserContexts.get(contextId);
+      const isDefault = defaultBrowserContextId ? contextId === defaultBrowserContextId : !known;
+      groups.set(contextId, { id: contextId, name: known ? known.name : null, default: isDefault, tabs: [] });
+    }
+    groups.get(contextId).tabs.push({ index, id: tab.id, name: tab.name, title: tab.title, url: tab.url });
+  });
+
+  // Contexts without tabs still exist until closed
+  for (const context of browserContexts.values()) {
+    if (!groups.has(context.id)) {
+      groups.set(context.id, { id: context.id, name: context.name, default: false, tabs: [] });
+    }
+  }
+
+  return [...groups.values()].sort((a, b) => (b.default ? 1 : 0) - (a.default ? 1 : 0));
+}
+
+// =============================================================================
+// STRUCTURED EXTRACTION (field maps and tables to JSON, with pagination)
+// =============================================================================
+
+const FIELD_TYPES = ['text', 'attr', 'html', 'number'];
+
+const DEFAULT_MAX_PAGES = 10; // Pages visited when following a "next" selector
+
+/**
+ * Normalize a field map into specs. Values are a selector string (text) or
+ * { selector, type (text|attr|html|number), attr, all }; an empty selector means the item itself.
+ */
+function normalizeFieldSpecs(fields) {
+  if (!fields || typeof fields !== 'object' || Array.isArray(fields) || Object.keys(fields).length === 0) {
+    throw new Error('fields must map names to selectors, e.g. {"title": "h2", "price": {"selector": ".price", "type": "number"}}');
+  }
+  return Object.entries(fields).map(([name, value]) => {
+    const spec = typeof value === 'string' ? { selector: value } : { ...value };
+    if (!spec || typeof spec !== 'object') {
+      throw new Error(`Invalid field "${name}": use a selector string or {selector, type, attr}`);
+    }
+    const type = spec.type || (spec.attr ? 'attr' : 'text');
+    if (!FIELD_TYPES.includes(type)) {
+      throw new Error(`Invalid type for field "${name}": ${type} (use ${FIELD_TYPES.join(', ')})`);
+    }
+    if (type === 'attr' && !spec.attr) {
+      throw new Error(`Field "${name}" needs an attr name`);
+    }
+    if (spec.selector && SELECTOR_SCOPE_SEPARATOR.test(spec.selector)) {
+      throw new Error(`Field selectors are relative to each item and cannot use >>> (field "${name}")`);
+    }
+    return { name, selector: spec.selector || '', type, attr: spec.attr || null, all: !!spec.all };
+  });
+}
+
+/**
+ * Parse a number out of display text: "$1,234.50" -> 1234.5, "1.234,50 €" -> 1234.5, "-12%" -> -12.
+ * Returns null when the text holds no number.
+ */
+function parseNumberText(text) {
+  if (text === null || text === undefined) return null;
+  const match = String(text).replace(/[\s']/g, '').match(/[-−]?\d[\d.,]*/);
+  if (!match) return null;
+  let digits = match[0].replace('−', '-');
+  const lastComma = digits.lastIndexOf(',');
+  const lastDot = digits.lastIndexOf('.');
+  if (lastComma !== -1 && lastDot !== -1) {
+    // Both present: whichever comes last is the decimal separator
+    digits = lastComma > lastDot ? digits.replace(/\./g, '').replace(',', '.') : digits.replace(/,/g, '');
+  } else if (lastComma !== -1) {
+    // "1,234" and "1,234,567" group thousands; "12,5" is a decimal comma
+    digits = /^-?\d{1,3}(,\d{3})+$/.test(digits) ? digits.replace(/,/g, '') : digits.replace(',', '.');
+  } else if ((digits.match(/\./g) || []).length > 1) {
+    digits = digits.replace(/\./g, ''); // "1.234.567"
+  }
+  const value = parseFloat(digits);
+  return isNaN(value) ? null : value;
+}
+
+/**
+ * Turn table cells into row objects keyed by header text. Missing or blank
+ * headers become column_N; repeated headers get a _2, _3 suffix.
+ */
+function tableToRows(headers, rows) {
+  const width = Math.max(headers.length, ...rows.map(row => row.length));
+  const used = new Map();
+  const keys = [];
+  for (let i = 0; i < width; i++) {
+    const base = (headers[i] || '').trim() || `column_${i + 1}`;
+    const count = (used.get(base) || 0) + 1;
+    used.set(base, count);
+    keys.push(count > 1 ? `${base}_${count}` : base);
+  }
+  return rows.map(row => Object.fromEntries(keys.map((key, i) => [key, row[i] ?? null])));
+}
+
+// Read every item under the root selector with the field specs; number fields are parsed in Node
+async function extractItemsOnPage(wsUrl, selector, specs) {
+  const target = await prepareSelector(wsUrl, selector);
+  const readers = specs.map(spec => `[${JSON.stringify(spec.name)}, (item) => ${spec.selector ? selectorSegmentQuery(spec.selector, 'item', true) : '[item]'}]`);
+  const result = await sendCdpCommand(wsUrl, 'Runtime.evaluate', {
+    expression: `(() => {
+      const specs = ${JSON.stringify(specs)};
+      const queries = new Map([${readers.join(', ')}]);
+      const read = (el, spec) => {
+        if (spec.type === 'html') return el.innerHTML;
+        if (spec.type === 'attr') {
+          // href/src come back absolute
+          if ((spec.attr === 'href' || spec.attr === 'src') && el.hasAttribute(spec.attr) && typeof el[spec.attr] === 'string') return el[spec.attr];
+          return el.getAttribute(spec.attr);
+        }
+        return (el.innerText ?? el.textContent).replace(/\\s+/g, ' ').trim();
+      };
+      return ${getElementSelectorAll(target.selector)}.map(item => {
+        const record = {};
+        for (const spec of specs) {
+          const matches = queries.get(spec.name)(item);
+          record[spec.name] = spec.all ? matches.map(el => read(el, spec)) : (matches[0] ? read(matches[0], spec) : null);
+        }
+        return record;
+      });
+    })()`,
+    returnByValue: true,
+    contextId: target.contextId
+  });
+  if (result.exceptionDetails) {
+    throw new Error(`Structured extraction failed: ${result.exceptionDetails.exception?.description || result.exceptionDetails.text}`);
+  }
+
+  const items = result.result.value || [];
+  for (const spec of specs.filter(s => s.type === 'number')) {
+    for (const item of items) {
+      item[spec.name] = Array.isArray(item[spec.name]) ? item[spec.name].map(parseNumberText) : parseNumberText(item[spec.name]);
+    }
+  }
+  return items;
+}
+
+// Every data table on the page (or inside/matching the selector); tables holding tables are layout
+async function extractTablesOnPage(wsUrl, selector) {
+  const target = await prepareSelector(wsUrl, selector);
+  const result = await sendCdpCommand(wsUrl, 'Runtime.evaluate', {
+    expression: `(() => {
+      const scopes = ${selector ? getElementSelectorAll(target.selector) : '[document]'};
+      const tables = [];
+      for (const scope of scopes) {
+        const found = scope.tagName === 'TABLE' ? [scope] : Array.from(scope.querySelectorAll('table'));
+        for (const table of found) if (!tables.includes(table) && !table.querySelector('table')) tables.push(table);
+      }
+      const text = (el) => (el.innerText ?? el.textContent).replace(/\\s+/g, ' ').trim();
+      const cells = (row) => Array.from(row.cells).flatMap(cell => [text(cell), ...Array(Math.max((cell.colSpan || 1) - 1, 0)).fill('')]);
+      return tables.map(table => {
+        const rows = Array.from(table.rows);
+        const headRows = table.tHead ? Array.from(table.tHead.rows) : [];
+        const header = headRows.length > 0
+          ? headRows[headRows.length - 1]
+          : (rows[0] && Array.from(rows[0].cells).every(cell => cell.tagName === 'TH') ? rows[0] : null);
+        return {
+          id: table.id || null,
+          caption: table.caption ? text(table.caption) : null,
+          headers: header ? cells(header) : [],
+          rows: rows.filter(row => row !== header && !headRows.includes(row)).map(cells).filter(row => row.some(Boolean))
+        };
+      });
+    })()`,
+    returnByValue: true,
+    contextId: target.contextId
+  });
+  if (result.exceptionDetails) {
+    throw new Error(`Table extraction failed: ${result.exceptionDetails.exception?.description || result.exceptionDetails.text}`);
+  }
+  return result.result.value || [];
+}
+
+// Click the "next" control; false when it is missing or disabled
+async function goToNextPage(wsUrl, nextSelector, settle) {
+  const target = await prepareSelector(wsUrl, nextSelector).catch(() => null);
+  if (!target) return false;
+  const state = await sendCdpCommand(wsUrl, 'Runtime.evaluate', {
+    expression: `(() => {
+      const el = ${getElementSelector(target.selector)};
+      if (!el) return 'missing';
+      const disabled = el.disabled || el.getAttribute('aria-disabled') === 'true' || el.classList.contains('disabled');
+      return disabled ? 'disabled' : 'ok';
+    })()`,
+    returnByValue: true,
+    contextId: target.contextId
+  });
+  if (state.result.value !== 'ok') return false;
+  await click(wsUrl, nextSelector);
+  await waitForSettle(wsUrl, settle);
+  return true;
+}
+
+/**
+ * Extract structured data to JSON, optionally across pages.
+ * @param {Object} options - { selector: item root (or table scope), fields: see normalizeFieldSpecs(),
+ *   tables: true to convert tables instead, next: selector of the "next page" control,
+ *   pages: max pages (default 10 with next), settle, filename }
+ * @returns {Object} { mode, pages, count, path, items | tables }
+ */
+async function extractStructured(tabIndexOrWsUrl, options = {}) {
+  const path = require('path');
+  const wsUrl = await resolveWsUrl(tabIndexOrWsUrl);
+
+  const tablesMode = !!options.tables;
+  const specs = tablesMode ? null : normalizeFieldSpecs(options.fields);
+  if (!tablesMode && !options.selector) {
+    throw new Error('extract_structured needs a selector for the repeating items (or options.tables)');
+  }
+  const maxPages = options.next ? Math.max(1, parseInt(options.pages || DEFAULT_MAX_PAGES, 10)) : 1;
+
+  const items = [];
+  const tables = [];
+  const tablesByKey = new Map(); // Same position and headers on the next page = same table
+  let pages = 0;
+  let previousPage = null;
+  while (pages < maxPages) {
+    const pageData = tablesMode
+      ? await extractTablesOnPage(wsUrl, options.selector || null)
+      : await extractItemsOnPage(wsUrl, options.selector, specs);
+    // A "next" click that changed nothing means the last page was reached
+    const signature = JSON.stringify(pageData);
+    if (signature === previousPage) break;
+    previousPage = signature;
+    pages++;
+
+    if (tablesMode) {
+      pageData.forEach((table, i) => {
+        const key = JSON.stringify([i, table.headers]);
+        const rows = tableToRows(table.headers, table.rows);
+        if (tablesByKey.has(key)) {
+          tablesByKey.get(key).rows.push(...rows);
+        } else {
+          const entry = { id: table.id, caption: table.caption, headers: table.headers, rows };
+          tablesByKey.set(key, entry);
+          tables.push(entry);
+        }
+      });
+    } else {
+      items.push(...pageData);
+    }
+
+    if (pages >= maxPages || !(await goToNextPage(wsUrl, options.next, options.settle))) break;
+  }
+
+  const data = tablesMode ? tables : items;
+  const outputPath = options.filename
+    ? resolveSessionPath(options.filename)
+    : path.join(initializeSession(), `${createCapturePrefix('extract')}-data.json`);
+  writeMaskedFile(outputPath, JSON.stringify(data, null, 2));
+
+  return {
+    mode: tablesMode ? 'tables' : 'items',
+    pages,
+    count: tablesMode ? tables.reduce((sum, table) => sum + table.rows.length, 0) : items.length,
+    path: outputPath,
+    ...(tablesMode ? { tables } : { items })
+  };
+}
+
+// =============================================================================
+// SECRETS AND MASKING ({{secret:NAME}} placeholders, masked captures)
+// =============================================================================
+
+// {{secret:NAME}} in type and eval payloads
+const SECRET_PLACEHOLDER = /\{\{\s*secret:([A-Za-z_][A-Za-z0-9_]*)\s*\}\}/g;
+
+// Secrets file set with --secrets-file (null = CHROME_SECRETS_FILE or the default path)
+let secretsFilePath = null;
+
+// Values to keep out of captures and responses (value -> replacement).
+// Filled by resolved placeholders and by password field values seen on pages.
+const maskedValues = new Map();
+
+// Shorter password values scraped from pages are not replaced in free text: a
+// one-letter password would garble every later response. Password fields are
+// still masked, and declared {{secret:NAME}} values are masked at any length.
+const MIN_MASKED_LENGTH = 6;
+
+// Fixed width, so masked password fields don't reveal the password length
+const PASSWORD_MASK = '********';
+
+function getDefaultSecretsPath() {
+  const path = require('path');
+  return path.join(getXdgConfigHome(), 'superpowers', 'secrets.json');
+}
+
+function setSecretsFile(filePath) {
+  const path = require('path');
+  secretsFilePath = filePath ? path.resolve(filePath) : null;
+}
+
+function getSecretsFile(env = process.env) {
+  return secretsFilePath || env.CHROME_SECRETS_FILE || getDefaultSecretsPath();
+}
+
+/**
+ * Read a secrets file: a JSON object of NAME -> value, or NAME=value lines
+ * (.env style, # comments, optional quotes). A missing file has no secrets.
+ */
+function readSecretsFile(filePath) {
+  const fs = require('fs');
+  let text;
+  try {
+    text = fs.readFileSync(filePath, 'utf8');
+  } catch (e) {
+    if (e.code === 'ENOENT') return {};
+    throw new Error(`Cannot read secrets file ${filePath}: ${e.message}`);
+  }
+  if (text.trim().startsWith('{')) {
+    try {
+      return JSON.parse(text);
+    } catch (e) {
+      throw new Error(`Invalid secrets file ${filePath}: ${e.message}`);
+    }
+  }
+  const secrets = {};
+  for (const line of text.split(/\r?\n/)) {
+    const match = line.match(/^\s*(?:export\s+)?([A-Za-z_][A-Za-z0-9_]*)\s*=\s*(.*?)\s*$/);
+    if (!match) continue;
+    const quoted = match[2].match(/^(["'])(.*)\1$/);
+    secrets[match[1]] = quoted ? quoted[2] : match[2];
+  }
+  return secrets;
+}
+
+// Mask every form a value may take in captures: as is, JSON-escaped, URL-encoded
+function addMaskedValue(value, replacement, minLength = 1) {
+  if (typeof value !== 'string' || value.length < Math.max(minLength, 1)) return;
+  const forms = [value, JSON.stringify(value).slice(1, -1), encodeURIComponent(value), encodeURIComponent(value).replace(/%20/g, '+')];
+  for (const form of forms) {
+    if (!maskedValues.has(form)) maskedValues.set(form, replacement);
+  }
+}
+
+/**
+ * Replace {{secret:NAME}} placeholders with values from the NAME environment
+ * variable or the secrets file. Resolved values are masked from then on.
+ */
+function resolveSecretPlaceholders(text, env = process.env) {
+  if (typeof text !== 'string' || !text.includes('{{')) return text;
+  let fileSecrets = null;
+  return text.replace(SECRET_PLACEHOLDER, (placeholder, name) => {
+    let value = env[name];
+    if (value === undefined) {
+      fileSecrets = fileSecrets || readSecretsFile(getSecretsFile(env));
+      value = fileSecrets[name];
+    }
+    if (value === undefined || value === null) {
+      throw new Error(`Unknown secret ${name}: set the ${name} environment variable or add it to ${getSecretsFile(env)}`);
+    }
+    addMaskedValue(String(value), `{{secret:${name}}}`);
+    return String(value);
+  });
+}
+
+// Replace resolved secrets and password values in text bound for disk or a response
+function maskSecrets(text) {
+  if (typeof text !== 'string' || maskedValues.size === 0) return text;
+  // Longest first, so a value containing another is masked whole
+  const values = [...maskedValues.keys()].sort((a, b) => b.length - a.length);
+  let masked = text;
+  for (const value of values) {
+    if (masked.includes(value)) masked = masked.split(value).join(maskedValues.get(value));
+  }
+  return masked;
+}
+
+// value="..." on <input type=password> tags, masked like the markdown renderer does
+function maskPasswordInputs(html) {
+  if (typeof html !== 'string') return html;
+  return html.replace(/<input\b[^>]*>/gi, (tag) => {
+    if (!/\btype\s*=\s*(["']?)password\1(?=[\s/>])/i.test(tag)) return tag;
+    return tag.replace(/(\svalue\s*=\s*)(?:"([^"]*)"|'([^']*)'|([^\s"'>]+))/i,
+      (match, prefix, double, single, bare) => `${prefix}"${(double ?? single ?? bare) ? PASSWORD_MASK : ''}"`);
+  });
+}
+
+// Remember the values of password fields on the page, so typed passwords are
+// masked wherever they show up (request bodies, console, HAR)
+async function rememberPasswordValues(tabIndexOrWsUrl) {
+  const wsUrl = await resolveWsUrl(tabIndexOrWsUrl);
+  const result = await sendCdpCommand(wsUrl, 'Runtime.evaluate', {
+    expression: `Array.from(document.querySelectorAll('input[type=password]'), input => input.value).filter(Boolean)`,
+    returnByValue: true
+  });
+  for (const value of result.result?.value || []) {
+    addMaskedValue(value, PASSWORD_MASK, MIN_MASKED_LENGTH);
+  }
+}
+
+// Write a capture file with secrets masked
+function writeMaskedFile(filePath, text) {
+  const fs = require('fs');
+  fs.writeFileSync(filePath, maskSecrets(text || ''));
+}
+
+// =============================================================================
+// SESSION RECORDING AND REPLAY (session.jsonl manifest, retention, replay)
+// =============================================================================
+
+const SESSION_MANIFEST = 'session.jsonl';
+
+// Marks a session dir as in use by a live process ({ pid, startedAt })
+const SESSION_OWNER_FILE = '.owner';
+
+const DEFAULT_SESSION_RETENTION = {
+  keep: false,                        // Keep the session dir when the process exits
+  maxAgeMs: 7 * 24 * 60 * 60 * 1000,  // Session dirs older than this are pruned at startup
+  maxBytes: 1024 * 1024 * 1024        // Then the oldest go until the rest fit
+};
+
+const DURATION_UNITS = { s: 1000, m: 60 * 1000, h: 60 * 60 * 1000, d: 24 * 60 * 60 * 1000 };
+const SIZE_UNITS = { k: 1024, kb: 1024, m: 1024 ** 2, mb: 1024 ** 2, g: 1024 ** 3, gb: 1024 ** 3 };
+
+let sessionRetention = { ...DEFAULT_SESSION_RETENTION };
+let sessionStepCounter = 0;
+
+// Actions whose result text is compared on replay (reads without side effects)
+const REPLAY_VALUE_ACTIONS = new Set(['extract', 'attr']);
+
+// "7d", "12h", "30m", "45s" or a number of days
+function parseDuration(value) {
+  const match = String(value).trim().match(/^(\d*\.?\d+)\s*([smhd])?$/i);
+  if (!match) {
+    throw new Error(`Invalid duration: ${value} (use e.g. 7d, 12h or 30m)`);
+  }
+  return parseFloat(match[1]) * DURATION_UNITS[(match[2] || 'd').toLowerCase()];
+}
+
+// "500MB", "2GB", "800K" or a number of megabytes
+function parseSize(value) {
+  const match = String(value).trim().match(/^(\d*\.?\d+)\s*(k|kb|m|mb|g|gb)?$/i);
+  if (!match) {
+    throw new Error(`Invalid size: ${value} (use e.g. 500MB or 2GB)`);
+  }
+  return Math.round(parseFloat(match[1]) * SIZE_UNITS[(match[2] || 'mb').toLowerCase()]);
+}
+
+/**
+ * Session retention from env vars (CHROME_KEEP_SESSIONS, CHROME_SESSION_MAX_AGE,
+ * CHROME_SESSION_MAX_SIZE) overridden by flags (--keep-sessions, --session-max-age,
+ * --session-max-size)
+ */
+function loadSessionRetention(argv = process.argv.slice(2), env = process.env) {
+  const last = (name) => argv.filter(arg => arg.startsWith(`--${name}=`)).map(arg => arg.slice(name.length + 3)).pop();
+  const retention = { ...DEFAULT_SESSION_RETENTION };
+
+  if (env.CHROME_KEEP_SESSIONS) retention.keep = /^(1|true|yes)$/i.test(env.CHROME_KEEP_SESSIONS);
+  if (argv.includes('--keep-sessions')) retention.keep = true;
+
+  const maxAge = last('session-max-age') || env.CHROME_SESSION_MAX_AGE;
+  if (maxAge) retention.maxAgeMs = parseDuration(maxAge);
+  const maxSize = last('session-max-size') || env.CHROME_SESSION_MAX_SIZE;
+  if (maxSize) retention.maxBytes = parseSize(maxSize);
+
+  return retention;
+}
+
+function setSessionRetention(retention) {
+  sessionRetention = { ...DEFAULT_SESSION_RETENTION, ...retention };
+  return getSessionRetention();
+}
+
+function getSessionRetention() {
+  return { ...sessionRetention };
+}
+
+function getSessionsRoot() {
+  const path = require('path');
+  return path.join(getXdgCacheHome(), 'superpowers', 'browser');
+}
+
+function writeSessionOwner(dir) {
+  const fs = require('fs');
+  const path = require('path');
+  fs.writeFileSync(path.join(dir, SESSION_OWNER_FILE), JSON.stringify({ pid: process.pid, startedAt: Date.now() }));
+}
+
+function removeSessionOwner(dir) {
+  const fs = require('fs');
+  const path = require('path');
+  fs.rmSync(path.join(dir, SESSION_OWNER_FILE), { force: true });
+}
+
+// True while the process that created the session dir is running. Dirs
+// without a marker belong to runs that have ended (kept or crashed).
+function isSessionActive(dir) {
+  const fs = require('fs');
+  const path = require('path');
+  let owner;
+  try {
+    owner = JSON.parse(fs.readFileSync(path.join(dir, SESSION_OWNER_FILE), 'utf8'));
+  } catch (e) {
+    return false;
+  }
+  if (!Number.isInteger(owner.pid) || owner.pid <= 0) return false;
+  if (owner.pid === process.pid) return true;
+  try {
+    process.kill(owner.pid, 0);
+    return true;
+  } catch (e) {
+    // EPERM: the process exists but belongs to another user
+    return e.code === 'EPERM';
+  }
+}
+
+function directorySize(dir) {
+  const fs = require('fs');
+  const path = require('path');
+  let total = 0;
+  for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+    const full = path.join(dir, entry.name);
+    total += entry.isDirectory() ? directorySize(full) : fs.statSync(full).size;
+  }
+  return total;
+}
+
+/**
+ * Remove session dirs ({root}/YYYY-MM-DD/session-*) older than maxAgeMs, then the
+ * oldest until the rest fit in maxBytes. Only sessions that have ended are
+ * removed: the current one and those of other running servers or CLI commands
+ * are left alone.
+ * @returns {string[]} removed dirs
+ */
+function pruneSessions(retention = sessionRetention, root = getSessionsRoot(), now = Date.now()) {
+  const fs = require('fs');
+  const path = require('path');
+  if (!fs.existsSync(root)) return [];
+
+  const sessions = [];
+  for (const day of fs.readdirSync(root, { withFileTypes: true })) {
+    if (!day.isDirectory() || !/^\d{4}-\d{2}-\d{2}$/.test(day.name)) continue;
+    for (const entry of fs.readdirSync(path.join(root, day.name), { withFileTypes: true })) {
+      if (!entry.isDirectory() || !entry.name.startsWith('session-')) continue;
+      const dir = path.join(root, day.name, entry.name);
+      sessions.push({ dir, mtime: fs.statSync(dir).mtimeMs, size: directorySize(dir) });
+    }
+  }
+  sessions.sort((a, b) => a.mtime - b.mtime);
+
+  const removed = [];
+  let total = sessions.reduce((sum, session) => sum + session.size, 0);
+  for (const session of sessions) {
+    if (session.dir === sessionDir || isSessionActive(session.dir)) continue;
+    if (now - session.mtime > retention.maxAgeMs || total > retention.maxBytes) {
+      fs.rmSync(session.dir, { recursive: true, force: true });
+      removed.push(session.dir);
+      total -= session.size;
+    }
+  }
+
+  for (const day of fs.readdirSync(root)) {
+    const dayDir = path.join(root, day);
+    if (/^\d{4}-\d{2}-\d{2}$/.test(day) && fs.statSync(dayDir).isDirectory() && fs.readdirSync(dayDir).length === 0) {
+      fs.rmdirSync(dayDir);
+    }
+  }
+  return removed;
+}
+
+function hashText(text) {
+  const crypto = require('crypto');
+  return crypto.createHash('sha1').update(String(text ?? '')).digest('hex').slice(0, 16);
+}
+
+// Current URL of a tab by index, target id or name; null when it is gone
+async function getTabUrl(tab) {
+  try {
+    const tabs = await getTabs();
+    const info = /^\d+$/.test(String(tab)) ? tabs[Number(tab)] : tabs.find(t => t.id === tab || t.name === tab);
+    return info ? info.url : null;
+  } catch (e) {
+    return null;
+  }
+}
+
+/**
+ * The comparable outcome of a step: success or error, the tab URL afterwards
+ * and, for reads, a hash of the value returned
+ */
+async function describeStepOutcome(action, tab, { error = null, value, targetId } = {}) {
+  const outcome = { ok: !error };
+  if (error) outcome.error = maskSecrets(error);
+  if (!error && REPLAY_VALUE_ACTIONS.has(action)) outcome.value = hashText(maskSecrets(value));
+  if (targetId) outcome.targetId = targetId;
+  if (tab !== null && tab !== undefined && action !== 'close_tab') outcome.url = await getTabUrl(tab);
+  return outcome;
+}
+
+/**
+ * Differences between a recorded and a replayed outcome. Numbers in error
+ * messages (timings, counts) are ignored; URLs and values must match exactly.
+ */
+function compareStepOutcomes(recorded, replayed) {
+  const differences = [];
+  if (recorded.ok !== replayed.ok) {
+    differences.push({ field: 'ok', recorded: recorded.ok ? 'success' : `error: ${recorded.error}`, replayed: replayed.ok ? 'success' : `error: ${replayed.error}` });
+    return differences;
+  }
+  const normalizeError = (message) => String(message || '').replace(/\d+/g, '#');
+  if (!recorded.ok && normalizeError(recorded.error) !== normalizeError(replayed.error)) {
+    differences.push({ field: 'error', recorded: recorded.error, replayed: replayed.error });
+  }
+  if ('url' in recorded && recorded.url !== replayed.url) {
+    differences.push({ field: 'url', recorded: recorded.url, replayed: replayed.url });
+  }
+  if ('value' in recorded && recorded.value !== replayed.value) {
+    differences.push({ field: 'value', recorded: recorded.value, replayed: replayed.value });
+  }
+  return differences;
+}
+
+// Mark the start of a use_browser call, so recordSessionStep() knows its timing and captures
+function beginSessionStep() {
+  initializeSession();
+  return { start: Date.now(), capture: captureCounter };
+}
+
+/**
+ * Append a use_browser call to {session dir}/session.jsonl
+ * @param {Object} mark - From beginSessionStep()
+ * @param {Object} params - The tool params as called
+ * @param {Object} result - { response } on success, { error } on failure
+ * @param {number|string|null} tab - Tab the call targeted; null when Chrome was not involved
+ */
+async function recordSessionStep(mark, params, result, tab = null) {
+  const fs = require('fs');
+  const path = require('path');
+  const dir = initializeSession();
+
+  const response = typeof result.response === 'string' ? result.response : '';
+  const newTabMatch = params.action === 'new_tab' && response.match(/^New tab created: (\S+)/);
+  const outcome = await describeStepOutcome(params.action, tab, {
+    error: result.error || null,
+    value: response,
+    targetId: newTabMatch ? newTabMatch[1] : null
+  });
+
+  // Captures numbered after the mark, plus files the response points at (screenshots, PDFs, HARs)
+  const artifacts = fs.readdirSync(dir)
+    .filter(name => {
+      const match = name.match(/^(\d+)-/);
+      return match && parseInt(match[1], 10) > mark.capture;
+    })
+    .map(name => path.join(dir, name));
+  for (const [candidate] of response.matchAll(/\/[^\s'"()]+\.(?:png|jpe?g|webp|pdf|har|json|md|html|txt)\b/g)) {
+    if (!artifacts.includes(candidate) && fs.existsSync(candidate)) artifacts.push(candidate);
+  }
+
+  const summary = (result.error ? `Error: ${result.error}` : response).split('\n').slice(0, 3).join('\n');
+  const entry = {
+    step: ++sessionStepCounter,
+    time: new Date(mark.start).toISOString(),
+    durationMs: Date.now() - mark.start,
+    action: params.action,
+    params,
+    outcome,
+    summary: summary.length > 300 ? summary.slice(0, 300) + '…' : summary,
+    artifacts
+  };
+  fs.appendFileSync(path.join(dir, SESSION_MANIFEST), maskSecrets(JSON.stringify(entry)) + '\n');
+  return entry;
+}
+
+function readSessionManifest(manifestPath) {
+  const fs = require('fs');
+  const path = require('path');
+  let file = path.resolve(manifestPath);
+  if (fs.existsSync(file) && fs.statSync(file).isDirectory()) {
+    file = path.join(file, SESSION_MANIFEST);
+  }
+  if (!fs.existsSync(file)) {
+    throw new Error(`Session manifest not found: ${file}`);
+  }
+  const steps = fs.readFileSync(file, 'utf8').split('\n').filter(line => line.trim()).map((line, i) => {
+    try {
+      return JSON.parse(line);
+    } catch (e) {
+      throw new Error(`Invalid JSON on line ${i + 1} of ${file}`);
+    }
+  });
+  return { file, steps };
+}
+
+async function settleAfter(tab, params, action) {
+  await action();
+  await waitForSettle(tab, params.options?.settle);
+}
+
+// How each recorded action is re-run (without captures); unlisted actions are skipped
+const REPLAY_HANDLERS = {
+  navigate: (tab, p) => settleAfter(tab, p, () => navigate(tab, p.payload)),
+  click: (tab, p) => settleAfter(tab, p, () => click(tab, p.selector)),
+  type: (tab, p) => settleAfter(tab, p, () => fill(tab, p.selector || null, resolveSecretPlaceholders(p.payload))),
+  select: (tab, p) => settleAfter(tab, p, () => selectOption(tab, p.selector, p.payload)),
+  eval: (tab, p) => settleAfter(tab, p, () => evaluate(tab, resolveSecretPlaceholders(p.payload))),
+  keyboard_press: (tab, p) => settleAfter(tab, p, () => keyboardPress(tab, p.payload, p.modifiers || {})),
+  hover: (tab, p) => settleAfter(tab, p, () => hover(tab, p.selector)),
+  double_click: (tab, p) => settleAfter(tab, p, () => doubleClick(tab, p.selector)),
+  right_click: (tab, p) => settleAfter(tab, p, () => rightClick(tab, p.selector)),
+  drag: (tab, p) => settleAfter(tab, p, () => drag(tab, p.selector, p.payload || p.options, p.options || {})),
+  scroll: (tab, p) => settleAfter(tab, p, () => scroll(tab, { ...p.options, selector: p.selector, until: p.payload, timeout: p.timeout })),
+  mouse_wheel: (tab, p) => settleAfter(tab, p, () => mouseWheel(tab, { ...p.options, selector: p.selector })),
+  upload: (tab, p) => settleAfter(tab, p, () => upload(tab, p.selector, p.options?.files || [p.payload])),
+  await_element: (tab, p) => waitForElement(tab, p.selector, p.timeout ?? 5000),
+  await_text: (tab, p) => waitForText(tab, p.payload, p.timeout ?? 5000),
+  await_gone: (tab, p) => waitForElementGone(tab, p.selector, p.timeout ?? 5000),
+  await_url: (tab, p) => waitForUrl(tab, p.payload, p.timeout ?? 5000),
+  await_network_idle: async (tab, p) => {
+    const idle = await waitForNetworkIdle(tab, { ...p.options, timeout: p.timeout ?? 5000 });
+    if (!idle.idle) {
+      throw new Error(`Timeout waiting for network idle: ${idle.inflight} request${idle.inflight === 1 ? '' : 's'} still in flight after ${idle.waited}ms`);
+    }
+  },
+  extract: (tab, p) => {
+    const format = p.payload || 'text';
+    if (format === 'markdown') return generateMarkdown(tab, p.selector || null, p.options || {});
+    if (format === 'html') return p.selector ? getHtml(tab, p.selector) : getHtml(tab);
+    return p.selector ? extractText(tab, p.selector) : evaluate(tab, 'document.body.innerText');
+  },
+  attr: async (tab, p) => String(await getAttribute(tab, p.selector, p.payload)),
+  new_tab: (tab, p) => newTab(p.payload || 'about:blank', p.options?.name ?? null, p.options?.context ?? null),
+  close_tab: (tab) => closeTab(tab),
+  new_context: (tab, p) => newContext(p.payload || null),
+  close_context: (tab, p) => closeContext(p.payload),
+  emulate: (tab, p) => emulate(tab, {
+    ...p.options,
+    ...(p.payload === 'reset' ? { reset: true } : p.payload ? { device: p.payload } : {})
+  }),
+  dialog_policy: (tab, p) => {
+    if (p.payload) setDialogPolicy(p.payload);
+    if (p.options && Object.keys(p.options).length > 0) setDialogPolicy(p.options);
+  },
+  route_add: (tab, p) => addRoute(tab, { ...p.options, url: p.payload }),
+  route_clear: (tab, p) => clearRoutes(tab, p.payload || null),
+  cookie_set: (tab, p) => setCookie(tab, p.options),
+  cookie_delete: (tab, p) => deleteCookies(tab, p.payload || null, p.options || {}),
+  storage_set: (tab, p) => setStorageItem(tab, p.payload, p.options.value, p.options.type || 'local', p.options.origin || null),
+  storage_clear: (tab, p) => clearStorage(tab, p.payload || null, p.options?.type || 'local', p.options?.origin || null),
+  storage_import: (tab, p) => importStorageState(tab, p.payload)
+};
+
+// "click #submit", "navigate https://…" for step reports
+function describeStep(params) {
+  const target = params.selector || params.payload || '';
+  const text = typeof target === 'string' ? target : JSON.stringify(target);
+  return `${params.action}${text ? ' ' + (text.length > 60 ? text.slice(0, 60) + '…' : text) : ''}`;
+}
+
+/**
+ * Re-run a recorded session.jsonl and compare each step's outcome with the recording.
+ * Stops at the first difference unless options.continue is set.
+ * @param {string} manifestPath - session.jsonl, or the session dir holding it
+ * @param {Object} options - { from, to (step numbers), continue }
+ * @returns {Object} { file, steps: [{ step, action, status: match|differs|skipped, differences }], firstDifference }
+ */
+async function replaySession(manifestPath, options = {}) {
+  const { file, steps: entries } = readSessionManifest(manifestPath);
+  const from = options.from ?? 1;
+  const to = options.to ?? Infinity;
+  // Target ids differ between runs; map the recorded ones to the tabs the replay opened
+  const targetIds = new Map();
+
+  const steps = [];
+  let firstDifference = null;
+  for (const entry of entries) {
+    if (entry.step < from || entry.step > to) continue;
+    const handler = REPLAY_HANDLERS[entry.action];
+    if (!handler) {
+      steps.push({ step: entry.step, action: entry.action, description: describeStep(entry.params), status: 'skipped' });
+      continue;
+    }
+
+    const recordedTab = entry.params.tab_id ?? entry.params.tab_index ?? 0;
+    const tab = targetIds.get(recordedTab) || recordedTab;
+    const start = Date.now();
+    let value;
+    let error = null;
+    try {
+      value = await handler(tab, entry.params);
+    } catch (e) {
+      error = e.message;
+    }
+
+    if (entry.action === 'new_tab' && value && entry.outcome?.targetId) {
+      targetIds.set(entry.outcome.targetId, value.id);
+    }
+    const outcome = await describeStepOutcome(entry.action, 'url' in (entry.outcome || {}) ? tab : null, {
+      error,
+      value: typeof value === 'string' ? value : value === undefined ? '' : JSON.stringify(value)
+    });
+    const differences = compareStepOutcomes(entry.outcome || { ok: true }, outcome);
+    const step = {
+      step: entry.step,
+      action: entry.action,
+      description: describeStep(entry.params),
+      status: differences.length > 0 ? 'differs' : 'match',
+      durationMs: Date.now() - start,
+      differences
+    };
+    steps.push(step);
+    if (differences.length > 0 && !firstDifference) {
+      firstDifference = step;
+      if (!options.continue) break;
+    }
+  }
+
+  return { file, steps, firstDifference };
+}
+
+function formatReplayResult(result) {
+  const replayed = result.steps.filter(step => step.status !== 'skipped').length;
+  const skipped = result.steps.length - replayed;
+  const lines = [`Replayed ${replayed} step${replayed === 1 ? '' : 's'} from ${result.file}${skipped > 0 ? ` (${skipped} skipped: not replayable)` : ''}`];
+  for (const step of result.steps) {
+    const mark = step.status === 'match' ? '✓' : step.status === 'differs' ? '✗' : '-';
+    lines.push(`  ${mark} ${step.step} ${step.description}${step.durationMs !== undefined ? ` (${step.durationMs}ms)` : ''}`);
+    for (const difference of step.differences || []) {
+      lines.push(`      ${difference.field}: recorded ${JSON.stringify(difference.recorded)}, now ${JSON.stringify(difference.replayed)}`);
+    }
+  }
+  lines.push(result.firstDifference
+    ? `First difference at step ${result.firstDifference.step} (${result.firstDifference.description})`
+    : 'All replayed outcomes match the recording');
+  return lines.join('\n');
+}
+
+// =============================================================================
+// BATCH STEPS AND ASSERTIONS (expect_text, expect_url, expect_element_count, expect_attr)
+// =============================================================================
+
+const EXPECT_ACTIONS = ['expect_text', 'expect_url', 'expect_element_count', 'expect_attr'];
+
+// Assertions retry until the page catches up or this runs out (per step: timeout)
+const DEFAULT_EXPECT_TIMEOUT = 2000;
+
+function canRunWithoutCapture(action) {
+  return Object.prototype.hasOwnProperty.call(REPLAY_HANDLERS, action);
+}
+
+/**
+ * Run one action with the replay handlers: no captures, and interactions
+ * wait for the page to settle instead
+ */
+async function runStepWithoutCapture(tabIndexOrWsUrl, params) {
+  if (!canRunWithoutCapture(params.action)) {
+    throw new Error(`${params.action} cannot run without a capture`);
+  }
+  return REPLAY_HANDLERS[params.action](tabIndexOrWsUrl, params);
+}
+
+// "text" → substring, "/regex/flags" → regular expression
+function matchesExpectedText(actual, expected) {
+  if (actual === null || actual === undefined) return false;
+  const regexMatch = String(expected).match(/^\/(.+)\/([dgimsuy]*)$/);
+  if (regexMatch) {
+    return new RegExp(regexMatch[1], regexMatch[2]).test(actual);
+  }
+  return String(actual).includes(expected);
+}
+
+function describeActual(value) {
+  if (value === null || value === undefined) return 'nothing';
+  const text = String(value).replace(/\s+/g, ' ').trim();
+  return JSON.stringify(text.length > 80 ? text.slice(0, 80) + '…' : text);
+}
+
+/**
+ * Check an assertion step against what the page shows. Pure, so the rules
+ * can be tested without a browser.
+ * @param {Object} step - { action, selector, payload, options }
+ * @param {*} actual - From readExpectationActual(); undefined when the element is missing
+ * @returns {Object} { pass, expected, actual } (expected/actual as readable text)
+ */
+function evaluateExpectation(step, actual) {
+  const options = step.options || {};
+  const missing = `no element matches ${step.selector}`;
+  switch (step.action) {
+    case 'expect_text':
+      return {
+        pass: actual !== undefined && matchesExpectedText(actual, step.payload),
+        expected: `${JSON.stringify(step.payload)} in ${step.selector || 'page'}`,
+        actual: actual === undefined ? missing : describeActual(actual)
+      };
+    case 'expect_url':
+      return {
+        pass: matchesUrlPattern(actual || '', step.payload),
+        expected: `URL matching ${step.payload}`,
+        actual: actual || 'no URL'
+      };
+    case 'expect_element_count': {
+      const exact = step.payload !== undefined && step.payload !== '' ? Number(step.payload) : null;
+      const bounds = [
+        exact !== null ? `${exact}` : null,
+        options.min !== undefined ? `>= ${options.min}` : null,
+        options.max !== undefined ? `<= ${options.max}` : null
+      ].filter(Boolean);
+      return {
+        pass: (exact === null || actual === exact)
+          && (options.min === undefined || actual >= options.min)
+          && (options.max === undefined || actual <= options.max),
+        expected: `${bounds.join(' and ')} elements matching ${step.selector}`,
+        actual: `${actual}`
+      };
+    }
+    case 'expect_attr': {
+      if (options.value === undefined) {
+        return {
+          pass: actual !== undefined && actual !== null,
+          expected: `${step.selector} to have ${step.payload}`,
+          actual: actual === undefined ? missing : actual === null ? 'attribute not set' : describeActual(actual)
+        };
+      }
+      const expectedValue = String(options.value);
+      const isRegex = /^\/.+\/[dgimsuy]*$/.test(expectedValue);
+      return {
+        pass: actual !== undefined && actual !== null && (isRegex ? matchesExpectedText(actual, expectedValue) : actual === expectedValue),
+        expected: `${step.payload}=${isRegex ? expectedValue : JSON.stringify(expectedValue)} on ${step.selector}`,
+        actual: actual === undefined ? missing : actual === null ? 'attribute not set' : describeActual(actual)
+      };
+    }
+    default:
+      throw new Error(`Unknown assertion: ${step.action} (use ${EXPECT_ACTIONS.join(', ')})`);
+  }
+}
+
+function validateExpectation(step) {
+  if (step.action === 'expect_text' || step.action === 'expect_url') {
+    if (!step.payload || typeof step.payload !== 'string') {
+      throw new Error(`${step.action} requires payload with ${step.action === 'expect_url' ? 'URL pattern' : 'expected text'}`);
+    }
+  } else if (step.action === 'expect_element_count') {
+    const options = step.options || {};
+    if (!step.selector) throw new Error('expect_element_count requires selector');
+    if ((step.payload === undefined || step.payload === '') && options.min === undefined && options.max === undefined) {
+      throw new Error('expect_element_count requires payload with the count, or options.min/options.max');
+    }
+    if (step.payload !== undefined && step.payload !== '' && !/^\d+$/.test(String(step.payload))) {
+      throw new Error(`expect_element_count payload must be a number: ${step.payload}`);
+    }
+  } else if (step.action === 'expect_attr') {
+    if (!step.selector || !step.payload) throw new Error('expect_attr requires selector and payload with attribute name');
+  } else {
+    throw new Error(`Unknown assertion: ${step.action} (use ${EXPECT_ACTIONS.join(', ')})`);
+  }
+}
+
+// What an assertion looks at right now; undefined when its element is missing
+async function readExpectationActual(tabIndexOrWsUrl, step) {
+  const wsUrl = await resolveWsUrl(tabIndexOrWsUrl);
+  let target;
+  try {
+    target = await prepareSelector(wsUrl, step.selector || null);
+  } catch (e) {
+    // Frames in a scoped selector may not exist yet
+    if (!/not found|no document yet/.test(e.message)) throw e;
+    return step.action === 'expect_element_count' ? 0 : undefined;
+  }
+
+  let js;
+  if (step.action === 'expect_url') {
+    js = 'location.href';
+  } else if (step.action === 'expect_element_count') {
+    js = `${getElementSelectorAll(target.selector)}.length`;
+  } else if (step.action === 'expect_attr') {
+    js = `(() => {
+      const el = ${getElementSelector(target.selector)};
+      if (!el) return { missing: true };
+      return { value: el.getAttribute(${JSON.stringify(step.payload)}) };
+    })()`;
+  } else {
+    js = step.selector
+      ? `(() => { const el = ${getElementSelector(target.selector)}; return el ? { value: el.innerText ?? el.textContent } : { missing: true }; })()`
+      : '({ value: document.body ? document.body.innerText : "" })';
+  }
+
+  const result = await sendCdpCommand(wsUrl, 'Runtime.evaluate', {
+    expression: js,
+    returnByValue: true,
+    contextId: step.action === 'expect_url' ? undefined : target.contextId
+  });
+  const value = result.result?.value;
+  if (value && typeof value === 'object') {
+    return value.missing ? undefined : value.value;
+  }
+  return value;
+}
+
+/**
+ * Retry an assertion step until it passes or its timeout runs out
+ * @returns {string} What was expected, for the step report
+ */
+async function runExpectation(tabIndexOrWsUrl, step) {
+  validateExpectation(step);
+  const timeout = step.timeout ?? DEFAULT_EXPECT_TIMEOUT;
+  const start = Date.now();
+
+  while (true) {
+    let check;
+    try {
+      check = evaluateExpectation(step, await readExpectationActual(tabIndexOrWsUrl, step));
+    } catch (e) {
+      // Mid-navigation; the next poll sees the new document
+      check = { pass: false, expected: describeStep(step), actual: e.message };
+    }
+    if (check.pass) {
+      return check.expected;
+    }
+    if (Date.now() - start >= timeout) {
+      throw new Error(`${step.action} failed: expected ${check.expected}, got ${check.actual}`);
+    }
+    await sleep(100);
+  }
+}
+
+// =============================================================================
+// PERFORMANCE (metrics, Web Vitals, tracing and coverage)
+// =============================================================================
+
+// Web Vitals thresholds: [good up to, poor above]
+const WEB_VITAL_THRESHOLDS = {
+  lcp: [2500, 4000],
+  cls: [0.1, 0.25],
+  inp: [200, 500],
+  fcp: [1800, 3000],
+  ttfb: [800, 1800]
+};
+
+// Performance.getMetrics entries shown in the perf response
+const PERF_METRIC_NAMES = ['Nodes', 'JSEventListeners', 'JSHeapUsedSize', 'JSHeapTotalSize', 'LayoutCount', 'RecalcStyleCount', 'ScriptDuration', 'TaskDuration'];
+
+// Trace categories: roughly what the DevTools Performance panel records
+const DEFAULT_TRACE_CATEGORIES = [
+  '-*',
+  'devtools.timeline',
+  'disabled-by-default-devtools.timeline',
+  'disabled-by-default-devtools.timeline.frame',
+  'disabled-by-default-devtools.timeline.stack',
+  'toplevel',
+  'blink.console',
+  'blink.user_timing',
+  'latencyInfo',
+  'loading',
+  'v8.execute',
+  'disabled-by-default-v8.cpu_profiler'
+];
+
+// Recordings started by startTrace(), per tab (wsUrl -> { startedAt, coverage, styleSheets }).
+// Tracing, Profiler and CSS state belong to the pooled connection's session, so
+// their commands never fall back to a single-use connection.
+const activeTraces = new Map();
+
+// In-page observers for LCP, CLS, INP and long tasks, kept in window.__superpowersPerf.
+// Installed on new documents once a tab navigates or is measured; buffered entries
+// cover pages loaded before that.
+const PERF_OBSERVER_JS = `(() => {
+  if (window.__superpowersPerf || typeof PerformanceObserver === 'undefined') return;
+  const perf = window.__superpowersPerf = { lcp: null, cls: 0, inp: null, interactions: 0, longTasks: [] };
+  const describe = (el) => {
+    if (!el || !el.tagName) return null;
+    return el.tagName.toLowerCase() + (el.id ? '#' + el.id : '') + (typeof el.className === 'string' && el.className.trim() ? '.' + el.className.trim().split(/\\s+/)[0] : '');
+  };
+  const observe = (type, callback, options = {}) => {
+    try {
+      new PerformanceObserver(list => list.getEntries().forEach(callback)).observe({ type, buffered: true, ...options });
+    } catch (e) {
+      // Entry type not supported by this browser
+    }
+  };
+
+  observe('largest-contentful-paint', entry => {
+    perf.lcp = { value: Math.round(entry.startTime), element: describe(entry.element), url: entry.url || null, size: entry.size };
+  });
+
+  // Largest session window: shifts less than 1s apart, at most 5s long
+  let windowValue = 0;
+  let windowStart = 0;
+  let windowLast = 0;
+  observe('layout-shift', entry => {
+    if (entry.hadRecentInput) return;
+    if (windowValue && entry.startTime - windowLast < 1000 && entry.startTime - windowStart < 5000) {
+      windowValue += entry.value;
+    } else {
+      windowValue = entry.value;
+      windowStart = entry.startTime;
+    }
+    windowLast = entry.startTime;
+    perf.cls = Math.max(perf.cls, windowValue);
+  });
+
+  // INP: the longest interaction, ignoring one per 50 interactions (approximate p98)
+  const interactions = new Map();
+  const onEvent = entry => {
+    if (!entry.interactionId) return;
+    const previous = interactions.get(entry.interactionId);
+    if (!previous || entry.duration > previous.duration) {
+      interactions.set(entry.interactionId, { duration: entry.duration, type: entry.name, target: describe(entry.target) });
+    }
+    const sorted = [...interactions.values()].sort((a, b) => b.duration - a.duration);
+    const worst = sorted[Math.min(sorted.length - 1, Math.floor(sorted.length / 50))];
+    perf.inp = { value: Math.round(worst.duration), type: worst.type, target: worst.target };
+    perf.interactions = interactions.size;
+  };
+  observe('event', onEvent, { durationThreshold: 16 });
+  observe('first-input', onEvent);
+
+  observe('longtask', entry => {
+    if (perf.longTasks.length >= 200) return;
+    const attribution = entry.attribution && entry.attribution[0];
+    perf.longTasks.push({
+      start: Math.round(entry.startTime),
+      duration: Math.round(entry.duration),
+      container: attribution ? (attribution.containerSrc || attribution.containerName || attribution.containerType || null) : null
+    });
+  });
+})()`;
+
+// Timing, vitals and resources of the current document (uses PERF_OBSERVER_JS data)
+const PERF_COLLECT_JS = `(() => {
+  const round = (value) => value === undefined || value === null ? null : Math.round(value);
+  const nav = performance.getEntriesByType('navigation')[0];
+  const fcp = performance.getEntriesByName('first-contentful-paint')[0];
+  const navigation = nav ? {
+    type: nav.type,
+    redirect: round(nav.redirectEnd - nav.redirectStart),
+    dns: round(nav.domainLookupEnd - nav.domainLookupStart),
+    connect: round(nav.connectEnd - nav.connectStart),
+    ttfb: round(nav.responseStart),
+    response: round(nav.responseEnd - nav.responseStart),
+    domInteractive: round(nav.domInteractive),
+    domContentLoaded: round(nav.domContentLoadedEventEnd),
+    load: round(nav.loadEventEnd) || null,
+    transferSize: nav.transferSize,
+    protocol: nav.nextHopProtocol || null
+  } : null;
+
+  const resources = {};
+  let total = { count: 0, transferSize: 0, decodedSize: 0 };
+  for (const entry of performance.getEntriesByType('resource')) {
+    const type = entry.initiatorType || 'other';
+    const bucket = resources[type] || (resources[type] = { count: 0, transferSize: 0, decodedSize: 0 });
+    for (const target of [bucket, total]) {
+      target.count++;
+      target.transferSize += entry.transferSize || 0;
+      target.decodedSize += entry.decodedBodySize || 0;
+    }
+  }
+
+  const perf = window.__superpowersPerf || null;
+  const longTasks = perf ? perf.longTasks : [];
+  const fcpTime = fcp ? fcp.startTime : 0;
+  return {
+    url: location.href,
+    navigation,
+    vitals: {
+      fcp: fcp ? round(fcp.startTime) : null,
+      lcp: perf ? perf.lcp : null,
+      cls: perf ? Math.round(perf.cls * 1000) / 1000 : null,
+      inp: perf ? perf.inp : null,
+      interactions: perf ? perf.interactions : 0
+    },
+    longTasks: {
+      count: longTasks.length,
+      totalDuration: longTasks.reduce((sum, task) => sum + task.duration, 0),
+      // Total blocking time after first contentful paint
+      blockingTime: longTasks.filter(task => task.start >= fcpTime).reduce((sum, task) => sum + Math.max(0, task.duration - 50), 0),
+      longest: [...longTasks].sort((a, b) => b.duration - a.duration).slice(0, 5)
+    },
+    resources: { total, byType: resources },
+    observers: !!perf
+  };
+})()`;
+
+// Tabs whose pooled connection has PERF_OBSERVER_JS registered for new documents
+const perfObserverTabs = new Set();
+
+// Observers go in before any page script runs. Registered on first use rather than
+// on every connection; the registration ends with the connection.
+async function ensurePerfObservers(wsUrl) {
+  if (perfObserverTabs.has(wsUrl)) return;
+  await sendCdpCommandPooled(wsUrl, 'Page.addScriptToEvaluateOnNewDocument', { source: PERF_OBSERVER_JS });
+  perfObserverTabs.add(wsUrl);
+}
+
+addTabDisconnectHandler((wsUrl) => {
+  perfObserverTabs.delete(wsUrl);
+  // Chrome stops tracing and coverage with the session that started them
+  activeTraces.delete(wsUrl);
+});
+
+addTabEventHandler((wsUrl, event) => {
+  const trace = activeTraces.get(wsUrl);
+  if (trace && event.method === 'CSS.styleSheetAdded') {
+    const header = event.params.header;
+    trace.styleSheets.set(header.styleSheetId, { url: header.sourceURL || (header.isInline ? '(inline)' : '(constructed)'), length: header.length });
+  }
+});
+
+addTabCleanupHandler((wsUrl) => {
+  activeTraces.delete(wsUrl);
+  perfObserverTabs.delete(wsUrl);
+});
+
+// "good", "needs-improvement" or "poor" for a Web Vitals value
+function rateWebVital(name, value) {
+  const thresholds = WEB_VITAL_THRESHOLDS[name];
+  if (!thresholds || value === null || value === undefined) return null;
+  return value <= thresholds[0] ? 'good' : value <= thresholds[1] ? 'needs-improvement' : 'poor';
+}
+
+// "FCP 3.20s [poor]"; good values carry no label
+function ratingLabel(rating, text) {
+  return rating && rating !== 'good' ? `${text} [${rating}]` : text;
+}
+
+function formatMs(ms) {
+  if (ms === null || ms === undefined) return 'n/a';
+  return ms >= 1000 ? `${(ms / 1000).toFixed(2)}s` : `${Math.round(ms)}ms`;
+}
+
+// Navigation timing, vitals and resources; installs the observers on pages loaded before they were registered
+async function collectPagePerformance(wsUrl) {
+  const installed = await sendCdpCommand(wsUrl, 'Runtime.evaluate', { expression: PERF_OBSERVER_JS });
+  if (installed.exceptionDetails) {
+    throw new Error(`Performance observers failed: ${installed.exceptionDetails.exception?.description || installed.exceptionDetails.text}`);
+  }
+  // Let buffered observer callbacks run
+  await sleep(50);
+  const result = await sendCdpCommand(wsUrl, 'Runtime.evaluate', { expression: PERF_COLLECT_JS, returnByValue: true });
+  if (result.exceptionDetails) {
+    throw new Error(`Performance collection failed: ${result.exceptionDetails.exception?.description || result.exceptionDetails.text}`);
+  }
+  return result.result.value;
+}
+
+/**
+ * Performance report for a tab: Performance.getMetrics, navigation timing,
+ * LCP/CLS/INP (with ratings), long tasks and resources by type. Saved as JSON
+ * in the session dir.
+ * @param {Object} options - { filename }
+ */
+async function getPerformanceReport(tabIndexOrWsUrl, options = {}) {
+  const path = require('path');
+  const wsUrl = await resolveWsUrl(tabIndexOrWsUrl);
+
+  await ensurePerfObservers(wsUrl);
+  await sendCdpCommand(wsUrl, 'Performance.enable', { timeDomain: 'timeTicks' });
+  const { metrics: rawMetrics } = await sendCdpCommand(wsUrl, 'Performance.getMetrics');
+  const metrics = Object.fromEntries((rawMetrics || []).map(metric => [metric.name, metric.value]));
+  const page = await collectPagePerformance(wsUrl);
+
+  const vitals = page.vitals;
+  const ratings = {
+    ttfb: rateWebVital('ttfb', page.navigation?.ttfb),
+    fcp: rateWebVital('fcp', vitals.fcp),
+    lcp: rateWebVital('lcp', vitals.lcp?.value),
+    cls: rateWebVital('cls', vitals.cls),
+    inp: rateWebVital('inp', vitals.inp?.value)
+  };
+
+  const report = { time: new Date().toISOString(), ...page, ratings, metrics };
+  const outputPath = options.filename
+    ? resolveSessionPath(options.filename)
+    : path.join(initializeSession(), `${createCapturePrefix('perf')}-metrics.json`);
+  writeMaskedFile(outputPath, JSON.stringify(report, null, 2));
+  return { ...report, path: outputPath };
+}
+
+function formatPerformanceReport(report) {
+  const rated = (name, text) => ratingLabel(report.ratings[name], text);
+  const nav = report.navigation;
+  const vitals = report.vitals;
+  const lines = [`Performance of ${report.url}`, `Saved to: ${report.path}`];
+
+  if (nav) {
+    lines.push(`Navigation (${nav.type}${nav.protocol ? ', ' + nav.protocol : ''}): ${rated('ttfb', `TTFB ${formatMs(nav.ttfb)}`)}, DOMContentLoaded ${formatMs(nav.domContentLoaded)}, load ${formatMs(nav.load)}` +
+      ` (DNS ${formatMs(nav.dns)}, connect ${formatMs(nav.connect)}, response ${formatMs(nav.response)}, document ${formatBytes(nav.transferSize || 0)})`);
+  }
+  lines.push(`Web Vitals: ${[
+    rated('fcp', `FCP ${formatMs(vitals.fcp)}`),
+    rated('lcp', `LCP ${formatMs(vitals.lcp?.value)}${vitals.lcp?.element ? ' (' + vitals.lcp.element + ')' : ''}`),
+    rated('cls', `CLS ${vitals.cls ?? 'n/a'}`),
+    rated('inp', vitals.inp ? `INP ${formatMs(vitals.inp.value)} (${vitals.inp.type} on ${vitals.inp.target || 'page'}, ${vitals.interactions} interactions)` : 'INP n/a (no interactions yet)')
+  ].join(', ')}`);
+
+  const tasks = report.longTasks;
+  lines.push(`Long tasks: ${tasks.count}${tasks.count ? `, ${formatMs(tasks.totalDuration)} total, blocking time ${formatMs(tasks.blockingTime)}, longest ${tasks.longest.map(task => `${task.duration}ms@${formatMs(task.start)}`).join(' ')}` : ''}`);
+
+  const { total, byType } = report.resources;
+  const types = Object.entries(byType).sort((a, b) => b[1].transferSize - a[1].transferSize);
+  lines.push(`Resources: ${total.count} requests, ${formatBytes(total.transferSize)} transferred (${formatBytes(total.decodedSize)} decoded)`);
+  for (const [type, bucket] of types) {
+    lines.push(`  ${type}: ${bucket.count}, ${formatBytes(bucket.transferSize)}`);
+  }
+
+  const metrics = PERF_METRIC_NAMES.filter(name => name in report.metrics).map(name => {
+    const value = report.metrics[name];
+    if (name.endsWith('Size')) return `${name} ${formatBytes(value)}`;
+    if (name.endsWith('Duration')) return `${name} ${formatMs(value * 1000)}`;
+    return `${name} ${value}`;
+  });
+  if (metrics.length > 0) {
+    lines.push(`Metrics: ${metrics.join(', ')}`);
+  }
+  if (!report.observers) {
+    lines.push('⚠️ Web Vitals observers unavailable on this page');
+  }
+  return lines.join('\n');
+}
+
+/**
+ * One-line timing for navigate responses, e.g.
+ * "Timing: TTFB 120ms, FCP 340ms, LCP 900ms, load 1.20s, 42 requests / 1.3MB"
+ */
+async function getNavigationTimingSummary(tabIndexOrWsUrl) {
+  const wsUrl = await resolveWsUrl(tabIndexOrWsUrl);
+  const page = await collectPagePerformance(wsUrl);
+  const parts = [];
+  if (page.navigation) parts.push(`TTFB ${formatMs(page.navigation.ttfb)}`);
+  if (page.vitals.fcp !== null) parts.push(`FCP ${formatMs(page.vitals.fcp)}`);
+  if (page.vitals.lcp) parts.push(`LCP ${formatMs(page.vitals.lcp.value)}`);
+  if (page.navigation) parts.push(`DOMContentLoaded ${formatMs(page.navigation.domContentLoaded)}`, `load ${formatMs(page.navigation.load)}`);
+  if (page.vitals.cls) parts.push(`CLS ${page.vitals.cls}`);
+  parts.push(`${page.resources.total.count} requests / ${formatBytes(page.resources.total.transferSize + (page.navigation?.transferSize || 0))}`);
+  return `Timing: ${parts.join(', ')}`;
+}
+
+/**
+ * Start a Chrome trace (Tracing domain) and JS/CSS coverage for a tab.
+ * @param {Object} options - { categories: [trace categories] (default: DevTools Performance panel set),
+ *   screenshots: include filmstrip screenshots, coverage: false skips JS/CSS coverage }
+ */
+async function startTrace(tabIndexOrWsUrl, options = {}) {
+  const wsUrl = await resolveWsUrl(tabIndexOrWsUrl);
+  if (activeTraces.has(wsUrl)) {
+    throw new Error('A trace is already recording on this tab (trace_stop first)');
+  }
+
+  const categories = [...(options.categories || DEFAULT_TRACE_CATEGORIES)];
+  if (options.screenshots) categories.push('disabled-by-default-devtools.screenshot');
+  const trace = { startedAt: Date.now(), coverage: options.coverage !== false, styleSheets: new Map(), categories };
+  activeTraces.set(wsUrl, trace);
+
+  try {
+    if (trace.coverage) {
+      await sendCdpCommandPooled(wsUrl, 'Profiler.enable');
+      await sendCdpCommandPooled(wsUrl, 'Profiler.startPreciseCoverage', { callCount: false, detailed: true });
+      await sendCdpCommandPooled(wsUrl, 'DOM.enable');
+      // Enabling CSS reports every existing stylesheet through CSS.styleSheetAdded
+      await sendCdpCommandPooled(wsUrl, 'CSS.enable');
+      await sendCdpCommandPooled(wsUrl, 'CSS.startRuleUsageTracking');
+    }
+    await sendCdpCommandPooled(wsUrl, 'Tracing.start', {
+      transferMode: 'ReturnAsStream',
+      traceConfig: { recordMode: 'recordAsMuchAsPossible', includedCategories: categories.filter(c => !c.startsWith('-')), excludedCategories: ['*'] }
+    });
+  } catch (e) {
+    activeTraces.delete(wsUrl);
+    throw new Error(`Failed to start trace: ${e.message}`);
+  }
+  return { categories, coverage: trace.coverage };
+}
+
+// Bytes covered by ranges with a non-zero count; inner (later, shorter) ranges override outer ones
+function countCoveredBytes(length, ranges) {
+  const covered = new Uint8Array(length);
+  const ordered = [...ranges].sort((a, b) => a.startOffset - b.startOffset || b.endOffset - a.endOffset);
+  for (const range of ordered) {
+    covered.fill(range.count > 0 ? 1 : 0, Math.max(0, range.startOffset), Math.min(length, range.endOffset));
+  }
+  let used = 0;
+  for (const byte of covered) used += byte;
+  return used;
+}
+
+// Per-file used/unused bytes, most unused first
+function summarizeCoverage(files) {
+  const entries = files
+    .filter(file => file.totalBytes > 0)
+    .map(file => ({ ...file, unusedBytes: file.totalBytes - file.usedBytes, unusedPercent: Math.round((1 - file.usedBytes / file.totalBytes) * 1000) / 10 }))
+    .sort((a, b) => b.unusedBytes - a.unusedBytes);
+  const totalBytes = entries.reduce((sum, file) => sum + file.totalBytes, 0);
+  const usedBytes = entries.reduce((sum, file) => sum + file.usedBytes, 0);
+  return { totalBytes, usedBytes, unusedBytes: totalBytes - usedBytes, files: entries };
+}
+
+async function takeJsCoverage(wsUrl) {
+  const { result } = await sendCdpCommandPooled(wsUrl, 'Profiler.takePreciseCoverage');
+  await sendCdpCommandPooled(wsUrl, 'Profiler.stopPreciseCoverage');
+  await sendCdpCommandPooled(wsUrl, 'Profiler.disable');
+  const files = [];
+  for (const script of result || []) {
+    // Scripts without a URL are eval'd code and DevTools internals
+    if (!script.url || script.url.startsWith('chrome-extension:')) continue;
+    const ranges = script.functions.flatMap(fn => fn.ranges);
+    // The first function is the script itself and spans the whole source
+    const totalBytes = ranges.reduce((max, range) => Math.max(max, range.endOffset), 0);
+    files.push({ url: script.url, totalBytes, usedBytes: countCoveredBytes(totalBytes, ranges) });
+  }
+  return summarizeCoverage(files);
+}
+
+async function takeCssCoverage(wsUrl, styleSheets) {
+  const { ruleUsage } = await sendCdpCommandPooled(wsUrl, 'CSS.stopRuleUsageTracking');
+  await sendCdpCommandPooled(wsUrl, 'CSS.disable').catch(() => {});
+  const bySheet = new Map();
+  for (const rule of ruleUsage || []) {
+    if (!bySheet.has(rule.styleSheetId)) bySheet.set(rule.styleSheetId, []);
+    bySheet.get(rule.styleSheetId).push({ startOffset: rule.startOffset, endOffset: rule.endOffset, count: rule.used ? 1 : 0 });
+  }
+  const files = [];
+  for (const [id, sheet] of styleSheets) {
+    const length = Math.round(sheet.length || 0);
+    files.push({ url: sheet.url, totalBytes: length, usedBytes: countCoveredBytes(length, (bySheet.get(id) || []).filter(range => range.count > 0)) });
+  }
+  return summarizeCoverage(files);
+}
+
+// Turn coverage off without reading it, after a trace failed to stop
+async function stopCoverage(wsUrl) {
+  for (const method of ['Profiler.stopPreciseCoverage', 'Profiler.disable', 'CSS.stopRuleUsageTracking', 'CSS.disable']) {
+    await sendCdpCommandPooled(wsUrl, method).catch(() => {});
+  }
+}
+
+// Read a CDP IO stream to a string
+async function readIoStream(wsUrl, handle) {
+  const chunks = [];
+  for (;;) {
+    const chunk = await sendCdpCommandPooled(wsUrl, 'IO.read', { handle, size: 1024 * 1024 }, 60000);
+    chunks.push(chunk.base64Encoded ? Buffer.from(chunk.data, 'base64') : Buffer.from(chunk.data, 'utf8'));
+    if (chunk.eof) break;
+  }
+  await sendCdpCommandPooled(wsUrl, 'IO.close', { handle }).catch(() => {});
+  return Buffer.concat(chunks);
+}
+
+/**
+ * Stop the trace started by startTrace() and write {prefix}.json (open
+ * in the DevTools Performance panel or ui.perfetto.dev) and {prefix}-coverage.json.
+ * @param {Object} options - { filename: trace file path (default: session dir) }
+ */
+async function stopTrace(tabIndexOrWsUrl, options = {}) {
+  const path = require('path');
+  const wsUrl = await resolveWsUrl(tabIndexOrWsUrl);
+  const trace = activeTraces.get(wsUrl);
+  if (!trace) {
+    throw new Error('No trace is recording on this tab (trace_start first)');
+  }
+  activeTraces.delete(wsUrl);
+
+  // Tracing ends before coverage is taken, so a coverage failure cannot leave Chrome recording
+  let data;
+  try {
+    const complete = waitForTabEvent(wsUrl, 'Tracing.tracingComplete', 120000);
+    await sendCdpCommandPooled(wsUrl, 'Tracing.end');
+    const done = await complete;
+    if (!done || !done.stream) {
+      throw new Error('Trace did not complete within 120s');
+    }
+    data = await readIoStream(wsUrl, done.stream);
+  } catch (e) {
+    if (trace.coverage) await stopCoverage(wsUrl);
+    throw e;
+  }
+
+  const coverage = trace.coverage
+    ? { js: await takeJsCoverage(wsUrl), css: await takeCssCoverage(wsUrl, trace.styleSheets) }
+    : null;
+
+  const prefix = createCapturePrefix('trace');
+  const dir = initializeSession();
+  const tracePath = options.filename ? resolveSessionPath(options.filename) : path.join(dir, `${prefix}.json`);
+  writeMaskedFile(tracePath, data);
+
+  let coveragePath = null;
+  if (coverage) {
+    coveragePath = options.filename
+      ? tracePath.replace(/(\.json)?$/, '-coverage.json')
+      : path.join(dir, `${prefix}-coverage.json`);
+    writeMaskedFile(coveragePath, JSON.stringify(coverage, null, 2));
+  }
+
+  return {
+    durationMs: Date.now() - trace.startedAt,
+    tracePath,
+    traceBytes: data.length,
+    coveragePath,
+    coverage
+  };
+}
+
+function formatTraceResult(result, maxFiles = 5) {
+  const lines = [
+    `Trace recorded for ${formatMs(result.durationMs)}: ${result.tracePath} (${formatBytes(result.traceBytes)}; open in the DevTools Performance panel or ui.perfetto.dev)`
+  ];
+  if (result.coverage) {
+    lines.push(`Coverage: ${result.coveragePath}`);
+    for (const [label, summary] of [['JS', result.coverage.js], ['CSS', result.coverage.css]]) {
+      const percent = summary.totalBytes ? Math.round(summary.unusedBytes / summary.totalBytes * 100) : 0;
+      lines.push(`${label}: ${formatBytes(summary.usedBytes)} of ${formatBytes(summary.totalBytes)} used (${percent}% unused, ${summary.files.length} files)`);
+      for (const file of summary.files.slice(0, maxFiles)) {
+        lines.push(`  ${formatBytes(file.unusedBytes)} unused (${file.unusedPercent}%) ${file.url}`);
+      }
+    }
+  }
+  return lines.join('\n');
+}
+
+// =============================================================================
+// PAGE AUDIT (accessibility and page-quality rules over the DOM and AX tree)
+// =============================================================================
+
+const AUDIT_SEVERITIES = ['critical', 'serious', 'moderate', 'minor'];
+
+const AUDIT_RULES = {
+  'label': { severity: 'critical', description: 'Form controls without an accessible label' },
+  'button-name': { severity: 'critical', description: 'Buttons without an accessible name' },
+  'image-alt': { severity: 'serious', description: 'Images without alt text' },
+  'color-contrast': { severity: 'serious', description: 'Text contrast below WCAG AA (4.5:1, 3:1 for large text)' },
+  'html-lang': { severity: 'serious', description: 'Missing lang attribute on <html>' },
+  'mixed-content': { severity: 'serious', description: 'http:// resources on an https:// page' },
+  'broken-link': { severity: 'serious', description: 'Same-origin links that fail or return 4xx/5xx', optIn: true },
+  'duplicate-id': { severity: 'moderate', description: 'Ids used by more than one element' },
+  'heading-order': { severity: 'moderate', description: 'Heading levels that skip a level' },
+  'target-size': { severity: 'moderate', description: 'Tap targets smaller than 24x24 CSS px' }
+};
+
+// Page-wide rules are skipped when the audit is scoped to an element
+const PAGE_WIDE_AUDIT_RULES = ['html-lang', 'mixed-content'];
+
+// broken-link requests links with the page's cookies, so it is only run when
+// asked for, and never follows links that look like they change state
+const UNSAFE_LINK_PATTERN = /log-?out|log-?off|sign-?out|delete|remove|destroy|unsubscribe|revoke|cancel/i;
+
+// Path and query of a link, checked against UNSAFE_LINK_PATTERN
+function isUnsafeLink(url) {
+  const parsed = new URL(url);
+  return UNSAFE_LINK_PATTERN.test(parsed.pathname + parsed.search);
+}
+
+const DEFAULT_AUDIT_OPTIONS = {
+  maxLinks: 50,        // Same-origin links checked per audit
+  minTargetSize: 24,   // WCAG 2.2 target size (minimum)
+  maxFindings: 500     // Per rule, to keep the JSON readable
+};
+
+// AX roles that need a name from a label
+const LABELLED_ROLES = new Set(['textbox', 'searchbox', 'combobox', 'listbox', 'checkbox', 'radio', 'spinbutton', 'slider', 'switch']);
+
+// "rgb(1, 2, 3)" / "rgba(1, 2, 3, 0.5)" → [r, g, b, a]; null for anything else
+function parseRgbColor(value) {
+  const match = String(value).match(/^rgba?\(\s*([\d.]+)[,\s]+([\d.]+)[,\s]+([\d.]+)(?:\s*[,/]\s*([\d.]+%?))?\s*\)$/);
+  if (!match) return null;
+  let alpha = match[4] === undefined ? 1 : parseFloat(match[4]);
+  if (match[4] && match[4].endsWith('%')) alpha /= 100;
+  return [parseFloat(match[1]), parseFloat(match[2]), parseFloat(match[3]), alpha];
+}
+
+// WCAG contrast ratio between two opaque [r, g, b] colours
+function contrastRatio(foreground, background) {
+  const luminance = (rgb) => {
+    const [r, g, b] = rgb.slice(0, 3).map((channel) => {
+      const c = channel / 255;
+      return c <= 0.03928 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+    });
+    return 0.2126 * r + 0.7152 * g + 0.0722 * b;
+  };
+  const [lighter, darker] = [luminance(foreground), luminance(background)].sort((a, b) => b - a);
+  return (lighter + 0.05) / (darker + 0.05);
+}
+
+// Findings by severity, then rule, then page order
+function rankAuditFindings(findings) {
+  const ruleOrder = Object.keys(AUDIT_RULES);
+  return findings
+    .map((finding, order) => ({ finding, order }))
+    .sort((a, b) =>
+      AUDIT_SEVERITIES.indexOf(a.finding.severity) - AUDIT_SEVERITIES.indexOf(b.finding.severity) ||
+      ruleOrder.indexOf(a.finding.rule) - ruleOrder.indexOf(b.finding.rule) ||
+      a.order - b.order)
+    .map(({ finding }) => finding);
+}
+
+// Shared in-page helpers: a stable CSS path and a short HTML snippet for an element
+const AUDIT_HELPERS_JS = `
+  const cssPath = (el) => {
+    const parts = [];
+    let current = el;
+    while (current && current.nodeType === 1 && current !== document.documentElement) {
+      if (current.id && document.querySelectorAll('#' + CSS.escape(current.id)).length === 1) {
+        parts.unshift('#' + CSS.escape(current.id));
+        break;
+      }
+      let part = current.tagName.toLowerCase();
+      const parent = current.parentElement;
+      if (parent) {
+        const sameTag = Array.from(parent.children).filter(child => child.tagName === current.tagName);
+        if (sameTag.length > 1) part += ':nth-of-type(' + (sameTag.indexOf(current) + 1) + ')';
+      }
+      parts.unshift(part);
+      current = parent;
+    }
+    return parts.join(' > ') || 'html';
+  };
+  const snippetOf = (el) => {
+    const html = el.outerHTML || '';
+    const open = html.slice(0, html.indexOf('>') + 1) || html;
+    return open.length > 120 ? open.slice(0, 120) + '…' : open;
+  };
+`;
+
+// In-page DOM rules; called as (AUDIT_DOM_JS)(scope, options) and resolves to findings
+const AUDIT_DOM_JS = `async (scope, options) => {
+  ${AUDIT_HELPERS_JS}
+  const parseRgbColor = ${parseRgbColor.toString()};
+  const contrastRatio = ${contrastRatio.toString()};
+  const root = scope || document.body || document.documentElement;
+  const enabled = (rule) => options.rules.includes(rule);
+  const findings = [];
+  const perRule = {};
+  const report = (rule, el, message, details) => {
+    perRule[rule] = (perRule[rule] || 0) + 1;
+    if (perRule[rule] > options.maxFindings) return;
+    findings.push({ rule, selector: el ? cssPath(el) : null, message, snippet: el ? snippetOf(el) : null, ...(details ? { details } : {}) });
+  };
+  const isVisible = (el) => el.checkVisibility
+    ? el.checkVisibility({ checkVisibilityCSS: true, checkOpacity: true })
+    : el.getClientRects().length > 0;
+  const isHiddenFromAT = (el) => !!el.closest('[aria-hidden=true], [hidden]');
+  const all = (selector) => [
+    ...(scope && scope.matches && scope.matches(selector) ? [scope] : []),
+    ...root.querySelectorAll(selector)
+  ];
+
+  if (enabled('image-alt')) {
+    for (const img of all('img, input[type=image]')) {
+      if (img.hasAttribute('alt') || isHiddenFromAT(img)) continue;
+      if (['presentation', 'none'].includes(img.getAttribute('role'))) continue;
+      if (img.getAttribute('aria-label') || img.getAttribute('aria-labelledby')) continue;
+      report('image-alt', img, 'Image has no alt attribute (use alt="" for decorative images)', { src: img.currentSrc || img.src || null });
+    }
+  }
+
+  if (enabled('duplicate-id')) {
+    const seen = new Set();
+    for (const el of all('[id]')) {
+      if (!el.id || seen.has(el.id)) continue;
+      seen.add(el.id);
+      const count = document.querySelectorAll('[id="' + CSS.escape(el.id) + '"]').length;
+      if (count > 1) {
+        report('duplicate-id', el, 'id "' + el.id + '" is used by ' + count + ' elements', { id: el.id, count });
+      }
+    }
+  }
 
-      // Handle Runtime.enable response
-      if (data.id === 999999 && !enabledRuntime) {
-        enabledRuntime = true;
-        // Don't close the WebSocket - keep it open for console messages
-        resolve();
-        return;
+  if (enabled('heading-order')) {
+    let previous = null;
+    for (const heading of all('h1, h2, h3, h4, h5, h6, [role=heading][aria-level]')) {
+      if (!isVisible(heading) || isHiddenFromAT(heading)) continue;
+      const level = heading.getAttribute('role') === 'heading'
+        ? parseInt(heading.getAttribute('aria-level'), 10)
+        : parseInt(heading.tagName.slice(1), 10);
+      if (!level) continue;
+      if (previous !== null && level > previous + 1) {
+        report('heading-order', heading, 'Heading level ' + level + ' follows level ' + previous + ' (skips ' + (level - previous - 1) + ')', { level, previous });
       }
+      previous = level;
+    }
+  }
+
+  if (enabled('html-lang') && !(document.documentElement.getAttribute('lang') || '').trim()) {
+    report('html-lang', document.documentElement, 'The <html> element has no lang attribute');
+  }
 
-      // Capture console messages
-      if (data.method === 'Runtime.consoleAPICalled') {
-        const entry = data.params;
-        const timestamp = new Date().toISOString();
-        const level = entry.type || 'log';
-        const args = entry.args || [];
-
-        // Extract text from arguments
-        const text = args.map(arg => {
-          if (arg.type === 'string') return arg.value;
-          if (arg.type === 'number') return String(arg.value);
-          if (arg.type === 'boolean') return String(arg.value);
-          if (arg.type === 'object') return arg.description || '[Object]';
-          return String(arg.value || arg.description || arg.type);
-        }).join(' ');
-
-        const messages = consoleMessages.get(wsUrl) || [];
-        messages.push({
-          timestamp,
-          level,
-          text
+  if (enabled('color-contrast')) {
+    const checked = new Set();
+    const backgroundOf = (el) => {
+      const layers = [];
+      for (let current = el; current && current.nodeType === 1; current = current.parentElement) {
+        const style = getComputedStyle(current);
+        // Text over images and gradients can't be judged from colours
+        if (style.backgroundImage && style.backgroundImage !== 'none') return null;
+        const color = parseRgbColor(style.backgroundColor);
+        if (color && color[3] > 0) {
+          layers.push(color);
+          if (color[3] >= 1) break;
+        }
+      }
+      let result = [255, 255, 255];
+      for (const [r, g, b, a] of layers.reverse()) {
+        result = [r * a + result[0] * (1 - a), g * a + result[1] * (1 - a), b * a + result[2] * (1 - a)];
+      }
+      return result;
+    };
+    let examined = 0;
+    for (const el of all('*')) {
+      if (examined >= 5000) break;
+      if (checked.has(el) || ['SCRIPT', 'STYLE', 'NOSCRIPT', 'TEMPLATE', 'OPTION'].includes(el.tagName)) continue;
+      const hasText = Array.from(el.childNodes).some(node => node.nodeType === 3 && node.textContent.trim());
+      if (!hasText || !isVisible(el) || isHiddenFromAT(el)) continue;
+      checked.add(el);
+      examined++;
+      const style = getComputedStyle(el);
+      const color = parseRgbColor(style.color);
+      const background = backgroundOf(el);
+      if (!color || !background || color[3] === 0) continue;
+      const foreground = [0, 1, 2].map(c => color[c] * color[3] + background[c] * (1 - color[3]));
+      const ratio = contrastRatio(foreground, background);
+      const size = parseFloat(style.fontSize);
+      const bold = parseInt(style.fontWeight, 10) >= 700;
+      const large = size >= 24 || (bold && size >= 18.66);
+      const required = large ? 3 : 4.5;
+      if (ratio < required) {
+        report('color-contrast', el, 'Contrast ' + ratio.toFixed(2) + ':1 is below ' + required + ':1', {
+          ratio: Math.round(ratio * 100) / 100,
+          required,
+          color: style.color,
+          background: 'rgb(' + background.map(Math.round).join(', ') + ')',
+          fontSize: style.fontSize,
+          text: el.textContent.trim().slice(0, 60)
         });
-        consoleMessages.set(wsUrl, messages);
       }
-    });
+    }
+  }
 
-    ws.on('error', (err) => {
-      if (!enabledRuntime) {
-        reject(err);
+  if (enabled('target-size')) {
+    const min = options.minTargetSize;
+    const targets = 'a[href], button, input:not([type=hidden]), select, textarea, summary, [role=button], [role=link], [role=checkbox], [role=radio], [role=switch], [role=tab], [role=menuitem]';
+    for (const el of all(targets)) {
+      if (el.disabled || !isVisible(el) || isHiddenFromAT(el)) continue;
+      // Links inside running text are exempt
+      if (el.tagName === 'A' && getComputedStyle(el).display === 'inline'
+        && el.parentElement && el.parentElement.textContent.trim().length > el.textContent.trim().length) continue;
+      const rect = el.getBoundingClientRect();
+      if (rect.width > 0 && rect.height > 0 && (rect.width < min || rect.height < min)) {
+        report('target-size', el, 'Target is ' + Math.round(rect.width) + 'x' + Math.round(rect.height) + ' px (minimum ' + min + 'x' + min + ')', {
+          width: Math.round(rect.width),
+          height: Math.round(rect.height)
+        });
       }
-    });
+    }
+  }
 
-    ws.connect()
-      .then(() => {
-        // Enable Runtime domain to receive console messages
-        ws.send(JSON.stringify({
-          id: 999999, // Use fixed ID to identify this response
-          method: 'Runtime.enable'
-        }));
-      })
-      .catch(reject);
+  if (enabled('mixed-content') && location.protocol === 'https:') {
+    const reported = new Set();
+    const attributes = [['img', 'src'], ['script', 'src'], ['iframe', 'src'], ['video', 'src'], ['audio', 'src'], ['source', 'src'], ['embed', 'src'], ['object', 'data'], ['link[rel~=stylesheet]', 'href'], ['form', 'action']];
+    for (const [selector, attribute] of attributes) {
+      for (const el of document.querySelectorAll(selector + '[' + attribute + ']')) {
+        const url = el[attribute] || el.getAttribute(attribute);
+        if (typeof url !== 'string' || !url.startsWith('http:') || reported.has(url)) continue;
+        reported.add(url);
+        const active = ['SCRIPT', 'IFRAME', 'LINK', 'OBJECT', 'EMBED'].includes(el.tagName);
+        report('mixed-content', el, (el.tagName === 'FORM' ? 'Form submits' : active ? 'Active content loaded' : 'Loaded') + ' over http: ' + url, { url, active });
+      }
+    }
+    for (const entry of performance.getEntriesByType('resource')) {
+      if (!entry.name.startsWith('http:') || reported.has(entry.name)) continue;
+      reported.add(entry.name);
+      report('mixed-content', null, 'Requested over http: ' + entry.name, { url: entry.name, initiator: entry.initiatorType });
+    }
+  }
 
-    // Timeout after 5s
-    setTimeout(() => {
-      if (!enabledRuntime) {
-        ws.close();
-        reject(new Error('Console logging enable timeout'));
+  if (enabled('broken-link')) {
+    const links = new Map();
+    const unsafe = new Set();
+    const unsafeLink = new RegExp(options.unsafeLinkPattern, 'i');
+    for (const a of all('a[href]')) {
+      let url;
+      try {
+        url = new URL(a.getAttribute('href'), document.baseURI);
+      } catch (e) {
+        report('broken-link', a, 'Invalid href: ' + a.getAttribute('href'));
+        continue;
       }
-    }, 5000);
-  });
+      if (url.origin !== location.origin || !/^https?:$/.test(url.protocol)) continue;
+      if (unsafeLink.test(url.pathname + url.search)) {
+        unsafe.add(url.pathname + url.search);
+        continue;
+      }
+      url.hash = '';
+      if (!links.has(url.href)) links.set(url.href, []);
+      links.get(url.href).push(a);
+    }
+    const urls = [...links.keys()].slice(0, options.maxLinks);
+    const check = async (url) => {
+      const attempt = async (method) => {
+        const controller = new AbortController();
+        const timer = setTimeout(() => controller.abort(), 8000);
+        try {
+          return await fetch(url, { method, credentials: 'same-origin', redirect: 'follow', signal: controller.signal });
+        } finally {
+          clearTimeout(timer);
+        }
+      };
+      try {
+        let response = await attempt('HEAD');
+        if (response.status === 405 || response.status === 501) response = await attempt('GET');
+        if (response.status >= 400) {
+          const anchors = links.get(url);
+          report('broken-link', anchors[0], 'Link returns ' + response.status + ': ' + url, { url, status: response.status, links: anchors.length });
+        }
+      } catch (e) {
+        const anchors = links.get(url);
+        report('broken-link', anchors[0], 'Link failed to load: ' + url + ' (' + (e.name === 'AbortError' ? 'timeout' : e.message) + ')', { url, links: anchors.length });
+      }
+    };
+    for (let i = 0; i < urls.length; i += 6) {
+      await Promise.all(urls.slice(i, i + 6).map(check));
+    }
+    if (links.size > urls.length) {
+      findings.push({ rule: 'broken-link', skipped: links.size - urls.length });
+    }
+    if (unsafe.size > 0) {
+      findings.push({ rule: 'broken-link', unsafe: unsafe.size });
+    }
+  }
+
+  return findings;
+}`;
+
+/**
+ * Name-based rules from Accessibility.getFullAXTree (top document): controls
+ * without labels, buttons without names and unnamed role=img elements
+ */
+async function auditAccessibilityTree(wsUrl, scopeExpression, rules) {
+  const { nodes } = await sendCdpCommand(wsUrl, 'Accessibility.getFullAXTree', {}, 60000);
+  const candidates = [];
+  for (const node of nodes || []) {
+    if (node.ignored || !node.backendDOMNodeId) continue;
+    const role = node.role?.value;
+    const name = String(node.name?.value ?? '').trim();
+    if (name) continue;
+    if (rules.includes('label') && LABELLED_ROLES.has(role)) {
+      candidates.push({ rule: 'label', node, message: `Unlabelled ${role} (no label, aria-label or aria-labelledby)` });
+    } else if (rules.includes('button-name') && role === 'button') {
+      candidates.push({ rule: 'button-name', node, message: 'Button has no accessible name (no text, aria-label or title)' });
+    } else if (rules.includes('image-alt') && (role === 'image' || role === 'img')) {
+      candidates.push({ rule: 'image-alt', node, message: 'Image has no accessible name' });
+    }
+  }
+
+  const findings = [];
+  for (const candidate of candidates) {
+    let resolved;
+    try {
+      resolved = await sendCdpCommand(wsUrl, 'DOM.resolveNode', { backendNodeId: candidate.node.backendDOMNodeId });
+    } catch (e) {
+      continue;
+    }
+    const described = await sendCdpCommand(wsUrl, 'Runtime.callFunctionOn', {
+      objectId: resolved.object.objectId,
+      functionDeclaration: `function() {
+        ${AUDIT_HELPERS_JS}
+        const scope = ${scopeExpression};
+        return {
+          inScope: !scope || scope === this || scope.contains(this),
+          selector: cssPath(this),
+          snippet: snippetOf(this),
+          tag: this.tagName
+        };
+      }`,
+      returnByValue: true
+    });
+    const info = described.result?.value;
+    // <img> without alt is reported by the DOM rule, with its src
+    if (!info || !info.inScope || (candidate.rule === 'image-alt' && info.tag === 'IMG')) continue;
+    findings.push({ rule: candidate.rule, selector: info.selector, message: candidate.message, snippet: info.snippet });
+  }
+  return findings;
 }
 
-async function getConsoleMessages(tabIndexOrWsUrl, sinceTime = null) {
+/**
+ * Run the audit rules over the page, or one element of it, and save the ranked
+ * findings as JSON in the session dir
+ * @param {Object} options - { selector (scope), rules: [rule ids] (default all but
+ *   broken-link), maxLinks, minTargetSize, filename }
+ * @returns {Object} { url, scope, counts, findings, path, rules, skippedLinks, unsafeLinks }
+ */
+async function auditPage(tabIndexOrWsUrl, options = {}) {
+  const path = require('path');
   const wsUrl = await resolveWsUrl(tabIndexOrWsUrl);
-  const messages = consoleMessages.get(wsUrl) || [];
+  const settings = { ...DEFAULT_AUDIT_OPTIONS, ...options };
 
-  if (!sinceTime) {
-    return messages;
+  const unknown = (options.rules || []).filter(rule => !AUDIT_RULES[rule]);
+  if (unknown.length > 0) {
+    throw new Error(`Unknown audit rule: ${unknown.join(', ')} (rules: ${Object.keys(AUDIT_RULES).join(', ')})`);
+  }
+  const rules = (options.rules && options.rules.length > 0 ? options.rules : Object.keys(AUDIT_RULES).filter(rule => !AUDIT_RULES[rule].optIn))
+    .filter(rule => !(options.selector && PAGE_WIDE_AUDIT_RULES.includes(rule)));
+
+  const target = await prepareSelector(wsUrl, options.selector || null);
+  const scopeExpression = options.selector ? getElementSelector(target.selector) : 'null';
+  if (options.selector) {
+    const exists = await sendCdpCommand(wsUrl, 'Runtime.evaluate', {
+      expression: `!!(${scopeExpression})`,
+      returnByValue: true,
+      contextId: target.contextId
+    });
+    if (!exists.result?.value) {
+      throw new Error(`Element not found: ${options.selector}`);
+    }
   }
 
-  // Filter messages since the specified time
-  return messages.filter(msg => new Date(msg.timestamp) > sinceTime);
+  const domResult = await sendCdpCommand(wsUrl, 'Runtime.evaluate', {
+    expression: `(${AUDIT_DOM_JS})(${scopeExpression}, ${JSON.stringify({ rules, maxLinks: settings.maxLinks, unsafeLinkPattern: UNSAFE_LINK_PATTERN.source, minTargetSize: settings.minTargetSize, maxFindings: settings.maxFindings })})`,
+    awaitPromise: true,
+    returnByValue: true,
+    contextId: target.contextId
+  }, 120000);
+  if (domResult.exceptionDetails) {
+    throw new Error(`Audit failed: ${domResult.exceptionDetails.exception?.description || domResult.exceptionDetails.text}`);
+  }
+  const domFindings = domResult.result.value || [];
+  const skippedLinks = domFindings.filter(finding => finding.skipped).reduce((sum, finding) => sum + finding.skipped, 0);
+  const unsafeLinks = domFindings.filter(finding => finding.unsafe).reduce((sum, finding) => sum + finding.unsafe, 0);
+
+  const axFindings = target.contextId === undefined
+    ? await auditAccessibilityTree(wsUrl, scopeExpression, rules)
+    : [];
+
+  const findings = rankAuditFindings(
+    [...domFindings.filter(finding => !finding.skipped && !finding.unsafe), ...axFindings]
+      .map(finding => ({ severity: AUDIT_RULES[finding.rule].severity, ...finding }))
+  );
+  const counts = Object.fromEntries(AUDIT_SEVERITIES.map(severity => [severity, findings.filter(f => f.severity === severity).length]));
+
+  const urlResult = await sendCdpCommand(wsUrl, 'Runtime.evaluate', { expression: 'location.href', returnByValue: true });
+  const report = {
+    url: urlResult.result?.value || null,
+    scope: options.selector || null,
+    time: new Date().toISOString(),
+    rules,
+    counts,
+    ...(skippedLinks > 0 ? { skippedLinks } : {}),
+    ...(unsafeLinks > 0 ? { unsafeLinks } : {}),
+    findings
+  };
+
+  const outputPath = options.filename
+    ? resolveSessionPath(options.filename)
+    : path.join(initializeSession(), `${createCapturePrefix('audit')}-findings.json`);
+  writeMaskedFile(outputPath, JSON.stringify(report, null, 2));
+
+  return { ...report, path: outputPath };
 }
 
-async function clearConsoleMessages(tabIndexOrWsUrl) {
-  const wsUrl = await resolveWsUrl(tabIndexOrWsUrl);
-  consoleMessages.set(wsUrl, []);
+function formatAuditResult(result, maxLines = 20) {
+  const total = result.findings.length;
+  const counts = AUDIT_SEVERITIES.filter(severity => result.counts[severity] > 0).map(severity => `${result.counts[severity]} ${severity}`);
+  const lines = [
+    `Audit of ${result.scope ? `${result.scope} on ` : ''}${result.url}: ${total === 0 ? 'no findings' : `${total} finding${total === 1 ? '' : 's'} (${counts.join(', ')})`}`,
+    `Saved to: ${result.path}`
+  ];
+  for (const finding of result.findings.slice(0, maxLines)) {
+    lines.push(`  [${finding.severity}] ${finding.rule}: ${finding.selector || 'page'} — ${finding.message}`);
+  }
+  if (total > maxLines) {
+    lines.push(`  ... +${total - maxLines} more in ${result.path}`);
+  }
+  if (result.skippedLinks) {
+    lines.push(`  ${result.skippedLinks} same-origin links not checked (options.maxLinks)`);
+  }
+  if (result.unsafeLinks) {
+    lines.push(`  ${result.unsafeLinks} logout/delete-like links not requested`);
+  }
+  return lines.join('\n');
 }
 
 // Session and directory management
@@ -1519,39 +7504,88 @@ function getChromeProfileDir(profileName = 'superpowers-chrome') {
   return path.join(cacheHome, 'superpowers', 'browser-profiles', profileName);
 }
 
-function initializeSession() {
-  if (!sessionDir) {
-    const fs = require('fs');
+/**
+ * Path of the session dir without creating it, for settings Chrome needs up
+ * front (the download path). initializeSession() creates the same dir.
+ */
+function getSessionDirPath() {
+  if (sessionDir) return sessionDir;
+  if (!plannedSessionDir) {
     const path = require('path');
 
-    // Create XDG cache directory structure: ~/.cache/superpowers/browser/YYYY-MM-DD/session-{timestamp}
+    // XDG cache directory structure: ~/.cache/superpowers/browser/YYYY-MM-DD/session-{timestamp}
     const cacheHome = getXdgCacheHome();
     const now = new Date();
     const dateStr = now.toISOString().split('T')[0]; // YYYY-MM-DD
     const sessionId = `session-${Date.now()}`;
+    plannedSessionDir = path.join(cacheHome, 'superpowers', 'browser', dateStr, sessionId);
+  }
+  return plannedSessionDir;
+}
+
+function initializeSession() {
+  if (!sessionDir) {
+    const fs = require('fs');
 
-    sessionDir = path.join(cacheHome, 'superpowers', 'browser', dateStr, sessionId);
+    sessionDir = getSessionDirPath();
+    plannedSessionDir = null;
     fs.mkdirSync(sessionDir, { recursive: true });
+    writeSessionOwner(sessionDir);
     captureCounter = 0;
+    sessionStepCounter = 0;
 
     console.error(`Browser session directory: ${sessionDir}`);
 
+    // Kept sessions and leftovers from crashed runs age out here
+    try {
+      const pruned = pruneSessions();
+      if (pruned.length > 0) {
+        console.error(`Pruned ${pruned.length} old session director${pruned.length === 1 ? 'y' : 'ies'}`);
+      }
+    } catch (error) {
+      console.error(`Failed to prune old sessions: ${error.message}`);
+    }
+
     // Register cleanup on process exit
     process.on('exit', cleanupSession);
-    process.on('SIGINT', () => {
-      cleanupSession();
-      process.exit(0);
-    });
-    process.on('SIGTERM', () => {
-      cleanupSession();
-      process.exit(0);
-    });
+    process.on('SIGINT', exitAfterCleanup);
+    process.on('SIGTERM', exitAfterCleanup);
   }
   return sessionDir;
 }
 
+// Signals leave time to close this process's browser contexts; 'exit' can't wait
+function exitAfterCleanup() {
+  const timeout = new Promise(resolve => setTimeout(resolve, CONTEXT_CLEANUP_TIMEOUT_MS));
+  Promise.race([closeOwnContexts().catch(() => {}), timeout]).then(() => {
+    cleanupSession();
+    process.exit(0);
+  });
+}
+
+/**
+ * Resolve an output filename given by the caller. Relative names land in the
+ * session dir next to the captures (and show up as session resources);
+ * absolute paths are kept. The parent directory is created.
+ */
+function resolveSessionPath(filename) {
+  const fs = require('fs');
+  const path = require('path');
+  const resolved = path.resolve(initializeSession(), filename);
+  fs.mkdirSync(path.dirname(resolved), { recursive: true });
+  return resolved;
+}
+
 function cleanupSession() {
-  if (sessionDir) {
+  if (sessionDir && sessionRetention.keep) {
+    try {
+      removeSessionOwner(sessionDir);
+    } catch (error) {
+      // A stale marker is harmless: its pid is gone once this process exits
+    }
+    console.error(`Session kept: ${sessionDir}`);
+    sessionDir = null;
+  } else if (sessionDir) {
     try {
       const fs = require('fs');
       fs.rmSync(sessionDir, { recursive: true, force: true });
@@ -1563,57 +7597,412 @@ function cleanupSession() {
   }
 }
 
-function createCapturePrefix(actionType = 'navigate') {
-  // Ensure session is initialized
-  initializeSession();
+function createCapturePrefix(actionType = 'navigate') {
+  // Ensure session is initialized
+  initializeSession();
+
+  // Create time-ordered prefix for flat file structure
+  captureCounter++;
+  return `${String(captureCounter).padStart(3, '0')}-${actionType}`;
+}
+
+async function generateDomSummary(tabIndexOrWsUrl) {
+  const wsUrl = await resolveWsUrl(tabIndexOrWsUrl);
+
+  // Smart, token-efficient DOM summary
+  const js = `
+    (() => {
+      // Count interactive elements
+      const buttons = document.querySelectorAll('button, input[type="button"], input[type="submit"]').length;
+      const inputs = document.querySelectorAll('input:not([type="button"]):not([type="submit"]), textarea, select').length;
+      const links = document.querySelectorAll('a[href]').length;
+
+      // Get page structure
+      const title = document.title.slice(0, 60);
+      const allH1s = Array.from(document.querySelectorAll('h1')).map(h => h.textContent.trim().slice(0, 40)).filter(Boolean);
+      const h1s = allH1s.slice(0, 3);
+      const h1Extra = allH1s.length > 3 ? allH1s.length - 3 : 0;
+
+      // Find main content area
+      const main = document.querySelector('main, [role="main"], .main, #main, .content, #content');
+      const mainTag = main ? main.tagName.toLowerCase() + (main.id ? '#' + main.id : main.className ? '.' + main.className.split(' ')[0] : '') : 'body';
+
+      // Check for forms
+      const forms = document.querySelectorAll('form');
+      const formInfo = forms.length > 0 ? \`\${forms.length} form\${forms.length > 1 ? 's' : ''}\` : '';
+
+      // Navigation elements
+      const nav = document.querySelector('nav, [role="navigation"], .nav, #nav') ? 'nav' : '';
+
+      return [
+        \`\${title}\`,
+        \`Interactive: \${buttons} buttons, \${inputs} inputs, \${links} links\`,
+        h1s.length > 0 ? \`Headings: \${h1s.map(h => '"' + h + '"').join(', ')}\${h1Extra > 0 ? ', and ' + h1Extra + ' more' : ''}\` : '',
+        \`Layout: \${nav ? 'nav + ' : ''}\${mainTag}\${formInfo ? ' + ' + formInfo : ''}\`
+      ].filter(Boolean).join('\\n');
+    })()
+  `;
+
+  const result = await sendCdpCommand(wsUrl, 'Runtime.evaluate', {
+    expression: js,
+    returnByValue: true
+  });
+  return result.result.value;
+}
+
+// =============================================================================
+// ACCESSIBILITY SNAPSHOT (element refs usable as selectors)
+// =============================================================================
+
+// Roles that get a ref in the snapshot (things an agent can act on)
+const INTERACTIVE_ROLES = new Set([
+  'button', 'link', 'textbox', 'searchbox', 'checkbox', 'radio', 'combobox',
+  'listbox', 'option', 'menuitem', 'menuitemcheckbox', 'menuitemradio', 'tab',
+  'switch', 'slider', 'spinbutton', 'treeitem'
+]);
+
+// Roles that only add nesting noise; their children are promoted when unnamed
+const TRANSPARENT_ROLES = new Set(['generic', 'none', 'presentation', 'GenericContainer', 'group']);
+
+// Boolean-ish AX properties rendered as [state] flags
+const SNAPSHOT_STATES = ['focused', 'disabled', 'checked', 'pressed', 'selected', 'expanded', 'required', 'readonly', 'invalid', 'modal'];
+
+// Per-tab ref registry: wsUrl -> { counter, refs: ref -> backendNodeId,
+// byBackendId: backendNodeId -> ref, staleRefs: Set, navigatedTo: url }
+const snapshotRefs = new Map();
+
+function getSnapshotRefState(wsUrl) {
+  let state = snapshotRefs.get(wsUrl);
+  if (!state) {
+    state = { counter: 0, refs: new Map(), byBackendId: new Map(), staleRefs: new Set(), navigatedTo: null };
+    snapshotRefs.set(wsUrl, state);
+  }
+  return state;
+}
+
+// Invalidate refs when the main frame navigates to a new document
+addTabEventHandler((wsUrl, event) => {
+  if (event.method !== 'Page.frameNavigated' || event.params?.frame?.parentId) return;
+
+  const state = snapshotRefs.get(wsUrl);
+  if (!state || state.refs.size === 0) return;
+
+  for (const ref of state.refs.keys()) {
+    state.staleRefs.add(ref);
+  }
+  state.refs.clear();
+  state.byBackendId.clear();
+  state.navigatedTo = event.params.frame.url;
+});
+
+addTabCleanupHandler((wsUrl) => {
+  snapshotRefs.delete(wsUrl);
+});
+
+/**
+ * Resolve a snapshot ref through its backend DOM node id and register it on
+ * window so getElementSelector() can find it. Throws a clear error for stale refs.
+ */
+async function registerElementRef(wsUrl, ref) {
+  const state = getSnapshotRefState(wsUrl);
+  const backendNodeId = state.refs.get(ref);
+  if (backendNodeId === undefined) {
+    if (state.staleRefs.has(ref)) {
+      throw new Error(`Ref ${ref} is stale: the page navigated to ${state.navigatedTo} after the snapshot. Run snapshot again.`);
+    }
+    throw new Error(`Unknown ref ${ref}. Run snapshot to get element refs for this tab.`);
+  }
+
+  let resolved;
+  try {
+    resolved = await sendCdpCommand(wsUrl, 'DOM.resolveNode', { backendNodeId });
+  } catch (e) {
+    throw new Error(`Ref ${ref} no longer exists in the page (element was removed). Run snapshot again.`);
+  }
+
+  await sendCdpCommand(wsUrl, 'Runtime.callFunctionOn', {
+    objectId: resolved.object.objectId,
+    functionDeclaration: `function(ref) {
+      (window.__superpowersRefs = window.__superpowersRefs || new Map()).set(ref, this);
+    }`,
+    arguments: [{ value: ref }]
+  });
+}
+
+/**
+ * Make a selector usable inside page JS and work out where to run it.
+ * Plain CSS/XPath need nothing; refs are registered on window; frame hops
+ * ("iframe#pay >>> input", "frame=checkout >>> input") are resolved through
+ * the frame tree to an isolated world in the target frame.
+ * @returns {{ selector: string|null, contextId: number|undefined, offset: {x, y}, frameId: string|null }}
+ *   selector is what's left to evaluate in that context (shadow hops only);
+ *   offset is the frame's position in the top-level viewport, for mouse events and clips.
+ */
+async function prepareSelector(wsUrl, selector) {
+  const target = { selector, contextId: undefined, offset: { x: 0, y: 0 }, frameId: null };
+  if (!selector) return target;
+
+  const segments = splitSelectorScopes(selector);
+  segments.forEach((segment, i) => {
+    if (i > 0 && parseElementRef(segment)) {
+      throw new Error(`Refs can only start a scoped selector: ${selector}`);
+    }
+  });
+
+  const ref = parseElementRef(segments[0]);
+  if (ref) {
+    await registerElementRef(wsUrl, ref);
+  }
+  if (segments.length === 1) {
+    return target;
+  }
+
+  // Walk the hops: frames switch execution context, shadow hosts stay in-page
+  let shadowPath = [];
+  for (const segment of segments.slice(0, -1)) {
+    if (segment.startsWith('frame=')) {
+      const frame = await findFrame(wsUrl, segment.slice('frame='.length));
+      target.frameId = frame.id;
+      target.offset = await getFrameOffset(wsUrl, frame.id);
+      target.contextId = await getFrameContext(wsUrl, frame.id);
+      shadowPath = [];
+      continue;
+    }
+
+    const hop = await describeSelectorHop(wsUrl, target.contextId, [...shadowPath, segment].join(' >>> '));
+    if (!hop) {
+      throw new Error(`Element not found: ${segment} (in ${selector})`);
+    }
+    if (hop.frameId) {
+      target.frameId = hop.frameId;
+      target.offset = { x: target.offset.x + hop.x, y: target.offset.y + hop.y };
+      target.contextId = await getFrameContext(wsUrl, hop.frameId);
+      shadowPath = [];
+    } else if (hop.shadow) {
+      shadowPath.push(segment);
+    } else {
+      throw new Error(`${segment} is neither an iframe nor an element with an open shadow root (in ${selector})`);
+    }
+  }
+
+  target.selector = [...shadowPath, segments[segments.length - 1]].join(' >>> ');
+  return target;
+}
+
+/**
+ * For a frame owner element: scroll it into view and return its content box
+ * position in its own frame's viewport. Other elements report whether they
+ * host an open shadow root.
+ */
+async function describeFrameOwner(wsUrl, objectId) {
+  const info = await sendCdpCommand(wsUrl, 'Runtime.callFunctionOn', {
+    objectId,
+    functionDeclaration: `function() {
+      if (this.tagName === 'IFRAME' || this.tagName === 'FRAME') {
+        this.scrollIntoView({ block: 'nearest', inline: 'nearest' });
+        const rect = this.getBoundingClientRect();
+        const style = getComputedStyle(this);
+        return {
+          frame: true,
+          x: rect.left + this.clientLeft + parseFloat(style.paddingLeft),
+          y: rect.top + this.clientTop + parseFloat(style.paddingTop)
+        };
+      }
+      return { shadow: !!this.shadowRoot };
+    }`,
+    returnByValue: true
+  });
+  return info.result.value;
+}
+
+/**
+ * Find the element for one hop and report whether it's a frame owner
+ * (with the position of its content box) or a shadow host
+ */
+async function describeSelectorHop(wsUrl, contextId, hopSelector) {
+  const found = await sendCdpCommand(wsUrl, 'Runtime.evaluate', {
+    expression: getElementSelector(hopSelector),
+    contextId
+  });
+  const objectId = found.result?.objectId;
+  if (!objectId || found.result.subtype === 'null') return null;
+
+  const hop = await describeFrameOwner(wsUrl, objectId);
+
+  if (hop.frame) {
+    const described = await sendCdpCommand(wsUrl, 'DOM.describeNode', { objectId });
+    if (!described.node.frameId) {
+      throw new Error(`Frame ${hopSelector} has no document yet (still loading?)`);
+    }
+    hop.frameId = described.node.frameId;
+  }
+  return hop;
+}
+
+function flattenFrameTree(tree, parentId = null, frames = []) {
+  frames.push({ ...tree.frame, parentId });
+  for (const child of tree.childFrames || []) {
+    flattenFrameTree(child, tree.frame.id, frames);
+  }
+  return frames;
+}
+
+/**
+ * Find a frame by name or URL pattern (substring, glob or /regex/) via Page.getFrameTree
+ */
+async function findFrame(wsUrl, nameOrUrl) {
+  const { frameTree } = await sendCdpCommand(wsUrl, 'Page.getFrameTree');
+  const frames = flattenFrameTree(frameTree).filter(frame => frame.parentId);
+  const frame = frames.find(f => f.name === nameOrUrl) || frames.find(f => matchesUrlPattern(f.url, nameOrUrl));
+  if (!frame) {
+    const known = frames.map(f => f.name ? `${f.name} (${f.url})` : f.url).join(', ') || 'none';
+    throw new Error(`Frame not found: ${nameOrUrl}. Frames: ${known}`);
+  }
+  return frame;
+}
+
+/**
+ * Position of a frame's content box in the top-level viewport (sums nested frames)
+ */
+async function getFrameOffset(wsUrl, frameId) {
+  const { frameTree } = await sendCdpCommand(wsUrl, 'Page.getFrameTree');
+  const frames = new Map(flattenFrameTree(frameTree).map(frame => [frame.id, frame]));
+  const offset = { x: 0, y: 0 };
+
+  for (let frame = frames.get(frameId); frame && frame.parentId; frame = frames.get(frame.parentId)) {
+    const { backendNodeId } = await sendCdpCommand(wsUrl, 'DOM.getFrameOwner', { frameId: frame.id });
+    const parentIsMain = !frames.get(frame.parentId).parentId;
+    const { object } = await sendCdpCommand(wsUrl, 'DOM.resolveNode', {
+      backendNodeId,
+      ...(parentIsMain ? {} : { executionContextId: await getFrameContext(wsUrl, frame.parentId) })
+    });
+    const owner = await describeFrameOwner(wsUrl, object.objectId);
+    offset.x += owner.x;
+    offset.y += owner.y;
+  }
+  return offset;
+}
+
+/**
+ * Execution context for running selector code in a frame. An isolated world
+ * shares the frame's DOM. Frames rendered in another process (cross-origin
+ * iframes under site isolation) live in a separate CDP target this tab's
+ * connection can't reach, so they fail with an explanation.
+ */
+async function getFrameContext(wsUrl, frameId) {
+  let result;
+  try {
+    result = await sendCdpCommand(wsUrl, 'Page.createIsolatedWorld', {
+      frameId,
+      worldName: 'superpowers-selectors',
+      grantUniveralAccess: true
+    });
+  } catch (e) {
+    throw new Error(`Cannot enter frame ${frameId}: ${e.message}. Cross-origin iframes run out of process and are not reachable with >>>; navigate a tab to the frame's URL instead`);
+  }
+  return result.executionContextId;
+}
+
+function assignSnapshotRef(state, backendNodeId) {
+  let ref = state.byBackendId.get(backendNodeId);
+  if (!ref) {
+    // Counter never resets per tab, so a stale ref can't alias a new element
+    ref = `e${++state.counter}`;
+    state.refs.set(ref, backendNodeId);
+    state.byBackendId.set(backendNodeId, ref);
+  }
+  return ref;
+}
 
-  // Create time-ordered prefix for flat file structure
-  captureCounter++;
-  return `${String(captureCounter).padStart(3, '0')}-${actionType}`;
+function truncateSnapshotText(text, max = 80) {
+  const clean = String(text).replace(/\s+/g, ' ').trim();
+  return clean.length > max ? clean.slice(0, max - 1) + '…' : clean;
 }
 
-async function generateDomSummary(tabIndexOrWsUrl) {
-  const wsUrl = await resolveWsUrl(tabIndexOrWsUrl);
+/**
+ * Render AX nodes as a compact indented tree:
+ *   - heading "Welcome" [level=1]
+ *   - textbox "Email" [focused, required] value="a@b.c" [ref=e3]
+ */
+function formatAccessibilityTree(nodes, state) {
+  const byId = new Map(nodes.map(node => [node.nodeId, node]));
+  const roots = nodes.filter(node => !node.parentId || !byId.has(node.parentId));
+  const lines = [];
+
+  function render(node, depth, parentName) {
+    const role = node.role?.value || '';
+    const name = node.name?.value || '';
+    const children = (node.childIds || []).map(id => byId.get(id)).filter(Boolean);
+
+    const skip = node.ignored ||
+      role === 'InlineTextBox' || role === 'LineBreak' ||
+      (TRANSPARENT_ROLES.has(role) && !name) ||
+      // Text that just repeats its parent's accessible name
+      (role === 'StaticText' && (!name.trim() || name.trim() === parentName.trim()));
+
+    if (skip) {
+      for (const child of children) render(child, depth, parentName);
+      return;
+    }
 
-  // Smart, token-efficient DOM summary
-  const js = `
-    (() => {
-      // Count interactive elements
-      const buttons = document.querySelectorAll('button, input[type="button"], input[type="submit"]').length;
-      const inputs = document.querySelectorAll('input:not([type="button"]):not([type="submit"]), textarea, select').length;
-      const links = document.querySelectorAll('a[href]').length;
+    const props = new Map((node.properties || []).map(p => [p.name, p.value?.value]));
+    const attrs = [];
+    if (props.has('level')) attrs.push(`level=${props.get('level')}`);
+    for (const stateName of SNAPSHOT_STATES) {
+      const value = props.get(stateName);
+      if (value === true || value === 'true') attrs.push(stateName);
+      else if (value === 'mixed') attrs.push(`${stateName}=mixed`);
+    }
 
-      // Get page structure
-      const title = document.title.slice(0, 60);
-      const allH1s = Array.from(document.querySelectorAll('h1')).map(h => h.textContent.trim().slice(0, 40)).filter(Boolean);
-      const h1s = allH1s.slice(0, 3);
-      const h1Extra = allH1s.length > 3 ? allH1s.length - 3 : 0;
+    let line = `${'  '.repeat(depth)}- ${role}`;
+    if (name) line += ` "${truncateSnapshotText(name)}"`;
+    if (attrs.length > 0) line += ` [${attrs.join(', ')}]`;
+    if (node.value?.value !== undefined && node.value.value !== '') {
+      line += ` value="${truncateSnapshotText(node.value.value, 40)}"`;
+    }
+    if (INTERACTIVE_ROLES.has(role) && node.backendDOMNodeId) {
+      line += ` [ref=${assignSnapshotRef(state, node.backendDOMNodeId)}]`;
+    }
+    lines.push(line);
 
-      // Find main content area
-      const main = document.querySelector('main, [role="main"], .main, #main, .content, #content');
-      const mainTag = main ? main.tagName.toLowerCase() + (main.id ? '#' + main.id : main.className ? '.' + main.className.split(' ')[0] : '') : 'body';
+    for (const child of children) render(child, depth + 1, name);
+  }
 
-      // Check for forms
-      const forms = document.querySelectorAll('form');
-      const formInfo = forms.length > 0 ? \`\${forms.length} form\${forms.length > 1 ? 's' : ''}\` : '';
+  for (const root of roots) render(root, 0, '');
+  return lines.join('\n');
+}
 
-      // Navigation elements
-      const nav = document.querySelector('nav, [role="navigation"], .nav, #nav') ? 'nav' : '';
+/**
+ * Accessibility-tree snapshot of the page with refs (e17) for interactive nodes.
+ * Refs are accepted by every selector-taking action as "ref=e17" and stay valid
+ * until the tab navigates to a new document.
+ */
+async function generateAccessibilitySnapshot(tabIndexOrWsUrl) {
+  const wsUrl = await resolveWsUrl(tabIndexOrWsUrl);
+  const { nodes } = await sendCdpCommand(wsUrl, 'Accessibility.getFullAXTree', {});
+  const state = getSnapshotRefState(wsUrl);
+  const before = state.refs.size;
 
-      return [
-        \`\${title}\`,
-        \`Interactive: \${buttons} buttons, \${inputs} inputs, \${links} links\`,
-        h1s.length > 0 ? \`Headings: \${h1s.map(h => '"' + h + '"').join(', ')}\${h1Extra > 0 ? ', and ' + h1Extra + ' more' : ''}\` : '',
-        \`Layout: \${nav ? 'nav + ' : ''}\${mainTag}\${formInfo ? ' + ' + formInfo : ''}\`
-      ].filter(Boolean).join('\\n');
-    })()
-  `;
+  const tree = formatAccessibilityTree(nodes || [], state);
+  return {
+    tree,
+    refCount: state.refs.size,
+    newRefs: state.refs.size - before
+  };
+}
 
-  const result = await sendCdpCommand(wsUrl, 'Runtime.evaluate', {
-    expression: js,
-    returnByValue: true
-  });
-  return result.result.value;
+/**
+ * Take a snapshot and save it to {prefix}-snapshot.txt in the session dir
+ */
+async function snapshotWithCapture(tabIndexOrWsUrl) {
+  const path = require('path');
+
+  const snapshot = await generateAccessibilitySnapshot(tabIndexOrWsUrl);
+  const dir = initializeSession();
+  const snapshotPath = path.join(dir, `${createCapturePrefix('snapshot')}-snapshot.txt`);
+  writeMaskedFile(snapshotPath, snapshot.tree + '\n');
+
+  return { ...snapshot, file: snapshotPath };
 }
 
 async function getPageSize(tabIndexOrWsUrl) {
@@ -1633,99 +8022,324 @@ async function getPageSize(tabIndexOrWsUrl) {
   return result.result.value;
 }
 
-async function generateMarkdown(tabIndexOrWsUrl) {
-  const wsUrl = await resolveWsUrl(tabIndexOrWsUrl);
+const MAX_MARKDOWN_LENGTH = 50000;
+
+// In-page markdown renderer shared by {prefix}.md, extract and `chrome-ws markdown`.
+// Called as (MARKDOWN_JS)(root, options): with a root element it renders just that
+// element; without one it finds the main content and drops navigation, headers,
+// footers and cookie banners (options.main === false keeps the whole body).
+const MARKDOWN_JS = `(root, options) => {
+  const SKIP = new Set(['SCRIPT', 'STYLE', 'NOSCRIPT', 'TEMPLATE', 'SVG', 'CANVAS', 'IFRAME', 'OBJECT', 'EMBED', 'HEAD', 'META', 'LINK', 'DATALIST', 'SOURCE', 'TRACK', 'AREA', 'MAP', 'DIALOG']);
+  const INLINE = new Set(['A', 'ABBR', 'B', 'BDI', 'BDO', 'BR', 'BUTTON', 'CITE', 'CODE', 'DATA', 'DEL', 'DFN', 'EM', 'FONT', 'I', 'IMG', 'INPUT', 'INS', 'KBD', 'LABEL', 'MARK', 'METER', 'OUTPUT', 'PROGRESS', 'Q', 'S', 'SAMP', 'SELECT', 'SMALL', 'SPAN', 'STRONG', 'SUB', 'SUP', 'TEXTAREA', 'TIME', 'U', 'VAR', 'WBR']);
+  const CONTROLS = new Set(['INPUT', 'SELECT', 'TEXTAREA', 'BUTTON']);
+  const BOILERPLATE = 'nav, aside, [role=navigation], [role=complementary], [role=banner], [role=contentinfo], [role=search]';
+  const COOKIE_BANNER = /(^|[^a-z])(cookie|consent|gdpr|onetrust|cookiebot)/i;
+  const FENCE = '\\u0060\\u0060\\u0060';
+
+  const tagOf = (el) => el.tagName.toUpperCase();
+  const tidy = (text) => text.split('\\n').map(line => line.replace(/\\s+/g, ' ').trim()).filter(Boolean).join('\\n');
+  const oneLine = (text) => tidy(text).replace(/\\n/g, ' ');
+
+  // display: contents elements have no box of their own but their children are shown
+  const isHidden = (el) => {
+    if (el.hidden || el.getAttribute('aria-hidden') === 'true') return true;
+    if (tagOf(el) === 'BR' || tagOf(el) === 'WBR') return false;
+    const visible = el.checkVisibility ? el.checkVisibility({ checkVisibilityCSS: true }) : el.getClientRects().length > 0;
+    return !visible && getComputedStyle(el).display !== 'contents';
+  };
 
-  // Enhanced markdown extraction with image support
-  const js = `
-    (() => {
-      const results = [];
+  const isCookieBanner = (el) => {
+    const name = (el.id || '') + ' ' + (typeof el.className === 'string' ? el.className : '') + ' ' + (el.getAttribute('aria-label') || '');
+    if (!COOKIE_BANNER.test(name)) return false;
+    const position = getComputedStyle(el).position;
+    return position === 'fixed' || position === 'sticky' || /dialog/.test(el.getAttribute('role') || '') || !!el.querySelector('button');
+  };
 
-      // Extract title
-      const title = document.title;
-      if (title) results.push(\`# \${title}\\n\`);
+  const strip = options.main && !root;
+  const isBoilerplate = (el) => strip && (
+    el.matches(BOILERPLATE) ||
+    ((tagOf(el) === 'HEADER' || tagOf(el) === 'FOOTER') && !el.closest('article, main, [role=main]')) ||
+    isCookieBanner(el)
+  );
+
+  const textWithout = (el, skip) => {
+    const clone = el.cloneNode(true);
+    clone.querySelectorAll(skip).forEach(n => n.remove());
+    return oneLine(clone.textContent);
+  };
 
-      // Count images for summary
-      const allImages = document.querySelectorAll('img');
-      const significantImages = Array.from(allImages).filter(img => {
-        const rect = img.getBoundingClientRect();
-        return rect.width >= 100 && rect.height >= 100;
-      });
+  const labelOf = (control) => {
+    const aria = control.getAttribute('aria-label');
+    if (aria && aria.trim()) return oneLine(aria);
+    const labelledBy = (control.getAttribute('aria-labelledby') || '').split(/\\s+/).filter(Boolean);
+    const byText = oneLine(labelledBy.map(id => document.getElementById(id)?.textContent || '').join(' '));
+    if (byText) return byText;
+    const labels = Array.from(control.labels || []).map(label => textWithout(label, 'input, select, textarea, button')).filter(Boolean);
+    if (labels.length) return labels.join(' ');
+    return control.getAttribute('placeholder') || control.getAttribute('title') || control.getAttribute('name') || '';
+  };
 
-      // Add image summary at top if there are significant images
-      if (significantImages.length > 0) {
-        results.push(\`\\n**📷 This page contains \${significantImages.length} significant image(s). Check screenshot.png for visual content.**\\n\`);
-      }
+  const control = (el) => {
+    const tag = tagOf(el);
+    const type = (el.type || '').toLowerCase();
+    if (tag === 'INPUT' && type === 'hidden') return '';
+    const flags = (el.disabled ? ' (disabled)' : '') + (el.required ? ' (required)' : '');
+    if (tag === 'BUTTON' || (tag === 'INPUT' && ['submit', 'button', 'reset', 'image'].includes(type))) {
+      const text = (tag === 'BUTTON' ? oneLine(inline(el)) : oneLine(el.value || el.alt || '')) || labelOf(el) || type;
+      return '[Button: ' + text + ']' + flags;
+    }
+    const label = labelOf(el);
+    if (type === 'checkbox') return (el.checked ? '[x] ' : '[ ] ') + label + flags;
+    if (type === 'radio') return (el.checked ? '(x) ' : '( ) ') + label + flags;
+    let value;
+    if (tag === 'SELECT') {
+      value = Array.from(el.selectedOptions).map(option => oneLine(option.textContent)).join(', ');
+    } else if (type === 'password') {
+      value = el.value ? '${PASSWORD_MASK}' : '';
+    } else if (type === 'file') {
+      value = Array.from(el.files || []).map(file => file.name).join(', ');
+    } else {
+      value = oneLine(el.value || '');
+    }
+    const kind = tag === 'SELECT' ? 'select' : tag === 'TEXTAREA' ? 'textarea' : type || 'text';
+    return '[' + (label ? label + ' ' : '') + '(' + kind + '): "' + value + '"]' + flags;
+  };
 
-      // Extract main content elements including images
-      const elements = document.querySelectorAll('h1, h2, h3, h4, h5, h6, p, a, li, pre, code, blockquote, table, img, figure');
+  // Labels tied to a visible control are rendered by the control itself
+  const labelElement = (el) => {
+    const target = el.control;
+    if (!target || isHidden(target)) return inline(el);
+    return el.contains(target) ? ' ' + control(target) + ' ' : '';
+  };
 
-      for (const el of elements) {
-        const tag = el.tagName.toLowerCase();
-        const text = el.textContent.trim();
+  const image = (el) => {
+    if (el.complete && el.naturalWidth === 1 && el.naturalHeight === 1) return ''; // tracking pixel
+    let src = el.currentSrc || el.src || '';
+    if (src.startsWith('data:')) src = src.slice(0, 30) + '...';
+    return '![' + oneLine(el.alt || '').replace(/[\\[\\]]/g, '') + '](' + src + ')';
+  };
 
-        if (tag === 'img') {
-          const alt = el.alt || '';
-          const src = el.src || '';
-          const rect = el.getBoundingClientRect();
-          // Only include images that are reasonably sized (not tiny icons)
-          if (rect.width >= 50 && rect.height >= 50) {
-            const sizeInfo = \`\${Math.round(rect.width)}x\${Math.round(rect.height)}\`;
-            const description = alt ? \`"\${alt}"\` : '(no alt text)';
-            results.push(\`\\n![Image: \${description} - \${sizeInfo}](\${src})\\n\`);
-          }
-          continue;
-        }
+  const link = (el) => {
+    const text = oneLine(inline(el));
+    const href = el.getAttribute('href');
+    if (!href || href === '#' || /^javascript:/i.test(href) || !text) return inline(el);
+    return ' [' + text + '](' + el.href + ') ';
+  };
 
-        if (tag === 'figure') {
-          const figcaption = el.querySelector('figcaption');
-          if (figcaption) {
-            results.push(\`\\n*Figure: \${figcaption.textContent.trim()}*\\n\`);
-          }
-          continue;
-        }
+  const wrap = (marker, text) => {
+    const inner = text.trim();
+    if (!inner) return text;
+    return (/^\\s/.test(text) ? ' ' : '') + marker + inner + marker + (/\\s$/.test(text) ? ' ' : '');
+  };
 
-        if (!text) continue;
-
-        if (tag.startsWith('h')) {
-          const level = parseInt(tag[1]);
-          results.push(\`\${'#'.repeat(level)} \${text}\\n\`);
-        } else if (tag === 'p') {
-          results.push(\`\${text}\\n\`);
-        } else if (tag === 'a') {
-          const href = el.href;
-          results.push(\`[\${text}](\${href})\`);
-        } else if (tag === 'li') {
-          results.push(\`- \${text}\`);
-        } else if (tag === 'pre' || tag === 'code') {
-          results.push(\`\\\`\\\`\\\`\\n\${text}\\n\\\`\\\`\\\`\\n\`);
-        } else if (tag === 'blockquote') {
-          results.push(\`> \${text}\\n\`);
-        } else if (tag === 'table') {
-          // Simple table extraction
-          const rows = el.querySelectorAll('tr');
-          if (rows.length > 0) {
-            results.push('\\n| Table Content |\\n|---|');
-            for (let i = 0; i < Math.min(rows.length, 10); i++) {
-              const cells = rows[i].querySelectorAll('td, th');
-              const cellTexts = Array.from(cells).map(cell => cell.textContent.trim()).slice(0, 3);
-              if (cellTexts.length > 0) {
-                results.push(\`| \${cellTexts.join(' | ')} |\`);
-              }
-            }
-            results.push('\\n');
-          }
-        }
+  const codeSpan = (text) => {
+    const inner = text.replace(/\\s+/g, ' ').trim();
+    if (!inner) return '';
+    const tick = inner.includes('\\u0060') ? '\\u0060\\u0060' : '\\u0060';
+    return tick + inner + tick;
+  };
+
+  const inlineNode = (node) => {
+    if (node.nodeType === Node.TEXT_NODE) return node.textContent.replace(/\\s+/g, ' ');
+    if (node.nodeType !== Node.ELEMENT_NODE) return '';
+    const tag = tagOf(node);
+    if (SKIP.has(tag) || isHidden(node)) return '';
+    switch (tag) {
+      case 'BR': return '\\n';
+      case 'IMG': return image(node);
+      case 'A': return link(node);
+      case 'STRONG': case 'B': return wrap('**', inline(node));
+      case 'EM': case 'I': return wrap('*', inline(node));
+      case 'DEL': case 'S': return wrap('~~', inline(node));
+      case 'CODE': case 'KBD': case 'SAMP': return codeSpan(node.textContent);
+      case 'LABEL': return labelElement(node);
+      default:
+        if (CONTROLS.has(tag)) return ' ' + control(node) + ' ';
+        // Block content inside inline context (cards inside links) keeps a word break
+        return INLINE.has(tag) ? inline(node) : ' ' + inline(node) + ' ';
+    }
+  };
+
+  const inline = (el) => {
+    let out = '';
+    for (const child of el.childNodes) out += inlineNode(child);
+    return out;
+  };
+
+  const codeBlock = (el) => {
+    const code = el.querySelector('code');
+    const classes = String(el.className || '') + ' ' + String((code && code.className) || '');
+    const lang = (classes.match(/(?:language|lang)-([\\w+#.-]+)/) || [])[1] || el.getAttribute('data-language') || '';
+    const text = el.textContent.replace(/\\n+$/, '');
+    const fence = text.includes(FENCE) ? '~~~~' : FENCE;
+    return fence + lang + '\\n' + text + '\\n' + fence;
+  };
+
+  const list = (el) => {
+    const ordered = tagOf(el) === 'OL';
+    let number = parseInt(el.getAttribute('start') || '1', 10);
+    if (isNaN(number)) number = 1;
+    const items = [];
+    for (const item of el.children) {
+      if (tagOf(item) !== 'LI' || isHidden(item)) continue;
+      const marker = ordered ? (number++) + '. ' : '- ';
+      const indent = ' '.repeat(marker.length);
+      const lines = blocks(item).join('\\n').split('\\n');
+      if (!lines[0]) continue;
+      items.push(lines.map((line, i) => i === 0 ? marker + line : (line ? indent + line : line)).join('\\n'));
+    }
+    return items.join('\\n');
+  };
+
+  const quote = (el) => blocks(el).join('\\n\\n').split('\\n').map(line => line ? '> ' + line : '>').join('\\n');
+
+  const table = (el) => {
+    const rows = Array.from(el.rows).filter(row => !isHidden(row));
+    // Layout tables (nested tables, a single column) are rendered as plain content
+    if (rows.length === 0 || el.querySelector('table') || rows.every(row => row.cells.length <= 1)) return blocks(el);
+    const cellText = (cell) => oneLine(blocks(cell).join(' ')).replace(/\\|/g, '\\\\|');
+    const matrix = rows.map(row => {
+      const cells = [];
+      for (const cell of row.cells) {
+        cells.push(cellText(cell));
+        for (let i = 1; i < (cell.colSpan || 1); i++) cells.push('');
       }
+      return cells;
+    });
+    const width = Math.max(...matrix.map(cells => cells.length));
+    const line = (cells) => '| ' + cells.concat(Array(width - cells.length).fill('')).join(' | ') + ' |';
+    const [head, ...body] = matrix;
+    const rendered = [line(head), '|' + ' --- |'.repeat(width), ...body.map(line)].join('\\n');
+    const caption = el.caption ? oneLine(inline(el.caption)) : '';
+    return caption ? ['*' + caption + '*', rendered] : [rendered];
+  };
 
-      return results.join('\\n').slice(0, 50000); // Limit size
-    })()
-  `;
+  const definitionList = (el) => {
+    const lines = [];
+    for (const child of el.children) {
+      const text = oneLine(blocks(child).join(' '));
+      if (!text) continue;
+      const tag = tagOf(child);
+      lines.push(tag === 'DT' ? '**' + text + '**' : tag === 'DD' ? ': ' + text : text);
+    }
+    return lines.join('\\n');
+  };
+
+  const block = (el) => {
+    const tag = tagOf(el);
+    if (/^H[1-6]$/.test(tag)) {
+      const text = oneLine(inline(el));
+      return text ? ['#'.repeat(Number(tag[1])) + ' ' + text] : [];
+    }
+    switch (tag) {
+      case 'UL': case 'OL': case 'MENU': return [list(el)];
+      case 'PRE': return [codeBlock(el)];
+      case 'BLOCKQUOTE': return [quote(el)];
+      case 'TABLE': return table(el);
+      case 'DL': return [definitionList(el)];
+      case 'HR': return ['---'];
+      case 'FIGCAPTION': {
+        const text = oneLine(inline(el));
+        return text ? ['*' + text + '*'] : [];
+      }
+      default: return blocks(el);
+    }
+  };
+
+  // Render an element's children as markdown blocks, gathering runs of inline content into paragraphs
+  const blocks = (el) => {
+    const out = [];
+    let text = '';
+    const flush = () => {
+      const paragraph = tidy(text);
+      if (paragraph) out.push(paragraph);
+      text = '';
+    };
+    for (const child of el.childNodes) {
+      if (child.nodeType !== Node.ELEMENT_NODE) {
+        text += inlineNode(child);
+        continue;
+      }
+      const tag = tagOf(child);
+      if (INLINE.has(tag)) {
+        text += inlineNode(child);
+        continue;
+      }
+      if (SKIP.has(tag) || isHidden(child) || isBoilerplate(child)) continue;
+      flush();
+      out.push(...block(child).filter(Boolean));
+    }
+    flush();
+    return out;
+  };
+
+  // Readability-style guess: credit paragraph text to its parent and grandparent
+  const findMainContent = () => {
+    const main = document.querySelector('main, [role=main]');
+    if (main && !isHidden(main)) return main;
+    const articles = Array.from(document.querySelectorAll('article')).filter(article => !isHidden(article));
+    if (articles.length === 1) return articles[0];
+    const scores = new Map();
+    let total = 0;
+    for (const paragraph of document.body.querySelectorAll('p, pre, blockquote')) {
+      const length = paragraph.textContent.trim().length;
+      if (length < 25) continue;
+      total += length;
+      const parent = paragraph.parentElement;
+      if (parent) scores.set(parent, (scores.get(parent) || 0) + length);
+      if (parent && parent.parentElement) scores.set(parent.parentElement, (scores.get(parent.parentElement) || 0) + length / 2);
+    }
+    let best = null;
+    let bestScore = 0;
+    for (const [candidate, score] of scores) {
+      if (score > bestScore && candidate !== document.body && candidate !== document.documentElement) {
+        best = candidate;
+        bestScore = score;
+      }
+    }
+    return best && bestScore >= total * 0.6 ? best : document.body;
+  };
+
+  if (options.scoped && !root) return null;
+  const parts = [];
+  if (!options.scoped) {
+    if (!document.body) return '';
+    parts.push('# ' + (document.title || location.href), 'Source: ' + location.href);
+    const significantImages = Array.from(document.images).filter(img => {
+      const rect = img.getBoundingClientRect();
+      return rect.width >= 100 && rect.height >= 100;
+    });
+    if (significantImages.length > 0) {
+      parts.push('**📷 This page contains ' + significantImages.length + ' significant image(s). Check screenshot.png for visual content.**');
+    }
+  }
+  const content = root || (options.main ? findMainContent() : document.body);
+  parts.push(...block(content).filter(Boolean));
+  return parts.join('\\n\\n').replace(/\\n{3,}/g, '\\n\\n').slice(0, options.maxLength);
+}`;
+
+/**
+ * Render the page, or one element, as markdown (see MARKDOWN_JS)
+ * @param {string|null} selector - Element to render; skips main-content detection
+ * @param {Object} options - { main: false renders the whole body, navigation and footers included }
+ */
+async function generateMarkdown(tabIndexOrWsUrl, selector = null, options = {}) {
+  const wsUrl = await resolveWsUrl(tabIndexOrWsUrl);
+  const target = selector ? await prepareSelector(wsUrl, selector) : null;
+  const root = target ? getElementSelector(target.selector) : 'null';
+  const settings = { scoped: !!target, main: options.main !== false, maxLength: MAX_MARKDOWN_LENGTH };
 
   const result = await sendCdpCommand(wsUrl, 'Runtime.evaluate', {
-    expression: js,
-    returnByValue: true
+    expression: `(${MARKDOWN_JS})(${root}, ${JSON.stringify(settings)})`,
+    returnByValue: true,
+    contextId: target ? target.contextId : undefined
   });
+  if (result.exceptionDetails) {
+    throw new Error(`Markdown extraction failed: ${result.exceptionDetails.exception?.description || result.exceptionDetails.text}`);
+  }
+  if (target && result.result.value === null) {
+    throw new Error(`Element not found: ${selector}`);
+  }
   return result.result.value;
 }
 
@@ -1736,8 +8350,10 @@ async function capturePageArtifacts(tabIndexOrWsUrl, actionType = 'navigate') {
 
   // All files go in session root directory
   const dir = initializeSession();
+  const wsUrl = await resolveWsUrl(tabIndexOrWsUrl);
 
   // Capture all artifacts in parallel
+  await rememberPasswordValues(wsUrl);
   const [html, markdown, pageSize, domSummary] = await Promise.all([
     getHtml(tabIndexOrWsUrl),
     generateMarkdown(tabIndexOrWsUrl),
@@ -1751,11 +8367,13 @@ async function capturePageArtifacts(tabIndexOrWsUrl, actionType = 'navigate') {
   const screenshotPath = path.join(dir, `${prefix}.png`);
   const consoleLogPath = path.join(dir, `${prefix}-console.txt`);
 
-  fs.writeFileSync(htmlPath, html || '');
-  fs.writeFileSync(markdownPath, markdown || '');
+  writeMaskedFile(htmlPath, html);
+  writeMaskedFile(markdownPath, markdown);
 
-  // Create console log file (placeholder for now)
-  fs.writeFileSync(consoleLogPath, '# Console Log\n# TODO: Console logging not yet implemented\n');
+  const consoleLog = takeConsoleForCapture(wsUrl, prefix);
+  const networkProblems = takeNetworkProblemsForCapture(wsUrl);
+  const mocked = takeMockedForCapture(wsUrl);
+  writeMaskedFile(consoleLogPath, formatConsoleLog(consoleLog));
 
   // Take screenshot
   await screenshot(tabIndexOrWsUrl, screenshotPath);
@@ -1770,7 +8388,13 @@ async function capturePageArtifacts(tabIndexOrWsUrl, actionType = 'navigate') {
       consoleLog: consoleLogPath
     },
     pageSize,
-    domSummary
+    domSummary,
+    consoleLog,
+    networkProblems,
+    mocked,
+    emulation: formatEmulation(tabEmulation.get(wsUrl)),
+    downloads: takeDownloadsForCapture(),
+    popups: await takePopupsForCapture()
   };
 }
 
@@ -1778,9 +8402,278 @@ async function capturePageArtifacts(tabIndexOrWsUrl, actionType = 'navigate') {
 // AUTO-CAPTURE WITH DOM DIFF
 // =============================================================================
 
+const MAX_DIFF_NODES = 20000;    // Elements serialized per DOM snapshot
+const MAX_DIFF_TEXT = 200;       // Characters kept per text/attribute value
+const MAX_DIFF_REPORT_LINES = 50; // Changes listed per section in {prefix}-diff.txt
+
+// Serialize the DOM as a flat list of elements with stable per-document ids.
+// Ids live in a page-side WeakMap, so the same element gets the same id in the
+// before and after snapshots no matter how the markup is formatted.
+const DOM_SNAPSHOT_JS = `
+  (() => {
+    const MAX_NODES = ${MAX_DIFF_NODES};
+    const MAX_TEXT = ${MAX_DIFF_TEXT};
+    const SKIP = new Set(['SCRIPT', 'STYLE', 'NOSCRIPT', 'TEMPLATE', 'LINK', 'META']);
+
+    if (!window.__superpowersDocId) {
+      window.__superpowersDocId = Math.random().toString(36).slice(2);
+      window.__superpowersNodeIds = new WeakMap();
+      window.__superpowersNextNodeId = 1;
+    }
+    const ids = window.__superpowersNodeIds;
+    const idFor = (el) => {
+      if (!ids.has(el)) ids.set(el, window.__superpowersNextNodeId++);
+      return ids.get(el);
+    };
+    const clip = (text) => text.length > MAX_TEXT ? text.slice(0, MAX_TEXT) + '…' : text;
+
+    const nodes = [];
+    let truncated = false;
+
+    const visit = (el, parentId, parentPath) => {
+      if (nodes.length >= MAX_NODES) { truncated = true; return; }
+      if (SKIP.has(el.tagName)) return;
+
+      const tag = el.tagName.toLowerCase();
+      let path;
+      if (el.id && /^[A-Za-z][\\w-]*$/.test(el.id)) {
+        path = tag + '#' + el.id;
+      } else {
+        let seg = tag;
+        const cls = typeof el.className === 'string' ? el.className.trim().split(/\\s+/)[0] : '';
+        if (cls && /^[A-Za-z_-][\\w-]*$/.test(cls)) seg += '.' + cls;
+        const parent = el.parentElement;
+        if (parent) {
+          const same = Array.from(parent.children).filter(c => c.tagName === el.tagName);
+          if (same.length > 1) seg += ':nth-of-type(' + (same.indexOf(el) + 1) + ')';
+        }
+        path = parentPath ? parentPath + ' > ' + seg : seg;
+      }
+
+      const text = Array.from(el.childNodes)
+        .filter(n => n.nodeType === Node.TEXT_NODE)
+        .map(n => n.textContent)
+        .join(' ')
+        .replace(/\\s+/g, ' ')
+        .trim();
+
+      const attrs = {};
+      for (const attr of el.attributes) {
+        if (attr.name === 'value' && el.type === 'password') {
+          attrs.value = attr.value ? '${PASSWORD_MASK}' : '';
+        } else if (attr.name !== 'style') {
+          attrs[attr.name] = clip(attr.value);
+        }
+      }
+
+      const node = {
+        id: idFor(el),
+        parentId,
+        tag,
+        path,
+        text: clip(text),
+        attrs,
+        visible: el.checkVisibility
+          ? el.checkVisibility({ checkOpacity: true, checkVisibilityCSS: true })
+          : el.getClientRects().length > 0
+      };
+
+      if (tag === 'input' && (el.type === 'checkbox' || el.type === 'radio')) {
+        node.value = el.checked ? 'checked' : 'unchecked';
+      } else if (tag === 'input' || tag === 'textarea' || tag === 'select') {
+        node.value = el.type === 'password' ? (el.value ? '${PASSWORD_MASK}' : '') : clip(el.value);
+      }
+
+      nodes.push(node);
+      if (tag === 'svg') return;
+      for (const child of el.children) visit(child, node.id, path);
+    };
+
+    if (document.body) visit(document.body, null, '');
+    return { docId: window.__superpowersDocId, url: location.href, truncated, nodes };
+  })()
+`;
+
+/**
+ * Serialize the page DOM for structural diffing (see DOM_SNAPSHOT_JS)
+ */
+async function captureDomSnapshot(tabIndexOrWsUrl) {
+  const wsUrl = await resolveWsUrl(tabIndexOrWsUrl);
+  const result = await sendCdpCommand(wsUrl, 'Runtime.evaluate', {
+    expression: DOM_SNAPSHOT_JS,
+    returnByValue: true
+  });
+  return result.result.value || { docId: null, url: null, truncated: false, nodes: [] };
+}
+
+/**
+ * Line diff (LCS) between two arrays of strings.
+ * Returns [{ type: '+' | '-', line }] in document order.
+ */
+function diffLines(beforeLines, afterLines) {
+  // Trim common prefix/suffix so the quadratic part only covers the changed middle
+  let start = 0;
+  while (start < beforeLines.length && start < afterLines.length && beforeLines[start] === afterLines[start]) {
+    start++;
+  }
+  let endBefore = beforeLines.length;
+  let endAfter = afterLines.length;
+  while (endBefore > start && endAfter > start && beforeLines[endBefore - 1] === afterLines[endAfter - 1]) {
+    endBefore--;
+    endAfter--;
+  }
+
+  const a = beforeLines.slice(start, endBefore);
+  const b = afterLines.slice(start, endAfter);
+
+  // Too large for a full LCS table: report the whole middle as replaced
+  if (a.length * b.length > 4000000) {
+    return [...a.map(line => ({ type: '-', line })), ...b.map(line => ({ type: '+', line }))];
+  }
+
+  const lcs = Array.from({ length: a.length + 1 }, () => new Uint32Array(b.length + 1));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const changes = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      changes.push({ type: '-', line: a[i++] });
+    } else {
+      changes.push({ type: '+', line: b[j++] });
+    }
+  }
+  while (i < a.length) changes.push({ type: '-', line: a[i++] });
+  while (j < b.length) changes.push({ type: '+', line: b[j++] });
+  return changes;
+}
+
+/**
+ * Diff two markdown renderings of the page, ignoring blank lines
+ */
+function generateMarkdownDiff(beforeMarkdown, afterMarkdown) {
+  const lines = (md) => (md || '').split('\n').map(l => l.trimEnd()).filter(l => l.trim());
+  return diffLines(lines(beforeMarkdown), lines(afterMarkdown));
+}
+
+// Short human label for a node: tag#id.class "text"
+function describeDiffNode(node) {
+  const segment = node.path.split(' > ').pop();
+  return node.text ? `${segment} "${node.text.slice(0, 60)}"` : segment;
+}
+
+/**
+ * Structural diff between two DOM snapshots (from captureDomSnapshot).
+ * Added/removed/moved nodes are reported at their top-most changed ancestor.
+ */
+function diffDomSnapshots(before, after) {
+  const result = {
+    navigated: false,
+    truncated: !!(before.truncated || after.truncated),
+    added: [],
+    removed: [],
+    moved: [],
+    text: [],
+    attributes: [],
+    values: [],
+    visibility: []
+  };
+
+  // A different document means ids aren't comparable; only the markdown diff applies
+  if (before.docId !== after.docId) {
+    result.navigated = true;
+    result.fromUrl = before.url;
+    result.toUrl = after.url;
+    return result;
+  }
+
+  const beforeById = new Map(before.nodes.map(node => [node.id, node]));
+  const afterById = new Map(after.nodes.map(node => [node.id, node]));
+
+  const countDescendants = (nodes, rootId) => {
+    const childrenOf = new Map();
+    for (const node of nodes) {
+      if (!childrenOf.has(node.parentId)) childrenOf.set(node.parentId, []);
+      childrenOf.get(node.parentId).push(node.id);
+    }
+    let count = 0;
+    const stack = [...(childrenOf.get(rootId) || [])];
+    while (stack.length) {
+      count++;
+      stack.push(...(childrenOf.get(stack.pop()) || []));
+    }
+    return count;
+  };
+
+  for (const node of after.nodes) {
+    const old = beforeById.get(node.id);
+    if (!old) {
+      if (!afterById.has(node.parentId) || beforeById.has(node.parentId)) {
+        result.added.push({ path: node.path, node: describeDiffNode(node), descendants: countDescendants(after.nodes, node.id), visible: node.visible });
+      }
+      continue;
+    }
+
+    if (old.parentId !== node.parentId) {
+      result.moved.push({ path: node.path, node: describeDiffNode(node), from: old.path });
+    }
+    if (old.text !== node.text) {
+      result.text.push({ path: node.path, before: old.text, after: node.text });
+    }
+    if (old.value !== node.value) {
+      result.values.push({ path: node.path, before: old.value ?? null, after: node.value ?? null });
+    }
+
+    for (const name of new Set([...Object.keys(old.attrs), ...Object.keys(node.attrs)])) {
+      // Form values are reported separately
+      if (name === 'value' && node.value !== undefined) continue;
+      if (old.attrs[name] !== node.attrs[name]) {
+        result.attributes.push({ path: node.path, name, before: old.attrs[name] ?? null, after: node.attrs[name] ?? null });
+      }
+    }
+
+    if (old.visible !== node.visible) {
+      // Only report where visibility flipped, not every descendant that followed
+      const parentBefore = beforeById.get(node.parentId);
+      const parentAfter = afterById.get(node.parentId);
+      const parentFlipped = parentBefore && parentAfter &&
+        parentBefore.visible === old.visible && parentAfter.visible === node.visible;
+      if (!parentFlipped) {
+        result.visibility.push({ path: node.path, node: describeDiffNode(node), visible: node.visible });
+      }
+    }
+  }
+
+  for (const node of before.nodes) {
+    if (!afterById.has(node.id) && (!beforeById.has(node.parentId) || afterById.has(node.parentId))) {
+      result.removed.push({ path: node.path, node: describeDiffNode(node), descendants: countDescendants(before.nodes, node.id) });
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Build the full diff for an action: structural DOM diff plus markdown diff
+ */
+function generateDomDiff(beforeDom, afterDom, beforeMarkdown, afterMarkdown) {
+  return {
+    ...diffDomSnapshots(beforeDom, afterDom),
+    markdown: generateMarkdownDiff(beforeMarkdown, afterMarkdown)
+  };
+}
+
 /**
- * Generate a simple text diff between two HTML strings
- * Returns lines that changed (added/removed)
+ * Line-set diff of two HTML strings, as captures produced before the structural diff.
+ * @deprecated Use generateDomDiff(); kept so existing callers keep working.
  */
 function generateHtmlDiff(beforeHtml, afterHtml) {
   const beforeLines = (beforeHtml || '').split('\n');
@@ -1812,14 +8705,115 @@ function generateHtmlDiff(beforeHtml, afterHtml) {
   return diff;
 }
 
+function countDomDiff(diff) {
+  return {
+    added: diff.added.length,
+    removed: diff.removed.length,
+    moved: diff.moved.length,
+    text: diff.text.length,
+    attributes: diff.attributes.length,
+    values: diff.values.length,
+    visibility: diff.visibility.length,
+    markdownLines: diff.markdown.length
+  };
+}
+
+function quoteDiffValue(value) {
+  return value === null ? '(none)' : JSON.stringify(value);
+}
+
+/**
+ * Render a diff as one line per change (used by both the file and the summary)
+ */
+function formatDomDiffChanges(diff) {
+  const descendants = (n) => (n > 0 ? ` (+${n} nested)` : '');
+  return {
+    added: diff.added.map(c => `+ ${c.node}${descendants(c.descendants)}${c.visible ? '' : ' [hidden]'}  @ ${c.path}`),
+    removed: diff.removed.map(c => `- ${c.node}${descendants(c.descendants)}  @ ${c.path}`),
+    moved: diff.moved.map(c => `> ${c.node}  ${c.from} → ${c.path}`),
+    text: diff.text.map(c => `~ text ${c.path}: ${quoteDiffValue(c.before)} → ${quoteDiffValue(c.after)}`),
+    attributes: diff.attributes.map(c => `~ attr ${c.path} [${c.name}]: ${quoteDiffValue(c.before)} → ${quoteDiffValue(c.after)}`),
+    values: diff.values.map(c => `~ value ${c.path}: ${quoteDiffValue(c.before)} → ${quoteDiffValue(c.after)}`),
+    visibility: diff.visibility.map(c => `~ ${c.visible ? 'shown' : 'hidden'} ${c.node}  @ ${c.path}`),
+    markdown: diff.markdown.map(c => `${c.type} ${c.line.slice(0, 200)}`)
+  };
+}
+
+/**
+ * Format the diff for {prefix}-diff.txt
+ */
+function formatDomDiff(diff) {
+  const sections = formatDomDiffChanges(diff);
+  const titles = {
+    added: 'ADDED', removed: 'REMOVED', moved: 'MOVED', text: 'TEXT CHANGED',
+    attributes: 'ATTRIBUTES CHANGED', values: 'FORM VALUES CHANGED',
+    visibility: 'VISIBILITY CHANGED', markdown: 'MARKDOWN DIFF'
+  };
+
+  let output = '';
+  if (diff.navigated) {
+    output += `Page navigated: ${diff.fromUrl} → ${diff.toUrl} (structural diff skipped)\n\n`;
+  }
+  if (diff.truncated) {
+    output += `Note: page has more than ${MAX_DIFF_NODES} elements; structural diff covers the first ${MAX_DIFF_NODES}\n\n`;
+  }
+
+  for (const [key, title] of Object.entries(titles)) {
+    const lines = sections[key];
+    if (lines.length === 0) continue;
+    output += `=== ${title} (${lines.length}) ===\n`;
+    output += lines.slice(0, MAX_DIFF_REPORT_LINES).join('\n');
+    if (lines.length > MAX_DIFF_REPORT_LINES) {
+      output += `\n... and ${lines.length - MAX_DIFF_REPORT_LINES} more`;
+    }
+    output += '\n\n';
+  }
+
+  return output.trim() || '(no changes detected)';
+}
+
+/**
+ * Short summary for tool responses: counts plus the most significant changes
+ */
+function summarizeDomDiff(diff, maxLines = 8) {
+  const counts = countDomDiff(diff);
+  const parts = [];
+  if (counts.added) parts.push(`+${counts.added} added`);
+  if (counts.removed) parts.push(`-${counts.removed} removed`);
+  if (counts.moved) parts.push(`${counts.moved} moved`);
+  if (counts.text) parts.push(`${counts.text} text`);
+  if (counts.attributes) parts.push(`${counts.attributes} attribute`);
+  if (counts.values) parts.push(`${counts.values} value`);
+  if (counts.visibility) parts.push(`${counts.visibility} visibility`);
+
+  const header = [];
+  if (diff.navigated) header.push(`Page navigated: ${diff.fromUrl} → ${diff.toUrl}`);
+  if (parts.length > 0) header.push(`Changes: ${parts.join(', ')}`);
+  if (header.length === 0 && counts.markdownLines === 0) return '(no changes detected)';
+
+  // Most telling changes first: values, visibility, text, then structure
+  const sections = formatDomDiffChanges(diff);
+  const highlights = [
+    ...sections.values, ...sections.visibility, ...sections.text,
+    ...sections.added, ...sections.removed, ...sections.moved, ...sections.attributes
+  ];
+  const lines = highlights.length > 0 || !diff.navigated ? highlights : sections.markdown;
+
+  return [
+    ...header,
+    ...lines.slice(0, maxLines),
+    ...(lines.length > maxLines ? [`... +${lines.length - maxLines} more in diff file`] : [])
+  ].join('\n');
+}
+
 /**
  * Capture page state before and after an action, with diff
  * @param {number|string} tabIndexOrWsUrl - Tab index or WebSocket URL
  * @param {string} actionType - Type of action (click, type, etc.)
  * @param {Function} actionFn - Async function that performs the action
- * @param {number} settleTime - Time to wait for page to settle (ms)
+ * @param {number|boolean|Object} settle - Settle options for waitForSettle() (number = upper bound in ms)
  */
-async function captureActionWithDiff(tabIndexOrWsUrl, actionType, actionFn, settleTime = 3000) {
+async function captureActionWithDiff(tabIndexOrWsUrl, actionType, actionFn, settle = {}) {
   const fs = require('fs');
   const path = require('path');
 
@@ -1883,7 +8877,11 @@ async function captureActionWithDiff(tabIndexOrWsUrl, actionType, actionFn, sett
   }
 
   // Capture BEFORE state (save/restore focus around screenshot)
-  const beforeHtml = await getHtml(tabIndexOrWsUrl);
+  const [beforeHtml, beforeDom, beforeMarkdown] = await Promise.all([
+    getHtml(tabIndexOrWsUrl),
+    captureDomSnapshot(tabIndexOrWsUrl),
+    generateMarkdown(tabIndexOrWsUrl)
+  ]);
   const focusInfo = await saveFocus();
   const beforeScreenshotPath = path.join(dir, `${prefix}-before.png`);
   await screenshot(tabIndexOrWsUrl, beforeScreenshotPath);
@@ -1892,32 +8890,43 @@ async function captureActionWithDiff(tabIndexOrWsUrl, actionType, actionFn, sett
   // Execute the action
   const actionResult = await actionFn();
 
-  // Wait for page to settle (React re-renders, animations, etc.)
-  await new Promise(resolve => setTimeout(resolve, settleTime));
+  // Wait for page to settle (XHR-driven renders, React re-renders, etc.)
+  const settled = await waitForSettle(tabIndexOrWsUrl, settle);
 
   // Capture AFTER state
-  const [afterHtml, markdown, pageSize, domSummary] = await Promise.all([
+  await rememberPasswordValues(wsUrl);
+  const [afterHtml, afterDom, markdown, pageSize, domSummary] = await Promise.all([
     getHtml(tabIndexOrWsUrl),
+    captureDomSnapshot(tabIndexOrWsUrl),
     generateMarkdown(tabIndexOrWsUrl),
     getPageSize(tabIndexOrWsUrl),
     generateDomSummary(tabIndexOrWsUrl)
   ]);
 
-  // Generate diff
-  const diff = generateHtmlDiff(beforeHtml, afterHtml);
+  // Generate structural + markdown diff
+  const diff = generateDomDiff(beforeDom, afterDom, beforeMarkdown, markdown);
 
   // Save files
   const beforeHtmlPath = path.join(dir, `${prefix}-before.html`);
   const afterHtmlPath = path.join(dir, `${prefix}-after.html`);
   const diffPath = path.join(dir, `${prefix}-diff.txt`);
+  const diffJsonPath = path.join(dir, `${prefix}-diff.json`);
   const markdownPath = path.join(dir, `${prefix}.md`);
   const afterScreenshotPath = path.join(dir, `${prefix}-after.png`);
+  const consoleLogPath = path.join(dir, `${prefix}-console.txt`);
+
+  const consoleLog = takeConsoleForCapture(wsUrl, prefix);
+  const networkProblems = takeNetworkProblemsForCapture(wsUrl);
+  const mocked = takeMockedForCapture(wsUrl);
 
-  fs.writeFileSync(beforeHtmlPath, beforeHtml || '');
-  fs.writeFileSync(afterHtmlPath, afterHtml || '');
-  fs.writeFileSync(diffPath, diff);
-  fs.writeFileSync(markdownPath, markdown || '');
+  writeMaskedFile(beforeHtmlPath, beforeHtml);
+  writeMaskedFile(afterHtmlPath, afterHtml);
+  writeMaskedFile(diffPath, formatDomDiff(diff));
+  writeMaskedFile(diffJsonPath, JSON.stringify({ counts: countDomDiff(diff), ...diff }, null, 2));
+  writeMaskedFile(markdownPath, markdown);
+  writeMaskedFile(consoleLogPath, formatConsoleLog(consoleLog));
   await screenshot(tabIndexOrWsUrl, afterScreenshotPath);
+  const visualChange = compareActionScreenshots(beforeScreenshotPath, afterScreenshotPath, path.join(dir, `${prefix}-visual-diff.png`));
 
   return {
     actionResult,
@@ -1928,20 +8937,32 @@ async function captureActionWithDiff(tabIndexOrWsUrl, actionType, actionFn, sett
         beforeHtml: beforeHtmlPath,
         afterHtml: afterHtmlPath,
         diff: diffPath,
+        diffJson: diffJsonPath,
         markdown: markdownPath,
         beforeScreenshot: beforeScreenshotPath,
-        afterScreenshot: afterScreenshotPath
+        afterScreenshot: afterScreenshotPath,
+        ...(visualChange.diff ? { visualDiff: visualChange.diff } : {}),
+        consoleLog: consoleLogPath
       },
       pageSize,
       domSummary,
-      diffSummary: diff.split('\n').slice(0, 5).join('\n') + (diff.split('\n').length > 5 ? '\n...' : '')
+      consoleLog,
+      networkProblems,
+      mocked,
+      emulation: formatEmulation(tabEmulation.get(wsUrl)),
+      downloads: takeDownloadsForCapture(),
+      popups: await takePopupsForCapture(),
+      settled,
+      visualChange,
+      diffSummary: summarizeDomDiff(diff)
     }
   };
 }
 
 // Enhanced DOM actions with auto-capture
-async function clickWithCapture(tabIndexOrWsUrl, selector) {
+async function clickWithCapture(tabIndexOrWsUrl, selector, settle = {}) {
   await click(tabIndexOrWsUrl, selector);
+  const settled = await waitForSettle(tabIndexOrWsUrl, settle);
   const artifacts = await capturePageArtifacts(tabIndexOrWsUrl, 'click');
   return {
     action: 'click',
@@ -1951,12 +8972,19 @@ async function clickWithCapture(tabIndexOrWsUrl, selector) {
     sessionDir: artifacts.sessionDir,
     files: artifacts.files,
     domSummary: artifacts.domSummary,
-    consoleLog: [] // Placeholder
+    consoleLog: artifacts.consoleLog,
+    networkProblems: artifacts.networkProblems,
+    mocked: artifacts.mocked,
+    emulation: artifacts.emulation,
+    downloads: artifacts.downloads,
+    popups: artifacts.popups,
+    settled
   };
 }
 
-async function fillWithCapture(tabIndexOrWsUrl, selector, value) {
+async function fillWithCapture(tabIndexOrWsUrl, selector, value, settle = {}) {
   await fill(tabIndexOrWsUrl, selector, value);
+  const settled = await waitForSettle(tabIndexOrWsUrl, settle);
   const artifacts = await capturePageArtifacts(tabIndexOrWsUrl, 'type');
   return {
     action: 'type',
@@ -1967,12 +8995,19 @@ async function fillWithCapture(tabIndexOrWsUrl, selector, value) {
     sessionDir: artifacts.sessionDir,
     files: artifacts.files,
     domSummary: artifacts.domSummary,
-    consoleLog: [] // Placeholder
+    consoleLog: artifacts.consoleLog,
+    networkProblems: artifacts.networkProblems,
+    mocked: artifacts.mocked,
+    emulation: artifacts.emulation,
+    downloads: artifacts.downloads,
+    popups: artifacts.popups,
+    settled
   };
 }
 
-async function selectOptionWithCapture(tabIndexOrWsUrl, selector, value) {
+async function selectOptionWithCapture(tabIndexOrWsUrl, selector, value, settle = {}) {
   await selectOption(tabIndexOrWsUrl, selector, value);
+  const settled = await waitForSettle(tabIndexOrWsUrl, settle);
   const artifacts = await capturePageArtifacts(tabIndexOrWsUrl, 'select');
   return {
     action: 'select',
@@ -1983,12 +9018,19 @@ async function selectOptionWithCapture(tabIndexOrWsUrl, selector, value) {
     sessionDir: artifacts.sessionDir,
     files: artifacts.files,
     domSummary: artifacts.domSummary,
-    consoleLog: [] // Placeholder
+    consoleLog: artifacts.consoleLog,
+    networkProblems: artifacts.networkProblems,
+    mocked: artifacts.mocked,
+    emulation: artifacts.emulation,
+    downloads: artifacts.downloads,
+    popups: artifacts.popups,
+    settled
   };
 }
 
-async function evaluateWithCapture(tabIndexOrWsUrl, expression) {
+async function evaluateWithCapture(tabIndexOrWsUrl, expression, settle = {}) {
   const result = await evaluate(tabIndexOrWsUrl, expression);
+  const settled = await waitForSettle(tabIndexOrWsUrl, settle);
   const artifacts = await capturePageArtifacts(tabIndexOrWsUrl, 'eval');
   return {
     action: 'eval',
@@ -1999,7 +9041,13 @@ async function evaluateWithCapture(tabIndexOrWsUrl, expression) {
     sessionDir: artifacts.sessionDir,
     files: artifacts.files,
     domSummary: artifacts.domSummary,
-    consoleLog: [] // Placeholder
+    consoleLog: artifacts.consoleLog,
+    networkProblems: artifacts.networkProblems,
+    mocked: artifacts.mocked,
+    emulation: artifacts.emulation,
+    downloads: artifacts.downloads,
+    popups: artifacts.popups,
+    settled
   };
 }
 
@@ -2018,14 +9066,60 @@ module.exports = {
   getAttribute,
   waitForElement,
   waitForText,
+  waitForElementGone,
+  waitForUrl,
+  waitForNetworkIdle,
+  waitForDomQuiet,
+  waitForSettle,
+  formatSettleResult,
   screenshot,
+  pdf,
+  buildPdfParams,
+
+  // Selectors (>>> scopes into frames and shadow roots)
+  splitSelectorScopes,
+  scopedSelectorQuery,
+
+  // Visual comparison (baselines and before/after screenshots)
+  visualCompare,
+  formatVisualComparison,
+  formatVisualChange,
+  getBaselineDir,
+  decodePng,
+  encodePng,
+  compareImages,
+  comparePngFiles,
+
+  // Session files (MCP resources) and inline images
+  listSessionFiles,
+  resolveSessionFile,
+  getSessionFileMimeType,
+  isTextMimeType,
+  prepareInlineImage,
+  DEFAULT_INLINE_IMAGE_LIMITS,
 
   // Keyboard support for special keys (Tab, Enter, Escape, Arrow keys, etc.)
   keyboardPress,
   KEY_DEFINITIONS,
 
+  // Pointer actions (hover, double/right-click, drag-and-drop, scrolling)
+  hover,
+  doubleClick,
+  rightClick,
+  drag,
+  scroll,
+  mouseWheel,
+
   // Chrome lifecycle
   startChrome,
+  setDebugPort,
+  getDebugPort,
+  loadLaunchConfig,
+  setLaunchConfig,
+  getLaunchConfig,
+  findChromeExecutable,
+  buildChromeArgs,
+  waitForChromeReady,
   killChrome,
   showBrowser,
   hideBrowser,
@@ -2040,6 +9134,74 @@ module.exports = {
   enableConsoleLogging,
   getConsoleMessages,
   clearConsoleMessages,
+  getConsoleMessagesSinceCapture,
+  clearConsoleMessagesSinceCapture,
+  takeConsoleForCapture,
+  formatConsoleLog,
+
+  // Network recording and HAR export
+  startNetworkRecording,
+  getNetworkLog,
+  exportHar,
+  buildHar,
+  formatNetworkLog,
+  formatNetworkEntry,
+  matchesUrlPattern,
+  validateUrlPattern,
+
+  // Request routing (Fetch domain interception and mocking)
+  addRoute,
+  listRoutes,
+  clearRoutes,
+  formatRoutes,
+  formatMockedRequest,
+  normalizeRouteRule,
+  buildFulfillParams,
+  mergeRequestHeaders,
+
+  // Cookies and storage state
+  getCookies,
+  setCookie,
+  deleteCookies,
+  formatCookies,
+  getStorage,
+  setStorageItem,
+  clearStorage,
+  exportStorageState,
+  importStorageState,
+
+  // File uploads and downloads
+  upload,
+  awaitDownload,
+  getDownloads,
+  formatDownload,
+
+  // Device and environment emulation
+  emulate,
+  getEmulation,
+  formatEmulation,
+  mergeEmulationSettings,
+  DEVICE_PRESETS,
+  NETWORK_PRESETS,
+
+  // Browser contexts
+  newContext,
+  closeContext,
+  closeOwnContexts,
+  getTabsByContext,
+
+  // Dialogs and popups
+  setDialogPolicy,
+  getDialogPolicy,
+  formatDialogPolicy,
+  takePopupsForCapture,
+  activateTab,
+
+  // Structured extraction (field maps, tables, pagination)
+  extractStructured,
+  normalizeFieldSpecs,
+  parseNumberText,
+  tableToRows,
 
   // Session management
   getXdgCacheHome,
@@ -2047,23 +9209,84 @@ module.exports = {
   cleanupSession,
   createCapturePrefix,
 
+  // Session recording, retention and replay
+  loadSessionRetention,
+  parseSize,
+  setSessionRetention,
+  getSessionRetention,
+  pruneSessions,
+  beginSessionStep,
+  recordSessionStep,
+  compareStepOutcomes,
+  readSessionManifest,
+  replaySession,
+  formatReplayResult,
+  describeStep,
+
+  // Secrets and masking
+  resolveSecretPlaceholders,
+  maskSecrets,
+  maskPasswordInputs,
+  rememberPasswordValues,
+  readSecretsFile,
+  setSecretsFile,
+  getSecretsFile,
+
+  // Performance, Web Vitals and tracing
+  getPerformanceReport,
+  formatPerformanceReport,
+  getNavigationTimingSummary,
+  startTrace,
+  stopTrace,
+  formatTraceResult,
+  rateWebVital,
+  countCoveredBytes,
+
+  // Page audit (accessibility and page quality)
+  AUDIT_RULES,
+  isUnsafeLink,
+  auditPage,
+  formatAuditResult,
+  rankAuditFindings,
+  contrastRatio,
+  parseRgbColor,
+
+  // Batch steps and assertions
+  EXPECT_ACTIONS,
+  canRunWithoutCapture,
+  runStepWithoutCapture,
+  evaluateExpectation,
+  validateExpectation,
+  runExpectation,
+
   // Auto-capture utilities
   generateDomSummary,
+  generateAccessibilitySnapshot,
+  formatAccessibilityTree,
+  snapshotWithCapture,
   getPageSize,
   generateMarkdown,
+  MARKDOWN_JS,
   capturePageArtifacts,
   clickWithCapture,
   fillWithCapture,
   selectOptionWithCapture,
   evaluateWithCapture,
 
-  // DOM diff capture (before/after with diff)
+  // DOM diff capture (before/after with structural + markdown diff)
+  captureDomSnapshot,
+  diffDomSnapshots,
+  generateDomDiff,
+  generateMarkdownDiff,
   generateHtmlDiff,
+  formatDomDiff,
+  summarizeDomDiff,
   captureActionWithDiff,
 
   // Connection management (JRV-130)
   closePooledConnection,
   closeAllConnections,
+  resolveWsUrl,    // Tab index, target id or unique id prefix, tab name, or ws URL
 
   // Legacy aliases (for backwards compatibility)
   cdpClick: click,
@@ -0,0 +1,83 @@
+#!/usr/bin/env node
+
+const assert = require('assert');
+const { formatAccessibilityTree } = require('./chrome-ws-lib');
+
+// Accessibility.getFullAXTree nodes, trimmed to the fields the formatter reads
+function ax(nodeId, role, name, childIds = [], extra = {}) {
+  return {
+    nodeId,
+    role: { type: 'role', value: role },
+    ...(name !== undefined ? { name: { type: 'computedString', value: name } } : {}),
+    childIds,
+    ...extra
+  };
+}
+
+const prop = (name, value) => ({ name, value: { type: typeof value === 'boolean' ? 'boolean' : 'string', value } });
+
+const FIXTURE = [
+  ax('1', 'RootWebArea', 'Sign in', ['2', '3']),
+  ax('2', 'generic', '', ['4', '5', '9'], { parentId: '1' }),
+  ax('3', 'none', undefined, [], { parentId: '1', ignored: true }),
+  ax('4', 'heading', 'Welcome back', ['6'], { parentId: '2', properties: [prop('level', 1)] }),
+  ax('6', 'StaticText', 'Welcome back', ['7'], { parentId: '4' }),
+  ax('7', 'InlineTextBox', 'Welcome back', [], { parentId: '6' }),
+  ax('5', 'form', 'Login', ['8', '10', '11'], { parentId: '2' }),
+  ax('8', 'textbox', 'Email', [], { parentId: '5', backendDOMNodeId: 40, value: { type: 'string', value: 'ada@example.com' }, properties: [prop('focused', true), prop('required', true)] }),
+  ax('10', 'checkbox', 'Remember me', [], { parentId: '5', backendDOMNodeId: 41, properties: [prop('checked', 'mixed')] }),
+  ax('11', 'ignored', 'Hidden div', ['12'], { parentId: '5', ignored: true }),
+  ax('12', 'button', 'Sign in', ['13'], { parentId: '11', backendDOMNodeId: 42, properties: [prop('disabled', true)] }),
+  ax('13', 'StaticText', 'Sign in', [], { parentId: '12' }),
+  ax('9', 'paragraph', '', ['14'], { parentId: '2' }),
+  ax('14', 'StaticText', 'Forgot your password? '.repeat(5), [], { parentId: '9' })
+];
+
+function newState() {
+  return { counter: 0, refs: new Map(), byBackendId: new Map(), staleRefs: new Set(), navigatedTo: null };
+}
+
+function testTree() {
+  const state = newState();
+  const lines = formatAccessibilityTree(FIXTURE, state).split('\n');
+
+  assert.deepStrictEqual(lines, [
+    '- RootWebArea "Sign in"',
+    '  - heading "Welcome back" [level=1]',
+    '  - form "Login"',
+    '    - textbox "Email" [focused, required] value="ada@example.com" [ref=e1]',
+    '    - checkbox "Remember me" [checked=mixed] [ref=e2]',
+    '    - button "Sign in" [disabled] [ref=e3]',
+    '  - paragraph',
+    `    - StaticText "${'Forgot your password? '.repeat(4).slice(0, 79)}…"`
+  ]);
+  // Unnamed generic containers and ignored nodes are dropped without adding depth;
+  // text repeating its parent's name and inline text boxes are left out
+  assert.deepStrictEqual([...state.refs], [['e1', 40], ['e2', 41], ['e3', 42]]);
+}
+
+function testRefsAreStable() {
+  const state = newState();
+  formatAccessibilityTree(FIXTURE, state);
+  const reordered = [...FIXTURE].reverse();
+  const again = formatAccessibilityTree(reordered, state);
+  assert.ok(again.includes('textbox "Email" [focused, required] value="ada@example.com" [ref=e1]'), 'a node keeps its ref across snapshots');
+  assert.strictEqual(state.counter, 3);
+
+  const withNew = formatAccessibilityTree([
+    ...FIXTURE.map(node => node.nodeId === '9' ? { ...node, childIds: [...node.childIds, '15'] } : node),
+    ax('15', 'link', 'Help', [], { parentId: '9', backendDOMNodeId: 43 })
+  ], state);
+  assert.ok(withNew.includes('    - link "Help" [ref=e4]'), 'new nodes get the next ref');
+}
+
+function testEmptyAndOrphans() {
+  assert.strictEqual(formatAccessibilityTree([], newState()), '');
+  const orphan = formatAccessibilityTree([ax('20', 'link', 'Orphan', [], { parentId: 'gone' })], newState());
+  assert.strictEqual(orphan, '- link "Orphan"', 'nodes whose parent is missing are rendered as roots; no backend id means no ref');
+}
+
+testTree();
+testRefsAreStable();
+testEmptyAndOrphans();
+console.log('accessibility test passed');
@@ -0,0 +1,54 @@
+#!/usr/bin/env node
+
+const assert = require('assert');
+const { AUDIT_RULES, isUnsafeLink, contrastRatio, parseRgbColor, rankAuditFindings, formatAuditResult } = require('./chrome-ws-lib');
+
+function testColors() {
+  assert.deepStrictEqual(parseRgbColor('rgb(255, 0, 10)'), [255, 0, 10, 1]);
+  assert.deepStrictEqual(parseRgbColor('rgba(0, 0, 0, 0.25)'), [0, 0, 0, 0.25]);
+  assert.deepStrictEqual(parseRgbColor('rgb(10 20 30 / 50%)'), [10, 20, 30, 0.5]);
+  assert.strictEqual(parseRgbColor('transparent'), null);
+
+  assert.strictEqual(Math.round(contrastRatio([0, 0, 0], [255, 255, 255])), 21);
+  assert.strictEqual(contrastRatio([255, 255, 255], [0, 0, 0]), contrastRatio([0, 0, 0], [255, 255, 255]), 'order does not matter');
+  assert.strictEqual(contrastRatio([119, 119, 119], [255, 255, 255]).toFixed(2), '4.48', '#777 on white fails AA');
+  assert.ok(contrastRatio([118, 118, 118], [255, 255, 255]) >= 4.5, '#767676 on white passes AA');
+}
+
+function testRanking() {
+  const findings = rankAuditFindings([
+    { rule: 'heading-order', severity: AUDIT_RULES['heading-order'].severity, selector: 'h4' },
+    { rule: 'image-alt', severity: AUDIT_RULES['image-alt'].severity, selector: 'img:nth-of-type(2)' },
+    { rule: 'button-name', severity: AUDIT_RULES['button-name'].severity, selector: '#close' },
+    { rule: 'image-alt', severity: AUDIT_RULES['image-alt'].severity, selector: 'img:nth-of-type(1)' },
+    { rule: 'label', severity: AUDIT_RULES.label.severity, selector: '#email' }
+  ]);
+  assert.deepStrictEqual(findings.map(f => f.selector), ['#email', '#close', 'img:nth-of-type(2)', 'img:nth-of-type(1)', 'h4'],
+    'severity first, then rule order, then page order');
+
+  const text = formatAuditResult({
+    url: 'https://example.com/',
+    scope: null,
+    counts: { critical: 2, serious: 2, moderate: 1, minor: 0 },
+    findings: findings.map(f => ({ ...f, message: 'x' })),
+    path: '/tmp/001-audit-findings.json'
+  }, 3);
+  assert.ok(text.startsWith('Audit of https://example.com/: 5 findings (2 critical, 2 serious, 1 moderate)'));
+  assert.ok(text.includes('[critical] label: #email — x'));
+  assert.ok(text.includes('... +2 more in /tmp/001-audit-findings.json'));
+}
+
+function testUnsafeLinks() {
+  assert.ok(AUDIT_RULES['broken-link'].optIn, 'broken-link requests pages, so it only runs when asked for');
+  for (const url of ['https://a.test/logout', 'https://a.test/account/sign-out?next=/', 'https://a.test/items?delete=42', 'https://a.test/list/7/remove']) {
+    assert.ok(isUnsafeLink(url), url);
+  }
+  for (const url of ['https://a.test/products', 'https://a.test/login', 'https://a.test/?q=shoes']) {
+    assert.ok(!isUnsafeLink(url), url);
+  }
+}
+
+testColors();
+testRanking();
+testUnsafeLinks();
+console.log('audit test passed');
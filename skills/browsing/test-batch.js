@@ -0,0 +1,61 @@
+#!/usr/bin/env node
+
+const assert = require('assert');
+const { evaluateExpectation, validateExpectation, canRunWithoutCapture, describeStep } = require('./chrome-ws-lib');
+
+function testText() {
+  const step = { action: 'expect_text', selector: 'h1', payload: 'Welcome' };
+  assert.strictEqual(evaluateExpectation(step, 'Welcome back, Ada').pass, true);
+  assert.deepStrictEqual(evaluateExpectation(step, 'Sign in'), { pass: false, expected: '"Welcome" in h1', actual: '"Sign in"' });
+  assert.strictEqual(evaluateExpectation(step, undefined).actual, 'no element matches h1');
+  assert.strictEqual(evaluateExpectation({ action: 'expect_text', payload: '/\\d+ items?/' }, 'Cart: 3 items').pass, true, 'regex payloads');
+  assert.strictEqual(evaluateExpectation({ action: 'expect_text', payload: 'x' }, 'x').expected, '"x" in page');
+}
+
+function testUrl() {
+  const step = { action: 'expect_url', payload: '**/dashboard*' };
+  assert.strictEqual(evaluateExpectation(step, 'https://app.example.com/dashboard?tab=1').pass, true);
+  assert.strictEqual(evaluateExpectation(step, 'https://app.example.com/login').pass, false);
+}
+
+function testCount() {
+  assert.strictEqual(evaluateExpectation({ action: 'expect_element_count', selector: 'li', payload: '3' }, 3).pass, true);
+  assert.strictEqual(evaluateExpectation({ action: 'expect_element_count', selector: 'li', payload: '0' }, 1).pass, false);
+  const range = evaluateExpectation({ action: 'expect_element_count', selector: 'li', options: { min: 1, max: 5 } }, 7);
+  assert.deepStrictEqual(range, { pass: false, expected: '>= 1 and <= 5 elements matching li', actual: '7' });
+}
+
+function testAttr() {
+  const present = { action: 'expect_attr', selector: 'a', payload: 'href' };
+  assert.strictEqual(evaluateExpectation(present, '/home').pass, true);
+  assert.strictEqual(evaluateExpectation(present, null).actual, 'attribute not set');
+  assert.strictEqual(evaluateExpectation(present, undefined).pass, false);
+
+  const exact = { action: 'expect_attr', selector: 'input', payload: 'aria-invalid', options: { value: false } };
+  assert.strictEqual(evaluateExpectation(exact, 'false').pass, true, 'expected values compare as strings');
+  assert.strictEqual(evaluateExpectation({ ...exact, options: { value: '/^(true|false)$/' } }, 'true').pass, true);
+}
+
+function testValidation() {
+  assert.throws(() => validateExpectation({ action: 'expect_text' }), /requires payload/);
+  assert.throws(() => validateExpectation({ action: 'expect_element_count', selector: 'li' }), /count, or options.min/);
+  assert.throws(() => validateExpectation({ action: 'expect_element_count', selector: 'li', payload: 'many' }), /must be a number/);
+  assert.throws(() => validateExpectation({ action: 'expect_attr', selector: 'a' }), /attribute name/);
+  assert.throws(() => validateExpectation({ action: 'expect_title', payload: 'x' }), /Unknown assertion/);
+  validateExpectation({ action: 'expect_element_count', selector: 'li', options: { max: 0 } });
+}
+
+function testSteps() {
+  assert.ok(canRunWithoutCapture('click') && canRunWithoutCapture('navigate') && canRunWithoutCapture('type'));
+  assert.ok(!canRunWithoutCapture('screenshot') && !canRunWithoutCapture('toString'));
+  assert.strictEqual(describeStep({ action: 'click', selector: '#go' }), 'click #go');
+  assert.strictEqual(describeStep({ action: 'list_tabs' }), 'list_tabs');
+}
+
+testText();
+testUrl();
+testCount();
+testAttr();
+testValidation();
+testSteps();
+console.log('batch test passed');
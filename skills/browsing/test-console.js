@@ -0,0 +1,117 @@
+#!/usr/bin/env node
+
+const assert = require('assert');
+const lib = require('./chrome-ws-lib');
+const { startFakeChrome } = require('./test-support/fake-chrome');
+
+const sleep = (ms) => new Promise(resolve => setTimeout(resolve, ms));
+
+const stackTrace = {
+  callFrames: [
+    { functionName: 'save', url: 'https://a.test/app.js', lineNumber: 9, columnNumber: 4 },
+    { functionName: '', url: '', lineNumber: 0, columnNumber: 0 }
+  ]
+};
+
+async function testEventsAreRecorded(chrome) {
+  const tab = chrome.addTarget({ url: 'https://a.test/' });
+  const wsUrl = tab.webSocketDebuggerUrl;
+  await lib.enableConsoleLogging(wsUrl);
+
+  chrome.emit(tab.id, 'Runtime.consoleAPICalled', {
+    type: 'warning',
+    args: [
+      { type: 'string', value: 'saved' },
+      { type: 'number', value: 3 },
+      { type: 'object', subtype: 'null' },
+      { type: 'object', description: 'Object' }
+    ],
+    stackTrace
+  });
+  chrome.emit(tab.id, 'Runtime.exceptionThrown', {
+    exceptionDetails: {
+      text: 'Uncaught',
+      exception: { description: 'TypeError: x is undefined' },
+      url: 'https://a.test/boot.js',
+      lineNumber: 1,
+      columnNumber: 7,
+      stackTrace
+    }
+  });
+  chrome.emit(tab.id, 'Log.entryAdded', {
+    entry: { level: 'error', source: 'network', text: 'Failed to load resource', url: 'https://a.test/missing.png' }
+  });
+  await sleep(50);
+
+  const [log, exception, entry] = await lib.getConsoleMessages(wsUrl);
+  assert.deepStrictEqual(
+    { level: log.level, source: log.source, text: log.text, url: log.url, lineNumber: log.lineNumber, columnNumber: log.columnNumber },
+    { level: 'warning', source: 'console', text: 'saved 3 null Object', url: 'https://a.test/app.js', lineNumber: 10, columnNumber: 5 },
+    'console calls take their location from the top stack frame'
+  );
+  assert.deepStrictEqual(log.stack, ['at save (https://a.test/app.js:10:5)', 'at <anonymous> (<inline>:1:1)']);
+  assert.strictEqual(exception.text, 'TypeError: x is undefined');
+  assert.strictEqual(exception.source, 'exception');
+  assert.strictEqual(exception.lineNumber, 2, 'exception positions are 1-based');
+  assert.strictEqual(exception.columnNumber, 8);
+  assert.strictEqual(entry.source, 'network');
+  assert.strictEqual(entry.lineNumber, null);
+  assert.deepStrictEqual(entry.stack, []);
+
+  const text = lib.formatConsoleLog([log, exception, entry]);
+  const lines = text.trimEnd().split('\n');
+  assert.strictEqual(lines[0], '# Console Log (3 messages)');
+  assert.ok(lines[1].endsWith('WARNING [console] saved 3 null Object (https://a.test/app.js:10:5)'), lines[1]);
+  assert.strictEqual(lines[2], '    at save (https://a.test/app.js:10:5)');
+  assert.strictEqual(lines[3], '    at <anonymous> (<inline>:1:1)');
+  assert.ok(lines[4].endsWith('ERROR [exception] TypeError: x is undefined (https://a.test/boot.js:2:8)'), lines[4]);
+  assert.ok(lines[7].endsWith('ERROR [network] Failed to load resource (https://a.test/missing.png)'), 'entries without a line show only the url');
+  assert.strictEqual(lib.formatConsoleLog([]), '# Console Log (0 messages)\n');
+}
+
+async function testCaptureRanges(chrome) {
+  const tab = chrome.addTarget({ url: 'https://b.test/' });
+  const other = chrome.addTarget({ url: 'https://c.test/' });
+  const wsUrl = tab.webSocketDebuggerUrl;
+  await lib.enableConsoleLogging(wsUrl);
+  await lib.enableConsoleLogging(other.webSocketDebuggerUrl);
+  const log = (target, value) => chrome.emit(target.id, 'Runtime.consoleAPICalled', { type: 'log', args: [{ type: 'string', value }] });
+  const texts = (messages) => messages.map(msg => msg.text);
+
+  log(tab, 'one');
+  await sleep(50);
+  assert.deepStrictEqual(texts(lib.takeConsoleForCapture(wsUrl, '001-navigate')), ['one']);
+
+  log(tab, 'two');
+  log(other, 'elsewhere');
+  await sleep(50);
+  assert.deepStrictEqual(texts(lib.takeConsoleForCapture(wsUrl, '002-click')), ['two'], 'a capture takes only messages since the previous one on its tab');
+  assert.deepStrictEqual(texts(lib.takeConsoleForCapture(other.webSocketDebuggerUrl, '003-navigate')), ['elsewhere']);
+
+  log(tab, 'three');
+  await sleep(50);
+  assert.deepStrictEqual(texts(await lib.getConsoleMessagesSinceCapture(wsUrl, '002-click')), ['two', 'three'], 'since a prefix includes that capture and later messages');
+  assert.deepStrictEqual(texts(await lib.getConsoleMessagesSinceCapture(wsUrl)), ['one', 'two', 'three']);
+  await assert.rejects(lib.getConsoleMessagesSinceCapture(wsUrl, '003-navigate'), /taken on a different tab/);
+  await assert.rejects(lib.getConsoleMessagesSinceCapture(wsUrl, '999-click'), /Unknown capture prefix/);
+
+  assert.strictEqual(await lib.clearConsoleMessagesSinceCapture(wsUrl, '002-click'), 2);
+  assert.deepStrictEqual(texts(await lib.getConsoleMessages(wsUrl)), ['one']);
+  assert.deepStrictEqual(lib.takeConsoleForCapture(wsUrl, '004-click'), [], 'messages already reported are not taken again');
+}
+
+(async () => {
+  const chrome = await startFakeChrome();
+  try {
+    await lib.setDebugPort(chrome.port);
+    await testEventsAreRecorded(chrome);
+    await testCaptureRanges(chrome);
+  } finally {
+    lib.closeAllConnections();
+    await chrome.close();
+  }
+  console.log('console test passed');
+})().catch((e) => {
+  console.error(e);
+  process.exit(1);
+});
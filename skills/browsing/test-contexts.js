@@ -0,0 +1,101 @@
+#!/usr/bin/env node
+
+const assert = require('assert');
+const { startFakeChrome } = require('./test-support/fake-chrome');
+
+// Two MCP servers sharing one browser: each loads its own copy of the library
+function loadLib() {
+  delete require.cache[require.resolve('./chrome-ws-lib')];
+  return require('./chrome-ws-lib');
+}
+
+const serverA = loadLib();
+const serverB = loadLib();
+
+// Browser-level Target domain: contexts and the pages opened in them
+function handleContexts(chrome) {
+  const contexts = new Set();
+  let nextContext = 1;
+
+  chrome.handle('Target.createBrowserContext', () => {
+    const browserContextId = `CTX${nextContext++}`;
+    contexts.add(browserContextId);
+    return { browserContextId };
+  });
+  chrome.handle('Target.getBrowserContexts', () => ({ browserContextIds: [...contexts], defaultBrowserContextId: 'DEFAULT' }));
+  chrome.handle('Target.createTarget', ({ url, browserContextId }) => {
+    if (browserContextId && !contexts.has(browserContextId)) throw new Error('Failed to find browser context');
+    return { targetId: chrome.addTarget({ url, browserContextId }).id };
+  });
+  chrome.handle('Target.getTargets', () => ({
+    targetInfos: [...chrome.targets.values()].map(t => ({
+      targetId: t.id, type: t.type, url: t.url, browserContextId: t.browserContextId || 'DEFAULT'
+    }))
+  }));
+  chrome.handle('Target.disposeBrowserContext', ({ browserContextId }) => {
+    if (!contexts.delete(browserContextId)) throw new Error('Failed to find context with id ' + browserContextId);
+    for (const target of [...chrome.targets.values()]) {
+      if (target.browserContextId === browserContextId) chrome.removeTarget(target.id);
+    }
+  });
+  return contexts;
+}
+
+async function testIsolatedContexts(chrome, contexts) {
+  chrome.addTarget({ url: 'https://shared.test/' });
+  const a = await serverA.newContext('user');
+  const b = await serverB.newContext('user');
+  assert.notStrictEqual(a.id, b.id, 'each server gets its own context, even under the same name');
+
+  const tabA = await serverA.newTab('https://a.test/', 'a', 'user');
+  const tabB = await serverB.newTab('https://b.test/', 'b', 'user');
+  assert.strictEqual(chrome.targets.get(tabA.id).browserContextId, a.id);
+  assert.strictEqual(chrome.targets.get(tabB.id).browserContextId, b.id);
+
+  const groupsA = await serverA.getTabsByContext();
+  assert.deepStrictEqual(groupsA.map(g => [g.id, g.name, g.default, g.tabs.map(t => t.id)]), [
+    ['DEFAULT', null, true, ['T1']],
+    [a.id, 'user', false, [tabA.id]],
+    [b.id, null, false, [tabB.id]]
+  ], 'another server\'s context is listed without its name');
+
+  assert.deepStrictEqual([...contexts], [a.id, b.id]);
+  return { a, b, tabA, tabB };
+}
+
+async function testCleanupDisposesOwnContext(chrome, contexts, { a, b, tabA, tabB }) {
+  const closed = await serverA.closeOwnContexts();
+  assert.deepStrictEqual(closed, [{ id: a.id, name: 'user', closedTabs: 1 }]);
+  assert.deepStrictEqual(chrome.callsTo('Target.disposeBrowserContext').map(call => call.params.browserContextId), [a.id],
+    'only the server\'s own context is disposed');
+  assert.deepStrictEqual([...contexts], [b.id]);
+  assert.ok(!chrome.targets.has(tabA.id) && chrome.targets.has(tabB.id) && chrome.targets.has('T1'));
+
+  assert.strictEqual(await serverB.resolveWsUrl('b'), tabB.webSocketDebuggerUrl, 'the other server keeps working');
+  assert.deepStrictEqual(await serverA.closeOwnContexts(), [], 'nothing left to close');
+
+  // A context disposed behind this server's back is forgotten, not retried
+  chrome.handle('Target.disposeBrowserContext', () => { throw new Error('Failed to find context'); });
+  assert.deepStrictEqual(await serverB.closeOwnContexts(), []);
+  assert.deepStrictEqual(await serverB.closeOwnContexts(), []);
+  assert.strictEqual(chrome.callsTo('Target.disposeBrowserContext').length, 2);
+}
+
+(async () => {
+  const chrome = await startFakeChrome();
+  try {
+    await serverA.setDebugPort(chrome.port);
+    await serverB.setDebugPort(chrome.port);
+    const contexts = handleContexts(chrome);
+    const created = await testIsolatedContexts(chrome, contexts);
+    await testCleanupDisposesOwnContext(chrome, contexts, created);
+  } finally {
+    serverA.closeAllConnections();
+    serverB.closeAllConnections();
+    await chrome.close();
+  }
+  console.log('contexts test passed');
+})().catch((e) => {
+  console.error(e);
+  process.exit(1);
+});
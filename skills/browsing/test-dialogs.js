@@ -0,0 +1,113 @@
+#!/usr/bin/env node
+
+const assert = require('assert');
+const lib = require('./chrome-ws-lib');
+const { startFakeChrome } = require('./test-support/fake-chrome');
+
+const sleep = (ms) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Open a dialog on the tab and return how it was answered
+async function answerDialog(chrome, tab, params) {
+  const before = chrome.callsTo('Page.handleJavaScriptDialog').length;
+  chrome.emit(tab.id, 'Page.javascriptDialogOpening', { url: tab.url, ...params });
+  await sleep(50);
+  const answers = chrome.callsTo('Page.handleJavaScriptDialog');
+  assert.strictEqual(answers.length, before + 1, `the ${params.type} dialog is answered once`);
+  assert.strictEqual(answers[answers.length - 1].target, tab.id);
+  return answers[answers.length - 1].params;
+}
+
+async function testDialogPolicies(chrome) {
+  const tab = chrome.addTarget({ url: 'https://a.test/' });
+  await lib.enableConsoleLogging(tab.webSocketDebuggerUrl);
+
+  lib.setDialogPolicy('default');
+  assert.deepStrictEqual(await answerDialog(chrome, tab, { type: 'alert', message: 'Saved' }), { accept: true });
+  assert.deepStrictEqual(await answerDialog(chrome, tab, { type: 'confirm', message: 'Delete?' }), { accept: false });
+  assert.deepStrictEqual(await answerDialog(chrome, tab, { type: 'prompt', message: 'Name?', defaultPrompt: 'x' }), { accept: false });
+  assert.deepStrictEqual(await answerDialog(chrome, tab, { type: 'beforeunload', message: '' }), { accept: true });
+
+  lib.setDialogPolicy('accept');
+  assert.deepStrictEqual(await answerDialog(chrome, tab, { type: 'confirm', message: 'Delete?' }), { accept: true });
+  assert.deepStrictEqual(await answerDialog(chrome, tab, { type: 'prompt', message: 'Name?', defaultPrompt: 'Guest' }),
+    { accept: true, promptText: 'Guest' }, 'accepted prompts keep the page default without a promptText');
+
+  lib.setDialogPolicy('dismiss');
+  assert.deepStrictEqual(await answerDialog(chrome, tab, { type: 'alert', message: 'Saved' }), { accept: false });
+
+  const policy = lib.setDialogPolicy({ promptText: 'Ada' });
+  assert.strictEqual(policy.prompt, 'accept', 'a promptText accepts prompts');
+  assert.strictEqual(policy.confirm, 'dismiss');
+  assert.deepStrictEqual(await answerDialog(chrome, tab, { type: 'prompt', message: 'Name?', defaultPrompt: 'Guest' }),
+    { accept: true, promptText: 'Ada' });
+  assert.strictEqual(lib.formatDialogPolicy(), 'alert=dismiss, confirm=dismiss, prompt=accept, beforeunload=dismiss, promptText="Ada"');
+
+  lib.setDialogPolicy({ prompt: 'dismiss', promptText: 'Ada' });
+  assert.deepStrictEqual(await answerDialog(chrome, tab, { type: 'prompt', message: 'Name?' }), { accept: false },
+    'an explicit prompt policy wins over promptText');
+
+  assert.throws(() => lib.setDialogPolicy({ confirm: 'maybe' }), /Invalid confirm policy/);
+  assert.throws(() => lib.setDialogPolicy({ popup: 'accept' }), /Unknown dialog policy field/);
+  assert.throws(() => lib.setDialogPolicy('ignore'), /Invalid dialog policy/);
+
+  const dialogs = (await lib.getConsoleMessages(tab.webSocketDebuggerUrl)).filter(msg => msg.source === 'dialog');
+  assert.strictEqual(dialogs.length, 9, 'every dialog is logged with the console messages');
+  assert.strictEqual(dialogs[1].text, 'confirm: "Delete?" → dismissed');
+  assert.strictEqual(dialogs[7].text, 'prompt: "Name?" → accepted with "Ada"');
+  assert.strictEqual(dialogs[1].url, 'https://a.test/');
+
+  lib.setDialogPolicy('default');
+}
+
+async function testPopups(chrome) {
+  const existing = chrome.addTarget({ url: 'https://existing.test/' });
+  const tab = chrome.addTarget({ url: 'https://b.test/' });
+  const targetCreated = (target, openerId) => ({ targetInfo: { targetId: target.id, type: 'page', url: target.url, openerId } });
+
+  // Chrome reports every existing target while discovery is switched on
+  chrome.handle('Target.setDiscoverTargets', (params, target) => {
+    chrome.emit(target.id, 'Target.targetCreated', targetCreated(existing));
+    return {};
+  });
+  await lib.enableConsoleLogging(tab.webSocketDebuggerUrl);
+
+  const popup = chrome.addTarget({ url: 'https://b.test/login' });
+  chrome.emit(tab.id, 'Target.targetCreated', targetCreated(popup, tab.id));
+  const own = await lib.newTab('https://c.test/');
+  chrome.emit(tab.id, 'Target.targetCreated', targetCreated(own));
+  chrome.emit(tab.id, 'Target.targetCreated', { targetInfo: { targetId: 'W1', type: 'service_worker', url: 'https://b.test/sw.js' } });
+  await sleep(50);
+
+  const tabIndex = (await lib.getTabs()).findIndex(t => t.id === popup.id);
+  const popups = await lib.takePopupsForCapture();
+  assert.deepStrictEqual(popups, [{ targetId: popup.id, tabIndex, url: 'https://b.test/login' }],
+    'only tabs opened by the page are popups: not existing tabs, newTab() tabs or workers');
+  assert.deepStrictEqual(await lib.takePopupsForCapture(), [], 'a popup is reported by one capture');
+
+  const activated = await lib.activateTab(popups[popups.length - 1].tabIndex);
+  assert.deepStrictEqual(activated, { targetId: popup.id, tabIndex, url: 'https://b.test/login' });
+  assert.deepStrictEqual(chrome.activated, [popup.id]);
+
+  // A popup closed before the capture is not reported
+  const closed = chrome.addTarget({ url: 'https://b.test/closed' });
+  chrome.emit(tab.id, 'Target.targetCreated', targetCreated(closed, tab.id));
+  await sleep(50);
+  chrome.removeTarget(closed.id);
+  assert.deepStrictEqual(await lib.takePopupsForCapture(), []);
+}
+
+(async () => {
+  const chrome = await startFakeChrome();
+  try {
+    await lib.setDebugPort(chrome.port);
+    await testDialogPolicies(chrome);
+    await testPopups(chrome);
+  } finally {
+    lib.closeAllConnections();
+    await chrome.close();
+  }
+  console.log('dialogs test passed');
+})().catch((e) => {
+  console.error(e);
+  process.exit(1);
+});
@@ -0,0 +1,100 @@
+#!/usr/bin/env node
+
+const assert = require('assert');
+const {
+  diffDomSnapshots,
+  generateDomDiff,
+  generateMarkdownDiff,
+  generateHtmlDiff,
+  formatDomDiff,
+  summarizeDomDiff
+} = require('./chrome-ws-lib');
+
+function node(id, parentId, tag, path, extra = {}) {
+  return { id, parentId, tag, path, text: '', attrs: {}, visible: true, ...extra };
+}
+
+function testStructuralDiff() {
+  const before = {
+    docId: 'doc1',
+    url: 'https://example.com/',
+    nodes: [
+      node(1, null, 'body', 'body'),
+      node(2, 1, 'h1', 'body > h1', { text: 'Cart (0)' }),
+      node(3, 1, 'input', 'input#qty', { attrs: { id: 'qty', value: '1' }, value: '1' }),
+      node(4, 1, 'div', 'div#modal', { attrs: { id: 'modal' }, visible: false }),
+      node(5, 4, 'p', 'div#modal > p', { text: 'Saved', visible: false }),
+      node(6, 1, 'ul', 'body > ul'),
+      node(7, 6, 'li', 'body > ul > li', { text: 'Old item' }),
+      node(8, 7, 'span', 'body > ul > li > span')
+    ]
+  };
+  const after = {
+    docId: 'doc1',
+    url: 'https://example.com/',
+    nodes: [
+      node(1, null, 'body', 'body'),
+      node(2, 1, 'h1', 'body > h1', { text: 'Cart (1)', attrs: { class: 'updated' } }),
+      node(3, 1, 'input', 'input#qty', { attrs: { id: 'qty', value: '1' }, value: '2' }),
+      node(4, 1, 'div', 'div#modal', { attrs: { id: 'modal' }, visible: true }),
+      node(5, 4, 'p', 'div#modal > p', { text: 'Saved', visible: true }),
+      node(6, 1, 'ul', 'body > ul'),
+      node(9, 6, 'li', 'body > ul > li', { text: 'New item' }),
+      node(10, 9, 'b', 'body > ul > li > b')
+    ]
+  };
+
+  const diff = diffDomSnapshots(before, after);
+  assert.strictEqual(diff.navigated, false);
+  assert.strictEqual(diff.added.length, 1, 'only the top-most added node is reported');
+  assert.strictEqual(diff.added[0].descendants, 1);
+  assert.strictEqual(diff.removed.length, 1, 'only the top-most removed node is reported');
+  assert.deepStrictEqual(diff.text, [{ path: 'body > h1', before: 'Cart (0)', after: 'Cart (1)' }]);
+  assert.deepStrictEqual(diff.values, [{ path: 'input#qty', before: '1', after: '2' }]);
+  assert.strictEqual(diff.attributes.length, 1, 'value attribute is covered by the form value diff');
+  assert.strictEqual(diff.attributes[0].name, 'class');
+  assert.strictEqual(diff.visibility.length, 1, 'descendants that follow their parent are not repeated');
+  assert.strictEqual(diff.visibility[0].path, 'div#modal');
+}
+
+function testNavigationSkipsStructuralDiff() {
+  const diff = generateDomDiff(
+    { docId: 'a', url: 'https://a/', nodes: [node(1, null, 'body', 'body')] },
+    { docId: 'b', url: 'https://b/', nodes: [node(1, null, 'body', 'body')] },
+    '# A\nhello',
+    '# B\nhello'
+  );
+  assert.strictEqual(diff.navigated, true);
+  assert.strictEqual(diff.added.length, 0, 'ids from different documents must not be compared');
+  assert.deepStrictEqual(diff.markdown, [{ type: '-', line: '# A' }, { type: '+', line: '# B' }]);
+  assert.ok(formatDomDiff(diff).startsWith('Page navigated: https://a/ → https://b/'));
+  assert.ok(summarizeDomDiff(diff).includes('+ # B'), 'summary falls back to markdown lines after navigation');
+}
+
+function testMarkdownDiff() {
+  const changes = generateMarkdownDiff('a\nb\nc\nd', 'a\nc\nx\nd\n\n');
+  assert.deepStrictEqual(changes, [{ type: '-', line: 'b' }, { type: '+', line: 'x' }]);
+  assert.deepStrictEqual(generateMarkdownDiff('same', 'same'), []);
+}
+
+function testNoChanges() {
+  const snapshot = { docId: 'a', url: 'https://a/', nodes: [node(1, null, 'body', 'body')] };
+  const diff = generateDomDiff(snapshot, snapshot, 'x', 'x');
+  assert.strictEqual(formatDomDiff(diff), '(no changes detected)');
+  assert.strictEqual(summarizeDomDiff(diff), '(no changes detected)');
+}
+
+function testHtmlDiffStillExported() {
+  assert.strictEqual(
+    generateHtmlDiff('<ul>\n<li>a</li>\n<li>b</li>\n</ul>', '<ul>\n<li>a</li>\n<li>c</li>\n</ul>'),
+    '=== REMOVED ===\n- <li>b</li>\n\n=== ADDED ===\n+ <li>c</li>'
+  );
+  assert.strictEqual(generateHtmlDiff('<p>x</p>', '<p>x</p>'), '(no changes detected)');
+}
+
+testStructuralDiff();
+testNavigationSkipsStructuralDiff();
+testMarkdownDiff();
+testNoChanges();
+testHtmlDiffStillExported();
+console.log('dom-diff test passed');
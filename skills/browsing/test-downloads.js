@@ -0,0 +1,53 @@
+#!/usr/bin/env node
+
+const assert = require('assert');
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+
+const tmp = fs.mkdtempSync(path.join(os.tmpdir(), 'chrome-downloads-'));
+process.env.XDG_CACHE_HOME = tmp;
+
+const lib = require('./chrome-ws-lib');
+const { startFakeChrome } = require('./test-support/fake-chrome');
+
+const sleep = (ms) => new Promise(resolve => setTimeout(resolve, ms));
+
+async function testLazyDownloadDir(chrome) {
+  const tab = chrome.addTarget({ url: 'https://a.test/' });
+  await lib.getPageSize(tab.webSocketDebuggerUrl).catch(() => {});
+
+  const [behavior] = chrome.callsTo('Browser.setDownloadBehavior');
+  assert.strictEqual(behavior.params.behavior, 'allowAndName');
+  const downloadDir = behavior.params.downloadPath;
+  assert.ok(downloadDir.startsWith(path.join(tmp, 'superpowers', 'browser')), downloadDir);
+  assert.ok(!fs.existsSync(path.join(tmp, 'superpowers')), 'connecting to a tab creates no session dir');
+
+  chrome.emit(tab.id, 'Browser.downloadWillBegin', { guid: 'g1', url: 'https://a.test/report.csv', suggestedFilename: 'report.csv' });
+  await sleep(50);
+  assert.ok(fs.existsSync(downloadDir), 'the first download creates the session and downloads dirs');
+  assert.strictEqual(lib.initializeSession(), path.dirname(downloadDir), 'downloads land in the session dir');
+
+  fs.writeFileSync(path.join(downloadDir, 'g1'), 'a,b\n');
+  chrome.emit(tab.id, 'Browser.downloadProgress', { guid: 'g1', state: 'completed', receivedBytes: 4, totalBytes: 4 });
+  const download = await lib.awaitDownload('report', 2000);
+  assert.strictEqual(download.path, path.join(downloadDir, 'report.csv'));
+  assert.strictEqual(fs.readFileSync(download.path, 'utf8'), 'a,b\n');
+}
+
+(async () => {
+  const chrome = await startFakeChrome();
+  try {
+    await lib.setDebugPort(chrome.port);
+    await testLazyDownloadDir(chrome);
+  } finally {
+    lib.closeAllConnections();
+    lib.cleanupSession();
+    await chrome.close();
+    fs.rmSync(tmp, { recursive: true, force: true });
+  }
+  console.log('downloads test passed');
+})().catch((e) => {
+  console.error(e);
+  process.exit(1);
+});
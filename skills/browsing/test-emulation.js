@@ -0,0 +1,46 @@
+#!/usr/bin/env node
+
+const assert = require('assert');
+const { mergeEmulationSettings, formatEmulation } = require('./chrome-ws-lib');
+
+function testPresetsAndMerging() {
+  const phone = mergeEmulationSettings({}, { device: 'iPhone 15', width: 400 });
+  assert.strictEqual(phone.settings.width, 400, 'explicit fields override the preset');
+  assert.strictEqual(phone.settings.height, 852);
+  assert.strictEqual(phone.settings.mobile, true);
+  assert.deepStrictEqual([...phone.groups].sort(), ['touch', 'userAgent', 'viewport']);
+
+  const dark = mergeEmulationSettings(phone.settings, { colorScheme: 'dark', userAgent: null });
+  assert.strictEqual(dark.settings.colorScheme, 'dark');
+  assert.strictEqual(dark.settings.userAgent, undefined, 'null clears a setting');
+  assert.strictEqual(dark.settings.width, 400, 'updates merge with current settings');
+  assert.deepStrictEqual([...dark.groups].sort(), ['media', 'userAgent']);
+
+  const locale = mergeEmulationSettings({}, { locale: 'de-DE' });
+  assert.ok(locale.groups.has('userAgent'), 'locale also re-sends Accept-Language');
+
+  const reset = mergeEmulationSettings(dark.settings, { reset: true });
+  assert.deepStrictEqual(reset.settings, {});
+  assert.ok(reset.groups.has('viewport') && reset.groups.has('media'), 'reset clears every active group');
+}
+
+function testValidation() {
+  assert.throws(() => mergeEmulationSettings({}, { device: 'nokia-3310' }), /Unknown device/);
+  assert.throws(() => mergeEmulationSettings({}, { colorScheme: 'blue' }), /colorScheme must be one of/);
+  assert.throws(() => mergeEmulationSettings({}, { network: '5g' }), /Unknown network preset/);
+  assert.throws(() => mergeEmulationSettings({}, { width: 800 }), /both width and height/);
+  assert.throws(() => mergeEmulationSettings({}, { zoom: 2 }), /Unknown emulation setting/);
+}
+
+function testSummary() {
+  assert.strictEqual(formatEmulation({}), null);
+  assert.strictEqual(
+    formatEmulation({ width: 800, height: 600, timezone: 'UTC', network: { latency: 100, downloadKbps: 500 } }),
+    '800×600@1x, tz UTC, network 100ms 500/∞kbps'
+  );
+}
+
+testPresetsAndMerging();
+testValidation();
+testSummary();
+console.log('emulation test passed');
@@ -0,0 +1,80 @@
+#!/usr/bin/env node
+
+const assert = require('assert');
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+
+const tmp = fs.mkdtempSync(path.join(os.tmpdir(), 'chrome-inline-'));
+process.env.XDG_CACHE_HOME = tmp;
+
+const lib = require('./chrome-ws-lib');
+const { encodePng, decodePng, prepareInlineImage, getSessionFileMimeType, isTextMimeType } = lib;
+
+// Noisy image so PNG compression can't make it tiny
+function makeImage(width, height) {
+  const data = Buffer.alloc(width * height * 4);
+  for (let i = 0; i < data.length; i += 4) {
+    data[i] = (i * 7) % 256;
+    data[i + 1] = (i * 13) % 251;
+    data[i + 2] = (i * 31) % 241;
+    data[i + 3] = 255;
+  }
+  return { width, height, data };
+}
+
+function testMimeTypes() {
+  assert.strictEqual(getSessionFileMimeType('001-navigate.md'), 'text/markdown');
+  assert.strictEqual(getSessionFileMimeType('001-navigate.PNG'), 'image/png');
+  assert.strictEqual(getSessionFileMimeType('session.jsonl'), 'application/jsonl');
+  assert.strictEqual(getSessionFileMimeType('trace.bin'), 'application/octet-stream');
+  assert.ok(isTextMimeType('text/html') && isTextMimeType('application/json'));
+  assert.ok(!isTextMimeType('image/png') && !isTextMimeType('application/pdf'));
+}
+
+function testInlineImages() {
+  const small = path.join(tmp, 'small.png');
+  fs.writeFileSync(small, encodePng(makeImage(40, 30)));
+  const kept = prepareInlineImage(small);
+  assert.strictEqual(kept.scaled, false);
+  assert.deepStrictEqual(Buffer.from(kept.data, 'base64'), fs.readFileSync(small), 'small PNGs are sent as they are');
+
+  const wide = path.join(tmp, 'wide.png');
+  fs.writeFileSync(wide, encodePng(makeImage(400, 100)));
+  const shrunk = prepareInlineImage(wide, { maxDimension: 200 });
+  assert.strictEqual(shrunk.scaled, true);
+  assert.deepStrictEqual([shrunk.width, shrunk.height], [200, 50]);
+  assert.deepStrictEqual(shrunk.original, { width: 400, height: 100 });
+  assert.strictEqual(decodePng(Buffer.from(shrunk.data, 'base64')).width, 200);
+
+  const heavy = prepareInlineImage(wide, { maxBytes: 20 * 1024 });
+  assert.ok(Buffer.from(heavy.data, 'base64').length <= 20 * 1024, 'halved until it fits the byte limit');
+
+  const jpeg = path.join(tmp, 'big.jpg');
+  fs.writeFileSync(jpeg, Buffer.alloc(4096));
+  assert.match(prepareInlineImage(jpeg, { maxBytes: 1024 }).skipped, /over the 1 KB inline limit/);
+}
+
+function testSessionFiles() {
+  assert.deepStrictEqual(lib.listSessionFiles(), [], 'no session yet');
+  const dir = lib.initializeSession();
+  fs.writeFileSync(path.join(dir, '002-click.png'), '');
+  fs.writeFileSync(path.join(dir, '001-navigate.md'), '# Hi');
+  fs.mkdirSync(path.join(dir, 'downloads'));
+
+  const files = lib.listSessionFiles();
+  assert.deepStrictEqual(files.map(f => [f.name, f.mimeType]), [['001-navigate.md', 'text/markdown'], ['002-click.png', 'image/png']]);
+  assert.strictEqual(lib.resolveSessionFile('001-navigate.md'), path.join(dir, '001-navigate.md'));
+  assert.throws(() => lib.resolveSessionFile('../session.jsonl'), /Invalid session file name/);
+  assert.throws(() => lib.resolveSessionFile('downloads'), /Session file not found/);
+}
+
+try {
+  testMimeTypes();
+  testInlineImages();
+  testSessionFiles();
+} finally {
+  lib.cleanupSession();
+  fs.rmSync(tmp, { recursive: true, force: true });
+}
+console.log('inline images test passed');
@@ -0,0 +1,114 @@
+#!/usr/bin/env node
+
+const assert = require('assert');
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const { spawnSync } = require('child_process');
+const { loadLaunchConfig, buildChromeArgs, findChromeExecutable } = require('./chrome-ws-lib');
+
+const tmp = fs.mkdtempSync(path.join(os.tmpdir(), 'chrome-launch-'));
+
+function touch(file) {
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, '');
+}
+
+function testPrecedence() {
+  const configFile = path.join(tmp, 'chrome.json');
+  fs.writeFileSync(configFile, JSON.stringify({
+    executablePath: '/from/file',
+    port: 9333,
+    args: ['--lang=fr'],
+    extensions: ['ext'],
+    windowSize: { width: 800, height: 600 }
+  }));
+
+  const config = loadLaunchConfig(
+    [`--config=${configFile}`, '--chrome-arg=--lang=de', '--window-size=1280x800'],
+    { CHROME_PATH: '/from/env', CHROME_ARGS: '--mute-audio', CHROME_PROXY: 'http://proxy:8080' }
+  );
+  assert.strictEqual(config.executablePath, '/from/env', 'env overrides the config file');
+  assert.strictEqual(config.port, 9333);
+  assert.deepStrictEqual(config.args, ['--lang=fr', '--mute-audio', '--lang=de'], 'flag lists accumulate');
+  assert.deepStrictEqual(config.extensions, [path.join(tmp, 'ext')], 'extension paths are relative to the config file');
+  assert.deepStrictEqual(config.windowSize, { width: 1280, height: 800 }, 'CLI flags override env and file');
+  assert.strictEqual(config.proxy, 'http://proxy:8080');
+
+  assert.throws(() => loadLaunchConfig([`--config=${path.join(tmp, 'missing.json')}`], {}), /Cannot read Chrome config/);
+  assert.throws(() => loadLaunchConfig(['--window-size=big'], {}), /Invalid window size/);
+}
+
+function testArgs() {
+  const args = buildChromeArgs(
+    { args: ['--disable-features=Foo'], removeArgs: ['--no-sandbox'], extensions: ['/ext/a', '/ext/b'], proxy: 'socks5://p:1080', proxyBypass: 'localhost' },
+    { port: 9444, userDataDir: '/tmp/profile', headless: true }
+  );
+  assert.strictEqual(args[0], '--remote-debugging-port=9444');
+  assert.ok(!args.includes('--no-sandbox'), 'removed flags are dropped');
+  assert.ok(!args.includes('--disable-extensions'), 'loading extensions drops --disable-extensions');
+  assert.ok(args.includes('--load-extension=/ext/a,/ext/b'));
+  assert.ok(args.includes('--proxy-server=socks5://p:1080') && args.includes('--proxy-bypass-list=localhost'));
+  assert.ok(args.includes('--headless=new'));
+  assert.deepStrictEqual(args.filter(arg => arg.startsWith('--disable-features=')), ['--disable-features=Foo'], 'extra args replace defaults of the same name');
+
+  const shellArgs = buildChromeArgs({}, { port: 9222, userDataDir: '/tmp/p', headless: true, executablePath: '/x/chrome-headless-shell' });
+  assert.ok(!shellArgs.includes('--headless=new'), 'chrome-headless-shell needs no headless flag');
+}
+
+function testDiscovery() {
+  const playwright = path.join(tmp, 'ms-playwright');
+  touch(path.join(playwright, 'chromium-1097', 'chrome-linux', 'chrome'));
+  touch(path.join(playwright, 'chromium-1140', 'chrome-linux', 'chrome'));
+  touch(path.join(playwright, 'chromium_headless_shell-1140', 'chrome-linux', 'headless_shell'));
+  const bin = path.join(tmp, 'bin');
+  touch(path.join(bin, 'chrome-headless-shell'));
+
+  const env = { PATH: bin, PLAYWRIGHT_BROWSERS_PATH: playwright };
+  const headless = findChromeExecutable({}, { platform: 'freebsd', env, headless: true });
+  assert.strictEqual(headless.path, path.join(bin, 'chrome-headless-shell'), 'PATH comes before the Playwright cache');
+
+  const headed = findChromeExecutable({}, { platform: 'linux', env: { PATH: bin, PLAYWRIGHT_BROWSERS_PATH: playwright }, headless: false });
+  if (!fs.existsSync('/usr/bin/google-chrome') && !fs.existsSync('/usr/bin/chromium')) {
+    assert.strictEqual(headed.path, path.join(playwright, 'chromium-1140', 'chrome-linux', 'chrome'), 'newest Playwright Chromium, never the headless shell for headed mode');
+  }
+
+  const explicit = findChromeExecutable({ executablePath: path.join(tmp, 'nope') }, { env });
+  assert.strictEqual(explicit.path, null, 'an explicit path is not replaced by discovery');
+}
+
+// `chrome-ws start` launches with the resolved config; the fake Chrome records its flags and exits
+function testCliStart() {
+  const argsFile = path.join(tmp, 'chrome-args.txt');
+  const fakeChrome = path.join(tmp, 'fake-chrome.sh');
+  fs.writeFileSync(fakeChrome, `#!/bin/sh\nprintf '%s\\n' "$@" > '${argsFile}'\nexit 3\n`, { mode: 0o755 });
+
+  const env = { ...process.env, XDG_CONFIG_HOME: tmp, CHROME_PROXY: 'http://proxy:8080' };
+  delete env.CHROME_WS_PORT;
+  delete env.CHROME_WS_HOST;
+  const result = spawnSync(process.execPath, [
+    path.join(__dirname, 'chrome-ws'), 'start',
+    `--chrome-path=${fakeChrome}`, '--debug-port=auto', '--chrome-arg=--lang=de', '--remove-chrome-arg=--disable-extensions'
+  ], { env, encoding: 'utf8', timeout: 20000 });
+
+  assert.strictEqual(result.status, 1, result.stderr);
+  assert.match(result.stderr, /Chrome exited before DevTools was ready \(exit code 3\)/);
+  const args = fs.readFileSync(argsFile, 'utf8').trim().split('\n');
+  const port = args.find(arg => arg.startsWith('--remote-debugging-port=')).split('=')[1];
+  assert.notStrictEqual(port, '9222', 'an auto port replaces the default');
+  assert.match(result.stderr, new RegExp(`curl http://127\\.0\\.0\\.1:${port}/json/version`));
+  assert.ok(args.includes('--user-data-dir=/tmp/chrome-debug'));
+  assert.ok(args.includes('--proxy-server=http://proxy:8080'), 'env vars apply');
+  assert.ok(args.includes('--lang=de') && !args.includes('--disable-extensions'), 'extra and removed flags apply');
+  assert.ok(!args.includes('--headless=new'), 'start is headed');
+}
+
+try {
+  testPrecedence();
+  testArgs();
+  testDiscovery();
+  if (process.platform !== 'win32') testCliStart();
+} finally {
+  fs.rmSync(tmp, { recursive: true, force: true });
+}
+console.log('launch config test passed');
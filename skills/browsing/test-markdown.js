@@ -0,0 +1,140 @@
+#!/usr/bin/env node
+
+const assert = require('assert');
+const vm = require('vm');
+const { MARKDOWN_JS } = require('./chrome-ws-lib');
+const { parseHtml } = require('./test-support/mini-dom');
+
+// Render fixture HTML the way generateMarkdown() does in the page
+function render(html, options = {}, rootSelector = null) {
+  const { document, context } = parseHtml(html, 'https://a.test/guide');
+  const root = rootSelector ? document.querySelector(rootSelector) : null;
+  const settings = { scoped: !!rootSelector, main: options.main !== false, maxLength: 50000 };
+  return vm.runInNewContext(`(${MARKDOWN_JS})(root, ${JSON.stringify(settings)})`, { ...context, root });
+}
+
+// The rendered blocks after the "# title" and "Source:" header
+function body(markdown) {
+  return markdown.split('\n\n').slice(2).join('\n\n');
+}
+
+function testHeadingsAndInline() {
+  const markdown = render(`<html><head><title>Guide</title></head><body><main>
+    <h1>Getting <em>started</em></h1>
+    <p>Install the <strong>CLI</strong> with <code>npm i</code>, then read the <a href="/docs/setup">setup guide</a>.</p>
+    <h3>Notes</h3>
+    <p>Old <del>flag</del> and <a href="#">anchor</a> and <a href="javascript:void(0)">script</a> links.</p>
+  </main></body></html>`);
+
+  const blocks = markdown.split('\n\n');
+  assert.deepStrictEqual(blocks.slice(0, 3), ['# Guide', 'Source: https://a.test/guide', '# Getting *started*']);
+  assert.ok(blocks[3].startsWith('Install the **CLI** with `npm i`, then read the [setup guide](https://a.test/docs/setup)'),
+    'links are absolute');
+  assert.strictEqual(blocks[4], '### Notes');
+  assert.strictEqual(blocks[5], 'Old ~~flag~~ and anchor and script links.', 'links without a real target render as text');
+}
+
+function testLists() {
+  const markdown = render(`<main>
+    <ol start="3">
+      <li>Download</li>
+      <li>Configure<ul><li>Port</li><li hidden>Secret</li><li>Proxy</li></ul></li>
+    </ol>
+    <ul><li><p>First paragraph</p><p>Second paragraph</p></li></ul>
+  </main>`);
+
+  assert.strictEqual(body(markdown), [
+    '3. Download\n4. Configure\n   - Port\n   - Proxy',
+    '- First paragraph\n  Second paragraph'
+  ].join('\n\n'), 'nested lists and later paragraphs are indented under their item');
+}
+
+function testTables() {
+  const markdown = render(`<main>
+    <table>
+      <caption>Plans</caption>
+      <thead><tr><th>Plan</th><th>Price</th><th>Seats</th></tr></thead>
+      <tbody>
+        <tr><td>Free</td><td>$0</td><td>1</td></tr>
+        <tr><td colspan="2">Pro | Team</td><td>10</td></tr>
+        <tr hidden><td>Legacy</td><td>$5</td><td>3</td></tr>
+      </tbody>
+    </table>
+    <table><tr><td>Layout cell</td></tr></table>
+  </main>`);
+
+  assert.strictEqual(body(markdown), [
+    '*Plans*',
+    '| Plan | Price | Seats |\n| --- | --- | --- |\n| Free | $0 | 1 |\n| Pro \\| Team |  | 10 |',
+    'Layout cell'
+  ].join('\n\n'), 'colspans pad the row, pipes are escaped, single-column tables are plain text');
+}
+
+function testCodeBlocks() {
+  const markdown = render(`<main>
+<pre class="language-js"><code>const a = 1;
+if (a &lt; 2) {}
+</code></pre>
+<pre><code>Use \`\`\`js fences</code></pre>
+</main>`);
+
+  assert.strictEqual(body(markdown), [
+    '```js\nconst a = 1;\nif (a < 2) {}\n```',
+    '~~~~\nUse ```js fences\n~~~~'
+  ].join('\n\n'), 'the language comes from the class; code containing a fence gets a ~~~~ fence');
+}
+
+function testHiddenAndBoilerplate() {
+  const html = `<body>
+    <nav><a href="/">Home</a></nav>
+    <div id="cookie-banner" style="position: fixed">We use cookies <button>OK</button></div>
+    <main>
+      <p>Visible</p>
+      <p hidden>Hidden attribute</p>
+      <div style="display: none"><p>Display none</p></div>
+      <p aria-hidden="true">Decorative</p>
+      <span style="display: contents"><span>Contents box</span></span>
+      <script>var tracking = 1;</script>
+      <style>p { color: red }</style>
+      <template><p>Template</p></template>
+    </main>
+    <footer>Copyright</footer>
+  </body>`;
+
+  assert.strictEqual(body(render(html)), 'Visible\n\nContents box', 'hidden, scripted and templated content is skipped');
+
+  const everything = body(render(html, { main: false }));
+  assert.ok(everything.startsWith('[Home](https://a.test/)\n\nWe use cookies [Button: OK]\n\nVisible'), 'main: false keeps navigation and banners');
+  assert.ok(everything.endsWith('Copyright'));
+  assert.ok(!everything.includes('Display none') && !everything.includes('tracking'));
+}
+
+function testScopedRender() {
+  const html = `<main><section id="pricing"><h2>Pricing</h2><p>From $0</p></section><p>Other</p></main>`;
+  assert.strictEqual(render(html, {}, '#pricing'), '## Pricing\n\nFrom $0', 'a root renders just that element, without the page header');
+  assert.strictEqual(render(html, {}, '#missing'), null);
+}
+
+function testFormControls() {
+  const markdown = render(`<main><form>
+    <label for="email">Email</label> <input id="email" type="email" value="ada@example.com" required>
+    <label for="pw">Password</label> <input id="pw" type="password" value="hunter2">
+    <label><input type="checkbox" checked> Remember me</label>
+    <select aria-label="Plan"><option value="free">Free</option><option value="pro" selected>Pro</option></select>
+    <input type="hidden" name="csrf" value="token">
+    <button disabled>Sign in</button>
+  </form></main>`);
+
+  assert.strictEqual(body(markdown),
+    '[Email (email): "ada@example.com"] (required) [Password (password): "********"] [x] Remember me [Plan (select): "Pro"] [Button: Sign in] (disabled)',
+    'labels come from for=, wrapping labels and aria-label; passwords are masked at a fixed width; hidden inputs are skipped');
+}
+
+testHeadingsAndInline();
+testLists();
+testTables();
+testCodeBlocks();
+testHiddenAndBoilerplate();
+testScopedRender();
+testFormControls();
+console.log('markdown test passed');
@@ -0,0 +1,132 @@
+#!/usr/bin/env node
+
+const assert = require('assert');
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+
+const tmp = fs.mkdtempSync(path.join(os.tmpdir(), 'chrome-har-'));
+process.env.XDG_CACHE_HOME = tmp;
+
+const lib = require('./chrome-ws-lib');
+const { buildHar, matchesUrlPattern, validateUrlPattern } = lib;
+const { startFakeChrome } = require('./test-support/fake-chrome');
+
+function testUrlPatterns() {
+  const url = 'https://example.com/api/users/42?expand=1';
+
+  assert.ok(matchesUrlPattern(url, '/api/users'), 'plain patterns should match substrings');
+  assert.ok(!matchesUrlPattern(url, '/api/orders'), 'plain patterns should not match other paths');
+  assert.ok(matchesUrlPattern(url, '**/api/users/*'), '** should cross path segments');
+  assert.ok(!matchesUrlPattern(url, 'https://example.com/*'), '* should not cross path segments');
+  assert.ok(matchesUrlPattern(url, '/users\\/\\d+/'), 'slash-delimited patterns should be regexes');
+  assert.ok(matchesUrlPattern(url, undefined), 'missing pattern should match everything');
+
+  assert.throws(() => matchesUrlPattern(url, '/users(/'), /^Error: Invalid URL pattern \/users\(\/: /);
+  assert.throws(() => validateUrlPattern('/[a-/'), /Invalid URL pattern/, 'bad regexes are rejected before use');
+  assert.doesNotThrow(() => validateUrlPattern(null));
+}
+
+function testHarShape() {
+  const har = buildHar([
+    {
+      requestId: '1',
+      url: 'https://example.com/search?q=chrome&page=2',
+      method: 'POST',
+      resourceType: 'XHR',
+      requestHeaders: { 'Content-Type': 'application/json' },
+      postData: '{"q":"chrome"}',
+      startedDateTime: '2025-01-01T00:00:00.000Z',
+      timestamp: 100,
+      endTimestamp: 100.25,
+      status: 200,
+      statusText: 'OK',
+      responseHeaders: { 'set-cookie': 'a=1\nb=2' },
+      mimeType: 'application/json',
+      protocol: 'h2',
+      encodedDataLength: 512,
+      finished: true,
+      failed: false,
+      redirectURL: '',
+      timing: {
+        requestTime: 100, dnsStart: 1, dnsEnd: 5, connectStart: 5, connectEnd: 20,
+        sslStart: 10, sslEnd: 20, sendStart: 21, sendEnd: 22, receiveHeadersEnd: 200
+      },
+      body: '{"ok":true}',
+      bodyBase64: false
+    },
+    {
+      requestId: '2',
+      url: 'https://missing.invalid/',
+      method: 'GET',
+      resourceType: 'Document',
+      requestHeaders: {},
+      postData: null,
+      startedDateTime: '2025-01-01T00:00:01.000Z',
+      timestamp: 101,
+      endTimestamp: 101.01,
+      status: null,
+      responseHeaders: {},
+      encodedDataLength: 0,
+      finished: true,
+      failed: true,
+      errorText: 'net::ERR_NAME_NOT_RESOLVED',
+      timing: null
+    }
+  ]);
+
+  assert.strictEqual(har.log.version, '1.2');
+  assert.strictEqual(har.log.entries.length, 2);
+
+  const [ok, failed] = har.log.entries;
+  assert.strictEqual(ok.request.httpVersion, 'HTTP/2');
+  assert.deepStrictEqual(ok.request.queryString, [{ name: 'q', value: 'chrome' }, { name: 'page', value: '2' }]);
+  assert.strictEqual(ok.request.postData.mimeType, 'application/json');
+  assert.strictEqual(ok.response.headers.length, 2, 'multi-line headers should be split');
+  assert.strictEqual(ok.response.content.text, '{"ok":true}');
+  assert.strictEqual(ok.timings.dns, 4);
+  assert.strictEqual(ok.timings.wait, 178);
+  assert.strictEqual(ok.timings.receive, 50);
+  assert.strictEqual(ok.timings.ssl, 10);
+  assert.strictEqual(ok.time, 249, 'time sums the phases without ssl, which is part of connect');
+  for (const key of ['send', 'wait', 'receive']) {
+    assert.ok(ok.timings[key] >= 0, `${key} timing must be non-negative`);
+  }
+
+  assert.strictEqual(failed.response.status, 0);
+  assert.strictEqual(failed._error, 'net::ERR_NAME_NOT_RESOLVED');
+  assert.strictEqual(failed.timings.wait, 10);
+}
+
+// Output filenames follow the pdf rule: relative to the session dir, absolute kept
+async function testExportPaths(chrome) {
+  const tab = chrome.addTarget({ url: 'https://a.test/' });
+  await lib.startNetworkRecording(tab.webSocketDebuggerUrl);
+
+  const relative = await lib.exportHar(tab.webSocketDebuggerUrl, 'runs/first.har');
+  assert.strictEqual(relative.path, path.join(lib.initializeSession(), 'runs', 'first.har'));
+  assert.strictEqual(JSON.parse(fs.readFileSync(relative.path, 'utf8')).log.version, '1.2');
+  assert.ok(!fs.existsSync(path.resolve('runs', 'first.har')), 'nothing is written relative to the cwd');
+
+  const absolute = await lib.exportHar(tab.webSocketDebuggerUrl, path.join(tmp, 'out.har'));
+  assert.strictEqual(absolute.path, path.join(tmp, 'out.har'));
+}
+
+(async () => {
+  testUrlPatterns();
+  testHarShape();
+  const chrome = await startFakeChrome();
+  try {
+    await lib.setDebugPort(chrome.port);
+    await testExportPaths(chrome);
+  } finally {
+    lib.closeAllConnections();
+    lib.cleanupSession();
+    await chrome.close();
+    fs.rmSync(tmp, { recursive: true, force: true });
+  }
+  console.log('network/HAR test passed');
+})().catch((e) => {
+  console.error(e);
+  process.exit(1);
+});
@@ -0,0 +1,96 @@
+#!/usr/bin/env node
+
+const assert = require('assert');
+const lib = require('./chrome-ws-lib');
+const { startFakeChrome } = require('./test-support/fake-chrome');
+
+const sleep = (ms) => new Promise(resolve => setTimeout(resolve, ms));
+
+const QUICK = { idleMs: 50, timeout: 300 };
+
+async function testIdle(chrome, wsUrl, id) {
+  assert.deepStrictEqual(await lib.waitForNetworkIdle(wsUrl, QUICK).then(r => [r.idle, r.inflight]), [true, 0]);
+
+  chrome.emit(id, 'Network.requestWillBeSent', { requestId: 'r1', loaderId: 'L1', type: 'XHR' });
+  chrome.emit(id, 'Network.requestWillBeSent', { requestId: 'ws', loaderId: 'L1', type: 'WebSocket' });
+  await sleep(20);
+  const busy = await lib.waitForNetworkIdle(wsUrl, QUICK);
+  assert.deepStrictEqual([busy.idle, busy.inflight], [false, 1], 'WebSockets never count as in flight');
+  assert.ok(busy.waited >= QUICK.timeout);
+
+  assert.strictEqual((await lib.waitForNetworkIdle(wsUrl, { ...QUICK, maxInflight: 1 })).idle, true, 'maxInflight tolerates long-polls');
+
+  chrome.emit(id, 'Network.loadingFinished', { requestId: 'r1' });
+  await sleep(20);
+  assert.strictEqual((await lib.waitForNetworkIdle(wsUrl, QUICK)).idle, true);
+}
+
+async function testMainFrameNavigation(chrome, wsUrl, id) {
+  chrome.emit(id, 'Network.requestWillBeSent', { requestId: 'old', loaderId: 'L1', type: 'Fetch' });
+  chrome.emit(id, 'Network.requestWillBeSent', { requestId: 'doc', loaderId: 'L2', type: 'Document' });
+  chrome.emit(id, 'Page.frameNavigated', { frame: { id: 'child', parentId: 'main', loaderId: 'L3' } });
+  await sleep(20);
+  assert.strictEqual((await lib.waitForNetworkIdle(wsUrl, QUICK)).inflight, 2, 'subframe navigations keep requests');
+
+  chrome.emit(id, 'Page.frameNavigated', { frame: { id: 'main', loaderId: 'L2' } });
+  await sleep(20);
+  const after = await lib.waitForNetworkIdle(wsUrl, QUICK);
+  assert.strictEqual(after.inflight, 1, 'the old document\'s requests are dropped, the new document stays');
+
+  chrome.emit(id, 'Network.loadingFinished', { requestId: 'doc' });
+  await sleep(20);
+  assert.strictEqual((await lib.waitForNetworkIdle(wsUrl, QUICK)).idle, true);
+}
+
+async function testStaleRequests(chrome, wsUrl, id) {
+  chrome.emit(id, 'Network.requestWillBeSent', { requestId: 'lost', loaderId: 'L2', type: 'Fetch' });
+  await sleep(20);
+  assert.strictEqual((await lib.waitForNetworkIdle(wsUrl, { ...QUICK, staleMs: 5000 })).idle, false);
+  const aged = await lib.waitForNetworkIdle(wsUrl, { idleMs: 50, timeout: 1000, staleMs: 150 });
+  assert.deepStrictEqual([aged.idle, aged.inflight], [true, 0], 'requests in flight past staleMs stop holding up idle');
+}
+
+async function testConnectionClose(chrome, wsUrl, id) {
+  chrome.emit(id, 'Network.requestWillBeSent', { requestId: 'r2', loaderId: 'L2', type: 'XHR' });
+  await sleep(20);
+  assert.strictEqual((await lib.waitForNetworkIdle(wsUrl, QUICK)).inflight, 1);
+
+  lib.closePooledConnection(wsUrl);
+  await sleep(50);
+  assert.strictEqual((await lib.waitForNetworkIdle(wsUrl, QUICK)).idle, true, 'a closed connection forgets its requests');
+}
+
+async function testSettle(chrome, wsUrl, id) {
+  chrome.handle('Runtime.evaluate', () => ({ result: { type: 'object', value: { quiet: true, waited: 10 } } }));
+  chrome.emit(id, 'Network.requestWillBeSent', { requestId: 'r3', loaderId: 'L2', type: 'XHR' });
+  await sleep(20);
+
+  const busy = await lib.waitForSettle(wsUrl, { timeout: 300, networkIdleMs: 50, domQuietMs: 50 });
+  assert.deepStrictEqual([busy.networkIdle, busy.inflight, busy.domQuiet], [false, 1, true]);
+  assert.strictEqual(lib.formatSettleResult(busy), `Settle timed out after ${busy.waited}ms (1 request still in flight)`);
+
+  setTimeout(() => chrome.emit(id, 'Network.loadingFailed', { requestId: 'r3' }), 100);
+  const settled = await lib.waitForSettle(wsUrl, { timeout: 2000, networkIdleMs: 50, domQuietMs: 50 });
+  assert.deepStrictEqual([settled.networkIdle, settled.domQuiet], [true, true]);
+  assert.ok(settled.waited >= 150, 'network idle counts from the last request finishing');
+
+  assert.deepStrictEqual(await lib.waitForSettle(wsUrl, false), { waited: 0, networkIdle: null, domQuiet: null, skipped: true });
+}
+
+(async () => {
+  const chrome = await startFakeChrome();
+  try {
+    await lib.setDebugPort(chrome.port);
+    const tab = chrome.addTarget({ url: 'https://a.test/' });
+    for (const test of [testIdle, testMainFrameNavigation, testStaleRequests, testConnectionClose, testSettle]) {
+      await test(chrome, tab.webSocketDebuggerUrl, tab.id);
+    }
+  } finally {
+    lib.closeAllConnections();
+    await chrome.close();
+  }
+  console.log('network idle test passed');
+})().catch((e) => {
+  console.error(e);
+  process.exit(1);
+});
@@ -0,0 +1,60 @@
+#!/usr/bin/env node
+
+const assert = require('assert');
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+
+const tmp = fs.mkdtempSync(path.join(os.tmpdir(), 'chrome-pdf-'));
+process.env.XDG_CACHE_HOME = tmp;
+
+const lib = require('./chrome-ws-lib');
+const { startFakeChrome } = require('./test-support/fake-chrome');
+
+const PDF_DATA = Buffer.from('%PDF-1.7\n%%EOF\n');
+
+async function testPdfPaths(chrome, wsUrl) {
+  chrome.handle('Page.printToPDF', () => ({ data: PDF_DATA.toString('base64') }));
+  const sessionDir = lib.initializeSession();
+
+  const generated = await lib.pdf(wsUrl);
+  assert.strictEqual(path.dirname(generated.path), sessionDir);
+  assert.match(path.basename(generated.path), /^\d{3}-pdf\.pdf$/);
+
+  const relative = await lib.pdf(wsUrl, 'reports/invoice.pdf', { format: 'a4', margin: '1cm' });
+  assert.strictEqual(relative.path, path.join(sessionDir, 'reports', 'invoice.pdf'), 'relative to the session dir, not the cwd');
+  assert.deepStrictEqual(fs.readFileSync(relative.path), PDF_DATA);
+  assert.strictEqual(relative.size, PDF_DATA.length);
+
+  const absolute = await lib.pdf(wsUrl, path.join(tmp, 'out.pdf'));
+  assert.strictEqual(absolute.path, path.join(tmp, 'out.pdf'));
+
+  const [, params] = chrome.callsTo('Page.printToPDF').map(call => call.params);
+  assert.deepStrictEqual([params.paperWidth, params.paperHeight], [8.27, 11.7]);
+  assert.ok(Math.abs(params.marginTop - 1 / 2.54) < 1e-9);
+}
+
+async function testHeadedChrome(chrome, wsUrl) {
+  chrome.handle('Page.printToPDF', () => { throw new Error('PrintToPDF is not implemented'); });
+  await assert.rejects(lib.pdf(wsUrl, 'headed.pdf'), /PDF export needs headless Chrome/);
+  assert.ok(!fs.existsSync(path.join(lib.initializeSession(), 'headed.pdf')));
+}
+
+(async () => {
+  const chrome = await startFakeChrome();
+  try {
+    await lib.setDebugPort(chrome.port);
+    const tab = chrome.addTarget({ url: 'https://a.test/invoice' });
+    await testPdfPaths(chrome, tab.webSocketDebuggerUrl);
+    await testHeadedChrome(chrome, tab.webSocketDebuggerUrl);
+  } finally {
+    lib.closeAllConnections();
+    lib.cleanupSession();
+    await chrome.close();
+    fs.rmSync(tmp, { recursive: true, force: true });
+  }
+  console.log('pdf test passed');
+})().catch((e) => {
+  console.error(e);
+  process.exit(1);
+});
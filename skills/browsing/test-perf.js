@@ -0,0 +1,143 @@
+#!/usr/bin/env node
+
+const assert = require('assert');
+const lib = require('./chrome-ws-lib');
+const { startFakeChrome } = require('./test-support/fake-chrome');
+const { rateWebVital, countCoveredBytes, formatPerformanceReport, formatTraceResult } = lib;
+
+function testRatings() {
+  assert.strictEqual(rateWebVital('lcp', 2500), 'good');
+  assert.strictEqual(rateWebVital('lcp', 2501), 'needs-improvement');
+  assert.strictEqual(rateWebVital('lcp', 4001), 'poor');
+  assert.strictEqual(rateWebVital('cls', 0.05), 'good');
+  assert.strictEqual(rateWebVital('inp', 600), 'poor');
+  assert.strictEqual(rateWebVital('inp', null), null, 'missing values are not rated');
+  assert.strictEqual(rateWebVital('unknown', 1), null);
+}
+
+function testCoverage() {
+  // Script of 100 bytes, one function 20-60 never called
+  assert.strictEqual(countCoveredBytes(100, [
+    { startOffset: 0, endOffset: 100, count: 1 },
+    { startOffset: 20, endOffset: 60, count: 0 },
+    { startOffset: 30, endOffset: 40, count: 2 }
+  ]), 70, 'nested ranges override the ranges around them');
+  assert.strictEqual(countCoveredBytes(10, [{ startOffset: 5, endOffset: 50, count: 1 }]), 5, 'ranges are clipped to the file');
+  assert.strictEqual(countCoveredBytes(0, []), 0);
+}
+
+function testFormatting() {
+  const text = formatPerformanceReport({
+    url: 'https://example.com/',
+    path: '/tmp/004-perf-metrics.json',
+    navigation: { type: 'navigate', protocol: 'h2', ttfb: 120, dns: 3, connect: 10, response: 20, domContentLoaded: 610, load: 1200, transferSize: 5120 },
+    vitals: { fcp: 340, lcp: { value: 4200, element: 'img.hero' }, cls: 0.02, inp: null, interactions: 0 },
+    ratings: { ttfb: 'good', fcp: 'good', lcp: 'poor', cls: 'good', inp: null },
+    longTasks: { count: 2, totalDuration: 300, blockingTime: 200, longest: [{ start: 800, duration: 180 }, { start: 1500, duration: 120 }] },
+    resources: { total: { count: 3, transferSize: 3072, decodedSize: 9000 }, byType: { script: { count: 2, transferSize: 2048 }, img: { count: 1, transferSize: 1024 } } },
+    metrics: { Nodes: 420, JSHeapUsedSize: 2 * 1024 * 1024, ScriptDuration: 0.25 },
+    observers: true
+  });
+  assert.ok(text.includes('Navigation (navigate, h2): TTFB 120ms, DOMContentLoaded 610ms, load 1.20s'));
+  assert.ok(text.includes('LCP 4.20s (img.hero) [poor]'));
+  assert.ok(text.includes('INP n/a (no interactions yet)'));
+  assert.ok(text.includes('Long tasks: 2, 300ms total, blocking time 200ms, longest 180ms@800ms 120ms@1.50s'));
+  assert.ok(text.includes('Resources: 3 requests, 3.0KB transferred'));
+  assert.ok(/script: 2, 2\.0KB\n {2}img: 1, 1\.0KB/.test(text), 'resource types by size');
+  assert.ok(text.includes('Metrics: Nodes 420, JSHeapUsedSize 2.0MB, ScriptDuration 250ms'));
+
+  const trace = formatTraceResult({
+    durationMs: 2500,
+    tracePath: '/tmp/005-trace.json',
+    traceBytes: 2048,
+    coveragePath: '/tmp/005-trace-coverage.json',
+    coverage: {
+      js: { totalBytes: 1000, usedBytes: 400, unusedBytes: 600, files: [{ url: 'https://example.com/app.js', unusedBytes: 600, unusedPercent: 60 }] },
+      css: { totalBytes: 0, usedBytes: 0, unusedBytes: 0, files: [] }
+    }
+  });
+  assert.ok(trace.startsWith('Trace recorded for 2.50s: /tmp/005-trace.json (2.0KB'));
+  assert.ok(trace.includes('JS: 400B of 1000B used (60% unused, 1 files)'));
+  assert.ok(trace.includes('  600B unused (60%) https://example.com/app.js'));
+  assert.ok(trace.includes('CSS: 0B of 0B used (0% unused, 0 files)'));
+}
+
+async function testObserversInstalledOnNavigate(chrome) {
+  const tab = chrome.addTarget({ url: 'https://a.test/' });
+  const observerScripts = () => chrome.callsTo('Page.addScriptToEvaluateOnNewDocument')
+    .filter(call => call.target === tab.id && call.params.source.includes('__superpowersPerf'));
+  chrome.handle('Page.navigate', (params, target) => {
+    setTimeout(() => chrome.emit(target.id, 'Page.loadEventFired', {}), 10);
+    return { frameId: 'main' };
+  });
+
+  await lib.getPageSize(tab.webSocketDebuggerUrl).catch(() => {});
+  assert.strictEqual(observerScripts().length, 0, 'connecting to a tab does not inject the observers');
+
+  await lib.navigate(tab.webSocketDebuggerUrl, 'https://a.test/next');
+  await lib.navigate(tab.webSocketDebuggerUrl, 'https://a.test/last');
+  assert.strictEqual(observerScripts().length, 1, 'registered once per connection, before the first navigation');
+}
+
+async function testStopTraceEndsTracing(chrome) {
+  const tab = chrome.addTarget({ url: 'https://a.test/' });
+  chrome.handle('Tracing.end', (params, target) => {
+    setTimeout(() => chrome.emit(target.id, 'Tracing.tracingComplete', { stream: 's1' }), 10);
+  });
+  chrome.handle('IO.read', () => ({ data: '[]', eof: true }));
+  chrome.handle('Profiler.takePreciseCoverage', () => {
+    throw new Error('Profiler is not enabled');
+  });
+
+  await lib.startTrace(tab.webSocketDebuggerUrl);
+  await assert.rejects(lib.stopTrace(tab.webSocketDebuggerUrl), /Profiler is not enabled/);
+  assert.strictEqual(chrome.callsTo('Tracing.end').filter(call => call.target === tab.id).length, 1, 'tracing ends even when coverage fails');
+
+  chrome.handle('Tracing.end', () => {
+    throw new Error('Tracing is not started');
+  });
+  await lib.startTrace(tab.webSocketDebuggerUrl);
+  const started = Date.now();
+  await assert.rejects(lib.stopTrace(tab.webSocketDebuggerUrl), /Tracing is not started/);
+  assert.ok(Date.now() - started < 5000, 'a failed Tracing.end fails fast instead of waiting for tracingComplete');
+  assert.strictEqual(chrome.callsTo('Tracing.end').filter(call => call.target === tab.id).length, 2,
+    'tracing commands are not retried on a single-use connection');
+  assert.ok(chrome.callsTo('Profiler.stopPreciseCoverage').some(call => call.target === tab.id), 'coverage is stopped when tracing fails to end');
+  await assert.rejects(lib.stopTrace(tab.webSocketDebuggerUrl), /No trace is recording/);
+}
+
+// Tracing and coverage die with the connection that started them
+async function testTraceEndsWithConnection(chrome) {
+  const tab = chrome.addTarget({ url: 'https://a.test/' });
+  chrome.handle('Tracing.start', () => {
+    throw new Error('Tracing has already been started');
+  });
+  await assert.rejects(lib.startTrace(tab.webSocketDebuggerUrl), /Failed to start trace: Tracing has already been started/);
+  assert.strictEqual(chrome.callsTo('Tracing.start').filter(call => call.target === tab.id).length, 1);
+
+  chrome.handle('Tracing.start', () => ({}));
+  await lib.startTrace(tab.webSocketDebuggerUrl);
+  lib.closePooledConnection(tab.webSocketDebuggerUrl);
+  await assert.rejects(lib.stopTrace(tab.webSocketDebuggerUrl), /No trace is recording/);
+}
+
+testRatings();
+testCoverage();
+testFormatting();
+
+(async () => {
+  const chrome = await startFakeChrome();
+  try {
+    await lib.setDebugPort(chrome.port);
+    await testObserversInstalledOnNavigate(chrome);
+    await testStopTraceEndsTracing(chrome);
+    await testTraceEndsWithConnection(chrome);
+  } finally {
+    lib.closeAllConnections();
+    await chrome.close();
+  }
+  console.log('perf test passed');
+})().catch((e) => {
+  console.error(e);
+  process.exit(1);
+});
@@ -0,0 +1,132 @@
+#!/usr/bin/env node
+
+const assert = require('assert');
+const lib = require('./chrome-ws-lib');
+const { startFakeChrome } = require('./test-support/fake-chrome');
+
+const BOXES = {
+  '#card': { x: 100, y: 200 },
+  '#lane': { x: 400, y: 200 }
+};
+
+// Answer element lookups from BOXES by the selector in the expression
+function locateElements(params) {
+  for (const [selector, box] of Object.entries(BOXES)) {
+    if (params.expression.includes(JSON.stringify(selector))) {
+      return { result: { value: { found: true, width: 50, height: 20, ...box } } };
+    }
+  }
+  return { result: { value: { found: false } } };
+}
+
+function mouseEvents(chrome, tab, type) {
+  return chrome.callsTo('Input.dispatchMouseEvent').filter(call => call.target === tab.id && call.params.type === type);
+}
+
+async function testHtml5Drag(chrome) {
+  const tab = chrome.addTarget({ url: 'https://a.test/' });
+  chrome.handle('Runtime.evaluate', locateElements);
+  // Chrome reports the drag after the last move has been answered
+  chrome.handle('Input.dispatchMouseEvent', (params, target) => {
+    if (params.type === 'mouseMoved' && params.buttons === 1 && params.x === BOXES['#lane'].x) {
+      setTimeout(() => chrome.emit(target.id, 'Input.dragIntercepted', { data: { items: [{ mimeType: 'text/plain', data: 'card' }], dragOperationsMask: 1 } }), 150);
+    }
+    return {};
+  });
+
+  const result = await lib.drag(tab.webSocketDebuggerUrl, '#card', '#lane', { steps: 4 });
+  assert.strictEqual(result.mode, 'html5', 'an intercept that trails the last move still drops');
+  assert.deepStrictEqual(result.from, BOXES['#card']);
+  assert.deepStrictEqual(result.at, BOXES['#lane']);
+
+  const dragEvents = chrome.callsTo('Input.dispatchDragEvent').filter(call => call.target === tab.id);
+  assert.deepStrictEqual(dragEvents.map(call => call.params.type), ['dragEnter', 'dragOver', 'drop']);
+  for (const call of dragEvents) {
+    assert.strictEqual(call.params.x, 400);
+    assert.deepStrictEqual(call.params.data.items, [{ mimeType: 'text/plain', data: 'card' }]);
+  }
+  assert.strictEqual(mouseEvents(chrome, tab, 'mouseReleased').length, 1);
+  assert.deepStrictEqual(
+    chrome.callsTo('Input.setInterceptDrags').filter(call => call.target === tab.id).map(call => call.params.enabled),
+    [true, false]
+  );
+}
+
+async function testPointerDrag(chrome) {
+  const tab = chrome.addTarget({ url: 'https://a.test/' });
+  chrome.handle('Runtime.evaluate', locateElements);
+  chrome.handle('Input.dispatchMouseEvent', () => ({}));
+
+  const result = await lib.drag(tab.webSocketDebuggerUrl, '#card', { x: 30, y: -10 }, { steps: 3 });
+  assert.strictEqual(result.mode, 'pointer');
+  assert.deepStrictEqual(result.at, { x: 130, y: 190 });
+
+  const held = mouseEvents(chrome, tab, 'mouseMoved').filter(call => call.params.buttons === 1);
+  assert.deepStrictEqual(held.map(call => call.params.x), [110, 120, 130], 'moves in the requested number of steps');
+  assert.strictEqual(held[held.length - 1].params.y, 190);
+  const [pressed] = mouseEvents(chrome, tab, 'mousePressed');
+  const [released] = mouseEvents(chrome, tab, 'mouseReleased');
+  assert.deepStrictEqual([pressed.params.x, pressed.params.y], [100, 200]);
+  assert.deepStrictEqual([released.params.x, released.params.y, released.params.buttons], [130, 190, 0]);
+  assert.strictEqual(chrome.callsTo('Input.dispatchDragEvent').filter(call => call.target === tab.id).length, 0);
+
+  await assert.rejects(lib.drag(tab.webSocketDebuggerUrl, '#card', {}), /requires a destination/);
+  await assert.rejects(lib.drag(tab.webSocketDebuggerUrl, '#missing', '#lane'), /Element not found: #missing/);
+}
+
+async function testScrollUntil(chrome) {
+  const tab = chrome.addTarget({ url: 'https://a.test/feed' });
+  let scrollTop = 0;
+  let scrolls = 0;
+  chrome.handle('Runtime.evaluate', (params) => {
+    if (params.expression.includes('scrollIntoView')) {
+      // The feed loads #item-40 after two screens; #never never shows up
+      return { result: { value: params.expression.includes('"#item-40"') && scrolls >= 2 } };
+    }
+    if (params.expression.includes('el.scrollBy')) {
+      scrolls++;
+      scrollTop += 800;
+    }
+    return { result: { value: { found: true, x: 0, y: scrollTop, maxY: 10000 } } };
+  });
+
+  const found = await lib.scroll(tab.webSocketDebuggerUrl, { until: '#item-40' });
+  assert.deepStrictEqual(found, { x: 0, y: 1600, found: true });
+  assert.strictEqual(scrolls, 2, 'scrolls a screen at a time until the element shows up');
+
+  await assert.rejects(lib.scroll(tab.webSocketDebuggerUrl, { until: '#never', timeout: 150 }), /Timeout scrolling to #never: not found after \d+ms \(scrolled to \d+px\)/);
+
+  scrollTop = 0;
+  assert.deepStrictEqual(await lib.scroll(tab.webSocketDebuggerUrl, { y: 250 }), { x: 0, y: 800 });
+  const lastScroll = chrome.callsTo('Runtime.evaluate').filter(call => call.target === tab.id).pop();
+  assert.ok(lastScroll.params.expression.includes('el.scrollBy({ left: 0, top: 250, behavior: "instant" })'), lastScroll.params.expression);
+  await assert.rejects(lib.scroll(tab.webSocketDebuggerUrl, { to: 'middle' }), /Invalid scroll target: middle/);
+}
+
+async function testMouseWheel(chrome) {
+  const tab = chrome.addTarget({ url: 'https://a.test/map' });
+  chrome.handle('Input.dispatchMouseEvent', () => ({}));
+
+  assert.deepStrictEqual(await lib.mouseWheel(tab.webSocketDebuggerUrl, { x: 10, y: 20, deltaY: -120 }), { x: 10, y: 20, deltaX: 0, deltaY: -120 });
+  const [wheel] = mouseEvents(chrome, tab, 'mouseWheel');
+  assert.deepStrictEqual(wheel.params, { type: 'mouseWheel', x: 10, y: 20, deltaX: 0, deltaY: -120 });
+  await assert.rejects(lib.mouseWheel(tab.webSocketDebuggerUrl, { x: 10, y: 20 }), /requires deltaX or deltaY/);
+}
+
+(async () => {
+  const chrome = await startFakeChrome();
+  try {
+    await lib.setDebugPort(chrome.port);
+    await testHtml5Drag(chrome);
+    await testPointerDrag(chrome);
+    await testScrollUntil(chrome);
+    await testMouseWheel(chrome);
+  } finally {
+    lib.closeAllConnections();
+    await chrome.close();
+  }
+  console.log('pointer test passed');
+})().catch((e) => {
+  console.error(e);
+  process.exit(1);
+});
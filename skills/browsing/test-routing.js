@@ -0,0 +1,65 @@
+#!/usr/bin/env node
+
+const assert = require('assert');
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const { normalizeRouteRule, buildFulfillParams, mergeRequestHeaders } = require('./chrome-ws-lib');
+
+function testRuleActions() {
+  assert.strictEqual(normalizeRouteRule({ url: '*.png', block: true }).action, 'block');
+  assert.strictEqual(normalizeRouteRule({ url: '/api/', delay: 500 }).action, 'continue');
+  assert.strictEqual(normalizeRouteRule({ url: '/api/', requestHeaders: { 'X-Test': '1' } }).action, 'continue');
+
+  const fulfill = normalizeRouteRule({ url: '/api/', method: 'post', body: '' });
+  assert.strictEqual(fulfill.action, 'fulfill');
+  assert.strictEqual(fulfill.status, 200, 'fulfill rules default to 200');
+  assert.strictEqual(fulfill.method, 'POST', 'methods are normalized to upper case');
+
+  assert.throws(() => normalizeRouteRule({ block: true }), /requires url/);
+  assert.throws(() => normalizeRouteRule({ url: '/api/' }), /does nothing/);
+  assert.throws(() => normalizeRouteRule({ url: '/api/', block: true, status: 500 }), /cannot both/);
+  assert.throws(() => normalizeRouteRule({ url: '/api/', body: 'x', file: 'x.json' }), /body or file/);
+}
+
+function testFulfillParams() {
+  const json = buildFulfillParams(normalizeRouteRule({ url: '/api/', status: 201, body: { ok: true } }));
+  assert.strictEqual(json.responseCode, 201);
+  assert.deepStrictEqual(json.responseHeaders, [{ name: 'Content-Type', value: 'application/json' }]);
+  assert.strictEqual(Buffer.from(json.body, 'base64').toString(), '{"ok":true}');
+
+  const custom = buildFulfillParams(normalizeRouteRule({
+    url: '/api/',
+    body: 'hi',
+    headers: { 'content-type': 'text/csv', 'X-Count': 3 }
+  }));
+  assert.deepStrictEqual(custom.responseHeaders, [
+    { name: 'content-type', value: 'text/csv' },
+    { name: 'X-Count', value: '3' }
+  ], 'explicit content-type wins, header values are strings');
+
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'route-test-'));
+  const file = path.join(dir, 'page.html');
+  fs.writeFileSync(file, '<h1>mock</h1>');
+  const fromFile = buildFulfillParams(normalizeRouteRule({ url: '/', file }));
+  assert.strictEqual(fromFile.responseHeaders[0].value, 'text/html; charset=utf-8');
+  assert.strictEqual(Buffer.from(fromFile.body, 'base64').toString(), '<h1>mock</h1>');
+  fs.rmSync(dir, { recursive: true, force: true });
+}
+
+function testRequestHeaders() {
+  const headers = mergeRequestHeaders(
+    { 'User-Agent': 'Chrome', Cookie: 'a=1', Accept: '*/*' },
+    { cookie: null, 'user-agent': 'Test', 'X-New': 'yes' }
+  );
+  assert.deepStrictEqual(headers, [
+    { name: 'user-agent', value: 'Test' },
+    { name: 'Accept', value: '*/*' },
+    { name: 'X-New', value: 'yes' }
+  ], 'overrides are case-insensitive and null removes a header');
+}
+
+testRuleActions();
+testFulfillParams();
+testRequestHeaders();
+console.log('routing test passed');
@@ -0,0 +1,107 @@
+#!/usr/bin/env node
+
+const assert = require('assert');
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+
+const tmp = fs.mkdtempSync(path.join(os.tmpdir(), 'chrome-secrets-'));
+process.env.XDG_CACHE_HOME = tmp;
+
+const lib = require('./chrome-ws-lib');
+const { resolveSecretPlaceholders, maskSecrets, maskPasswordInputs, readSecretsFile, setSecretsFile } = lib;
+const { startFakeChrome } = require('./test-support/fake-chrome');
+
+function testSecretsFile() {
+  const envFile = path.join(tmp, 'secrets.env');
+  fs.writeFileSync(envFile, '# staging\nexport STAGING_USER=ada\nSTAGING_PASSWORD="p@ss word&1"\n\nbroken line\n');
+  assert.deepStrictEqual(readSecretsFile(envFile), { STAGING_USER: 'ada', STAGING_PASSWORD: 'p@ss word&1' });
+
+  const jsonFile = path.join(tmp, 'secrets.json');
+  fs.writeFileSync(jsonFile, JSON.stringify({ API_TOKEN: 'tok-123456' }));
+  assert.deepStrictEqual(readSecretsFile(jsonFile), { API_TOKEN: 'tok-123456' });
+  assert.deepStrictEqual(readSecretsFile(path.join(tmp, 'missing.json')), {}, 'a missing file has no secrets');
+
+  fs.writeFileSync(path.join(tmp, 'bad.json'), '{ nope');
+  assert.throws(() => readSecretsFile(path.join(tmp, 'bad.json')), /Invalid secrets file/);
+}
+
+function testResolveAndMask() {
+  setSecretsFile(path.join(tmp, 'secrets.env'));
+  const env = { STAGING_USER: 'grace.h' };
+
+  assert.strictEqual(resolveSecretPlaceholders('plain text', env), 'plain text');
+  assert.strictEqual(resolveSecretPlaceholders('{{secret:STAGING_USER}}\t{{ secret:STAGING_PASSWORD }}\n', env), 'grace.h\tp@ss word&1\n',
+    'env vars win over the file');
+  assert.throws(() => resolveSecretPlaceholders('{{secret:NOPE}}', env), /Unknown secret NOPE: set the NOPE environment variable or add it to .*secrets\.env/);
+
+  const html = '<input name="u" value="grace.h"><input type="password" value="p@ss word&1">';
+  assert.strictEqual(maskSecrets(html), '<input name="u" value="{{secret:STAGING_USER}}"><input type="password" value="{{secret:STAGING_PASSWORD}}">');
+  assert.strictEqual(maskSecrets('POST user=grace.h&password=p%40ss+word%261'), 'POST user={{secret:STAGING_USER}}&password={{secret:STAGING_PASSWORD}}',
+    'form-encoded request bodies are masked');
+  assert.strictEqual(maskSecrets(JSON.stringify({ q: 'p@ss word&1' })), '{"q":"{{secret:STAGING_PASSWORD}}"}');
+  assert.strictEqual(maskSecrets(null), null);
+
+  assert.strictEqual(resolveSecretPlaceholders('{{secret:PIN}}', { PIN: '48213' }), '48213');
+  assert.strictEqual(maskSecrets('Entered 48213'), 'Entered {{secret:PIN}}', 'declared secrets are masked at any length');
+  resolveSecretPlaceholders('{{secret:EMPTY}}', { EMPTY: '' });
+  assert.strictEqual(maskSecrets('Navigated to about:blank'), 'Navigated to about:blank', 'an empty secret masks nothing');
+  setSecretsFile(null);
+}
+
+function testPasswordInputs() {
+  assert.strictEqual(
+    maskPasswordInputs('<input type="password" name="pw" value="hunter2"><input type="text" value="hunter2">'),
+    '<input type="password" name="pw" value="********"><input type="text" value="hunter2">'
+  );
+  assert.strictEqual(maskPasswordInputs("<INPUT value='abc' TYPE=password>"), '<INPUT value="********" TYPE=password>', 'the mask does not reveal the length');
+  assert.strictEqual(maskPasswordInputs('<input type="password-ish" value="x">'), '<input type="password-ish" value="x">');
+  assert.strictEqual(maskPasswordInputs('<input type="password">'), '<input type="password">');
+}
+
+// Password values read off the page only mask free text from the minimum length up
+async function testPagePasswords(chrome, wsUrl) {
+  chrome.handle('Runtime.evaluate', () => ({ result: { type: 'object', value: ['abc', 'correct-horse'] } }));
+  await lib.rememberPasswordValues(wsUrl);
+  assert.strictEqual(maskSecrets('abc then correct-horse'), 'abc then ********');
+}
+
+// Session dir artifacts are masked too, e.g. a secret typed into a plain textbox
+async function testSnapshotFile(chrome, wsUrl) {
+  chrome.handle('Accessibility.getFullAXTree', () => ({
+    nodes: [
+      { nodeId: '1', role: { value: 'RootWebArea' }, name: { value: 'Checkout' }, childIds: ['2'] },
+      { nodeId: '2', parentId: '1', role: { value: 'textbox' }, name: { value: 'PIN' }, backendDOMNodeId: 7, value: { value: '48213' }, childIds: [] }
+    ]
+  }));
+  const snapshot = await lib.snapshotWithCapture(wsUrl);
+  const written = fs.readFileSync(snapshot.file, 'utf8');
+  assert.ok(written.includes('textbox "PIN" value="{{secret:PIN}}"'), written);
+  assert.ok(!written.includes('48213'));
+}
+
+(async () => {
+  try {
+    testSecretsFile();
+    testResolveAndMask();
+    testPasswordInputs();
+
+    const chrome = await startFakeChrome();
+    try {
+      await lib.setDebugPort(chrome.port);
+      const tab = chrome.addTarget({ url: 'https://a.test/checkout' });
+      await testPagePasswords(chrome, tab.webSocketDebuggerUrl);
+      await testSnapshotFile(chrome, tab.webSocketDebuggerUrl);
+    } finally {
+      lib.closeAllConnections();
+      lib.cleanupSession();
+      await chrome.close();
+    }
+  } finally {
+    fs.rmSync(tmp, { recursive: true, force: true });
+  }
+  console.log('secrets test passed');
+})().catch((e) => {
+  console.error(e);
+  process.exit(1);
+});
@@ -0,0 +1,61 @@
+#!/usr/bin/env node
+
+const assert = require('assert');
+const vm = require('vm');
+const { splitSelectorScopes, scopedSelectorQuery } = require('./chrome-ws-lib');
+
+// Tiny DOM: elements match a selector by exact tag, #id or .class
+function element(tag, { id = null, cls = null, children = [], shadow = null } = {}) {
+  const el = { tagName: tag.toUpperCase(), id, cls, children };
+  if (shadow) el.shadowRoot = root(shadow);
+  return el;
+}
+
+function root(children) {
+  const all = (node) => node.children.flatMap(child => [child, ...all(child)]);
+  const matches = (el, selector) => selector === el.tagName.toLowerCase() || selector === `#${el.id}` || selector === `.${el.cls}`;
+  return {
+    children,
+    querySelector: (selector) => all({ children }).find(el => matches(el, selector)) || null,
+    querySelectorAll: (selector) => all({ children }).filter(el => matches(el, selector))
+  };
+}
+
+// Arrays from the vm context have their own prototype; copy them for deepStrictEqual
+function run(code, document) {
+  const result = vm.runInNewContext(code, { document, window: {} });
+  return Array.isArray(result) ? [...result] : result;
+}
+
+function testSplit() {
+  assert.deepStrictEqual(splitSelectorScopes('button.save'), ['button.save']);
+  assert.deepStrictEqual(splitSelectorScopes(' iframe#pay >>> input[name=card] '), ['iframe#pay', 'input[name=card]']);
+  assert.deepStrictEqual(splitSelectorScopes('my-app>>>settings-panel >>>   button'), ['my-app', 'settings-panel', 'button']);
+  assert.deepStrictEqual(splitSelectorScopes('frame=**/widget/* >>> #card'), ['frame=**/widget/*', '#card']);
+  assert.deepStrictEqual(splitSelectorScopes('a >>> >>> b'), ['a', 'b'], 'empty hops are dropped');
+}
+
+function testQueries() {
+  const save = element('button', { cls: 'save' });
+  const other = element('button', { cls: 'other' });
+  const document = root([
+    element('button', { id: 'light' }),
+    element('my-app', { shadow: [element('settings-panel', { shadow: [save, other] })] }),
+    element('plain-host')
+  ]);
+
+  assert.strictEqual(run(scopedSelectorQuery('#light', false), document).id, 'light');
+  assert.strictEqual(run(scopedSelectorQuery('my-app >>> settings-panel >>> .save', false), document), save, 'walks nested shadow roots');
+  assert.deepStrictEqual(run(scopedSelectorQuery('my-app >>> settings-panel >>> button', true), document), [save, other]);
+  assert.strictEqual(run(scopedSelectorQuery('.save', false), document), null, 'light DOM queries do not pierce shadow roots');
+  assert.strictEqual(run(scopedSelectorQuery('plain-host >>> button', false), document), null, 'hosts without a shadow root match nothing');
+  assert.deepStrictEqual(run(scopedSelectorQuery('missing >>> button', true), document), []);
+
+  const code = scopedSelectorQuery('//button[@id="x"]', false);
+  assert.ok(code.includes('XPathResult.FIRST_ORDERED_NODE_TYPE') && code.includes('document.evaluate'), 'XPath segments use document.evaluate');
+  assert.ok(scopedSelectorQuery('ref=e7', false).includes('__superpowersRefs?.get("e7")'), 'refs read the registered element');
+}
+
+testSplit();
+testQueries();
+console.log('selectors test passed');
@@ -0,0 +1,140 @@
+#!/usr/bin/env node
+
+const assert = require('assert');
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const { spawnSync } = require('child_process');
+
+const tmp = fs.mkdtempSync(path.join(os.tmpdir(), 'chrome-session-'));
+process.env.XDG_CACHE_HOME = tmp;
+
+const lib = require('./chrome-ws-lib');
+const { loadSessionRetention, pruneSessions, compareStepOutcomes, readSessionManifest } = lib;
+
+const DAY = 24 * 60 * 60 * 1000;
+
+function makeSession(root, day, name, bytes, ageMs, now) {
+  const dir = path.join(root, day, name);
+  fs.mkdirSync(dir, { recursive: true });
+  fs.writeFileSync(path.join(dir, '001-navigate.html'), 'x'.repeat(bytes));
+  const time = new Date(now - ageMs);
+  fs.utimesSync(dir, time, time);
+  return dir;
+}
+
+function testRetention() {
+  const defaults = loadSessionRetention([], {});
+  assert.strictEqual(defaults.keep, false, 'sessions are deleted on exit by default');
+
+  const fromEnv = loadSessionRetention([], { CHROME_KEEP_SESSIONS: '1', CHROME_SESSION_MAX_AGE: '12h', CHROME_SESSION_MAX_SIZE: '2GB' });
+  assert.strictEqual(fromEnv.keep, true);
+  assert.strictEqual(fromEnv.maxAgeMs, 12 * 60 * 60 * 1000);
+  assert.strictEqual(fromEnv.maxBytes, 2 * 1024 ** 3);
+
+  const fromFlags = loadSessionRetention(['--keep-sessions', '--session-max-age=3', '--session-max-size=500'], { CHROME_SESSION_MAX_AGE: '12h' });
+  assert.strictEqual(fromFlags.maxAgeMs, 3 * DAY, 'bare numbers are days; flags win over env');
+  assert.strictEqual(fromFlags.maxBytes, 500 * 1024 ** 2, 'bare sizes are megabytes');
+
+  assert.throws(() => loadSessionRetention(['--session-max-age=soon'], {}), /Invalid duration/);
+  assert.throws(() => loadSessionRetention(['--session-max-size=lots'], {}), /Invalid size/);
+}
+
+function testPrune() {
+  const root = path.join(tmp, 'prune');
+  const now = Date.now();
+  const old = makeSession(root, '2026-01-01', 'session-1', 10, 10 * DAY, now);
+  const big = makeSession(root, '2026-01-05', 'session-2', 600, 3 * DAY, now);
+  const mid = makeSession(root, '2026-01-06', 'session-3', 300, 2 * DAY, now);
+  const fresh = makeSession(root, '2026-01-07', 'session-4', 300, 1 * DAY, now);
+  fs.mkdirSync(path.join(root, 'not-a-date'));
+
+  const removed = pruneSessions({ maxAgeMs: 7 * DAY, maxBytes: 700 }, root, now);
+  assert.deepStrictEqual(removed, [old, big], 'expired first, then oldest until the rest fit');
+  assert.ok(fs.existsSync(mid) && fs.existsSync(fresh));
+  assert.ok(!fs.existsSync(path.join(root, '2026-01-01')), 'empty date dirs go too');
+  assert.ok(fs.existsSync(path.join(root, 'not-a-date')), 'unrelated dirs are left alone');
+
+  assert.deepStrictEqual(pruneSessions({ maxAgeMs: 7 * DAY, maxBytes: 700 }, path.join(tmp, 'missing'), now), []);
+}
+
+function testPruneSkipsLiveSessions() {
+  const root = path.join(tmp, 'owners');
+  const now = Date.now();
+  const exited = spawnSync(process.execPath, ['-e', '']).pid;
+  const live = makeSession(root, '2026-01-01', 'session-1', 10, 10 * DAY, now);
+  const ended = makeSession(root, '2026-01-01', 'session-2', 10, 10 * DAY, now);
+  const unmarked = makeSession(root, '2026-01-01', 'session-3', 10, 10 * DAY, now);
+  fs.writeFileSync(path.join(live, '.owner'), JSON.stringify({ pid: process.pid, startedAt: now }));
+  fs.writeFileSync(path.join(ended, '.owner'), JSON.stringify({ pid: exited, startedAt: now }));
+
+  const removed = pruneSessions({ maxAgeMs: 7 * DAY, maxBytes: 0 }, root, now);
+  assert.deepStrictEqual(removed.sort(), [ended, unmarked], 'sessions whose process has exited are pruned');
+  assert.ok(fs.existsSync(live), 'a session owned by a running process is kept, however old or large');
+}
+
+function testCompare() {
+  const recorded = { ok: true, url: 'https://example.com/cart', value: 'abc' };
+  assert.deepStrictEqual(compareStepOutcomes(recorded, { ok: true, url: 'https://example.com/cart', value: 'abc' }), []);
+
+  const moved = compareStepOutcomes(recorded, { ok: true, url: 'https://example.com/login', value: 'abc' });
+  assert.deepStrictEqual(moved.map(d => d.field), ['url']);
+
+  const failed = compareStepOutcomes(recorded, { ok: false, error: 'Element not found: #buy' });
+  assert.deepStrictEqual(failed, [{ field: 'ok', recorded: 'success', replayed: 'error: Element not found: #buy' }]);
+
+  assert.deepStrictEqual(
+    compareStepOutcomes({ ok: false, error: 'Timeout after 5000ms' }, { ok: false, error: 'Timeout after 5012ms' }),
+    [],
+    'numbers in errors do not count as differences'
+  );
+  assert.deepStrictEqual(compareStepOutcomes({ ok: true }, { ok: true, url: 'https://x' }), [], 'fields not recorded are not compared');
+}
+
+async function testRecord() {
+  const mark = lib.beginSessionStep();
+  const dir = lib.initializeSession();
+  const capture = path.join(dir, `${lib.createCapturePrefix('navigate')}.png`);
+  fs.writeFileSync(capture, '');
+  const shot = path.join(tmp, 'shot.png');
+  fs.writeFileSync(shot, '');
+
+  const first = await lib.recordSessionStep(mark, { action: 'screenshot', payload: shot }, { response: `Screenshot saved to ${shot}` });
+  assert.strictEqual(first.step, 1);
+  assert.deepStrictEqual(first.outcome, { ok: true }, 'no tab, no URL');
+  assert.deepStrictEqual(first.artifacts, [capture, shot]);
+
+  const second = await lib.recordSessionStep(lib.beginSessionStep(), { action: 'extract', payload: 'text' }, { response: 'Hello' });
+  assert.match(second.outcome.value, /^[0-9a-f]{16}$/, 'extracted values are hashed, not stored');
+  assert.deepStrictEqual(second.artifacts, []);
+
+  const third = await lib.recordSessionStep(lib.beginSessionStep(), { action: 'click', selector: '#go' }, { error: 'Element not found: #go' });
+  assert.deepStrictEqual(third.outcome, { ok: false, error: 'Element not found: #go' });
+  assert.strictEqual(third.summary, 'Error: Element not found: #go');
+
+  const { file, steps } = readSessionManifest(dir);
+  assert.strictEqual(file, path.join(dir, 'session.jsonl'));
+  assert.deepStrictEqual(steps.map(s => s.action), ['screenshot', 'extract', 'click']);
+  assert.throws(() => readSessionManifest(path.join(tmp, 'nope.jsonl')), /Session manifest not found/);
+
+  const replay = await lib.replaySession(dir, { from: 1, to: 1 });
+  assert.deepStrictEqual(replay.steps.map(s => s.status), ['skipped'], 'actions without a replay handler are skipped');
+  assert.strictEqual(replay.firstDifference, null);
+}
+
+(async () => {
+  try {
+    testRetention();
+    testPrune();
+    testPruneSkipsLiveSessions();
+    testCompare();
+    await testRecord();
+  } finally {
+    lib.cleanupSession();
+    fs.rmSync(tmp, { recursive: true, force: true });
+  }
+  console.log('session log test passed');
+})().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
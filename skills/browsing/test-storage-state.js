@@ -0,0 +1,163 @@
+#!/usr/bin/env node
+
+const assert = require('assert');
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const vm = require('vm');
+const { execFile } = require('child_process');
+const lib = require('./chrome-ws-lib');
+const { startFakeChrome } = require('./test-support/fake-chrome');
+
+const tmp = fs.mkdtempSync(path.join(os.tmpdir(), 'chrome-storage-'));
+
+// DOMStorage as Chrome does it: a storage id only works on a tab that has the origin loaded
+function installStorageModel(chrome) {
+  const local = new Map();    // origin -> Map
+  const session = new Map();  // targetId origin -> Map
+  const originsOf = (target) => [target.url, ...(target.frames || [])]
+    .map(url => { try { return new URL(url).origin; } catch (e) { return null; } })
+    .filter(origin => origin && origin.startsWith('http'));
+  const area = (target, storageId) => {
+    if (!originsOf(target).includes(storageId.securityOrigin)) {
+      throw new Error('Frame not found for the given storage id');
+    }
+    const map = storageId.isLocalStorage ? local : session;
+    const key = storageId.isLocalStorage ? storageId.securityOrigin : `${target.id} ${storageId.securityOrigin}`;
+    if (!map.has(key)) map.set(key, new Map());
+    return map.get(key);
+  };
+
+  chrome.handle('Page.getFrameTree', (params, target) => ({
+    frameTree: {
+      frame: { id: 'main', url: target.url },
+      childFrames: (target.frames || []).map((url, i) => ({ frame: { id: `f${i}`, url } }))
+    }
+  }));
+  chrome.handle('DOMStorage.getDOMStorageItems', ({ storageId }, target) => ({ entries: [...area(target, storageId)] }));
+  chrome.handle('DOMStorage.setDOMStorageItem', ({ storageId, key, value }, target) => {
+    area(target, storageId).set(key, value);
+  });
+  chrome.handle('Storage.getCookies', () => ({ cookies: [{ name: 'sid', value: 'abc', domain: 'a.test', path: '/', expires: -1, session: true }] }));
+
+  // Targets in browser contexts, and navigations that finish loading
+  chrome.handle('Target.getTargets', () => ({
+    targetInfos: [...chrome.targets.values()].map(t => ({ targetId: t.id, type: t.type, url: t.url, browserContextId: t.browserContextId }))
+  }));
+  chrome.handle('Target.createTarget', ({ url, browserContextId }) => ({ targetId: chrome.addTarget({ url, browserContextId }).id }));
+  chrome.handle('Page.navigate', ({ url }, target) => {
+    if (model.unreachable.has(new URL(url).origin)) throw new Error('net::ERR_FAILED');
+    target.url = url;
+    setTimeout(() => chrome.emit(target.id, 'Page.loadEventFired', {}), 10);
+    return { frameId: 'main' };
+  });
+  const model = { local, session, unreachable: new Set() };
+  return model;
+}
+
+// Run a seed script the way a new document would, against in-memory storage
+function runSeedScript(source, origin, existing = {}) {
+  const makeStorage = (initial) => {
+    const map = new Map(Object.entries(initial));
+    return { map, getItem: (k) => map.has(k) ? map.get(k) : null, setItem: (k, v) => map.set(k, String(v)) };
+  };
+  const window = { localStorage: makeStorage(existing), sessionStorage: makeStorage({}) };
+  vm.runInNewContext(source, { window, location: { origin } });
+  return { local: Object.fromEntries(window.localStorage.map), session: Object.fromEntries(window.sessionStorage.map) };
+}
+
+async function testRoundTrip(chrome, model) {
+  const a = chrome.addTarget({ url: 'https://a.test/app', frames: ['https://widgets.c.test/embed', 'about:blank'], browserContextId: 'CTX-A' });
+  chrome.addTarget({ url: 'https://b.test/', browserContextId: 'CTX-A' });
+  chrome.addTarget({ url: 'https://d.test/', browserContextId: 'CTX-B' });
+  model.local.set('https://a.test', new Map([['token', 'a-token'], ['theme', 'dark']]));
+  model.local.set('https://b.test', new Map([['cart', '[1,2]']]));
+  model.local.set('https://widgets.c.test', new Map([['w', '1']]));
+  model.local.set('https://d.test', new Map([['other', 'context']]));
+  model.session.set(`${a.id} https://a.test`, new Map([['step', '2']]));
+
+  const statePath = path.join(tmp, 'state.json');
+  const exported = await lib.exportStorageState(a.id, statePath, { origins: ['https://closed.test/page', 'https://d.test'] });
+  assert.deepStrictEqual(exported.skipped, ['https://closed.test', 'https://d.test'],
+    'origins no tab in this context has loaded are skipped, not an error');
+  assert.strictEqual(exported.origins, 3);
+  assert.deepStrictEqual(chrome.callsTo('Storage.getCookies').map(call => call.params), [{ browserContextId: 'CTX-A' }],
+    'cookies come from the same context as the storage');
+
+  const state = JSON.parse(fs.readFileSync(statePath, 'utf8'));
+  const byOrigin = Object.fromEntries(state.origins.map(o => [o.origin, o]));
+  assert.deepStrictEqual(byOrigin['https://b.test'].localStorage, [{ name: 'cart', value: '[1,2]' }], 'b.test is read through its own tab');
+  assert.deepStrictEqual(byOrigin['https://widgets.c.test'].localStorage, [{ name: 'w', value: '1' }], 'iframe origins are exported');
+  assert.deepStrictEqual(byOrigin['https://a.test'].sessionStorage, [{ name: 'step', value: '2' }]);
+  assert.strictEqual(state.cookies.length, 1);
+
+  // Import into a fresh about:blank tab: localStorage goes through temporary tabs, sessionStorage is seeded
+  for (const origin of ['https://a.test', 'https://b.test', 'https://widgets.c.test']) model.local.delete(origin);
+  model.unreachable.add('https://widgets.c.test');
+  const fresh = chrome.addTarget({ url: 'about:blank', browserContextId: 'CTX-A' });
+  const targetCount = chrome.targets.size;
+  const imported = await lib.importStorageState(fresh.id, statePath);
+  assert.deepStrictEqual(imported.pending.sort(), ['https://a.test', 'https://widgets.c.test'],
+    'sessionStorage and origins that could not be loaded stay pending');
+  assert.strictEqual(imported.items, 5);
+  assert.strictEqual(chrome.callsTo('Network.setCookies').length, 1);
+  assert.ok(!chrome.callsTo('DOMStorage.setDOMStorageItem').some(call => call.target === fresh.id), 'no storage ids for unloaded origins');
+
+  assert.deepStrictEqual([...model.local.get('https://a.test')], [['token', 'a-token'], ['theme', 'dark']]);
+  assert.deepStrictEqual([...model.local.get('https://b.test')], [['cart', '[1,2]']]);
+  assert.ok(!model.local.has('https://widgets.c.test'));
+  const writers = chrome.callsTo('Target.createTarget');
+  assert.deepStrictEqual(writers.map(call => call.params.browserContextId), ['CTX-A', 'CTX-A', 'CTX-A'], 'temporary tabs share the importing tab\'s context');
+  assert.strictEqual(chrome.targets.size, targetCount, 'temporary tabs are closed');
+
+  const [seedCall] = chrome.callsTo('Page.addScriptToEvaluateOnNewDocument').filter(call => call.target === fresh.id && call.params.source.includes('step'));
+  assert.ok(seedCall, 'seed script registered on the importing tab');
+  assert.deepStrictEqual(runSeedScript(seedCall.params.source, 'https://a.test', { theme: 'light' }), {
+    local: { theme: 'light' },
+    session: { step: '2' }
+  }, 'only what could not be written is seeded');
+  assert.deepStrictEqual(runSeedScript(seedCall.params.source, 'https://widgets.c.test', { w: '0' }).local, { w: '0' },
+    'seeding keeps what the page already has');
+  assert.deepStrictEqual(runSeedScript(seedCall.params.source, 'https://b.test'), { local: {}, session: {} });
+
+  // Import into a tab already on b.test: that origin is written right away
+  const onB = chrome.addTarget({ url: 'https://b.test/checkout' });
+  model.local.delete('https://b.test');
+  const direct = await lib.importStorageState(onB.id, statePath);
+  assert.deepStrictEqual(direct.pending.sort(), ['https://a.test', 'https://widgets.c.test']);
+  assert.deepStrictEqual([...model.local.get('https://b.test')], [['cart', '[1,2]']]);
+}
+
+// The CLI exits right after importing, so sessionStorage it could only seed is an error
+async function testCliPending(chrome) {
+  const statePath = path.join(tmp, 'session-only.json');
+  fs.writeFileSync(statePath, JSON.stringify({ cookies: [], origins: [{ origin: 'https://e.test', sessionStorage: [{ name: 'step', value: '1' }] }] }));
+  const fresh = chrome.addTarget({ url: 'about:blank' });
+
+  const result = await new Promise(resolve => {
+    execFile(process.execPath, [path.join(__dirname, 'chrome-ws'), 'storage-import', fresh.id, statePath], {
+      env: { ...process.env, CHROME_WS_PORT: String(chrome.port) },
+      timeout: 20000
+    }, (error, stdout, stderr) => resolve({ code: error ? error.code : 0, stdout, stderr }));
+  });
+  assert.strictEqual(result.code, 1, result.stderr);
+  assert.match(result.stdout, /Imported 0 cookies and 1 storage items \(1 origins\)/);
+  assert.match(result.stderr, /Storage not applied for https:\/\/e\.test: sessionStorage needs the tab on that origin/);
+}
+
+(async () => {
+  const chrome = await startFakeChrome();
+  try {
+    await lib.setDebugPort(chrome.port);
+    await testRoundTrip(chrome, installStorageModel(chrome));
+    await testCliPending(chrome);
+  } finally {
+    lib.closeAllConnections();
+    await chrome.close();
+    fs.rmSync(tmp, { recursive: true, force: true });
+  }
+  console.log('storage state test passed');
+})().catch((e) => {
+  console.error(e);
+  process.exit(1);
+});
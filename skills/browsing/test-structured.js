@@ -0,0 +1,50 @@
+#!/usr/bin/env node
+
+const assert = require('assert');
+const { normalizeFieldSpecs, parseNumberText, tableToRows } = require('./chrome-ws-lib');
+
+function testFieldSpecs() {
+  const specs = normalizeFieldSpecs({
+    title: 'h2',
+    url: { selector: 'a', attr: 'href' },
+    price: { selector: '.price', type: 'number' },
+    id: { attr: 'data-id' },
+    tags: { selector: '.tag', all: true }
+  });
+  assert.deepStrictEqual(specs, [
+    { name: 'title', selector: 'h2', type: 'text', attr: null, all: false },
+    { name: 'url', selector: 'a', type: 'attr', attr: 'href', all: false },
+    { name: 'price', selector: '.price', type: 'number', attr: null, all: false },
+    { name: 'id', selector: '', type: 'attr', attr: 'data-id', all: false },
+    { name: 'tags', selector: '.tag', type: 'text', attr: null, all: true }
+  ]);
+
+  assert.throws(() => normalizeFieldSpecs({}), /fields must map/);
+  assert.throws(() => normalizeFieldSpecs({ a: { selector: 'b', type: 'json' } }), /Invalid type/);
+  assert.throws(() => normalizeFieldSpecs({ a: { selector: 'b', type: 'attr' } }), /needs an attr/);
+  assert.throws(() => normalizeFieldSpecs({ a: 'my-el >>> span' }), /cannot use >>>/);
+}
+
+function testNumbers() {
+  assert.strictEqual(parseNumberText('$1,234.50'), 1234.5);
+  assert.strictEqual(parseNumberText('1.234,50 €'), 1234.5);
+  assert.strictEqual(parseNumberText('12,5 kg'), 12.5);
+  assert.strictEqual(parseNumberText('1,234,567'), 1234567);
+  assert.strictEqual(parseNumberText('1 234'), 1234);
+  assert.strictEqual(parseNumberText('-12%'), -12);
+  assert.strictEqual(parseNumberText('4.5 out of 5'), 4.5);
+  assert.strictEqual(parseNumberText('Sold out'), null);
+  assert.strictEqual(parseNumberText(null), null);
+}
+
+function testTableRows() {
+  const rows = tableToRows(['Name', 'Price', 'Name', ''], [['Ada', '10', 'x', 'y'], ['Bob', '12', 'z', 'w', 'extra']]);
+  assert.deepStrictEqual(rows[0], { Name: 'Ada', Price: '10', Name_2: 'x', column_4: 'y', column_5: null });
+  assert.strictEqual(rows[1].column_5, 'extra', 'cells beyond the header get column_N keys');
+  assert.deepStrictEqual(tableToRows([], [['a', 'b']]), [{ column_1: 'a', column_2: 'b' }], 'headerless tables use column_N');
+}
+
+testFieldSpecs();
+testNumbers();
+testTableRows();
+console.log('structured extraction test passed');
@@ -0,0 +1,195 @@
+/**
+ * Fake DevTools endpoint for tests: /json, /json/version, /json/new,
+ * /json/activate and /json/close over HTTP, and CDP over WebSocket for page
+ * and browser targets.
+ *
+ *   const chrome = await startFakeChrome();
+ *   chrome.addTarget({ id: 'A1', url: 'https://a.test/' });
+ *   chrome.handle('DOMStorage.getDOMStorageItems', (params, target) => ({ entries: [] }));
+ *   chrome.emit('A1', 'Network.loadingFinished', { requestId: '1' });
+ *
+ * Commands without a handler answer {}. A handler that throws answers with a
+ * CDP error. Every command is kept in chrome.calls as { target, method, params },
+ * and every /json/activate target id in chrome.activated.
+ */
+
+const http = require('http');
+const crypto = require('crypto');
+
+const WEBSOCKET_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+
+function encodeFrame(text) {
+  const payload = Buffer.from(text, 'utf8');
+  let header;
+  if (payload.length < 126) {
+    header = Buffer.from([0x81, payload.length]);
+  } else if (payload.length < 65536) {
+    header = Buffer.alloc(4);
+    header[0] = 0x81;
+    header[1] = 126;
+    header.writeUInt16BE(payload.length, 2);
+  } else {
+    header = Buffer.alloc(10);
+    header[0] = 0x81;
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(payload.length), 2);
+  }
+  return Buffer.concat([header, payload]);
+}
+
+// Client frames are always masked; yields { opcode, text } and the unread rest
+function decodeFrames(buffer) {
+  const frames = [];
+  while (buffer.length >= 2) {
+    const opcode = buffer[0] & 0x0f;
+    let length = buffer[1] & 0x7f;
+    let offset = 2;
+    if (length === 126) {
+      if (buffer.length < 4) break;
+      length = buffer.readUInt16BE(2);
+      offset = 4;
+    } else if (length === 127) {
+      if (buffer.length < 10) break;
+      length = Number(buffer.readBigUInt64BE(2));
+      offset = 10;
+    }
+    if (buffer.length < offset + 4 + length) break;
+    const mask = buffer.slice(offset, offset + 4);
+    const payload = Buffer.from(buffer.slice(offset + 4, offset + 4 + length));
+    for (let i = 0; i < payload.length; i++) payload[i] ^= mask[i % 4];
+    frames.push({ opcode, text: payload.toString('utf8') });
+    buffer = buffer.slice(offset + 4 + length);
+  }
+  return { frames, rest: buffer };
+}
+
+async function startFakeChrome() {
+  const targets = new Map();
+  const handlers = new Map();
+  const sockets = new Map(); // target id -> Set of sockets
+  const calls = [];
+  const activated = [];
+  let nextTarget = 1;
+
+  const server = http.createServer();
+  await new Promise(resolve => server.listen(0, '127.0.0.1', resolve));
+  const port = server.address().port;
+
+  const wsUrlFor = (id) => `ws://127.0.0.1:${port}/devtools/${id === 'browser' ? 'browser/fake' : 'page/' + id}`;
+  const describe = (target) => ({
+    id: target.id,
+    type: target.type,
+    title: target.title || '',
+    url: target.url,
+    browserContextId: target.browserContextId,
+    webSocketDebuggerUrl: wsUrlFor(target.id)
+  });
+
+  const chrome = {
+    port,
+    targets,
+    calls,
+    activated,
+
+    addTarget(target = {}) {
+      const entry = { id: `T${nextTarget++}`, type: 'page', url: 'about:blank', ...target };
+      targets.set(entry.id, entry);
+      return describe(entry);
+    },
+
+    removeTarget(id) {
+      targets.delete(id);
+      for (const socket of sockets.get(id) || []) socket.destroy();
+      sockets.delete(id);
+    },
+
+    handle(method, handler) {
+      handlers.set(method, handler);
+    },
+
+    emit(targetId, method, params = {}) {
+      for (const socket of sockets.get(targetId) || []) {
+        socket.write(encodeFrame(JSON.stringify({ method, params })));
+      }
+    },
+
+    callsTo(method) {
+      return calls.filter(call => call.method === method);
+    },
+
+    close() {
+      for (const set of sockets.values()) {
+        for (const socket of set) socket.destroy();
+      }
+      return new Promise(resolve => server.close(resolve));
+    }
+  };
+
+  server.on('request', (req, res) => {
+    const url = new URL(req.url, `http://127.0.0.1:${port}`);
+    let body;
+    if (url.pathname === '/json' || url.pathname === '/json/list') {
+      body = [...targets.values()].map(describe);
+    } else if (url.pathname === '/json/version') {
+      body = { Browser: 'FakeChrome/1.0', webSocketDebuggerUrl: wsUrlFor('browser') };
+    } else if (url.pathname === '/json/new') {
+      body = chrome.addTarget({ url: decodeURIComponent(url.search.slice(1)) || 'about:blank' });
+    } else if (url.pathname.startsWith('/json/activate/')) {
+      activated.push(url.pathname.slice('/json/activate/'.length));
+      body = 'Target activated';
+    } else if (url.pathname.startsWith('/json/close/')) {
+      chrome.removeTarget(url.pathname.slice('/json/close/'.length));
+      body = 'Target is closing';
+    } else {
+      res.writeHead(404);
+      res.end();
+      return;
+    }
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(typeof body === 'string' ? body : JSON.stringify(body));
+  });
+
+  server.on('upgrade', (req, socket) => {
+    const match = req.url.match(/^\/devtools\/(?:page\/(.+)|browser\/.+)$/);
+    const targetId = match && match[1] ? match[1] : 'browser';
+    if (targetId !== 'browser' && !targets.has(targetId)) {
+      socket.destroy();
+      return;
+    }
+    const accept = crypto.createHash('sha1').update(req.headers['sec-websocket-key'] + WEBSOCKET_GUID).digest('base64');
+    socket.write(`HTTP/1.1 101 Switching Protocols\r\nUpgrade: websocket\r\nConnection: Upgrade\r\nSec-WebSocket-Accept: ${accept}\r\n\r\n`);
+
+    if (!sockets.has(targetId)) sockets.set(targetId, new Set());
+    sockets.get(targetId).add(socket);
+    socket.on('close', () => sockets.get(targetId)?.delete(socket));
+    socket.on('error', () => {});
+
+    let buffer = Buffer.alloc(0);
+    socket.on('data', async (data) => {
+      const decoded = decodeFrames(Buffer.concat([buffer, data]));
+      buffer = decoded.rest;
+      for (const frame of decoded.frames) {
+        if (frame.opcode === 0x8) {
+          socket.end();
+          continue;
+        }
+        if (frame.opcode !== 0x1) continue;
+        const message = JSON.parse(frame.text);
+        const target = targetId === 'browser' ? { id: 'browser', type: 'browser' } : targets.get(targetId);
+        calls.push({ target: targetId, method: message.method, params: message.params || {} });
+        let reply;
+        try {
+          const handler = handlers.get(message.method);
+          reply = { id: message.id, result: handler ? (await handler(message.params || {}, target, chrome)) || {} : {} };
+        } catch (e) {
+          reply = { id: message.id, error: { code: -32000, message: e.message } };
+        }
+        if (!socket.destroyed) socket.write(encodeFrame(JSON.stringify(reply)));
+      }
+    });
+  });
+
+  return chrome;
+}
+
+module.exports = { startFakeChrome };
@@ -0,0 +1,331 @@
+/**
+ * Just enough DOM to run the in-page renderers (MARKDOWN_JS and friends) on
+ * fixture HTML in a vm context:
+ *
+ *   const { context } = parseHtml('<main><h1>Hi</h1></main>', 'https://a.test/');
+ *   vm.runInNewContext(`(${MARKDOWN_JS})(null, {})`, context);
+ *
+ * The parser expects well-formed markup: every non-void element is closed.
+ * Selectors are comma lists of tag, #id, .class and [attr=value] parts, without
+ * combinators. An element is hidden when it or an ancestor has the hidden
+ * attribute or an inline display: none. Images take their size from the
+ * width/height attributes.
+ */
+
+const ELEMENT_NODE = 1;
+const TEXT_NODE = 3;
+
+const VOID_ELEMENTS = new Set(['AREA', 'BR', 'COL', 'EMBED', 'HR', 'IMG', 'INPUT', 'LINK', 'META', 'SOURCE', 'TRACK', 'WBR']);
+const RAW_TEXT_ELEMENTS = new Set(['SCRIPT', 'STYLE']);
+const ENTITIES = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ' };
+
+function decodeEntities(text) {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, name) => {
+    if (name[0] === '#') {
+      return String.fromCodePoint(name[1] === 'x' || name[1] === 'X' ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10));
+    }
+    return ENTITIES[name.toLowerCase()] ?? entity;
+  });
+}
+
+class MiniNode {
+  constructor(nodeType, document) {
+    this.nodeType = nodeType;
+    this.ownerDocument = document;
+    this.parentNode = null;
+    this.childNodes = [];
+  }
+
+  get parentElement() {
+    return this.parentNode && this.parentNode.nodeType === ELEMENT_NODE ? this.parentNode : null;
+  }
+
+  get textContent() {
+    return this.childNodes.map(child => child.textContent).join('');
+  }
+
+  appendChild(child) {
+    child.parentNode = this;
+    this.childNodes.push(child);
+    return child;
+  }
+
+  remove() {
+    if (!this.parentNode) return;
+    this.parentNode.childNodes = this.parentNode.childNodes.filter(child => child !== this);
+    this.parentNode = null;
+  }
+}
+
+class MiniText extends MiniNode {
+  constructor(data, document) {
+    super(TEXT_NODE, document);
+    this.data = data;
+  }
+
+  get textContent() {
+    return this.data;
+  }
+
+  cloneNode() {
+    return new MiniText(this.data, this.ownerDocument);
+  }
+}
+
+// Compound selectors: tag, #id, .class, [attr] and [attr=value]
+function parseSelector(selector) {
+  return selector.split(',').map(part => {
+    const compound = part.trim();
+    const tests = [];
+    const pattern = /^([a-z][a-z0-9-]*|\*)|#([\w-]+)|\.([\w-]+)|\[([\w-]+)(?:=(?:"([^"]*)"|'([^']*)'|([^\]]*)))?\]/gi;
+    let consumed = 0;
+    let match;
+    while ((match = pattern.exec(compound)) && match[0]) {
+      if (match.index !== consumed) break;
+      consumed += match[0].length;
+      const [, tag, id, cls, attr, double, single, bare] = match;
+      if (tag) tests.push(el => tag === '*' || el.tagName === tag.toUpperCase());
+      if (id) tests.push(el => el.id === id);
+      if (cls) tests.push(el => el.className.split(/\s+/).includes(cls));
+      if (attr) {
+        const value = double ?? single ?? bare;
+        tests.push(el => el.hasAttribute(attr) && (value === undefined || el.getAttribute(attr) === value));
+      }
+    }
+    if (consumed !== compound.length || tests.length === 0) {
+      throw new Error(`mini-dom does not support the selector "${compound}"`);
+    }
+    return el => tests.every(test => test(el));
+  });
+}
+
+class MiniElement extends MiniNode {
+  constructor(tagName, attributes, document) {
+    super(ELEMENT_NODE, document);
+    this.tagName = tagName.toUpperCase();
+    this.attributes = new Map(attributes);
+  }
+
+  getAttribute(name) {
+    return this.attributes.has(name) ? this.attributes.get(name) : null;
+  }
+
+  hasAttribute(name) {
+    return this.attributes.has(name);
+  }
+
+  get id() { return this.getAttribute('id') || ''; }
+  get className() { return this.getAttribute('class') || ''; }
+  get hidden() { return this.hasAttribute('hidden'); }
+  get children() { return this.childNodes.filter(child => child.nodeType === ELEMENT_NODE); }
+
+  get textContent() {
+    if (this.tagName === 'INPUT' || VOID_ELEMENTS.has(this.tagName)) return '';
+    return super.textContent;
+  }
+
+  cloneNode(deep) {
+    const clone = new MiniElement(this.tagName, this.attributes, this.ownerDocument);
+    if (deep) {
+      for (const child of this.childNodes) clone.appendChild(child.cloneNode(true));
+    }
+    return clone;
+  }
+
+  // Descendants in document order
+  descendants() {
+    return this.children.flatMap(child => [child, ...child.descendants()]);
+  }
+
+  matches(selector) {
+    return parseSelector(selector).some(test => test(this));
+  }
+
+  closest(selector) {
+    const tests = parseSelector(selector);
+    for (let el = this; el; el = el.parentElement) {
+      if (tests.some(test => test(el))) return el;
+    }
+    return null;
+  }
+
+  querySelectorAll(selector) {
+    const tests = parseSelector(selector);
+    return this.descendants().filter(el => tests.some(test => test(el)));
+  }
+
+  querySelector(selector) {
+    return this.querySelectorAll(selector)[0] || null;
+  }
+
+  // Inline style declarations, e.g. { display: 'none' }
+  get inlineStyle() {
+    const style = {};
+    for (const declaration of (this.getAttribute('style') || '').split(';')) {
+      const [name, value] = declaration.split(':').map(s => s && s.trim());
+      if (name && value) style[name.toLowerCase()] = value;
+    }
+    return style;
+  }
+
+  checkVisibility() {
+    for (let el = this; el; el = el.parentElement) {
+      if (el.hidden || el.inlineStyle.display === 'none') return false;
+    }
+    return true;
+  }
+
+  getClientRects() {
+    return this.checkVisibility() ? [this.getBoundingClientRect()] : [];
+  }
+
+  getBoundingClientRect() {
+    const width = Number(this.getAttribute('width')) || 0;
+    const height = Number(this.getAttribute('height')) || 0;
+    return { x: 0, y: 0, width, height };
+  }
+
+  // Form controls
+  get type() {
+    if (this.tagName === 'INPUT') return (this.getAttribute('type') || 'text').toLowerCase();
+    if (this.tagName === 'BUTTON') return (this.getAttribute('type') || 'submit').toLowerCase();
+    if (this.tagName === 'SELECT') return 'select-one';
+    if (this.tagName === 'TEXTAREA') return 'textarea';
+    return '';
+  }
+
+  get value() {
+    if (this.tagName === 'TEXTAREA') return this.textContent;
+    if (this.tagName === 'SELECT') return this.selectedOptions[0]?.getAttribute('value') ?? '';
+    return this.getAttribute('value') || '';
+  }
+
+  get checked() { return this.hasAttribute('checked'); }
+  get disabled() { return this.hasAttribute('disabled'); }
+  get required() { return this.hasAttribute('required'); }
+  get files() { return []; }
+
+  get selectedOptions() {
+    const options = this.querySelectorAll('option');
+    const selected = options.filter(option => option.hasAttribute('selected'));
+    return selected.length > 0 ? selected : options.slice(0, 1);
+  }
+
+  get labels() {
+    const document = this.ownerDocument;
+    const labels = this.id ? document.querySelectorAll('label').filter(label => label.getAttribute('for') === this.id) : [];
+    const wrapping = this.parentElement && this.parentElement.closest('label');
+    return wrapping && !labels.includes(wrapping) ? [...labels, wrapping] : labels;
+  }
+
+  get control() {
+    if (this.tagName !== 'LABEL') return undefined;
+    const target = this.getAttribute('for');
+    if (target) return this.ownerDocument.getElementById(target);
+    return this.querySelector('input, select, textarea, button');
+  }
+
+  contains(other) {
+    for (let el = other; el; el = el.parentNode) {
+      if (el === this) return true;
+    }
+    return false;
+  }
+
+  // Images and links
+  get alt() { return this.getAttribute('alt') || ''; }
+  get src() { return this.getAttribute('src') ? new URL(this.getAttribute('src'), this.ownerDocument.location.href).href : ''; }
+  get currentSrc() { return this.src; }
+  get complete() { return true; }
+  get naturalWidth() { return Number(this.getAttribute('width')) || 0; }
+  get naturalHeight() { return Number(this.getAttribute('height')) || 0; }
+  get href() { return this.getAttribute('href') ? new URL(this.getAttribute('href'), this.ownerDocument.location.href).href : ''; }
+
+  // Tables
+  get rows() {
+    return this.querySelectorAll('tr').filter(row => row.parentElement.closest('table') === this);
+  }
+
+  get cells() {
+    return this.children.filter(child => child.tagName === 'TD' || child.tagName === 'TH');
+  }
+
+  get colSpan() { return Number(this.getAttribute('colspan')) || 1; }
+  get caption() { return this.children.find(child => child.tagName === 'CAPTION') || null; }
+}
+
+function parseAttributes(source) {
+  const attributes = [];
+  const pattern = /([^\s=/>]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+)))?/g;
+  let match;
+  while ((match = pattern.exec(source))) {
+    attributes.push([match[1].toLowerCase(), decodeEntities(match[2] ?? match[3] ?? match[4] ?? '')]);
+  }
+  return attributes;
+}
+
+/**
+ * Parse fixture HTML into a document. Returns { document, context }, where
+ * context holds the globals page scripts expect (document, Node, location,
+ * getComputedStyle).
+ */
+function parseHtml(html, url = 'https://example.test/') {
+  const document = {
+    location: { href: url },
+    getElementById: (id) => document.documentElement.querySelectorAll('[id]').find(el => el.id === id) || null,
+    querySelector: (selector) => document.documentElement.querySelector(selector),
+    querySelectorAll: (selector) => document.documentElement.querySelectorAll(selector)
+  };
+  const root = new MiniElement('html', [], document);
+  const stack = [root];
+  const current = () => stack[stack.length - 1];
+
+  const pattern = /<!--[\s\S]*?-->|<!doctype[^>]*>|<\/([a-z][\w-]*)\s*>|<([a-z][\w-]*)((?:"[^"]*"|'[^']*'|[^'">])*)>|([^<]+)/gi;
+  let match;
+  while ((match = pattern.exec(html))) {
+    const [, closing, opening, attributeSource, text] = match;
+    if (text !== undefined) {
+      current().appendChild(new MiniText(decodeEntities(text), document));
+    } else if (closing) {
+      const tag = closing.toUpperCase();
+      const index = stack.map(el => el.tagName).lastIndexOf(tag);
+      if (index > 0) stack.length = index;
+    } else if (opening) {
+      if (opening.toLowerCase() === 'html') continue;
+      const el = current().appendChild(new MiniElement(opening, parseAttributes(attributeSource.replace(/\/$/, '')), document));
+      if (RAW_TEXT_ELEMENTS.has(el.tagName)) {
+        const end = html.toLowerCase().indexOf(`</${opening.toLowerCase()}`, pattern.lastIndex);
+        el.appendChild(new MiniText(html.slice(pattern.lastIndex, end), document));
+        pattern.lastIndex = end;
+      } else if (!VOID_ELEMENTS.has(el.tagName) && !/\/$/.test(attributeSource)) {
+        stack.push(el);
+      }
+    }
+  }
+
+  // A missing <head>/<body> is implied, as in a browser
+  if (!root.children.some(el => el.tagName === 'BODY')) {
+    const body = new MiniElement('body', [], document);
+    for (const child of [...root.childNodes]) {
+      if (child.nodeType === ELEMENT_NODE && child.tagName === 'HEAD') continue;
+      child.remove();
+      body.appendChild(child);
+    }
+    root.appendChild(body);
+  }
+
+  document.documentElement = root;
+  document.body = root.children.find(el => el.tagName === 'BODY');
+  Object.defineProperty(document, 'title', { get: () => root.querySelector('title')?.textContent.trim() || '' });
+  Object.defineProperty(document, 'images', { get: () => root.querySelectorAll('img') });
+
+  const context = {
+    document,
+    location: document.location,
+    Node: { ELEMENT_NODE, TEXT_NODE },
+    getComputedStyle: (el) => ({ display: el.inlineStyle.display || 'block', position: el.inlineStyle.position || 'static' })
+  };
+  return { document, context };
+}
+
+module.exports = { parseHtml };
@@ -0,0 +1,52 @@
+#!/usr/bin/env node
+
+const assert = require('assert');
+const lib = require('./chrome-ws-lib');
+const { startFakeChrome } = require('./test-support/fake-chrome');
+
+async function testIdsAndNames(chrome) {
+  const first = chrome.addTarget({ id: 'A1B2C3D4E5F6', url: 'https://a.test/' });
+  const second = chrome.addTarget({ id: 'A1B2FFFF0000', url: 'https://b.test/' });
+  chrome.addTarget({ id: 'A1B2C3000000', type: 'service_worker', url: 'https://a.test/sw.js' });
+
+  assert.strictEqual(await lib.resolveWsUrl(first.id), first.webSocketDebuggerUrl);
+  assert.strictEqual(await lib.resolveWsUrl('A1B2C3'), first.webSocketDebuggerUrl, 'non-page targets do not make a prefix ambiguous');
+  assert.strictEqual(await lib.resolveWsUrl('a1b2ff'), second.webSocketDebuggerUrl, 'prefixes are case-insensitive');
+  await assert.rejects(lib.resolveWsUrl('a1b2'), /Tab id prefix "a1b2" matches 2 tabs \(A1B2C3D4E5F6, A1B2FFFF0000\); use more characters/);
+  await assert.rejects(lib.resolveWsUrl('A1B'), /No tab with id or name "A1B"/, 'prefixes need at least 4 characters');
+
+  const named = await lib.newTab('https://c.test/', 'checkout');
+  assert.strictEqual(await lib.resolveWsUrl('checkout'), named.webSocketDebuggerUrl);
+  chrome.removeTarget(named.id);
+  await assert.rejects(lib.resolveWsUrl('checkout'), /Tab "checkout" is closed/);
+
+  await assert.rejects(lib.resolveWsUrl('FFFF9999'), /No tab with id or name "FFFF9999" \(see list_tabs\)/);
+  assert.strictEqual(await lib.resolveWsUrl('ws://127.0.0.1:1/devtools/page/X'), 'ws://127.0.0.1:1/devtools/page/X');
+}
+
+async function testIndexes(chrome) {
+  const tabs = await lib.getTabs();
+  assert.strictEqual(await lib.resolveWsUrl(1), tabs[1].webSocketDebuggerUrl);
+  assert.strictEqual(await lib.resolveWsUrl('0'), tabs[0].webSocketDebuggerUrl);
+  await assert.rejects(lib.resolveWsUrl(5), /Tab index 5 out of range \(0-1\)/);
+
+  for (const tab of tabs) chrome.removeTarget(tab.id);
+  const created = await lib.resolveWsUrl(0);
+  assert.strictEqual(created, (await lib.getTabs())[0].webSocketDebuggerUrl, 'index 0 opens a tab when none are open');
+}
+
+(async () => {
+  const chrome = await startFakeChrome();
+  try {
+    await lib.setDebugPort(chrome.port);
+    await testIdsAndNames(chrome);
+    await testIndexes(chrome);
+  } finally {
+    lib.closeAllConnections();
+    await chrome.close();
+  }
+  console.log('tabs test passed');
+})().catch((e) => {
+  console.error(e);
+  process.exit(1);
+});
@@ -0,0 +1,137 @@
+#!/usr/bin/env node
+
+const assert = require('assert');
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const zlib = require('zlib');
+const { decodePng, encodePng, compareImages, comparePngFiles } = require('./chrome-ws-lib');
+
+const tmp = fs.mkdtempSync(path.join(os.tmpdir(), 'visual-diff-'));
+
+function solidImage(width, height, [r, g, b, a = 255]) {
+  const data = Buffer.alloc(width * height * 4);
+  for (let i = 0; i < data.length; i += 4) {
+    data[i] = r; data[i + 1] = g; data[i + 2] = b; data[i + 3] = a;
+  }
+  return { width, height, data };
+}
+
+function setPixel(image, x, y, [r, g, b]) {
+  const i = (y * image.width + x) * 4;
+  image.data[i] = r; image.data[i + 1] = g; image.data[i + 2] = b;
+}
+
+function testRoundTrip() {
+  const image = solidImage(7, 5, [10, 20, 30]);
+  setPixel(image, 3, 2, [200, 100, 50]);
+  const decoded = decodePng(encodePng(image));
+  assert.strictEqual(decoded.width, 7);
+  assert.strictEqual(decoded.height, 5);
+  assert.ok(decoded.data.equals(image.data), 'encode/decode keeps every pixel');
+  assert.throws(() => decodePng(Buffer.from('not a png')), /Not a PNG/);
+}
+
+// RGB image using every filter type, as Chrome's encoder picks them per row
+function testFilters() {
+  const width = 4;
+  const rows = [[1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12], [5, 5, 5, 6, 6, 6, 7, 7, 7, 8, 8, 8], [9, 8, 7, 6, 5, 4, 3, 2, 1, 0, 255, 254], [0, 0, 0, 100, 100, 100, 200, 200, 200, 50, 60, 70], [3, 3, 3, 3, 3, 3, 3, 3, 3, 3, 3, 3]];
+  const paeth = (a, b, c) => {
+    const p = a + b - c;
+    const pa = Math.abs(p - a), pb = Math.abs(p - b), pc = Math.abs(p - c);
+    return pa <= pb && pa <= pc ? a : pb <= pc ? b : c;
+  };
+  const raw = [];
+  rows.forEach((row, y) => {
+    const prev = rows[y - 1] || new Array(row.length).fill(0);
+    raw.push(y);
+    row.forEach((value, i) => {
+      const left = i >= 3 ? row[i - 3] : 0;
+      const up = prev[i];
+      const upLeft = i >= 3 ? prev[i - 3] : 0;
+      const predicted = [0, left, up, (left + up) >> 1, paeth(left, up, upLeft)][y];
+      raw.push((value - predicted) & 0xff);
+    });
+  });
+  const chunk = (type, data) => {
+    const out = Buffer.alloc(12 + data.length);
+    out.writeUInt32BE(data.length, 0);
+    out.write(type, 4, 'latin1');
+    data.copy(out, 8);
+    return out; // decoder does not verify CRCs
+  };
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(width, 0);
+  header.writeUInt32BE(rows.length, 4);
+  header[8] = 8;
+  header[9] = 2;
+  const png = Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    chunk('IHDR', header),
+    chunk('IDAT', zlib.deflateSync(Buffer.from(raw))),
+    chunk('IEND', Buffer.alloc(0))
+  ]);
+
+  const decoded = decodePng(png);
+  rows.forEach((row, y) => {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      assert.deepStrictEqual([...decoded.data.subarray(i, i + 4)], [...row.slice(x * 3, x * 3 + 3), 255], `filter ${y}, pixel ${x}`);
+    }
+  });
+}
+
+function testCompare() {
+  const base = solidImage(10, 10, [255, 255, 255]);
+  const same = compareImages(base, solidImage(10, 10, [250, 250, 250]));
+  assert.strictEqual(same.mismatchedPixels, 0, 'tiny colour shifts stay under the threshold');
+
+  const changed = solidImage(10, 10, [255, 255, 255]);
+  for (let x = 0; x < 5; x++) setPixel(changed, x, 0, [0, 0, 0]);
+  const result = compareImages(base, changed);
+  assert.strictEqual(result.mismatchedPixels, 5);
+  assert.strictEqual(result.mismatchPercent, 5);
+  assert.deepStrictEqual([...result.diff.data.subarray(0, 4)], [255, 0, 0, 255], 'changed pixels are red in the diff');
+
+  const ignored = compareImages(base, changed, { ignore: [{ x: 0, y: 0, width: 3, height: 1 }] });
+  assert.strictEqual(ignored.mismatchedPixels, 2, 'ignored regions are skipped');
+  assert.strictEqual(ignored.comparedPixels, 97);
+
+  const strict = compareImages(base, solidImage(10, 10, [250, 250, 250]), { threshold: 0 });
+  assert.strictEqual(strict.mismatchedPixels, 100, 'threshold 0 flags any change');
+  assert.throws(() => compareImages(base, base, { threshold: 2 }), /threshold/);
+
+  const taller = compareImages(base, solidImage(10, 12, [255, 255, 255]));
+  assert.ok(taller.sizeMismatch);
+  assert.strictEqual(taller.mismatchedPixels, 20, 'pixels only one image has count as changed');
+
+  const transparent = compareImages(base, solidImage(10, 10, [0, 0, 0, 0]));
+  assert.strictEqual(transparent.mismatchedPixels, 0, 'transparent pixels compare as white');
+}
+
+function testFiles() {
+  const before = path.join(tmp, 'before.png');
+  const after = path.join(tmp, 'after.png');
+  const diff = path.join(tmp, 'diff.png');
+  fs.writeFileSync(before, encodePng(solidImage(4, 4, [0, 0, 255])));
+  fs.writeFileSync(after, encodePng(solidImage(4, 4, [0, 0, 255])));
+  const unchanged = comparePngFiles(before, after, diff);
+  assert.strictEqual(unchanged.diff, null, 'no diff image without changes');
+  assert.ok(!fs.existsSync(diff));
+
+  fs.writeFileSync(after, encodePng(solidImage(4, 4, [255, 0, 0])));
+  const changed = comparePngFiles(before, after, diff);
+  assert.strictEqual(changed.mismatchPercent, 100);
+  assert.strictEqual(changed.diff, diff);
+  assert.strictEqual(decodePng(fs.readFileSync(diff)).width, 4);
+}
+
+try {
+  testRoundTrip();
+  testFilters();
+  testCompare();
+  testFiles();
+} finally {
+  fs.rmSync(tmp, { recursive: true, force: true });
+}
+console.log('visual diff test passed');